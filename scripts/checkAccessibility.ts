@@ -0,0 +1,124 @@
+/**
+ * Renders the app's main views in jsdom and runs axe against each, exiting
+ * non-zero on any WCAG 2.1 A/AA violation. jsdom does no layout, so axe
+ * leaves rules that need it, such as color contrast, unchecked; the in-app
+ * check in development builds covers those in a real browser.
+ *
+ * Run with `npm run check:a11y`.
+ */
+import { readFile } from 'node:fs/promises';
+import 'fake-indexeddb/auto';
+import { JSDOM, VirtualConsole } from 'jsdom';
+
+// The real page shell, so its title and language count too. jsdom leaves its
+// inline script unrun, and its "not implemented" errors (axe probes canvas
+// while matching the contrast rule) are noise here.
+const dom = new JSDOM(await readFile(new URL('../index.html', import.meta.url), 'utf8'), {
+  url: 'http://localhost:5173/',
+  pretendToBeVisual: true,
+  virtualConsole: new VirtualConsole().sendTo(console, { omitJSDOMErrors: true }),
+});
+const { window } = dom;
+
+// What jsdom leaves out and the app expects from a browser.
+Object.assign(window, {
+  matchMedia: (query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    addListener: () => {},
+    removeListener: () => {},
+    dispatchEvent: () => false,
+  }),
+  ResizeObserver: class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  },
+  scrollTo: () => {},
+});
+window.HTMLElement.prototype.scrollIntoView = () => {};
+
+// Browser globals the app and axe read, taken from the jsdom window where
+// Node has none of its own.
+for (const key of Object.getOwnPropertyNames(window)) {
+  if (!(key in globalThis)) {
+    Object.defineProperty(globalThis, key, { configurable: true, get: () => window[key as keyof typeof window] });
+  }
+}
+Object.defineProperty(globalThis, 'navigator', { configurable: true, value: window.navigator });
+
+const [{ createElement }, { createRoot }, { default: App }, { ThemeProvider }, { I18nProvider }, { checkAccessibility }, { default: en }] =
+  await Promise.all([
+    import('react'),
+    import('react-dom/client'),
+    import('../src/App'),
+    import('../src/ThemeContext'),
+    import('../src/I18nProvider'),
+    import('../src/accessibilityCheck'),
+    import('../src/locales/en'),
+  ]);
+
+const settle = (ms = 300) => new Promise(resolve => setTimeout(resolve, ms));
+
+const clickButton = (label: string) => {
+  const button = [...document.querySelectorAll('button')].find(candidate => candidate.textContent?.includes(label));
+  if (!button) {
+    throw new Error(`No button labelled "${label}"`);
+  }
+  button.click();
+};
+
+const renderApp = async (storage: Record<string, string> = {}) => {
+  localStorage.clear();
+  Object.entries(storage).forEach(([key, value]) => localStorage.setItem(key, value));
+  const container = document.getElementById('root')!;
+  const root = createRoot(container);
+  root.render(createElement(ThemeProvider, null, createElement(I18nProvider, null, createElement(App))));
+  await settle();
+  return root;
+};
+
+const now = Date.now();
+const signedIn = {
+  session: JSON.stringify({
+    account: { id: 'alice', name: 'Alice Example', method: 'password', lastUsedAt: now },
+    expiresAt: now + 60 * 60_000,
+    idleExpiresAt: now + 15 * 60_000,
+  }),
+};
+
+const views: Array<{ name: string; storage?: Record<string, string>; open?: () => void }> = [
+  { name: 'sign-in' },
+  { name: 'sign-up', open: () => clickButton(en['signIn.createAccount']) },
+  { name: 'account', storage: signedIn },
+  { name: 'change-password', storage: signedIn, open: () => clickButton(en['changePassword.open']) },
+];
+
+let failed = 0;
+for (const view of views) {
+  const root = await renderApp(view.storage);
+  if (view.open) {
+    view.open();
+    await settle();
+  }
+  const violations = await checkAccessibility(document);
+  if (violations.length === 0) {
+    console.log(`✓ ${view.name}`);
+  } else {
+    failed += violations.length;
+    console.log(`✗ ${view.name}: ${violations.length} violation(s)`);
+    for (const violation of violations) {
+      console.log(`  ${violation.id} (${violation.impact ?? 'unknown'}): ${violation.help}`);
+      violation.targets.forEach(target => console.log(`    ${target}`));
+      console.log(`    ${violation.helpUrl}`);
+    }
+  }
+  root.unmount();
+}
+
+window.close();
+// Open channels and timers from the app would keep Node running.
+process.exit(failed > 0 ? 1 : 0);
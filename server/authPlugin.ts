@@ -0,0 +1,249 @@
+import type { Connect, Plugin } from 'vite';
+import { AuthStore, MIN_PASSWORD_LENGTH, SESSION_COOKIE, type AuthStoreOptions } from './authStore';
+import { renderInitialsAvatar } from './avatar';
+import { HttpError, decodePathSegment, parseCookies, readJson, sendJson, serializeCookie } from './http';
+import type { MockIdentityProvider } from './identityProvider';
+import { createPasskeyMiddleware } from './passkeyMiddleware';
+import type { RelyingParty } from './relyingParty';
+import type { TotpVerifier } from './totp';
+import { createTotpMiddleware } from './totpMiddleware';
+
+export interface AuthServiceOptions extends AuthStoreOptions {
+  identityProvider?: MockIdentityProvider;
+  relyingParty?: RelyingParty;
+  totp?: TotpVerifier;
+}
+
+interface LoginBody {
+  username?: unknown;
+  password?: unknown;
+}
+
+interface RegisterBody extends LoginBody {
+  displayName?: unknown;
+}
+
+interface ChangePasswordBody {
+  currentPassword?: unknown;
+  newPassword?: unknown;
+}
+
+interface FederatedLoginBody {
+  code?: unknown;
+  redirectUri?: unknown;
+}
+
+export function createAuthMiddleware(store: AuthStore, identityProvider?: MockIdentityProvider, totp?: TotpVerifier): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith('/api/auth/')) {
+      next();
+      return;
+    }
+
+    const secure = 'encrypted' in req.socket && Boolean(req.socket.encrypted);
+    const sessionId = parseCookies(req)[SESSION_COOKIE];
+
+    try {
+      if (req.method === 'POST' && url.pathname === '/api/auth/login') {
+        const { username, password } = await readJson<LoginBody>(req);
+        if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+          throw new HttpError(400, 'invalid_request', 'Both username and password are required');
+        }
+
+        const result = store.checkPassword(username, password);
+        if (result.ok && totp?.isEnrolled(result.user.username)) {
+          // No session yet: the client redeems the challenge with a code at
+          // /api/auth/totp/verify.
+          const { challenge, expiresAt } = totp.issueChallenge(result.user);
+          sendJson(res, 200, { secondFactor: 'totp', challenge, challengeExpiresAt: expiresAt, digits: totp.digits });
+        } else if (result.ok) {
+          const { sessionId, expiresAt, idleExpiresAt } = store.createSession(result.user);
+          sendJson(res, 200, { user: result.user, expiresAt, idleExpiresAt }, {
+            'Set-Cookie': serializeCookie(SESSION_COOKIE, sessionId, {
+              maxAge: Math.floor(store.sessionTtlMs / 1000),
+              secure,
+            }),
+          });
+        } else if (result.reason === 'account_locked') {
+          const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+          sendJson(res, 423, { error: result.reason, message: 'Too many failed attempts', retryAfter }, {
+            'Retry-After': String(retryAfter),
+          });
+        } else {
+          sendJson(res, 401, {
+            error: result.reason,
+            message: 'Invalid username or password',
+            remainingAttempts: result.remainingAttempts,
+          });
+        }
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/auth/register') {
+        const { username, password, displayName } = await readJson<RegisterBody>(req);
+        if (typeof username !== 'string' || typeof password !== 'string' || !username.trim()) {
+          throw new HttpError(400, 'invalid_request', 'Both username and password are required');
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+          throw new HttpError(400, 'weak_password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        }
+
+        // Federated sign-in opens sessions under the provider's email, so a
+        // password account by that name would be the same user.
+        if (identityProvider?.findIdentity(username.trim())) {
+          throw new HttpError(409, 'username_taken', 'That username is already registered');
+        }
+        const result = store.register({
+          username: username.trim(),
+          password,
+          displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : undefined,
+        });
+        if (!result.ok) {
+          throw new HttpError(409, result.reason, 'That username is already registered');
+        }
+        sendJson(res, 201, { user: result.user, expiresAt: result.expiresAt, idleExpiresAt: result.idleExpiresAt }, {
+          'Set-Cookie': serializeCookie(SESSION_COOKIE, result.sessionId, {
+            maxAge: Math.floor(store.sessionTtlMs / 1000),
+            secure,
+          }),
+        });
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/auth/password') {
+        const user = store.getSession(sessionId);
+        if (!user) {
+          throw new HttpError(401, 'no_session', 'Not signed in');
+        }
+        const { currentPassword, newPassword } = await readJson<ChangePasswordBody>(req);
+        if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+          throw new HttpError(400, 'invalid_request', 'Both currentPassword and newPassword are required');
+        }
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+          throw new HttpError(400, 'weak_password', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        }
+
+        const result = store.changePassword(user.username, currentPassword, newPassword, sessionId);
+        if (result.ok) {
+          sendJson(res, 200, { user, revokedSessions: result.revokedSessions });
+        } else if (result.reason === 'no_password') {
+          throw new HttpError(400, result.reason, 'This account signs in with an identity provider and has no password');
+        } else if (result.reason === 'account_locked') {
+          const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+          sendJson(res, 429, { error: result.reason, message: 'Too many failed attempts', retryAfter }, {
+            'Retry-After': String(retryAfter),
+          });
+        } else {
+          sendJson(res, 401, {
+            error: result.reason,
+            message: 'Current password is incorrect',
+            remainingAttempts: result.remainingAttempts,
+          });
+        }
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/auth/federated' && identityProvider) {
+        const { code, redirectUri } = await readJson<FederatedLoginBody>(req);
+        if (typeof code !== 'string' || typeof redirectUri !== 'string') {
+          throw new HttpError(400, 'invalid_request', 'Both code and redirectUri are required');
+        }
+
+        const identity = identityProvider.redeem(code, redirectUri);
+        if (!identity) {
+          throw new HttpError(401, 'invalid_grant', 'Authorization code is invalid, expired or already used');
+        }
+
+        const user = { username: identity.email, displayName: identity.name };
+        if (totp?.isEnrolled(user.username)) {
+          // As for a password login: no session until the code is redeemed.
+          const { challenge, expiresAt } = totp.issueChallenge(user);
+          sendJson(res, 200, {
+            user,
+            identity,
+            provider: identityProvider.name,
+            secondFactor: 'totp',
+            challenge,
+            challengeExpiresAt: expiresAt,
+            digits: totp.digits,
+          });
+          return;
+        }
+        const { sessionId, expiresAt, idleExpiresAt } = store.createSession(user);
+        sendJson(res, 200, { user, identity, provider: identityProvider.name, expiresAt, idleExpiresAt }, {
+          'Set-Cookie': serializeCookie(SESSION_COOKIE, sessionId, {
+            maxAge: Math.floor(store.sessionTtlMs / 1000),
+            secure,
+          }),
+        });
+        return;
+      }
+
+      if (url.pathname === '/api/auth/session' && (req.method === 'GET' || req.method === 'POST')) {
+        // GET reports the session as it stands; POST also counts as activity.
+        const session = req.method === 'POST' ? store.touchSession(sessionId) : store.describeSession(sessionId);
+        if (session) {
+          sendJson(res, 200, session);
+        } else {
+          sendJson(res, 401, { error: 'no_session', message: 'Not signed in or the session has expired' });
+        }
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/auth/logout') {
+        store.logout(sessionId);
+        sendJson(res, 200, { ok: true }, {
+          'Set-Cookie': serializeCookie(SESSION_COOKIE, '', { maxAge: 0, secure }),
+        });
+        return;
+      }
+
+      const avatar = url.pathname.match(/^\/api\/auth\/avatar\/([^/]+)\.svg$/);
+      if (req.method === 'GET' && avatar) {
+        // Unknown names get an avatar too, so this route cannot be used to
+        // probe which usernames exist.
+        const username = decodePathSegment(avatar[1]);
+        res.setHeader('Content-Type', 'image/svg+xml');
+        res.end(renderInitialsAvatar(store.getUser(username)?.displayName ?? username));
+        return;
+      }
+
+      throw new HttpError(404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.code, message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  };
+}
+
+/**
+ * Mounts the demo authentication service under `/api/auth/*` on both the dev
+ * server and `vite preview`. Passing an identity provider enables
+ * `/api/auth/federated`, which redeems its authorization codes, and passing a
+ * relying party enables the `/api/auth/passkey/*` routes. With a TOTP
+ * verifier, users can enroll a second factor under `/api/auth/totp/*`, and
+ * every sign-in for an enrolled user, whether by password, passkey or
+ * identity provider, returns a challenge instead of a session.
+ */
+export function authService({ identityProvider, relyingParty, totp, ...options }: AuthServiceOptions = {}): Plugin {
+  const store = new AuthStore(options);
+  const middlewares = [
+    ...(relyingParty ? [createPasskeyMiddleware(store, relyingParty, totp)] : []),
+    ...(totp ? [createTotpMiddleware(store, totp)] : []),
+    createAuthMiddleware(store, identityProvider, totp),
+  ];
+
+  return {
+    name: 'demo-auth-service',
+    configureServer(server) {
+      middlewares.forEach(middleware => server.middlewares.use(middleware));
+    },
+    configurePreviewServer(server) {
+      middlewares.forEach(middleware => server.middlewares.use(middleware));
+    },
+  };
+}
@@ -0,0 +1,258 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+
+export const SESSION_COOKIE = 'demo_session';
+
+export interface SeedUser {
+  username: string;
+  password: string;
+  displayName?: string;
+}
+
+export interface AuthStoreOptions {
+  users?: SeedUser[];
+  maxFailedAttempts?: number;
+  lockoutMs?: number;
+  sessionTtlMs?: number;
+  idleTimeoutMs?: number;
+}
+
+export interface PublicUser {
+  username: string;
+  displayName: string;
+}
+
+interface UserRecord extends PublicUser {
+  salt: Buffer;
+  hash: Buffer;
+}
+
+interface LockoutState {
+  failures: number;
+  lockedUntil: number;
+}
+
+interface Session {
+  user: PublicUser;
+  expiresAt: number;
+  lastActiveAt: number;
+}
+
+/** When a session ends: at `expiresAt` regardless, or earlier once idle. */
+export interface SessionTimes {
+  expiresAt: number;
+  idleExpiresAt: number;
+}
+
+export interface SessionGrant extends SessionTimes {
+  sessionId: string;
+}
+
+export interface SessionInfo extends SessionTimes {
+  user: PublicUser;
+}
+
+export type PasswordCheckResult =
+  | { ok: true; user: PublicUser }
+  | { ok: false; reason: 'invalid_credentials'; remainingAttempts: number }
+  | { ok: false; reason: 'account_locked'; retryAfterMs: number };
+
+export type LoginResult =
+  | ({ ok: true; user: PublicUser } & SessionGrant)
+  | Exclude<PasswordCheckResult, { ok: true }>;
+
+export type RegisterResult =
+  | ({ ok: true; user: PublicUser } & SessionGrant)
+  | { ok: false; reason: 'username_taken' };
+
+export type ChangePasswordResult =
+  | { ok: true; revokedSessions: number }
+  | { ok: false; reason: 'no_password' }
+  | Exclude<PasswordCheckResult, { ok: true }>;
+
+export const DEFAULT_USERS: SeedUser[] = [
+  { username: 'alice', password: 'correct-horse-battery', displayName: 'Alice Example' },
+  { username: 'bob', password: 'tr0ub4dor&3', displayName: 'Bob Example' },
+];
+
+const KEY_LENGTH = 64;
+
+/** The service's own floor; the client applies the full policy before submitting. */
+export const MIN_PASSWORD_LENGTH = 8;
+
+function hashPassword(password: string, salt: Buffer) {
+  return scryptSync(password.normalize('NFKC'), salt, KEY_LENGTH);
+}
+
+/**
+ * In-memory user store for the demo authentication service. Passwords are kept
+ * only as salted scrypt hashes, and repeated failures lock the account.
+ */
+export class AuthStore {
+  private readonly users = new Map<string, UserRecord>();
+  private readonly lockouts = new Map<string, LockoutState>();
+  private readonly sessions = new Map<string, Session>();
+  private readonly maxFailedAttempts: number;
+  private readonly lockoutMs: number;
+  readonly sessionTtlMs: number;
+  readonly idleTimeoutMs: number;
+  // Verified against when the username is unknown, so both paths cost one scrypt.
+  private readonly dummyRecord = { salt: randomBytes(16), hash: randomBytes(KEY_LENGTH) };
+
+  constructor(options: AuthStoreOptions = {}) {
+    this.maxFailedAttempts = options.maxFailedAttempts ?? 5;
+    this.lockoutMs = options.lockoutMs ?? 5 * 60 * 1000;
+    this.sessionTtlMs = options.sessionTtlMs ?? 60 * 60 * 1000;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 15 * 60 * 1000;
+    for (const user of options.users ?? DEFAULT_USERS) {
+      this.addUser(user);
+    }
+  }
+
+  addUser({ username, password, displayName }: SeedUser) {
+    const salt = randomBytes(16);
+    this.users.set(username, {
+      username,
+      displayName: displayName ?? username,
+      salt,
+      hash: hashPassword(password, salt),
+    });
+  }
+
+  getUser(username: string): PublicUser | undefined {
+    const record = this.users.get(username);
+    return record && toPublicUser(record);
+  }
+
+  register(user: SeedUser, now = Date.now()): RegisterResult {
+    if (this.users.has(user.username)) {
+      return { ok: false, reason: 'username_taken' };
+    }
+    this.addUser(user);
+    const publicUser = toPublicUser(this.users.get(user.username)!);
+    return { ok: true, user: publicUser, ...this.createSession(publicUser, now) };
+  }
+
+  /**
+   * Replaces a user's password after re-checking the current one. The re-check
+   * counts towards the same lockout as `login`, so a session cannot be used to
+   * guess the password. Every other session for the user is revoked, so a
+   * stolen session cannot outlive it.
+   */
+  changePassword(
+    username: string,
+    currentPassword: string,
+    newPassword: string,
+    keepSessionId?: string,
+    now = Date.now(),
+  ): ChangePasswordResult {
+    const record = this.users.get(username);
+    if (!record) {
+      return { ok: false, reason: 'no_password' };
+    }
+    const check = this.checkPassword(username, currentPassword, now);
+    if (!check.ok) {
+      return check;
+    }
+
+    record.salt = randomBytes(16);
+    record.hash = hashPassword(newPassword, record.salt);
+    let revokedSessions = 0;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.user.username === username && sessionId !== keepSessionId) {
+        this.sessions.delete(sessionId);
+        revokedSessions++;
+      }
+    }
+    return { ok: true, revokedSessions };
+  }
+
+  login(username: string, password: string, now = Date.now()): LoginResult {
+    const result = this.checkPassword(username, password, now);
+    return result.ok ? { ...result, ...this.createSession(result.user, now) } : result;
+  }
+
+  /**
+   * The password half of `login`, with the same lockout, for callers that
+   * need another factor before a session is opened.
+   */
+  checkPassword(username: string, password: string, now = Date.now()): PasswordCheckResult {
+    const lockout = this.lockouts.get(username);
+    if (lockout && lockout.lockedUntil > now) {
+      return { ok: false, reason: 'account_locked', retryAfterMs: lockout.lockedUntil - now };
+    }
+
+    const record = this.users.get(username);
+    const { salt, hash } = record ?? this.dummyRecord;
+    const matches = timingSafeEqual(hashPassword(password, salt), hash);
+
+    if (!record || !matches) {
+      // An expired lockout starts a fresh count.
+      const failures = (lockout?.lockedUntil === 0 ? lockout.failures : 0) + 1;
+      if (failures >= this.maxFailedAttempts) {
+        this.lockouts.set(username, { failures, lockedUntil: now + this.lockoutMs });
+        return { ok: false, reason: 'account_locked', retryAfterMs: this.lockoutMs };
+      }
+      this.lockouts.set(username, { failures, lockedUntil: 0 });
+      return { ok: false, reason: 'invalid_credentials', remainingAttempts: this.maxFailedAttempts - failures };
+    }
+
+    this.lockouts.delete(username);
+    return { ok: true, user: toPublicUser(record) };
+  }
+
+  /** Opens a session for a user authenticated elsewhere, e.g. by a federated provider. */
+  createSession(user: PublicUser, now = Date.now()): SessionGrant {
+    const sessionId = randomBytes(32).toString('base64url');
+    const session = { user, expiresAt: now + this.sessionTtlMs, lastActiveAt: now };
+    this.sessions.set(sessionId, session);
+    return { sessionId, ...this.times(session) };
+  }
+
+  getSession(sessionId: string | undefined, now = Date.now()): PublicUser | null {
+    return this.findSession(sessionId, now)?.user ?? null;
+  }
+
+  describeSession(sessionId: string | undefined, now = Date.now()): SessionInfo | null {
+    const session = this.findSession(sessionId, now);
+    return session && { user: session.user, ...this.times(session) };
+  }
+
+  /** Records activity, pushing the idle deadline back. The absolute expiry never moves. */
+  touchSession(sessionId: string | undefined, now = Date.now()): SessionInfo | null {
+    const session = this.findSession(sessionId, now);
+    if (!session) {
+      return null;
+    }
+    session.lastActiveAt = now;
+    return { user: session.user, ...this.times(session) };
+  }
+
+  private findSession(sessionId: string | undefined, now: number) {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session) {
+      return null;
+    }
+    if (session.expiresAt <= now || session.lastActiveAt + this.idleTimeoutMs <= now) {
+      this.sessions.delete(sessionId!);
+      return null;
+    }
+    return session;
+  }
+
+  private times(session: Session): SessionTimes {
+    return {
+      expiresAt: session.expiresAt,
+      idleExpiresAt: Math.min(session.lastActiveAt + this.idleTimeoutMs, session.expiresAt),
+    };
+  }
+
+  logout(sessionId: string | undefined) {
+    if (sessionId) {
+      this.sessions.delete(sessionId);
+    }
+  }
+}
+
+function toPublicUser({ username, displayName }: UserRecord): PublicUser {
+  return { username, displayName };
+}
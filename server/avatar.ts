@@ -0,0 +1,21 @@
+import { escapeHtml } from './http';
+
+const AVATAR_COLORS = ['#2563eb', '#7c3aed', '#0891b2', '#059669', '#d97706', '#dc2626', '#db2777', '#4b5563'];
+
+/** Picks a stable colour for a name, so an account keeps its avatar across reloads. */
+export function avatarColor(seed: string) {
+  let hash = 0;
+  for (const char of seed) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+}
+
+/** A circular SVG avatar with the name's initials. */
+export function renderInitialsAvatar(name: string, color = avatarColor(name)) {
+  const initials = name.split(/\s+/).filter(Boolean).map(part => part[0]).join('').slice(0, 2).toUpperCase();
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="96" height="96" viewBox="0 0 96 96">
+  <circle cx="48" cy="48" r="48" fill="${escapeHtml(color)}"/>
+  <text x="48" y="60" font-family="system-ui, sans-serif" font-size="36" fill="#fff" text-anchor="middle">${escapeHtml(initials)}</text>
+</svg>`;
+}
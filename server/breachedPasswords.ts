@@ -0,0 +1,101 @@
+import { randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { Connect, Plugin } from 'vite';
+import { HttpError, sendJson } from './http';
+
+const DEFAULT_DATASET = new URL('./data/breached-password-hashes.txt', import.meta.url);
+const PREFIX_LENGTH = 5;
+
+export interface BreachedPasswordOptions {
+  /** A file of `SHA1:count` lines, as in the Have I Been Pwned downloads. */
+  datasetPath?: string | URL;
+  /** Padded responses are filled with decoy suffixes up to this many lines. */
+  paddedSize?: number;
+}
+
+/**
+ * Offline stand-in for the Pwned Passwords range API. Hashes are grouped by
+ * their first five hex digits, so a client only ever reveals a prefix shared
+ * by many passwords and matches the suffix itself.
+ */
+export class BreachedPasswordRange {
+  private readonly ranges = new Map<string, string[]>();
+  readonly size: number;
+  private readonly paddedSize: number;
+
+  constructor(options: BreachedPasswordOptions = {}) {
+    this.paddedSize = options.paddedSize ?? 32;
+    const lines = readFileSync(options.datasetPath ?? DEFAULT_DATASET, 'utf8')
+      .split(/\r?\n/)
+      .filter(line => line && !line.startsWith('#'));
+    for (const line of lines) {
+      const [hash, count] = line.split(':');
+      const prefix = hash.slice(0, PREFIX_LENGTH).toUpperCase();
+      const entries = this.ranges.get(prefix) ?? [];
+      entries.push(`${hash.slice(PREFIX_LENGTH).toUpperCase()}:${Number(count)}`);
+      this.ranges.set(prefix, entries);
+    }
+    this.size = lines.length;
+  }
+
+  lookup(prefix: string, pad = false): string[] {
+    const entries = [...(this.ranges.get(prefix.toUpperCase()) ?? [])];
+    if (pad) {
+      // Decoys carry a count of 0, as the real API's padding does, so response
+      // size says nothing about how many real suffixes matched.
+      while (entries.length < this.paddedSize) {
+        entries.push(`${randomBytes(18).toString('hex').slice(0, 40 - PREFIX_LENGTH).toUpperCase()}:0`);
+      }
+    }
+    return entries;
+  }
+}
+
+export function createBreachedPasswordMiddleware(range: BreachedPasswordRange): Connect.NextHandleFunction {
+  return (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith('/api/pwned/')) {
+      next();
+      return;
+    }
+
+    try {
+      const match = url.pathname.match(/^\/api\/pwned\/range\/([^/]+)$/);
+      if (req.method !== 'GET' || !match) {
+        throw new HttpError(404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+      }
+      if (!/^[0-9A-Fa-f]{5}$/.test(match[1])) {
+        throw new HttpError(400, 'invalid_prefix', 'The hash prefix must be exactly 5 hexadecimal characters');
+      }
+
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/plain');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(range.lookup(match[1], req.headers['add-padding'] === 'true').join('\r\n'));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.code, message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  };
+}
+
+/**
+ * Serves `GET /api/pwned/range/:prefix` from a local dataset on both the dev
+ * server and `vite preview`, so the breach check works offline.
+ */
+export function breachedPasswordService(options: BreachedPasswordOptions = {}): Plugin {
+  const middleware = createBreachedPasswordMiddleware(new BreachedPasswordRange(options));
+
+  return {
+    name: 'demo-breached-passwords',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+}
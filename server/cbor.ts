@@ -0,0 +1,96 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder covering what WebAuthn attestation objects
+ * and COSE keys use: integers, byte and text strings, arrays, maps and simple
+ * values. Indefinite lengths, tags and floats are rejected.
+ */
+export type CborValue = number | bigint | string | boolean | null | undefined | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+export class CborError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
+
+/** Decodes one item from the start of `data` and reports how many bytes it used. */
+export function decodeFirst(data: Buffer): { value: CborValue; length: number } {
+  let offset = 0;
+
+  const need = (count: number) => {
+    if (offset + count > data.length) {
+      throw new CborError('Unexpected end of CBOR data');
+    }
+  };
+
+  const readLength = (info: number): number => {
+    if (info < 24) {
+      return info;
+    }
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (!size) {
+      throw new CborError(`Unsupported CBOR additional info ${info}`);
+    }
+    need(size);
+    const value = size === 8 ? Number(data.readBigUInt64BE(offset)) : data.readUIntBE(offset, size);
+    offset += size;
+    return value;
+  };
+
+  const readItem = (): CborValue => {
+    need(1);
+    const initial = data[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2:
+      case 3: {
+        const length = readLength(info);
+        need(length);
+        const bytes = data.subarray(offset, offset + length);
+        offset += length;
+        return major === 2 ? Buffer.from(bytes) : bytes.toString('utf8');
+      }
+      case 4: {
+        const length = readLength(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(readItem());
+        }
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        throw new CborError(`Unsupported CBOR simple value ${info}`);
+      default:
+        throw new CborError(`Unsupported CBOR major type ${major}`);
+    }
+  };
+
+  const value = readItem();
+  return { value, length: offset };
+}
+
+export function decode(data: Buffer): CborValue {
+  const { value, length } = decodeFirst(data);
+  if (length !== data.length) {
+    throw new CborError('Trailing bytes after CBOR item');
+  }
+  return value;
+}
@@ -0,0 +1,49 @@
+import type { Connect, Plugin } from 'vite';
+
+/**
+ * Parses `VITE_EMBED_ALLOWED_ORIGINS` by the same rule as `getAllowedOrigins`
+ * in src/embed.ts: exact origins only, anything else dropped.
+ */
+export function parseAllowedOrigins(configured: string): string[] {
+  const origins = new Set<string>();
+  for (const value of configured.split(',').map(origin => origin.trim())) {
+    try {
+      const url = new URL(value);
+      if (url.origin === value.replace(/\/$/, '')) {
+        origins.add(url.origin);
+      }
+    } catch {
+      // Not an origin; ignored rather than widening the list.
+    }
+  }
+  return [...origins];
+}
+
+export function createFramingMiddleware(allowedOrigins: readonly string[]): Connect.NextHandleFunction {
+  const policy = ["frame-ancestors 'self'", ...allowedOrigins].join(' ');
+  return (_req, res, next) => {
+    res.setHeader('Content-Security-Policy', policy);
+    next();
+  };
+}
+
+/**
+ * Sends `Content-Security-Policy: frame-ancestors` with every response on both
+ * the dev server and `vite preview`, so only the app's own origin and the
+ * allowed embed hosts can frame it. The widget already ignores commands from
+ * other hosts; this also stops them showing it, e.g. under a decoy page that
+ * tricks the user into clicking its buttons.
+ */
+export function framingPolicy(configured = ''): Plugin {
+  const middleware = createFramingMiddleware(parseAllowedOrigins(configured));
+
+  return {
+    name: 'demo-framing-policy',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+}
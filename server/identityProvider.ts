@@ -0,0 +1,238 @@
+import { randomBytes } from 'node:crypto';
+import type { Connect, Plugin } from 'vite';
+import { renderInitialsAvatar } from './avatar';
+import { HttpError, decodePathSegment, escapeHtml, readForm, redirect, sendHtml } from './http';
+
+export interface TestIdentity {
+  sub: string;
+  name: string;
+  email: string;
+  color?: string;
+}
+
+export interface IdentityProviderOptions {
+  name?: string;
+  identities?: TestIdentity[];
+  codeTtlMs?: number;
+}
+
+export interface RedeemedIdentity {
+  sub: string;
+  name: string;
+  email: string;
+  picture: string;
+  nonce: string;
+}
+
+interface AuthorizationCode {
+  sub: string;
+  redirectUri: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+interface AuthorizationRequest {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  loginHint: string;
+  prompt: string;
+}
+
+export const DEFAULT_IDENTITIES: TestIdentity[] = [
+  { sub: 'idp-1001', name: 'Carol Federated', email: 'carol@idp.test', color: '#7c3aed' },
+  { sub: 'idp-1002', name: 'Dave Federated', email: 'dave@idp.test', color: '#0891b2' },
+];
+
+/**
+ * Stand-in for an OIDC-style identity provider. It runs the authorization code
+ * flow against a fixed list of test identities, and the relying party redeems
+ * codes in-process instead of calling a token endpoint.
+ */
+export class MockIdentityProvider {
+  readonly name: string;
+  private readonly identities: TestIdentity[];
+  private readonly codes = new Map<string, AuthorizationCode>();
+  private readonly codeTtlMs: number;
+
+  constructor(options: IdentityProviderOptions = {}) {
+    this.name = options.name ?? 'Demo Identity Provider';
+    this.identities = options.identities ?? DEFAULT_IDENTITIES;
+    this.codeTtlMs = options.codeTtlMs ?? 60 * 1000;
+  }
+
+  listIdentities() {
+    return this.identities;
+  }
+
+  findIdentity(hint: string) {
+    return this.identities.find(identity => identity.sub === hint || identity.email === hint);
+  }
+
+  issueCode(sub: string, redirectUri: string, nonce: string, now = Date.now()) {
+    const code = randomBytes(24).toString('base64url');
+    this.codes.set(code, { sub, redirectUri, nonce, expiresAt: now + this.codeTtlMs });
+    return code;
+  }
+
+  /** Exchanges a single-use authorization code for the identity it was issued to. */
+  redeem(code: string, redirectUri: string, now = Date.now()): RedeemedIdentity | null {
+    const entry = this.codes.get(code);
+    this.codes.delete(code);
+    if (!entry || entry.expiresAt <= now || entry.redirectUri !== redirectUri) {
+      return null;
+    }
+    const identity = this.identities.find(candidate => candidate.sub === entry.sub);
+    if (!identity) {
+      return null;
+    }
+    return {
+      sub: identity.sub,
+      name: identity.name,
+      email: identity.email,
+      picture: `/idp/avatar/${encodeURIComponent(identity.sub)}.svg`,
+      nonce: entry.nonce,
+    };
+  }
+}
+
+function readAuthorizationRequest(params: URLSearchParams): AuthorizationRequest {
+  const redirectUri = params.get('redirect_uri') ?? '';
+  // Only same-origin, path-absolute redirect targets are accepted.
+  if (!redirectUri.startsWith('/') || redirectUri.startsWith('//')) {
+    throw new HttpError(400, 'invalid_request', 'redirect_uri must be a same-origin path');
+  }
+  if (params.get('response_type') !== 'code') {
+    throw new HttpError(400, 'unsupported_response_type', 'Only response_type=code is supported');
+  }
+  return {
+    redirectUri,
+    state: params.get('state') ?? '',
+    nonce: params.get('nonce') ?? '',
+    loginHint: params.get('login_hint') ?? '',
+    prompt: params.get('prompt') ?? '',
+  };
+}
+
+function callbackUrl(request: AuthorizationRequest, params: Record<string, string>) {
+  const query = new URLSearchParams({ ...params, state: request.state });
+  return `${request.redirectUri}${request.redirectUri.includes('?') ? '&' : '?'}${query}`;
+}
+
+function renderConsentPage(idp: MockIdentityProvider, request: AuthorizationRequest) {
+  const hidden = (['redirectUri', 'state', 'nonce'] as const)
+    .map(field => `<input type="hidden" name="${field}" value="${escapeHtml(request[field])}">`)
+    .join('');
+  const accounts = idp.listIdentities().map(identity => `
+      <button name="sub" value="${escapeHtml(identity.sub)}"${identity.email === request.loginHint ? ' autofocus' : ''}>
+        <img src="/idp/avatar/${encodeURIComponent(identity.sub)}.svg" alt="" width="40" height="40">
+        <span><strong>${escapeHtml(identity.name)}</strong><br><small>${escapeHtml(identity.email)}</small></span>
+      </button>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(idp.name)} – Sign in</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #f3f4f6; display: grid; place-items: center; min-height: 100vh; margin: 0; }
+      main { background: #fff; padding: 2rem; border-radius: 0.5rem; box-shadow: 0 10px 25px rgba(0,0,0,0.1); width: min(24rem, 90vw); }
+      h1 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+      p { color: #6b7280; font-size: 0.875rem; margin: 0 0 1.5rem; }
+      form { display: grid; gap: 0.75rem; }
+      button { display: flex; gap: 0.75rem; align-items: center; text-align: left; padding: 0.75rem; border: 1px solid #e5e7eb; border-radius: 0.5rem; background: #fff; cursor: pointer; font: inherit; }
+      button:hover, button:focus { border-color: #3b82f6; outline: none; }
+      button[value="deny"] { justify-content: center; color: #b91c1c; }
+      img { border-radius: 9999px; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>${escapeHtml(idp.name)}</h1>
+      <p>Choose a test identity to share with <strong>${escapeHtml(request.redirectUri)}</strong>. This provider is a local stand-in; no real account is used.</p>
+      <form method="post" action="/idp/authorize">
+        ${hidden}${accounts}
+        <button name="decision" value="deny">Cancel</button>
+      </form>
+    </main>
+  </body>
+</html>`;
+}
+
+export function createIdentityProviderMiddleware(idp: MockIdentityProvider): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith('/idp/')) {
+      next();
+      return;
+    }
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/idp/authorize') {
+        const request = readAuthorizationRequest(url.searchParams);
+        if (request.prompt === 'none') {
+          const identity = request.loginHint ? idp.findIdentity(request.loginHint) : undefined;
+          redirect(res, identity
+            ? callbackUrl(request, { code: idp.issueCode(identity.sub, request.redirectUri, request.nonce) })
+            : callbackUrl(request, { error: 'login_required' }));
+          return;
+        }
+        sendHtml(res, 200, renderConsentPage(idp, request));
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/idp/authorize') {
+        const form = await readForm(req);
+        const request = readAuthorizationRequest(new URLSearchParams({
+          response_type: 'code',
+          redirect_uri: form.get('redirectUri') ?? '',
+          state: form.get('state') ?? '',
+          nonce: form.get('nonce') ?? '',
+        }));
+        const identity = form.get('decision') === 'deny' ? undefined : idp.findIdentity(form.get('sub') ?? '');
+        redirect(res, identity
+          ? callbackUrl(request, { code: idp.issueCode(identity.sub, request.redirectUri, request.nonce) })
+          : callbackUrl(request, { error: 'access_denied' }));
+        return;
+      }
+
+      const avatar = url.pathname.match(/^\/idp\/avatar\/([^/]+)\.svg$/);
+      if (req.method === 'GET' && avatar) {
+        const identity = idp.findIdentity(decodePathSegment(avatar[1]));
+        if (!identity) {
+          throw new HttpError(404, 'not_found', 'Unknown identity');
+        }
+        res.setHeader('Content-Type', 'image/svg+xml');
+        res.end(renderInitialsAvatar(identity.name, identity.color));
+        return;
+      }
+
+      throw new HttpError(404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendHtml(res, error.status, `<!doctype html><title>${escapeHtml(error.code)}</title><p>${escapeHtml(error.message)}</p>`);
+      } else {
+        next(error);
+      }
+    }
+  };
+}
+
+/**
+ * Serves the mock identity provider's consent screen and avatars under `/idp/*`
+ * on both the dev server and `vite preview`.
+ */
+export function mockIdentityProvider(idp: MockIdentityProvider): Plugin {
+  const middleware = createIdentityProviderMiddleware(idp);
+
+  return {
+    name: 'demo-identity-provider',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import type { IncomingMessage } from 'node:http';
+import type { Connect } from 'vite';
+import { SESSION_COOKIE, type AuthStore } from './authStore';
+import { HttpError, parseCookies, readJson, sendJson, serializeCookie } from './http';
+import { WebAuthnError, type AssertionResponse, type RegistrationResponse, type RelyingParty } from './relyingParty';
+import type { TotpVerifier } from './totp';
+
+function requestOrigin(req: IncomingMessage) {
+  const secure = 'encrypted' in req.socket && Boolean(req.socket.encrypted);
+  const host = req.headers.host ?? 'localhost';
+  return {
+    secure,
+    origin: `${secure ? 'https' : 'http'}://${host}`,
+    rpId: new URL(`http://${host}`).hostname,
+  };
+}
+
+/**
+ * Passkey routes under `/api/auth/passkey/*`. Registration needs an existing
+ * session; a verified assertion opens a new one, or returns a second-factor
+ * challenge for a user who has enrolled TOTP.
+ */
+export function createPasskeyMiddleware(store: AuthStore, relyingParty: RelyingParty, totp?: TotpVerifier): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith('/api/auth/passkey/') || req.method !== 'POST') {
+      next();
+      return;
+    }
+
+    const { secure, origin, rpId } = requestOrigin(req);
+    const user = store.getSession(parseCookies(req)[SESSION_COOKIE]);
+
+    try {
+      switch (url.pathname) {
+        case '/api/auth/passkey/register/options': {
+          if (!user) {
+            throw new HttpError(401, 'no_session', 'Sign in with a password before creating a passkey');
+          }
+          sendJson(res, 200, relyingParty.registrationOptions(user.username, user.displayName, rpId));
+          return;
+        }
+        case '/api/auth/passkey/register/verify': {
+          if (!user) {
+            throw new HttpError(401, 'no_session', 'Sign in with a password before creating a passkey');
+          }
+          const credential = await readJson<RegistrationResponse>(req);
+          const { passkey, userVerified } = relyingParty.verifyRegistration(credential, user.username, origin, rpId);
+          sendJson(res, 200, {
+            id: passkey.id,
+            algorithm: passkey.algorithm,
+            signCount: passkey.signCount,
+            userVerified,
+            passkeyCount: relyingParty.listPasskeys(user.username).length,
+          });
+          return;
+        }
+        case '/api/auth/passkey/login/options': {
+          sendJson(res, 200, relyingParty.authenticationOptions(rpId));
+          return;
+        }
+        case '/api/auth/passkey/login/verify': {
+          const credential = await readJson<AssertionResponse>(req);
+          const { passkey, previousSignCount, userVerified } = relyingParty.verifyAuthentication(credential, origin, rpId);
+          const sessionUser = { username: passkey.username, displayName: passkey.displayName };
+          if (totp?.isEnrolled(sessionUser.username)) {
+            const { challenge, expiresAt } = totp.issueChallenge(sessionUser);
+            sendJson(res, 200, {
+              user: sessionUser,
+              passkey: { id: passkey.id, previousSignCount, signCount: passkey.signCount, userVerified },
+              secondFactor: 'totp',
+              challenge,
+              challengeExpiresAt: expiresAt,
+              digits: totp.digits,
+            });
+            return;
+          }
+          const { sessionId, expiresAt, idleExpiresAt } = store.createSession(sessionUser);
+          sendJson(res, 200, {
+            user: sessionUser,
+            passkey: { id: passkey.id, previousSignCount, signCount: passkey.signCount, userVerified },
+            expiresAt,
+            idleExpiresAt,
+          }, {
+            'Set-Cookie': serializeCookie(SESSION_COOKIE, sessionId, {
+              maxAge: Math.floor(store.sessionTtlMs / 1000),
+              secure,
+            }),
+          });
+          return;
+        }
+        default:
+          throw new HttpError(404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.code, message: error.message });
+      } else if (error instanceof WebAuthnError) {
+        sendJson(res, 400, { error: error.code, message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  };
+}
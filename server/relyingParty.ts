@@ -0,0 +1,347 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey, type KeyObject } from 'node:crypto';
+import { CborError, decode, decodeFirst, type CborValue } from './cbor';
+
+export interface RelyingPartyOptions {
+  name?: string;
+  challengeTtlMs?: number;
+  userVerification?: UserVerificationRequirement;
+}
+
+export interface StoredPasskey {
+  id: string;
+  username: string;
+  displayName: string;
+  userHandle: string;
+  publicKey: JsonWebKey;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+export interface RegistrationResponse {
+  id: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AssertionResponse {
+  id: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+interface PendingChallenge {
+  purpose: 'registration' | 'authentication';
+  username?: string;
+  displayName?: string;
+  userHandle?: string;
+  expiresAt: number;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  credential?: { id: Buffer; publicKey: Map<CborValue, CborValue> };
+}
+
+type UserVerificationRequirement = 'required' | 'preferred' | 'discouraged';
+
+export class WebAuthnError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_RS256 = -257;
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest();
+const fromBase64Url = (value: string) => Buffer.from(value, 'base64url');
+
+/**
+ * Checks that a client-supplied credential has an `id` and a `response` with
+ * the given base64url string fields, so a malformed body is a 400 rather than
+ * a TypeError.
+ */
+function checkCredentialShape(credential: unknown, fields: string[]) {
+  const { id, response } = (credential ?? {}) as { id?: unknown; response?: unknown };
+  if (typeof id !== 'string' || typeof response !== 'object' || response === null) {
+    throw new WebAuthnError('invalid_request', 'Expected a credential with an id and a response');
+  }
+  for (const field of fields) {
+    if (typeof (response as Record<string, unknown>)[field] !== 'string') {
+      throw new WebAuthnError('invalid_request', `response.${field} is missing`);
+    }
+  }
+}
+
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new WebAuthnError('invalid_authenticator_data', 'Authenticator data is too short');
+  }
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: Boolean(flags & FLAG_USER_PRESENT),
+    userVerified: Boolean(flags & FLAG_USER_VERIFIED),
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // aaguid (16 bytes) precedes the credential ID length.
+    const idLength = data.length >= 55 ? data.readUInt16BE(53) : 0;
+    if (data.length < 55 + idLength) {
+      throw new WebAuthnError('invalid_authenticator_data', 'Attested credential data is truncated');
+    }
+    const id = data.subarray(55, 55 + idLength);
+    let value: CborValue;
+    try {
+      ({ value } = decodeFirst(data.subarray(55 + idLength)));
+    } catch (error) {
+      throw new WebAuthnError('invalid_public_key', error instanceof CborError ? error.message : 'Malformed credential public key');
+    }
+    if (!(value instanceof Map)) {
+      throw new WebAuthnError('invalid_public_key', 'Credential public key is not a COSE map');
+    }
+    parsed.credential = { id: Buffer.from(id), publicKey: value };
+  }
+  return parsed;
+}
+
+/** Converts a COSE_Key (RFC 9053) into a JWK that node:crypto can import. */
+function coseToJwk(cose: Map<CborValue, CborValue>): { jwk: JsonWebKey; algorithm: number } {
+  const kty = cose.get(1);
+  const algorithm = cose.get(3);
+  const bytes = (label: number) => {
+    const value = cose.get(label);
+    if (!Buffer.isBuffer(value)) {
+      throw new WebAuthnError('invalid_public_key', `COSE key parameter ${label} is missing`);
+    }
+    return value.toString('base64url');
+  };
+
+  if (kty === 2 && algorithm === COSE_ALG_ES256 && cose.get(-1) === 1) {
+    return { jwk: { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) }, algorithm };
+  }
+  if (kty === 3 && algorithm === COSE_ALG_RS256) {
+    return { jwk: { kty: 'RSA', n: bytes(-1), e: bytes(-2) }, algorithm };
+  }
+  if (kty === 1 && algorithm === COSE_ALG_EDDSA && cose.get(-1) === 6) {
+    return { jwk: { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) }, algorithm };
+  }
+  throw new WebAuthnError('unsupported_algorithm', `Unsupported COSE key (kty ${String(kty)}, alg ${String(algorithm)})`);
+}
+
+function verifySignature(passkey: StoredPasskey, data: Buffer, signature: Buffer) {
+  const key: KeyObject = createPublicKey({ key: passkey.publicKey, format: 'jwk' });
+  // ES256 signatures are DER-encoded, which is node's default for EC keys.
+  return verify(passkey.algorithm === COSE_ALG_EDDSA ? null : 'sha256', data, key, signature);
+}
+
+/**
+ * Local WebAuthn relying party: issues challenges, verifies "none" attestation
+ * registrations and assertions, and tracks signature counters per passkey.
+ */
+export class RelyingParty {
+  readonly name: string;
+  private readonly challengeTtlMs: number;
+  private readonly userVerification: UserVerificationRequirement;
+  private readonly challenges = new Map<string, PendingChallenge>();
+  private readonly passkeys = new Map<string, StoredPasskey>();
+  private readonly userHandles = new Map<string, string>();
+
+  constructor(options: RelyingPartyOptions = {}) {
+    this.name = options.name ?? 'Credential Management API Demo';
+    this.challengeTtlMs = options.challengeTtlMs ?? 2 * 60 * 1000;
+    this.userVerification = options.userVerification ?? 'preferred';
+  }
+
+  private issueChallenge(pending: Omit<PendingChallenge, 'expiresAt'>, now: number) {
+    for (const [key, { expiresAt }] of this.challenges) {
+      if (expiresAt <= now) {
+        this.challenges.delete(key);
+      }
+    }
+    const challenge = randomBytes(32).toString('base64url');
+    this.challenges.set(challenge, { ...pending, expiresAt: now + this.challengeTtlMs });
+    return challenge;
+  }
+
+  private consumeChallenge(challenge: string, purpose: PendingChallenge['purpose'], now: number) {
+    const pending = this.challenges.get(challenge);
+    this.challenges.delete(challenge);
+    if (!pending || pending.purpose !== purpose || pending.expiresAt <= now) {
+      throw new WebAuthnError('invalid_challenge', 'Challenge is unknown, expired or already used');
+    }
+    return pending;
+  }
+
+  private checkClientData(clientDataJSON: Buffer, type: string, origin: string) {
+    let clientData: { type?: string; challenge?: string; origin?: string };
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8'));
+    } catch {
+      throw new WebAuthnError('invalid_client_data', 'clientDataJSON is not valid JSON');
+    }
+    if (clientData.type !== type) {
+      throw new WebAuthnError('invalid_client_data', `Expected client data type ${type}`);
+    }
+    if (clientData.origin !== origin) {
+      throw new WebAuthnError('invalid_origin', `Unexpected origin ${clientData.origin}`);
+    }
+    return clientData.challenge ?? '';
+  }
+
+  private checkAuthenticatorData(authData: AuthenticatorData, rpId: string) {
+    if (!authData.rpIdHash.equals(sha256(rpId))) {
+      throw new WebAuthnError('invalid_rp_id', 'RP ID hash does not match');
+    }
+    if (!authData.userPresent) {
+      throw new WebAuthnError('user_not_present', 'User presence flag is not set');
+    }
+    if (this.userVerification === 'required' && !authData.userVerified) {
+      throw new WebAuthnError('user_not_verified', 'User verification is required');
+    }
+  }
+
+  registrationOptions(username: string, displayName: string, rpId: string, now = Date.now()) {
+    let userHandle = this.userHandles.get(username);
+    if (!userHandle) {
+      userHandle = randomBytes(16).toString('base64url');
+      this.userHandles.set(username, userHandle);
+    }
+    return {
+      challenge: this.issueChallenge({ purpose: 'registration', username, displayName, userHandle }, now),
+      rp: { id: rpId, name: this.name },
+      user: { id: userHandle, name: username, displayName },
+      pubKeyCredParams: [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256].map(alg => ({ type: 'public-key', alg })),
+      timeout: this.challengeTtlMs,
+      attestation: 'none',
+      authenticatorSelection: { residentKey: 'required', userVerification: this.userVerification },
+      excludeCredentials: this.listPasskeys(username).map(({ id, transports }) => ({ type: 'public-key', id, transports })),
+    };
+  }
+
+  verifyRegistration(credential: RegistrationResponse, username: string, origin: string, rpId: string, now = Date.now()) {
+    checkCredentialShape(credential, ['clientDataJSON', 'attestationObject']);
+    const clientDataJSON = fromBase64Url(credential.response.clientDataJSON);
+    const challenge = this.checkClientData(clientDataJSON, 'webauthn.create', origin);
+    const pending = this.consumeChallenge(challenge, 'registration', now);
+    if (pending.username !== username) {
+      throw new WebAuthnError('invalid_challenge', 'Challenge was issued to a different user');
+    }
+
+    let attestation: CborValue;
+    try {
+      attestation = decode(fromBase64Url(credential.response.attestationObject));
+    } catch (error) {
+      throw new WebAuthnError('invalid_attestation', error instanceof CborError ? error.message : 'Malformed attestation object');
+    }
+    if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+      throw new WebAuthnError('invalid_attestation', 'Attestation object is missing authData');
+    }
+    const fmt = attestation.get('fmt');
+    if (fmt !== 'none') {
+      throw new WebAuthnError('unsupported_attestation', `Only "none" attestation is accepted, got "${String(fmt)}"`);
+    }
+
+    const authData = parseAuthenticatorData(attestation.get('authData') as Buffer);
+    this.checkAuthenticatorData(authData, rpId);
+    if (!authData.credential) {
+      throw new WebAuthnError('invalid_attestation', 'No attested credential data');
+    }
+    const id = authData.credential.id.toString('base64url');
+    if (id !== credential.id) {
+      throw new WebAuthnError('invalid_attestation', 'Credential ID does not match attested credential data');
+    }
+    if (this.passkeys.has(id)) {
+      throw new WebAuthnError('duplicate_credential', 'This passkey is already registered');
+    }
+
+    const { jwk, algorithm } = coseToJwk(authData.credential.publicKey);
+    const passkey: StoredPasskey = {
+      id,
+      username: pending.username!,
+      displayName: pending.displayName!,
+      userHandle: pending.userHandle!,
+      publicKey: jwk,
+      algorithm,
+      signCount: authData.signCount,
+      transports: Array.isArray(credential.response.transports)
+        ? credential.response.transports.filter(transport => typeof transport === 'string')
+        : [],
+      createdAt: now,
+      lastUsedAt: null,
+    };
+    this.passkeys.set(id, passkey);
+    return { passkey, userVerified: authData.userVerified };
+  }
+
+  authenticationOptions(rpId: string, now = Date.now()) {
+    return {
+      challenge: this.issueChallenge({ purpose: 'authentication' }, now),
+      rpId,
+      timeout: this.challengeTtlMs,
+      userVerification: this.userVerification,
+      // Empty so the authenticator offers discoverable credentials.
+      allowCredentials: [],
+    };
+  }
+
+  verifyAuthentication(credential: AssertionResponse, origin: string, rpId: string, now = Date.now()) {
+    checkCredentialShape(credential, ['clientDataJSON', 'authenticatorData', 'signature']);
+    const clientDataJSON = fromBase64Url(credential.response.clientDataJSON);
+    const challenge = this.checkClientData(clientDataJSON, 'webauthn.get', origin);
+    this.consumeChallenge(challenge, 'authentication', now);
+
+    const passkey = this.passkeys.get(credential.id);
+    if (!passkey) {
+      throw new WebAuthnError('unknown_credential', 'No passkey is registered with this ID');
+    }
+    if (credential.response.userHandle && credential.response.userHandle !== passkey.userHandle) {
+      throw new WebAuthnError('user_handle_mismatch', 'User handle does not belong to this passkey');
+    }
+
+    const authenticatorData = fromBase64Url(credential.response.authenticatorData);
+    const authData = parseAuthenticatorData(authenticatorData);
+    this.checkAuthenticatorData(authData, rpId);
+
+    const signed = Buffer.concat([authenticatorData, sha256(clientDataJSON)]);
+    if (!verifySignature(passkey, signed, fromBase64Url(credential.response.signature))) {
+      throw new WebAuthnError('invalid_signature', 'Assertion signature is invalid');
+    }
+
+    // Authenticators that do not implement counters always report 0.
+    const previousSignCount = passkey.signCount;
+    if ((authData.signCount !== 0 || previousSignCount !== 0) && authData.signCount <= previousSignCount) {
+      throw new WebAuthnError('sign_count_regression', `Signature counter went from ${previousSignCount} to ${authData.signCount}; the authenticator may be cloned`);
+    }
+    passkey.signCount = authData.signCount;
+    passkey.lastUsedAt = now;
+    return { passkey, previousSignCount, userVerified: authData.userVerified };
+  }
+
+  listPasskeys(username: string) {
+    return [...this.passkeys.values()].filter(passkey => passkey.username === username);
+  }
+}
@@ -0,0 +1,295 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export interface TotpOptions {
+  issuer?: string;
+  digits?: number;
+  periodSeconds?: number;
+  /** Time steps accepted on either side of the current one, for clock drift. */
+  window?: number;
+  recoveryCodeCount?: number;
+  challengeTtlMs?: number;
+  maxFailedAttempts?: number;
+  lockoutMs?: number;
+}
+
+export interface TotpStatus {
+  enrolled: boolean;
+  recoveryCodesLeft: number;
+}
+
+export interface ChallengeUser {
+  username: string;
+  displayName: string;
+}
+
+export interface TotpVerification {
+  /** The user the challenge was issued to; the session opens for them. */
+  user: ChallengeUser;
+  method: 'totp' | 'recovery';
+  /** How many steps the authenticator's clock is off by; only for `totp`. */
+  driftSteps?: number;
+  recoveryCodesLeft: number;
+}
+
+interface Enrollment {
+  secret: Buffer;
+  confirmed: boolean;
+  /** The last accepted time step; codes from it or earlier are replays. */
+  lastUsedStep: number;
+  recoveryCodeHashes: Buffer[];
+  failures: number;
+  lockedUntil: number;
+}
+
+interface PendingChallenge {
+  user: ChallengeUser;
+  expiresAt: number;
+}
+
+export class TotpError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'TotpError';
+  }
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** RFC 4648 base32 without padding, the form authenticator apps expect. */
+export function base32Encode(bytes: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/** HOTP (RFC 4226) with HMAC-SHA1; TOTP is HOTP over the time step. */
+export function hotp(secret: Buffer, counter: number, digits = 6) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest();
+
+// Recovery codes are compared without their hyphen and case.
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+/**
+ * Local RFC 6238 verifier for the demo's second factor. Secrets stay in
+ * memory; a code is accepted within `window` steps of the current time and
+ * only once, and each recovery code works once. Repeated wrong codes lock the
+ * second factor, so a stolen password cannot be paired with a guessing run.
+ */
+export class TotpVerifier {
+  readonly issuer: string;
+  readonly digits: number;
+  readonly periodSeconds: number;
+  private readonly window: number;
+  private readonly recoveryCodeCount: number;
+  private readonly challengeTtlMs: number;
+  private readonly maxFailedAttempts: number;
+  private readonly lockoutMs: number;
+  private readonly enrollments = new Map<string, Enrollment>();
+  private readonly challenges = new Map<string, PendingChallenge>();
+
+  constructor(options: TotpOptions = {}) {
+    this.issuer = options.issuer ?? 'Credential Demo';
+    this.digits = options.digits ?? 6;
+    this.periodSeconds = options.periodSeconds ?? 30;
+    this.window = options.window ?? 1;
+    this.recoveryCodeCount = options.recoveryCodeCount ?? 10;
+    this.challengeTtlMs = options.challengeTtlMs ?? 5 * 60 * 1000;
+    this.maxFailedAttempts = options.maxFailedAttempts ?? 5;
+    this.lockoutMs = options.lockoutMs ?? 5 * 60 * 1000;
+  }
+
+  private step(now: number) {
+    return Math.floor(now / 1000 / this.periodSeconds);
+  }
+
+  isEnrolled(username: string) {
+    return this.enrollments.get(username)?.confirmed ?? false;
+  }
+
+  status(username: string): TotpStatus {
+    const enrollment = this.enrollments.get(username);
+    return {
+      enrolled: enrollment?.confirmed ?? false,
+      recoveryCodesLeft: enrollment?.confirmed ? enrollment.recoveryCodeHashes.length : 0,
+    };
+  }
+
+  /** Starts (or restarts) enrollment with a fresh secret; it takes effect once confirmed with a code. */
+  beginEnrollment(username: string) {
+    if (this.isEnrolled(username)) {
+      throw new TotpError('already_enrolled', 'Two-factor authentication is already set up');
+    }
+    const secret = randomBytes(20);
+    // A restart gets a new secret but keeps any lockout, so restarting is no
+    // way around the attempt limit.
+    this.enrollments.set(username, {
+      secret,
+      confirmed: false,
+      lastUsedStep: -1,
+      recoveryCodeHashes: [],
+      failures: 0,
+      lockedUntil: this.enrollments.get(username)?.lockedUntil ?? 0,
+    });
+    const label = `${encodeURIComponent(this.issuer)}:${encodeURIComponent(username)}`;
+    const params = new URLSearchParams({
+      secret: base32Encode(secret),
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: String(this.digits),
+      period: String(this.periodSeconds),
+    });
+    return {
+      secret: base32Encode(secret),
+      uri: `otpauth://totp/${label}?${params.toString().replace(/\+/g, '%20')}`,
+      digits: this.digits,
+      periodSeconds: this.periodSeconds,
+    };
+  }
+
+  /** Confirms enrollment with a first code and returns the recovery codes, which are only ever shown this once. */
+  confirmEnrollment(username: string, code: string, now = Date.now()) {
+    const enrollment = this.enrollments.get(username);
+    if (!enrollment || enrollment.confirmed) {
+      throw new TotpError('no_pending_enrollment', 'Start enrollment before confirming it');
+    }
+    if (enrollment.lockedUntil > now) {
+      throw new TotpError('too_many_attempts', 'Too many wrong codes; try again in a few minutes');
+    }
+    const drift = this.matchTotp(enrollment, code, now);
+    if (drift === null) {
+      this.recordFailure(enrollment, now);
+      throw new TotpError('invalid_code', 'The code does not match; check the authenticator app and the device clock');
+    }
+    enrollment.lastUsedStep = this.step(now) + drift;
+    enrollment.failures = 0;
+    const recoveryCodes = Array.from({ length: this.recoveryCodeCount }, () => {
+      const code = base32Encode(randomBytes(5)).toLowerCase();
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+    enrollment.confirmed = true;
+    enrollment.recoveryCodeHashes = recoveryCodes.map(code => sha256(normalizeRecoveryCode(code)));
+    return recoveryCodes;
+  }
+
+  /** Turning the second factor off needs a current code, so an unattended session cannot do it. */
+  disable(username: string, code: string, now = Date.now()) {
+    const enrollment = this.enrollments.get(username);
+    if (!enrollment?.confirmed) {
+      throw new TotpError('not_enrolled', 'Two-factor authentication is not set up');
+    }
+    this.checkCode(enrollment, code, now);
+    this.enrollments.delete(username);
+  }
+
+  /** Issued after a successful first factor of any kind; redeemed with a code by `verifyChallenge`. */
+  issueChallenge(user: ChallengeUser, now = Date.now()) {
+    for (const [key, pending] of this.challenges) {
+      if (pending.expiresAt <= now) {
+        this.challenges.delete(key);
+      }
+    }
+    const challenge = randomBytes(32).toString('base64url');
+    this.challenges.set(challenge, { user, expiresAt: now + this.challengeTtlMs });
+    return { challenge, expiresAt: now + this.challengeTtlMs };
+  }
+
+  verifyChallenge(challenge: string, code: string, now = Date.now()): TotpVerification {
+    const pending = this.challenges.get(challenge);
+    if (!pending || pending.expiresAt <= now) {
+      this.challenges.delete(challenge);
+      throw new TotpError('invalid_challenge', 'The sign-in attempt expired; enter the password again');
+    }
+    const enrollment = this.enrollments.get(pending.user.username);
+    if (!enrollment?.confirmed) {
+      this.challenges.delete(challenge);
+      throw new TotpError('invalid_challenge', 'Two-factor authentication is no longer set up');
+    }
+    try {
+      const result = this.checkCode(enrollment, code, now);
+      this.challenges.delete(challenge);
+      return { user: pending.user, ...result, recoveryCodesLeft: enrollment.recoveryCodeHashes.length };
+    } catch (error) {
+      if (error instanceof TotpError && error.code === 'too_many_attempts') {
+        this.challenges.delete(challenge);
+      }
+      throw error;
+    }
+  }
+
+  /** Returns the drift of a matching code, or null. Does not consume the step. */
+  private matchTotp(enrollment: Enrollment, code: string, now: number) {
+    const candidate = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${this.digits}}$`).test(candidate)) {
+      return null;
+    }
+    const current = this.step(now);
+    for (let drift = -this.window; drift <= this.window; drift++) {
+      const expected = hotp(enrollment.secret, current + drift, this.digits);
+      if (timingSafeEqual(Buffer.from(expected), Buffer.from(candidate))) {
+        return drift;
+      }
+    }
+    return null;
+  }
+
+  private checkCode(enrollment: Enrollment, code: string, now: number): Pick<TotpVerification, 'method' | 'driftSteps'> {
+    if (enrollment.lockedUntil > now) {
+      throw new TotpError('too_many_attempts', 'Too many wrong codes; try again in a few minutes');
+    }
+
+    const drift = this.matchTotp(enrollment, code, now);
+    if (drift !== null) {
+      const step = this.step(now) + drift;
+      if (step <= enrollment.lastUsedStep) {
+        throw new TotpError('replayed_code', 'This code was already used; wait for the next one');
+      }
+      enrollment.lastUsedStep = step;
+      enrollment.failures = 0;
+      return { method: 'totp', driftSteps: drift };
+    }
+
+    const hash = sha256(normalizeRecoveryCode(code));
+    const index = enrollment.recoveryCodeHashes.findIndex(candidate => timingSafeEqual(candidate, hash));
+    if (index >= 0) {
+      enrollment.recoveryCodeHashes.splice(index, 1);
+      enrollment.failures = 0;
+      return { method: 'recovery' };
+    }
+
+    this.recordFailure(enrollment, now);
+    throw new TotpError('invalid_code', 'The code is not valid');
+  }
+
+  /** Counts a wrong code, and throws once it is one too many. */
+  private recordFailure(enrollment: Enrollment, now: number) {
+    enrollment.failures++;
+    if (enrollment.failures >= this.maxFailedAttempts) {
+      enrollment.failures = 0;
+      enrollment.lockedUntil = now + this.lockoutMs;
+      throw new TotpError('too_many_attempts', 'Too many wrong codes; try again in a few minutes');
+    }
+  }
+}
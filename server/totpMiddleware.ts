@@ -0,0 +1,113 @@
+import type { Connect } from 'vite';
+import { SESSION_COOKIE, type AuthStore } from './authStore';
+import { HttpError, parseCookies, readJson, sendJson, serializeCookie } from './http';
+import { TotpError, type TotpVerifier } from './totp';
+
+interface CodeBody {
+  code?: unknown;
+}
+
+interface VerifyBody extends CodeBody {
+  challenge?: unknown;
+}
+
+const readCode = (body: CodeBody) => {
+  if (typeof body.code !== 'string' || !body.code.trim()) {
+    throw new HttpError(400, 'invalid_request', 'A code is required');
+  }
+  return body.code;
+};
+
+// Wrong and reused codes are the user's to retry; a spent challenge means
+// starting again from the password.
+const TOTP_ERROR_STATUS: Record<string, number> = {
+  invalid_code: 401,
+  replayed_code: 401,
+  invalid_challenge: 401,
+  too_many_attempts: 429,
+};
+
+/**
+ * Second-factor routes under `/api/auth/totp/*`. Enrollment and disabling
+ * need a session; `/verify` redeems the challenge that any sign-in returns
+ * for an enrolled user and opens the session.
+ */
+export function createTotpMiddleware(store: AuthStore, verifier: TotpVerifier): Connect.NextHandleFunction {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/api/auth/totp' && !url.pathname.startsWith('/api/auth/totp/')) {
+      next();
+      return;
+    }
+
+    const secure = 'encrypted' in req.socket && Boolean(req.socket.encrypted);
+    const user = store.getSession(parseCookies(req)[SESSION_COOKIE]);
+    const requireUser = () => {
+      if (!user) {
+        throw new HttpError(401, 'no_session', 'Not signed in');
+      }
+      return user;
+    };
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/api/auth/totp') {
+        sendJson(res, 200, verifier.status(requireUser().username));
+        return;
+      }
+      if (req.method !== 'POST') {
+        throw new HttpError(404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+      }
+
+      switch (url.pathname) {
+        case '/api/auth/totp/enroll': {
+          sendJson(res, 200, verifier.beginEnrollment(requireUser().username));
+          return;
+        }
+        case '/api/auth/totp/enroll/confirm': {
+          const { username } = requireUser();
+          const recoveryCodes = verifier.confirmEnrollment(username, readCode(await readJson<CodeBody>(req)));
+          sendJson(res, 200, { recoveryCodes, ...verifier.status(username) });
+          return;
+        }
+        case '/api/auth/totp/disable': {
+          const { username } = requireUser();
+          verifier.disable(username, readCode(await readJson<CodeBody>(req)));
+          sendJson(res, 200, verifier.status(username));
+          return;
+        }
+        case '/api/auth/totp/verify': {
+          const body = await readJson<VerifyBody>(req);
+          if (typeof body.challenge !== 'string') {
+            throw new HttpError(400, 'invalid_request', 'Both challenge and code are required');
+          }
+          const result = verifier.verifyChallenge(body.challenge, readCode(body));
+          const { sessionId, expiresAt, idleExpiresAt } = store.createSession(result.user);
+          sendJson(res, 200, {
+            user: result.user,
+            method: result.method,
+            driftSteps: result.driftSteps ?? null,
+            recoveryCodesLeft: result.recoveryCodesLeft,
+            expiresAt,
+            idleExpiresAt,
+          }, {
+            'Set-Cookie': serializeCookie(SESSION_COOKIE, sessionId, {
+              maxAge: Math.floor(store.sessionTtlMs / 1000),
+              secure,
+            }),
+          });
+          return;
+        }
+        default:
+          throw new HttpError(404, 'not_found', `No route for ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.code, message: error.message });
+      } else if (error instanceof TotpError) {
+        sendJson(res, TOTP_ERROR_STATUS[error.code] ?? 400, { error: error.code, message: error.message });
+      } else {
+        next(error);
+      }
+    }
+  };
+}
@@ -0,0 +1,67 @@
+import { KeyRound, Users, X } from 'lucide-react';
+import type { CredentialData } from './credentialBackend';
+import { useI18n } from './i18n';
+
+interface AccountChooserDialogProps {
+  candidates: CredentialData[];
+  onSelect: (credential: CredentialData | null) => void;
+}
+
+// Stand-in for the browser's account chooser when the emulated backend needs
+// user mediation. Dismissing it resolves get() with null, as browsers do.
+function AccountChooserDialog({ candidates, onSelect }: AccountChooserDialogProps) {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={() => onSelect(null)}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="account-chooser-title"
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-sm border border-gray-100 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700">
+          <div>
+            <h2 id="account-chooser-title" className="font-semibold text-gray-900 dark:text-white">{t('chooser.title')}</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('chooser.emulated', { origin: window.location.origin })}</p>
+          </div>
+          <button
+            onClick={() => onSelect(null)}
+            className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label={t('chooser.dismiss')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <ul className="p-2">
+          {candidates.map(candidate => (
+            <li key={`${candidate.type}:${candidate.id}`}>
+              <button
+                onClick={() => onSelect(candidate)}
+                className="w-full flex items-center gap-3 p-3 rounded-lg text-start hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                {candidate.iconURL ? (
+                  <img src={candidate.iconURL} alt="" className="w-8 h-8 rounded-full" />
+                ) : (
+                  <span className="w-8 h-8 rounded-full bg-blue-50 dark:bg-blue-900/30 flex items-center justify-center">
+                    {candidate.type === 'password'
+                      ? <KeyRound className="w-4 h-4 text-blue-500 dark:text-blue-400" />
+                      : <Users className="w-4 h-4 text-blue-500 dark:text-blue-400" />}
+                  </span>
+                )}
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">{candidate.name || candidate.id}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {candidate.type === 'password' ? candidate.id : `${candidate.id} · ${candidate.provider}`}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default AccountChooserDialog;
@@ -0,0 +1,36 @@
+import { Shield } from 'lucide-react';
+import { useI18n } from './i18n';
+
+function ApiExplanation() {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-md border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="bg-purple-50 dark:bg-purple-900/30 p-2 rounded-lg">
+          <Shield className="w-6 h-6 text-purple-600 dark:text-purple-400" />
+        </div>
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">{t('intro.title')}</h2>
+      </div>
+      <p className="text-gray-600 dark:text-gray-300 text-sm leading-relaxed mb-4">
+        {t('intro.body')}
+      </p>
+      <ul className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
+        <li className="flex items-start gap-2">
+          <span className="text-green-500 dark:text-green-400 mt-1">•</span>
+          {t('intro.store')}
+        </li>
+        <li className="flex items-start gap-2">
+          <span className="text-green-500 dark:text-green-400 mt-1">•</span>
+          {t('intro.autofill')}
+        </li>
+        <li className="flex items-start gap-2">
+          <span className="text-green-500 dark:text-green-400 mt-1">•</span>
+          {t('intro.manage')}
+        </li>
+      </ul>
+    </div>
+  );
+}
+
+export default ApiExplanation;
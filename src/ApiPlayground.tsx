@@ -0,0 +1,383 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { Check, Copy, FlaskConical, Loader2, Play } from 'lucide-react';
+import type { FaultInjector } from './faultInjection';
+import { errorFields, type Logger } from './logger';
+import { useI18n } from './i18n';
+import {
+  COSE_ALGORITHMS,
+  DEFAULT_PLAYGROUND_STATE,
+  PLAYGROUND_METHODS,
+  buildCreationOptions,
+  buildRequestOptions,
+  buildStoredCredential,
+  credentialTypesFor,
+  describeCredential,
+  generateSnippet,
+  type PlaygroundState,
+} from './playground';
+
+interface ApiPlaygroundProps {
+  logger: Logger;
+  injector: FaultInjector;
+}
+
+type RunResult =
+  | { status: 'ok'; value: unknown; durationMs: number }
+  | { status: 'error'; name: string; message: string; durationMs: number };
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+function Field({ label, htmlFor, children }: { label: string; htmlFor: string; children: ReactNode }) {
+  return (
+    <div>
+      <label htmlFor={htmlFor} className="block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+function Checkbox({ label, checked, onChange }: { label: ReactNode; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="rounded" />
+      {label}
+    </label>
+  );
+}
+
+// Builds CredentialRequestOptions / CredentialCreationOptions from a form,
+// calls navigator.credentials (through the failure scenarios, like the rest of
+// the demo) and shows the matching TypeScript.
+function ApiPlayground({ logger, injector }: ApiPlaygroundProps) {
+  const { t } = useI18n();
+  const [state, setState] = useState<PlaygroundState>(DEFAULT_PLAYGROUND_STATE);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [copied, setCopied] = useState(false);
+  const snippet = useMemo(() => generateSnippet(state), [state]);
+
+  const update = (changes: Partial<PlaygroundState>) => setState(prev => ({ ...prev, ...changes }));
+
+  const selectMethod = (method: PlaygroundState['method']) => {
+    const types = credentialTypesFor(method);
+    update({ method, ...(types.length > 0 && !types.includes(state.credentialType) && { credentialType: types[0] }) });
+    setResult(null);
+  };
+
+  const showPublicKey = (state.method === 'get' && state.requestPublicKey)
+    || (state.method === 'create' && state.credentialType === 'publicKey');
+  const showCredentialData = (state.method === 'create' || state.method === 'store') && state.credentialType !== 'publicKey';
+
+  const run = async () => {
+    setIsRunning(true);
+    setResult(null);
+    const signal = state.abortAfterMs > 0 ? AbortSignal.timeout(state.abortAfterMs) : undefined;
+    const span = logger.span(t('log.playgroundCall', { call: `navigator.credentials.${state.method}()` }), {
+      ...(state.method === 'get' && { mediation: state.mediation }),
+      ...((state.method === 'create' || state.method === 'store') && { type: state.credentialType }),
+      abortAfterMs: state.abortAfterMs || null,
+    });
+    const started = performance.now();
+    try {
+      let value: unknown;
+      switch (state.method) {
+        case 'get':
+          value = describeCredential(await injector.run('get', () => navigator.credentials.get(buildRequestOptions(state, signal)), signal));
+          break;
+        case 'create':
+          value = describeCredential(await injector.run('create', () => navigator.credentials.create(buildCreationOptions(state, signal)), signal));
+          break;
+        case 'store':
+          value = await injector.run('store', () => navigator.credentials.store(buildStoredCredential(state)));
+          break;
+        case 'preventSilentAccess':
+          value = await injector.run('preventSilentAccess', () => navigator.credentials.preventSilentAccess());
+          break;
+      }
+      const durationMs = Math.round(performance.now() - started);
+      setResult({ status: 'ok', value: value ?? null, durationMs });
+      span.end('ok', { resolvedWith: value === null || value === undefined ? 'null' : 'credential' });
+    } catch (error) {
+      const durationMs = Math.round(performance.now() - started);
+      setResult({
+        status: 'error',
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        durationMs,
+      });
+      span.end('error', errorFields(error));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const copySnippet = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      logger.error(t('log.snippetCopyFailed'), errorFields(error));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="bg-indigo-50 dark:bg-indigo-900/30 p-2 rounded-lg">
+          <FlaskConical className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('playground.title')}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('playground.subtitle')}</p>
+        </div>
+      </div>
+
+      <div role="tablist" aria-label={t('playground.method')} className="flex flex-wrap gap-1 mb-4">
+        {PLAYGROUND_METHODS.map(method => (
+          <button
+            key={method}
+            type="button"
+            role="tab"
+            aria-selected={state.method === method}
+            onClick={() => selectMethod(method)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-mono ${state.method === method
+              ? 'bg-indigo-600 text-white'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+          >
+            {method}()
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {state.method === 'get' && (
+          <>
+            <Field label="mediation" htmlFor="playground-mediation">
+              <select
+                id="playground-mediation"
+                value={state.mediation}
+                onChange={(e) => update({ mediation: e.target.value as CredentialMediationRequirement })}
+                className={inputClassName}
+              >
+                {['silent', 'optional', 'required', 'conditional'].map(mode => <option key={mode} value={mode}>{mode}</option>)}
+              </select>
+            </Field>
+            <div className="space-y-2">
+              <Checkbox label={<code>password: true</code>} checked={state.requestPassword} onChange={(requestPassword) => update({ requestPassword })} />
+              <Checkbox label={<code>federated</code>} checked={state.requestFederated} onChange={(requestFederated) => update({ requestFederated })} />
+              {state.requestFederated && (
+                <Field label={t('playground.providers')} htmlFor="playground-providers">
+                  <input
+                    id="playground-providers"
+                    value={state.federatedProviders}
+                    onChange={(e) => update({ federatedProviders: e.target.value })}
+                    className={inputClassName}
+                  />
+                </Field>
+              )}
+              <Checkbox label={<code>publicKey</code>} checked={state.requestPublicKey} onChange={(requestPublicKey) => update({ requestPublicKey })} />
+            </div>
+          </>
+        )}
+
+        {(state.method === 'create' || state.method === 'store') && (
+          <Field label={t('playground.credentialType')} htmlFor="playground-type">
+            <select
+              id="playground-type"
+              value={state.credentialType}
+              onChange={(e) => update({ credentialType: e.target.value as PlaygroundState['credentialType'] })}
+              className={inputClassName}
+            >
+              {credentialTypesFor(state.method).map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </Field>
+        )}
+
+        {showCredentialData && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label="id" htmlFor="playground-id">
+              <input id="playground-id" value={state.id} onChange={(e) => update({ id: e.target.value })} className={inputClassName} autoComplete="off" />
+            </Field>
+            <Field label="name" htmlFor="playground-name">
+              <input id="playground-name" value={state.name} onChange={(e) => update({ name: e.target.value })} className={inputClassName} autoComplete="off" />
+            </Field>
+            {state.credentialType === 'password' ? (
+              <Field label="password" htmlFor="playground-password">
+                <input
+                  id="playground-password"
+                  type="password"
+                  value={state.password}
+                  onChange={(e) => update({ password: e.target.value })}
+                  className={inputClassName}
+                  autoComplete="off"
+                />
+              </Field>
+            ) : (
+              <Field label="provider" htmlFor="playground-provider">
+                <input id="playground-provider" value={state.provider} onChange={(e) => update({ provider: e.target.value })} className={inputClassName} />
+              </Field>
+            )}
+          </div>
+        )}
+
+        {showPublicKey && (
+          <fieldset className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+            <legend className="px-1 text-xs font-mono text-gray-600 dark:text-gray-300">publicKey</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {state.method === 'create' && (
+                <>
+                  <Field label="rp.name" htmlFor="playground-rp-name">
+                    <input id="playground-rp-name" value={state.rpName} onChange={(e) => update({ rpName: e.target.value })} className={inputClassName} />
+                  </Field>
+                  <Field label="user.name" htmlFor="playground-user-name">
+                    <input id="playground-user-name" value={state.userName} onChange={(e) => update({ userName: e.target.value })} className={inputClassName} />
+                  </Field>
+                  <Field label="user.displayName" htmlFor="playground-user-display-name">
+                    <input
+                      id="playground-user-display-name"
+                      value={state.userDisplayName}
+                      onChange={(e) => update({ userDisplayName: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </Field>
+                  <Field label="authenticatorAttachment" htmlFor="playground-attachment">
+                    <select
+                      id="playground-attachment"
+                      value={state.authenticatorAttachment}
+                      onChange={(e) => update({ authenticatorAttachment: e.target.value as PlaygroundState['authenticatorAttachment'] })}
+                      className={inputClassName}
+                    >
+                      <option value="">{t('playground.anyAttachment')}</option>
+                      <option value="platform">platform</option>
+                      <option value="cross-platform">cross-platform</option>
+                    </select>
+                  </Field>
+                  <Field label="residentKey" htmlFor="playground-resident-key">
+                    <select
+                      id="playground-resident-key"
+                      value={state.residentKey}
+                      onChange={(e) => update({ residentKey: e.target.value as ResidentKeyRequirement })}
+                      className={inputClassName}
+                    >
+                      {['discouraged', 'preferred', 'required'].map(value => <option key={value} value={value}>{value}</option>)}
+                    </select>
+                  </Field>
+                  <Field label="attestation" htmlFor="playground-attestation">
+                    <select
+                      id="playground-attestation"
+                      value={state.attestation}
+                      onChange={(e) => update({ attestation: e.target.value as AttestationConveyancePreference })}
+                      className={inputClassName}
+                    >
+                      {['none', 'indirect', 'direct', 'enterprise'].map(value => <option key={value} value={value}>{value}</option>)}
+                    </select>
+                  </Field>
+                </>
+              )}
+              <Field label="userVerification" htmlFor="playground-user-verification">
+                <select
+                  id="playground-user-verification"
+                  value={state.userVerification}
+                  onChange={(e) => update({ userVerification: e.target.value as UserVerificationRequirement })}
+                  className={inputClassName}
+                >
+                  {['discouraged', 'preferred', 'required'].map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+              </Field>
+              <Field label="timeout (ms)" htmlFor="playground-public-key-timeout">
+                <input
+                  id="playground-public-key-timeout"
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={state.publicKeyTimeoutMs}
+                  onChange={(e) => update({ publicKeyTimeoutMs: Math.max(0, Number(e.target.value)) })}
+                  className={inputClassName}
+                />
+              </Field>
+            </div>
+            {state.method === 'create' && (
+              <div className="flex flex-wrap gap-4 mt-3">
+                <span className="text-xs text-gray-600 dark:text-gray-300">pubKeyCredParams</span>
+                {COSE_ALGORITHMS.map(algorithm => (
+                  <Checkbox
+                    key={algorithm.value}
+                    label={`${algorithm.label} (${algorithm.value})`}
+                    checked={state.algorithms.includes(algorithm.value)}
+                    onChange={(checked) => update({
+                      algorithms: checked
+                        ? [...state.algorithms, algorithm.value]
+                        : state.algorithms.filter(alg => alg !== algorithm.value),
+                    })}
+                  />
+                ))}
+              </div>
+            )}
+          </fieldset>
+        )}
+
+        {state.method !== 'preventSilentAccess' && state.method !== 'store' && (
+          <Field label={t('playground.abortAfter')} htmlFor="playground-abort">
+            <input
+              id="playground-abort"
+              type="number"
+              min={0}
+              step={500}
+              value={state.abortAfterMs}
+              onChange={(e) => update({ abortAfterMs: Math.max(0, Number(e.target.value)) })}
+              className={`${inputClassName} sm:w-48`}
+            />
+          </Field>
+        )}
+
+        <button
+          type="button"
+          onClick={run}
+          disabled={isRunning}
+          className="flex items-center gap-2 py-2 px-4 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          {isRunning ? t('playground.running') : t('playground.run')}
+        </button>
+
+        {result && (
+          <div
+            role="status"
+            className={`rounded-lg p-3 text-sm ${result.status === 'ok'
+              ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+              : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'}`}
+          >
+            <p className="font-medium mb-1">
+              {result.status === 'ok'
+                ? t('playground.resolved', { ms: result.durationMs })
+                : t('playground.rejected', { name: result.name, ms: result.durationMs })}
+            </p>
+            <pre dir="ltr" className="font-mono text-xs whitespace-pre-wrap break-all">
+              {result.status === 'ok' ? JSON.stringify(result.value, null, 2) : result.message}
+            </pre>
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-medium text-gray-600 dark:text-gray-300">{t('playground.snippet')}</span>
+            <button
+              type="button"
+              onClick={copySnippet}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+              {copied ? t('playground.copied') : t('playground.copy')}
+            </button>
+          </div>
+          <pre dir="ltr" className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-3 font-mono text-xs text-gray-800 dark:text-gray-200 overflow-x-auto">
+            <code>{snippet}</code>
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ApiPlayground;
@@ -1,283 +1,589 @@
-import React, { useState, useEffect } from 'react';
-import { KeyRound, Save, UserCircle, AlertCircle, Terminal, Shield, Sun, Moon, BookOpen } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { KeyRound, UserCircle, UserPlus, AlertCircle, BookOpen, RefreshCw, Users, Fingerprint, Database } from 'lucide-react';
+import ThemeSwitcher from './ThemeSwitcher';
+import LocalePicker from './LocalePicker';
+import AccountChooserDialog from './AccountChooserDialog';
+import CapabilityReportPanel from './CapabilityReportPanel';
+import SignUpForm from './SignUpForm';
+import ChangePasswordForm from './ChangePasswordForm';
+import KnownAccountsList, { AccountAvatar } from './KnownAccountsList';
+import SessionExpiryBanner from './SessionExpiryBanner';
+import FaultInjectionPanel from './FaultInjectionPanel';
+import MetricsPanel from './MetricsPanel';
+import ApiPlayground from './ApiPlayground';
+import EmbedNotice from './EmbedNotice';
+import OperationPolicySettings from './OperationPolicySettings';
+import SecondFactorPrompt from './SecondFactorPrompt';
+import SecondFactorSetup from './SecondFactorSetup';
+import LiveAnnouncer, { type Announcement } from './LiveAnnouncer';
+import SecurityMessage from './SecurityMessage';
+import ApiExplanation from './ApiExplanation';
+import { findProbe, runProbes, type CapabilityReport } from './capabilityProbes';
+import { checkAccessibility } from './accessibilityCheck';
+import {
+  CredentialLoginForm,
+  DEFAULT_MAX_LOG_ENTRIES,
+  IDENTITY_PROVIDER,
+  LOG_CAPACITY_OPTIONS,
+  OPERATION_NAMES,
+  OperationStatus,
+  ProcessLog,
+  consumeFederatedCallback,
+  createLogHistory,
+  createLogger,
+  createMetrics,
+  createRedactor,
+  createTranslator,
+  endWhenSettled,
+  errorFields,
+  isEmbedMode,
+  isEmulatedBackendAvailable,
+  isLogHistoryAvailable,
+  useCredentialManager,
+  useEmbedBridge,
+  useFederatedSignIn,
+  useI18n,
+  usePasskeys,
+  usePasswordAccount,
+  useSecondFactor,
+  useSession,
+  type ChangePasswordValues,
+  type CredentialData,
+  type CredentialLoginFormErrors,
+  type KnownAccount,
+  type LocaleCode,
+  type LogScope,
+  type OperationName,
+  type OperationPolicy,
+  type PasswordCredentialData,
+  type SignUpValues,
+} from './index';
 import { useTheme } from './ThemeContext';
+import { describeProbe, probeName } from './i18n';
+import { checkBreachedPassword } from './breachCheck';
+import { DEFAULT_GENERATED_LENGTH } from './passwordGenerator';
+import { createFaultInjector, isFaultConfigActive } from './faultInjection';
+import { withFaults } from './credentialBackend';
+import { findEmbedLimitations, findLimitingProbes } from './embed';
+import { safeLocalStorage } from './safeStorage';
+
+const MEDIATION_STORAGE_KEY = 'credential-mediation';
+const FORCE_EMULATED_STORAGE_KEY = 'force-emulated-backend';
+const OPERATION_POLICIES_STORAGE_KEY = 'operation-policies';
+const LOG_CAPACITY_STORAGE_KEY = 'process-log-max-entries';
+
+const SESSION_WARNING_MS = 2 * 60 * 1000;
+// The development accessibility check waits for a view to settle, e.g. after
+// a form transition or a status message, before scanning it.
+const ACCESSIBILITY_CHECK_DELAY_MS = 1000;
+const PROCESS_LOG_ID = 'process-log';
+
+const MEDIATION_MODES: CredentialMediationRequirement[] = ['silent', 'optional', 'required', 'conditional'];
+
+// Read once per page load, outside the component, so StrictMode's double effect
+// run cannot consume the provider callback twice.
+const federatedCallback = consumeFederatedCallback();
+const embedMode = isEmbedMode();
+
+const getStoredMediation = (): CredentialMediationRequirement => {
+  const stored = safeLocalStorage.getItem(MEDIATION_STORAGE_KEY);
+  return MEDIATION_MODES.some(mode => mode === stored) ? stored as CredentialMediationRequirement : 'silent';
+};
+
+const getStoredLogCapacity = () => {
+  const stored = Number(safeLocalStorage.getItem(LOG_CAPACITY_STORAGE_KEY));
+  return LOG_CAPACITY_OPTIONS.includes(stored) ? stored : DEFAULT_MAX_LOG_ENTRIES;
+};
+
+// Only the fields the settings panel edits are kept, so a stale or hand-edited
+// entry cannot smuggle in anything else.
+const getStoredOperationPolicies = () => {
+  const policies: Partial<Record<OperationName, Partial<OperationPolicy>>> = {};
+  try {
+    const stored = JSON.parse(safeLocalStorage.getItem(OPERATION_POLICIES_STORAGE_KEY) ?? '{}');
+    for (const name of OPERATION_NAMES) {
+      const { timeoutMs, retries } = stored?.[name] ?? {};
+      policies[name] = {
+        ...((timeoutMs === null || (typeof timeoutMs === 'number' && timeoutMs > 0)) && { timeoutMs }),
+        ...(Number.isInteger(retries) && retries >= 0 && { retries }),
+      };
+    }
+  } catch {
+    // Unreadable settings fall back to the defaults.
+  }
+  return policies;
+};
 
 function App() {
-  const { theme, toggleTheme } = useTheme();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { highContrast } = useTheme();
+  // For callbacks created once, such as the fault injector's, that must still
+  // log in the current language.
+  const latestTranslator = useRef(i18n);
+  latestTranslator.current = i18n;
+  const [redactor] = useState(() => createRedactor());
+  const [logger] = useState(() => createLogger({ redactor, maxEntries: getStoredLogCapacity() }));
+  const [metrics] = useState(() => createMetrics({ sessionId: logger.sessionId }));
+  const [logHistory] = useState(() => isLogHistoryAvailable() ? createLogHistory() : undefined);
+  const [faultInjector] = useState(() => createFaultInjector({
+    onInject: (operation, fault, latencyMs) => logger.info(latestTranslator.current.t('log.faultInjected'), {
+      operation: `navigator.credentials.${operation}()`,
+      fault,
+      ...(fault === 'latency' ? { latencyMs } : {}),
+    }),
+  }));
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
-  const [isCredentialSupported, setIsCredentialSupported] = useState(false);
+  const [loginErrors, setLoginErrors] = useState<CredentialLoginFormErrors>({});
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
   const [securityContext, setSecurityContext] = useState<'secure' | 'insecure'>('insecure');
-  const [processLogs, setProcessLogs] = useState<Array<{ message: string; timestamp: string; type: 'info' | 'success' | 'error' | 'debug' }>>([]);
-
-  const addLog = (message: string, type: 'info' | 'success' | 'error' | 'debug' = 'info') => {
-    const timestamp = new Date().toLocaleTimeString('en-US', {
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      fractionalSecondDigits: 3
-    });
-    setProcessLogs(prev => [...prev, { message, timestamp, type }]);
+  const [mediation, setMediation] = useState<CredentialMediationRequirement>(getStoredMediation);
+  const federatedCallbackHandled = useRef(false);
+  const [forceEmulated, setForceEmulated] = useState(() => safeLocalStorage.getItem(FORCE_EMULATED_STORAGE_KEY) === 'true');
+  const [storedOperationPolicies] = useState(getStoredOperationPolicies);
+  const [authView, setAuthView] = useState<'signin' | 'signup'>('signin');
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [breachPrompt, setBreachPrompt] = useState<{ count: number; resolve: (save: boolean) => void } | null>(null);
+  const [capabilityReport, setCapabilityReport] = useState<CapabilityReport | null>(null);
+  const [chooserRequest, setChooserRequest] = useState<{
+    candidates: CredentialData[];
+    resolve: (credential: CredentialData | null) => void;
+  } | null>(null);
+
+  // Raw error objects can carry request bodies or credential values, so the
+  // console only ever sees a redacted summary.
+  const reportError = (context: string, error: unknown) => {
+    console.error(context, redactor.redactError(error));
   };
 
-  useEffect(() => {
-    const checkSupport = () => {
-      addLog('🔍 Starting comprehensive system environment check...', 'info');
-      addLog('📊 System Information:', 'info');
-      addLog(`  ├─ Platform: ${navigator.platform}`, 'debug');
-      addLog(`  ├─ User Agent: ${navigator.userAgent}`, 'debug');
-      addLog(`  ├─ Language: ${navigator.language}`, 'debug');
-      addLog(`  ├─ Online Status: ${navigator.onLine ? 'Connected' : 'Offline'}`, 'debug');
-      addLog(`  └─ Cookies Enabled: ${navigator.cookieEnabled ? 'Yes' : 'No'}`, 'debug');
-      
-      const isSecure = window.isSecureContext;
-      addLog('🔒 Security Context Analysis:', 'info');
-      addLog(`  ├─ Secure Context: ${isSecure ? 'Enabled' : 'Disabled'}`, 'debug');
-      addLog(`  ├─ Content Security: ${document.contentType}`, 'debug');
-      addLog(`  └─ Document Domain: ${document.domain}`, 'debug');
-      
-      const hasAPI = typeof window.PasswordCredential !== 'undefined';
-      addLog('🔑 Credential Management API Check:', 'info');
-      addLog(`  ├─ API Available: ${hasAPI ? 'Yes' : 'No'}`, 'debug');
-      if (hasAPI) {
-        addLog('  ├─ Checking API Features:', 'debug');
-        addLog(`  │  ├─ PasswordCredential: ${typeof window.PasswordCredential !== 'undefined' ? '✅' : '❌'}`, 'debug');
-        addLog(`  │  ├─ FederatedCredential: ${typeof window.FederatedCredential !== 'undefined' ? '✅' : '❌'}`, 'debug');
-        addLog(`  │  └─ PublicKeyCredential: ${typeof window.PublicKeyCredential !== 'undefined' ? '✅' : '❌'}`, 'debug');
+  const chooseAccount = (candidates: CredentialData[], signal?: AbortSignal) =>
+    new Promise<CredentialData | null>((resolve, reject) => {
+      signal?.addEventListener('abort', () => {
+        setChooserRequest(null);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+      setChooserRequest({
+        candidates,
+        resolve: credential => {
+          setChooserRequest(null);
+          resolve(credential);
+        },
+      });
+    });
+
+  const [announce] = useState(() => (message: string, politeness: Announcement['politeness'] = 'polite') => {
+    setAnnouncement(previous => ({ id: (previous?.id ?? 0) + 1, message, politeness }));
+  });
+
+  const confirmBreachedSave = (count: number) =>
+    new Promise<boolean>(resolve => {
+      setBreachPrompt({
+        count,
+        resolve: save => {
+          setBreachPrompt(null);
+          resolve(save);
+        },
+      });
+    });
+
+  // The hooks below only call each other's functions from events and
+  // requests, never while rendering, so they may refer to ones declared
+  // further down.
+  const session = useSession({
+    logger,
+    redactor,
+    signOut: scope => manager.signOut(scope),
+    onStatus: setStatusMessage,
+    onSignedIn: (account, source) => {
+      setUsername(account.id);
+      if (source === 'here') {
+        setAuthView('signin');
+        embedBridge?.post({ type: 'logged-in', account: { id: account.id, name: account.name, method: account.method } });
+        announce(t('announce.loggedIn', { name: account.name }));
       }
-      
-      const protocol = window.location.protocol;
-      const hostname = window.location.hostname;
-      addLog('🌐 Network Configuration:', 'info');
-      addLog(`  ├─ Protocol: ${protocol}`, 'debug');
-      addLog(`  ├─ Hostname: ${hostname}`, 'debug');
-      addLog(`  ├─ Port: ${window.location.port || 'default'}`, 'debug');
-      addLog(`  └─ Full Origin: ${window.location.origin}`, 'debug');
-      
-      setSecurityContext(isSecure ? 'secure' : 'insecure');
-      
-      const isSupported = hasAPI && isSecure && (
-        protocol === 'https:' || 
-        hostname === 'localhost' || 
-        hostname === '127.0.0.1'
-      );
-      
-      setIsCredentialSupported(isSupported);
-      
-      addLog('📊 Final Environment Analysis:', 'info');
-      addLog(`  ├─ Security Context: ${isSecure ? '✅ Secure' : '❌ Insecure'}`, isSecure ? 'success' : 'error');
-      addLog(`  ├─ Credential API: ${hasAPI ? '✅ Supported' : '❌ Not Supported'}`, hasAPI ? 'success' : 'error');
-      addLog(`  ├─ Protocol Security: ${protocol === 'https:' ? '✅ HTTPS' : '❌ Not HTTPS'}`, protocol === 'https:' ? 'success' : 'error');
-      addLog(`  ├─ Host Validation: ${['localhost', '127.0.0.1'].includes(hostname) ? '✅ Valid' : '❌ Invalid'}`, ['localhost', '127.0.0.1'].includes(hostname) ? 'success' : 'error');
-      addLog(`  └─ Overall Status: ${isSupported ? '✅ ENABLED' : '❌ DISABLED'}`, isSupported ? 'success' : 'error');
-      
-      if (!hasAPI) {
-        setStatusMessage('Your browser does not support credential management');
-        addLog('⚠️ Critical Error: Browser Compatibility', 'error');
-        addLog('  ├─ Issue: Credential Management API not available', 'error');
-        addLog('  ├─ Impact: Cannot store or retrieve credentials', 'error');
-        addLog('  └─ Solution: Use a modern browser with API support', 'error');
-      } else if (!isSecure) {
-        setStatusMessage('Credential management requires a secure context (HTTPS or localhost)');
-        addLog('⚠️ Critical Error: Security Context', 'error');
-        addLog('  ├─ Issue: Not running in a secure context', 'error');
-        addLog('  ├─ Impact: Cannot access credential management features', 'error');
-        addLog('  └─ Solution: Access via HTTPS or localhost', 'error');
+    },
+    onSignedOut: reason => {
+      breachPrompt?.resolve(false);
+      setIsChangingPassword(false);
+      setUsername('');
+      setPassword('');
+      embedBridge?.post({ type: 'logged-out', reason });
+      announce(t('announce.loggedOut'));
+    },
+  });
+  const isLoggedIn = session.current !== null;
+  const activeAccount = session.current?.account ?? null;
+
+  const secondFactor = useSecondFactor({ logger, redactor, account: activeAccount, onStatus: setStatusMessage });
+
+  const passwordAccount = usePasswordAccount({
+    logger,
+    redactor,
+    store: (credential, scope) => manager.store(credential, scope),
+    verifySecondFactor: secondFactor.verify,
+    onSignedIn: session.start,
+    onStatus: setStatusMessage,
+  });
+
+  // Runs before any password is stored, whether from sign-in, sign-up or a
+  // password change: a breached password is only saved if the user insists.
+  const confirmStore = async (credential: PasswordCredentialData, scope: LogScope) => {
+    const breachCheck = scope.span(t('log.breachCheck'), { method: 'k-anonymity range lookup' });
+    try {
+      const result = await checkBreachedPassword(credential.password);
+      // No part of the hash is logged: the log is exported and kept across reloads.
+      breachCheck.end('ok', { breached: result.breached, occurrences: result.count });
+      if (result.breached) {
+        scope.info(t('log.breachFound'), { occurrences: result.count });
+        if (!await confirmBreachedSave(result.count)) {
+          scope.info(t('log.storageDeclined'), { reason: 'Breached password' });
+          return false;
+        }
       }
-    };
+    } catch (error) {
+      breachCheck.error(t('log.breachCheckUnavailable'), errorFields(error));
+      breachCheck.end('error');
+    }
+    return true;
+  };
 
-    checkSupport();
-  }, []);
+  const manager = useCredentialManager({
+    logger,
+    redactor,
+    metrics,
+    forceEmulated,
+    operationPolicies: storedOperationPolicies,
+    chooseAccount,
+    wrapBackend: selected => withFaults(selected, faultInjector),
+    // The provider redirects back to the full page, so the widget leaves
+    // federated sign-in to its host.
+    federatedProviders: embedMode ? [] : [IDENTITY_PROVIDER.origin],
+    authenticate: passwordAccount.authenticate,
+    confirmStore,
+  });
+  const { backend, isRetrieving, subscribe: subscribeToManager } = manager;
 
-  const handleLogin = async (user: string, pass: string, store = true) => {
-    addLog('🔄 Initiating login sequence...', 'info');
-    addLog('📝 Validating credentials...', 'info');
-    
-    if (!user || !pass) {
-      setStatusMessage('Please enter both username and password');
-      addLog('❌ Validation Error:', 'error');
-      addLog('  ├─ Status: Failed', 'error');
-      addLog(`  ├─ Username: ${user ? '✅ Provided' : '❌ Missing'}`, user ? 'success' : 'error');
-      addLog(`  ├─ Password: ${pass ? '✅ Provided' : '❌ Missing'}`, pass ? 'success' : 'error');
-      addLog('  └─ Action: Login process aborted', 'error');
-      return;
+  const passkeys = usePasskeys({
+    manager,
+    verifySecondFactor: secondFactor.verify,
+    onSignedIn: session.start,
+    onStatus: setStatusMessage,
+    wrapCeremony: (operation, call, signal) => faultInjector.run(operation, call, signal),
+  });
+
+  const federated = useFederatedSignIn({
+    manager,
+    verifySecondFactor: secondFactor.verify,
+    onSignedIn: session.start,
+    onStatus: setStatusMessage,
+  });
+
+  const embedBridge = useEmbedBridge({
+    enabled: embedMode,
+    manager,
+    commands: {
+      signIn: (user, pass, store) => {
+        cancelRetrieve();
+        setUsername(user);
+        return handleLogin(user, pass, store);
+      },
+      signOut: async () => {
+        if (session.current) {
+          await session.end('logout');
+        }
+      },
+      silentGet: () => retrieveCredentials('silent'),
+    },
+  });
+
+  // A waiting autofill request would block any other credential prompt.
+  const cancelRetrieve = () => {
+    manager.cancelRetrieve();
+    passkeys.cancelAutofill();
+  };
+
+  const runEnvironmentCheck = async () => {
+    const check = logger.span(t('log.environmentCheck'));
+    check.debug(t('log.systemInformation'), {
+      platform: navigator.platform,
+      userAgent: navigator.userAgent,
+      language: navigator.language,
+      online: navigator.onLine,
+    });
+
+    const report = await endWhenSettled(metrics.start('detect'), runProbes());
+    setCapabilityReport(report);
+    for (const result of report.results) {
+      const write = result.status === 'fail' ? check.error : result.status === 'pass' ? check.success : check.info;
+      write(t('log.probeResult', { name: probeName(i18n, result.id), status: t(`report.status.${result.status}`) }), { ...result.data, explanation: describeProbe(i18n, result) });
     }
 
-    addLog('✅ Input Validation:', 'success');
-    addLog('  ├─ Username format: Valid', 'debug');
-    addLog('  ├─ Password requirements: Met', 'debug');
-    addLog('  └─ Proceeding with authentication', 'debug');
-    
-    addLog(`📝 Processing authentication for user: ${user}`, 'info');
-    addLog('🌐 Initiating authentication sequence...', 'info');
-    addLog('  ├─ Preparing request', 'debug');
-    addLog('  ├─ Encrypting payload', 'debug');
-    addLog('  └─ Sending to authentication service', 'debug');
-    
-    // Simulate API call
-    setIsLoggedIn(true);
-    setStatusMessage('Successfully logged in!');
-    addLog('✅ Authentication Result:', 'success');
-    addLog('  ├─ Status: Success', 'success');
-    addLog('  ├─ Session established', 'success');
-    addLog('  └─ User context initialized', 'success');
-
-    if (store && isCredentialSupported && securityContext === 'secure') {
-      try {
-        addLog('🔐 Credential Storage Process:', 'info');
-        addLog('  ├─ Initializing secure storage', 'debug');
-        addLog('  ├─ Creating credential object', 'debug');
-        
-        const cred = new PasswordCredential({
-          id: user,
-          password: pass,
-          name: user,
-        });
+    const isSecure = findProbe(report, 'secure-context')?.status === 'pass';
+    setSecurityContext(isSecure ? 'secure' : 'insecure');
+    if (!isSecure) {
+      setStatusMessage(t('status.insecureContext'));
+    } else if (findProbe(report, 'credential-types')?.status === 'fail') {
+      setStatusMessage(t('status.unsupported'));
+    }
 
-        addLog('  ├─ Credential object created', 'success');
-        addLog('  ├─ Validating credential format', 'debug');
-        addLog('  └─ Initiating storage operation', 'debug');
+    check.end(report.counts.fail > 0 ? 'error' : 'ok', report.counts);
+    return report;
+  };
 
-        await navigator.credentials.store(cred);
-        setStatusMessage('Login successful! Credentials saved for future use.');
-        addLog('✅ Credential Storage:', 'success');
-        addLog('  ├─ Status: Success', 'success');
-        addLog('  ├─ Credentials encrypted', 'success');
-        addLog('  └─ Storage operation complete', 'success');
-      } catch (error) {
-        console.error('Credential storage error:', error);
-        setStatusMessage('Login successful! (Could not save credentials)');
-        addLog('❌ Credential Storage Error:', 'error');
-        addLog('  ├─ Status: Failed', 'error');
-        addLog(`  ├─ Error Type: ${error instanceof Error ? error.name : 'Unknown'}`, 'error');
-        addLog(`  ├─ Message: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-        addLog('  └─ Storage operation aborted', 'error');
+  // Assigned on every render so it sees the latest state; the effect below
+  // calls it once, on mount, for the environment check and automatic sign-in.
+  const startUpHandler = useRef<() => void>();
+  startUpHandler.current = () => {
+    runEnvironmentCheck().then(report => embedBridge?.post({
+      type: 'ready',
+      support: manager.support,
+      limitations: findEmbedLimitations(report),
+    }));
+    const faultConfig = faultInjector.getConfig();
+    if (isFaultConfigActive(faultConfig)) {
+      logger.info(t('log.faultScenarioLoaded'), {
+        ...faultConfig.faults,
+        latencyMs: faultConfig.latencyMs,
+      });
+    }
+    if (federatedCallback) {
+      if (!federatedCallbackHandled.current) {
+        federatedCallbackHandled.current = true;
+        federated.complete(federatedCallback);
       }
-    } else if (store && !isCredentialSupported) {
-      addLog('ℹ️ Credential Storage Skipped:', 'info');
-      addLog('  ├─ Reason: Feature not supported', 'debug');
-      addLog(`  ├─ API Support: ${isCredentialSupported ? '✅' : '❌'}`, 'debug');
-      addLog(`  ├─ Security Context: ${securityContext}`, 'debug');
-      addLog('  └─ No action taken', 'debug');
+    } else if (session.current) {
+      session.resume(session.current);
+    } else if (backend && !embedMode) {
+      // Embedded, the host decides when to sign in, with a silent-get command.
+      retrieveCredentials(getStoredMediation());
+    }
+
+    if (!session.crossTab) {
+      logger.info(t('log.crossTabUnavailable'), { reason: 'BroadcastChannel is not supported' });
     }
   };
 
-  const handleLogout = async () => {
-    addLog('🔄 Initiating logout process...', 'info');
-    addLog('  ├─ Clearing session state', 'debug');
-    addLog('  ├─ Removing user context', 'debug');
-    addLog('  └─ Resetting application state', 'debug');
-    
-    setIsLoggedIn(false);
-    setUsername('');
-    setPassword('');
-    setStatusMessage('');
-
-    if (isCredentialSupported && navigator.credentials?.preventSilentAccess) {
-      try {
-        addLog('🔒 Security cleanup:', 'info');
-        addLog('  ├─ Preventing silent access', 'debug');
-        await navigator.credentials.preventSilentAccess();
-        addLog('  └─ Silent access prevention successful', 'success');
-      } catch (error) {
-        console.error('Error preventing silent access:', error);
-        addLog('❌ Security cleanup error:', 'error');
-        addLog(`  ├─ Error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-        addLog('  └─ Silent access prevention failed', 'error');
+  useEffect(() => startUpHandler.current?.(), []);
+
+  const retrieveCredentials = async (mode: CredentialMediationRequirement) => {
+    // Conditional mediation is for passkeys only; password credentials
+    // come from the username field's own autofill.
+    if (mode === 'conditional') {
+      passkeys.signIn('conditional');
+      return null;
+    }
+    const cred = await manager.retrieve(mode);
+    if (cred?.type === 'federated') {
+      federated.begin({ loginHint: cred.id, prompt: 'none' });
+    } else if (cred) {
+      setUsername(cred.id);
+      setPassword(cred.password);
+      await handleLogin(cred.id, cred.password, false);
+    }
+    return cred;
+  };
+
+  const handleForceEmulatedChange = (emulated: boolean) => {
+    setForceEmulated(emulated);
+    safeLocalStorage.setItem(FORCE_EMULATED_STORAGE_KEY, String(emulated));
+    manager.setForceEmulated(emulated);
+  };
+
+  const handleOperationPolicyChange = (name: OperationName, policy: Partial<OperationPolicy>) => {
+    manager.setOperationPolicy(name, policy);
+    const next = { ...manager.operationPolicies, [name]: { ...manager.operationPolicies[name], ...policy } };
+    safeLocalStorage.setItem(OPERATION_POLICIES_STORAGE_KEY, JSON.stringify(next));
+    logger.info(t('log.operationPolicyChanged', { operation: `${name}()` }), {
+      timeoutMs: next[name].timeoutMs,
+      retries: next[name].retries,
+    });
+  };
+
+  const handleFederatedSignIn = () => {
+    cancelRetrieve();
+    federated.begin();
+  };
+
+  const handleMediationChange = (mode: CredentialMediationRequirement) => {
+    setMediation(mode);
+    safeLocalStorage.setItem(MEDIATION_STORAGE_KEY, mode);
+    logger.info(t('log.mediationChanged'), { mediation: mode });
+  };
+
+  const handleLogin = async (user: string, pass: string, store = true) => {
+    const result = await manager.signIn(user, pass, { store });
+    if (!result.ok) {
+      if (result.reason === 'invalid_input') {
+        setStatusMessage('');
+        setLoginErrors({
+          username: user ? undefined : t('signIn.error.usernameRequired'),
+          password: pass ? undefined : t('signIn.error.passwordRequired'),
+        });
       }
+      return result;
+    }
+    setLoginErrors({});
+    if (result.storage === 'stored') {
+      setStatusMessage(t('status.loggedInSaved'));
+    } else if (result.storage === 'declined') {
+      setStatusMessage(t('status.loggedInBreached'));
+    } else if (result.storage === 'failed' || result.storage === 'timed-out') {
+      setStatusMessage(t('status.loggedInSaveFailed'));
     }
-    addLog('✅ Logout completed successfully', 'success');
+    return result;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    addLog('📝 Login form submitted', 'info');
-    handleLogin(username, password);
+  const handlePasswordGenerated = () => {
+    logger.info(t('log.passwordGenerated'), { source: 'crypto.getRandomValues', length: DEFAULT_GENERATED_LENGTH });
   };
 
-  const SecurityMessage = () => {
-    if (!isCredentialSupported) {
-      return (
-        <div className="mb-6 flex items-start gap-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-lg border border-yellow-200 dark:border-yellow-900/30 shadow-sm">
-          <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
-          <div>
-            <h3 className="font-semibold mb-1">Limited Functionality</h3>
-            <p className="text-sm">
-              Credential management is not available. The app will work, but won't save your login details.
-              {securityContext === 'insecure' && (
-                <span className="block mt-2 text-yellow-700 dark:text-yellow-300">
-                  To enable this feature, please access the site via HTTPS or localhost.
-                </span>
-              )}
-            </p>
-          </div>
-        </div>
-      );
+  const handleSignUp = (values: SignUpValues) => {
+    cancelRetrieve();
+    return passwordAccount.signUp(values);
+  };
+
+  const handleChangePassword = async (values: ChangePasswordValues) => {
+    const error = await passwordAccount.changePassword(values, activeAccount ?? { id: username, name: username });
+    if (!error) {
+      setIsChangingPassword(false);
     }
-    return null;
+    return error;
   };
 
-  const ApiExplanation = () => (
-    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-md border border-gray-100 dark:border-gray-700">
-      <div className="flex items-center gap-3 mb-4">
-        <div className="bg-purple-50 dark:bg-purple-900/30 p-2 rounded-lg">
-          <Shield className="w-6 h-6 text-purple-600 dark:text-purple-400" />
-        </div>
-        <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">Password Credentials API</h2>
-      </div>
-      <p className="text-gray-600 dark:text-gray-300 text-sm leading-relaxed mb-4">
-        This demo showcases the Password Credentials Management API, a modern web standard that enables secure credential storage in your browser. It allows websites to:
-      </p>
-      <ul className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
-        <li className="flex items-start gap-2">
-          <span className="text-green-500 dark:text-green-400 mt-1">•</span>
-          Securely store login credentials
-        </li>
-        <li className="flex items-start gap-2">
-          <span className="text-green-500 dark:text-green-400 mt-1">•</span>
-          Auto-fill login forms safely
-        </li>
-        <li className="flex items-start gap-2">
-          <span className="text-green-500 dark:text-green-400 mt-1">•</span>
-          Manage stored credentials
-        </li>
-      </ul>
-    </div>
-  );
+  const handleLogout = () => session.end('logout', true);
+
+  // Screen readers hear about saves and failed saves from every path,
+  // including ones the user did not start from the form.
+  useEffect(() => subscribeToManager(event => {
+    const { t } = latestTranslator.current;
+    if (event.type === 'stored') {
+      announce(t('announce.credentialSaved'));
+    } else if (event.type === 'error' && event.operation === 'store' && event.name !== 'AbortError') {
+      announce(t('announce.storageFailed'), 'assertive');
+    }
+  }), [announce, subscribeToManager]);
+
+  const currentView = isLoggedIn
+    ? isChangingPassword ? 'change-password' : 'account'
+    : secondFactor.prompt ? 'second-factor' : authView;
+
+  // Development builds scan each view with axe and log what fails WCAG 2.1
+  // AA; production builds drop this block and axe with it.
+  useEffect(() => {
+    if (import.meta.env.DEV) {
+      const timer = setTimeout(async () => {
+        const { t } = latestTranslator.current;
+        const span = logger.span(t('log.accessibilityCheck'), { view: currentView });
+        try {
+          const violations = await checkAccessibility();
+          for (const violation of violations) {
+            span.error(t('log.accessibilityViolation'), {
+              rule: violation.id,
+              impact: violation.impact,
+              help: violation.help,
+              targets: violation.targets.join(', '),
+            });
+          }
+          if (violations.length === 0) {
+            span.success(t('log.accessibilityPassed'));
+          }
+          span.end(violations.length === 0 ? 'ok' : 'error', { violations: violations.length });
+        } catch (error) {
+          span.error(t('log.accessibilityCheckFailed'), errorFields(error));
+          span.end('error');
+        }
+      }, ACCESSIBILITY_CHECK_DELAY_MS);
+      return () => clearTimeout(timer);
+    }
+  }, [currentView, logger]);
+
+  const handleSwitchAccount = () => {
+    logger.info(t('log.switchAccount'), { from: activeAccount?.id ?? null, mediation: 'required' });
+    // 'required' always shows the chooser, even when only one credential is stored.
+    retrieveCredentials('required');
+  };
+
+  const handleSelectKnownAccount = (account: KnownAccount) => {
+    logger.info(t('log.knownAccountSelected'), { username: account.id, method: account.method });
+    if (account.method === 'federated') {
+      federated.begin({ loginHint: account.id });
+    } else if (account.method === 'passkey') {
+      passkeys.signIn('optional');
+    } else {
+      setUsername(account.id);
+      setPassword('');
+      document.getElementById('password')?.focus();
+    }
+  };
 
-  const ProcessLog = () => (
+  const handleRemoveAccount = async (account: KnownAccount) => {
+    const span = logger.span(t('log.removeAccount'), { username: account.id, method: account.method });
+    session.forgetAccount(account.id);
+    span.debug(t('log.removedFromKnownAccounts'));
+
+    let message = t('status.accountRemoved', { name: account.name });
+    if (backend) {
+      const type = account.method === 'federated' ? 'federated' : 'password';
+      try {
+        if (await backend.remove(type, account.id)) {
+          span.success(t('log.storedCredentialDeleted'), { backend: backend.kind, type });
+        } else if (backend.kind === 'native') {
+          span.info(t('log.storedCredentialKept'), {
+            reason: 'navigator.credentials has no delete operation',
+            solution: 'Remove it from the browser password manager',
+          });
+          message = t('status.accountRemovedNative', { name: account.name });
+        } else {
+          span.debug(t('log.noStoredCredential'), { backend: backend.kind, type });
+        }
+      } catch (error) {
+        reportError('Credential removal error:', error);
+        span.error(t('log.storedCredentialDeleteFailed'), errorFields(error));
+      }
+    }
+    if (account.method === 'passkey') {
+      span.info(t('log.passkeyKept'), { reason: 'Passkeys are managed by the authenticator, not the page' });
+    }
+
+    if (activeAccount?.id === account.id) {
+      await handleLogout();
+    }
+    setStatusMessage(message);
+    span.end('ok');
+  };
+
+  const handleLocaleChange = (next: LocaleCode) => {
+    logger.info(createTranslator(next).t('log.localeChanged'), { locale: next });
+  };
+
+  // Editing either field clears the errors; the next submit checks again.
+  const clearLoginErrors = () => setLoginErrors(previous => previous.username || previous.password ? {} : previous);
+
+  const handleSubmit = (user: string, pass: string) => {
+    logger.info(t('log.loginFormSubmitted'));
+    // The policy only applies to new passwords. Existing ones may predate it
+    // and must still sign in; sign-up and password change enforce it.
+    cancelRetrieve();
+    handleLogin(user, pass);
+  };
+
+  // A plain element rather than an inner component, so the log panel keeps its
+  // filter state and is not remounted on every App render.
+  const processLogSection = (
     <div className="space-y-6">
-      <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl border border-gray-100 dark:border-gray-700">
-        <div className="flex items-center gap-3 mb-4">
-          <div className="bg-blue-50 dark:bg-blue-900/30 p-2 rounded-lg">
-            <Terminal className="w-6 h-6 text-blue-600 dark:text-blue-400" />
-          </div>
-          <div>
-            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Process Log</h2>
-            <p className="text-sm text-gray-500 dark:text-gray-400">Real-time system events and operations</p>
-          </div>
-        </div>
-        <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-3 sm:p-4 h-[300px] sm:h-[440px] overflow-y-auto font-mono text-xs sm:text-sm border border-gray-100 dark:border-gray-700 shadow-inner">
-          {processLogs.map((log, index) => (
-            <div 
-              key={index} 
-              className={`
-                mb-2 py-1.5 px-2 sm:px-3 rounded
-                ${log.type === 'error' ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400' : ''}
-                ${log.type === 'success' ? 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400' : ''}
-                ${log.type === 'info' ? 'text-blue-600 dark:text-blue-400' : ''}
-                ${log.type === 'debug' ? 'text-gray-600 dark:text-gray-400' : ''}
-              `}
-            >
-              <span className="text-gray-500 dark:text-gray-400 mr-2 select-none font-medium">[{log.timestamp}]</span>
-              <span className="whitespace-pre-wrap break-words">{log.message}</span>
-            </div>
-          ))}
-        </div>
-      </div>
+      <CapabilityReportPanel report={capabilityReport} onRerun={runEnvironmentCheck} />
+      <FaultInjectionPanel injector={faultInjector} />
+      <MetricsPanel metrics={metrics} backend={backend?.kind ?? null} />
+      <ProcessLog
+        logger={logger}
+        redactor={redactor}
+        highContrast={highContrast}
+        history={logHistory}
+        listId={PROCESS_LOG_ID}
+        onMaxEntriesChange={maxEntries => safeLocalStorage.setItem(LOG_CAPACITY_STORAGE_KEY, String(maxEntries))}
+      />
 
       <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl border border-gray-100 dark:border-gray-700">
         <div className="flex items-center gap-3 mb-6">
@@ -285,73 +591,73 @@ function App() {
             <BookOpen className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
           </div>
           <div>
-            <h2 className="text-lg font-bold text-gray-900 dark:text-white">Credential Management API Documentation</h2>
-            <p className="text-sm text-gray-500 dark:text-gray-400">Comprehensive guide to browser credential management</p>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('docs.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('docs.subtitle')}</p>
           </div>
         </div>
 
         <div className="space-y-6 text-gray-600 dark:text-gray-300">
           <section>
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Core Concepts</h3>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">{t('docs.concepts.title')}</h3>
             <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4">
-              <p className="mb-3">The Credential Management API provides a programmatic interface between the browser and web applications to seamlessly and securely handle user credentials. It streamlines the authentication process while maintaining high security standards.</p>
-              <ul className="list-disc pl-5 space-y-2">
-                <li>Secure storage of user credentials in the browser's credential manager</li>
-                <li>Automated form filling for stored credentials</li>
-                <li>Standardized interface for various authentication methods</li>
-                <li>Enhanced security through browser-level encryption</li>
+              <p className="mb-3">{t('docs.concepts.body')}</p>
+              <ul className="list-disc ps-5 space-y-2">
+                <li>{t('docs.concepts.storage')}</li>
+                <li>{t('docs.concepts.autofill')}</li>
+                <li>{t('docs.concepts.interface')}</li>
+                <li>{t('docs.concepts.encryption')}</li>
               </ul>
             </div>
           </section>
 
           <section>
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">API Methods</h3>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">{t('docs.methods.title')}</h3>
             <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4 space-y-3">
               <div>
-                <code className="text-blue-600 dark:text-blue-400 font-mono">navigator.credentials.store()</code>
-                <p className="mt-1 text-sm">Securely stores user credentials in the browser's credential manager. Credentials are encrypted and bound to the origin.</p>
+                <code dir="ltr" className="text-blue-600 dark:text-blue-400 font-mono">navigator.credentials.store()</code>
+                <p className="mt-1 text-sm">{t('docs.methods.store')}</p>
               </div>
               <div>
-                <code className="text-blue-600 dark:text-blue-400 font-mono">navigator.credentials.get()</code>
-                <p className="mt-1 text-sm">Retrieves stored credentials for the current origin, enabling automatic sign-in capabilities.</p>
+                <code dir="ltr" className="text-blue-600 dark:text-blue-400 font-mono">navigator.credentials.get()</code>
+                <p className="mt-1 text-sm">{t('docs.methods.get')}</p>
               </div>
               <div>
-                <code className="text-blue-600 dark:text-blue-400 font-mono">navigator.credentials.preventSilentAccess()</code>
-                <p className="mt-1 text-sm">Prevents automatic sign-in, typically called after a user logs out.</p>
+                <code dir="ltr" className="text-blue-600 dark:text-blue-400 font-mono">navigator.credentials.preventSilentAccess()</code>
+                <p className="mt-1 text-sm">{t('docs.methods.preventSilentAccess')}</p>
               </div>
             </div>
           </section>
 
           <section>
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Security Features</h3>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">{t('docs.security.title')}</h3>
             <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4">
               <ul className="space-y-3">
                 <li className="flex items-start gap-2">
                   <span className="text-green-500 dark:text-green-400 mt-1">•</span>
                   <div>
-                    <strong className="text-gray-900 dark:text-white">Origin Binding</strong>
-                    <p className="text-sm mt-1">Credentials are strictly bound to the origin that stored them, preventing cross-site access.</p>
+                    <strong className="text-gray-900 dark:text-white">{t('docs.security.origin.title')}</strong>
+                    <p className="text-sm mt-1">{t('docs.security.origin.body')}</p>
                   </div>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-green-500 dark:text-green-400 mt-1">•</span>
                   <div>
-                    <strong className="text-gray-900 dark:text-white">Secure Context</strong>
-                    <p className="text-sm mt-1">API only works in secure contexts (HTTPS or localhost), ensuring data security in transit.</p>
+                    <strong className="text-gray-900 dark:text-white">{t('docs.security.context.title')}</strong>
+                    <p className="text-sm mt-1">{t('docs.security.context.body')}</p>
                   </div>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-green-500 dark:text-green-400 mt-1">•</span>
                   <div>
-                    <strong className="text-gray-900 dark:text-white">User Mediation</strong>
-                    <p className="text-sm mt-1">Browser requires explicit user consent before storing or retrieving credentials.</p>
+                    <strong className="text-gray-900 dark:text-white">{t('docs.security.mediation.title')}</strong>
+                    <p className="text-sm mt-1">{t('docs.security.mediation.body')}</p>
                   </div>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-green-500 dark:text-green-400 mt-1">•</span>
                   <div>
-                    <strong className="text-gray-900 dark:text-white">Encryption</strong>
-                    <p className="text-sm mt-1">Credentials are encrypted at rest using the browser's security mechanisms.</p>
+                    <strong className="text-gray-900 dark:text-white">{t('docs.security.encryption.title')}</strong>
+                    <p className="text-sm mt-1">{t('docs.security.encryption.body')}</p>
                   </div>
                 </li>
               </ul>
@@ -359,69 +665,198 @@ function App() {
           </section>
 
           <section>
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Implementation Flow</h3>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">{t('docs.flow.title')}</h3>
             <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4">
-              <ol className="list-decimal pl-5 space-y-3">
+              <ol className="list-decimal ps-5 space-y-3">
                 <li>
-                  <strong className="text-gray-900 dark:text-white">Authentication</strong>
-                  <p className="text-sm mt-1">User submits credentials through a login form.</p>
+                  <strong className="text-gray-900 dark:text-white">{t('docs.flow.authentication.title')}</strong>
+                  <p className="text-sm mt-1">{t('docs.flow.authentication.body')}</p>
                 </li>
                 <li>
-                  <strong className="text-gray-900 dark:text-white">Validation</strong>
-                  <p className="text-sm mt-1">Application validates credentials with the authentication server.</p>
+                  <strong className="text-gray-900 dark:text-white">{t('docs.flow.validation.title')}</strong>
+                  <p className="text-sm mt-1">{t('docs.flow.validation.body')}</p>
                 </li>
                 <li>
-                  <strong className="text-gray-900 dark:text-white">Storage</strong>
-                  <p className="text-sm mt-1">On successful authentication, credentials are stored using <code className="text-blue-600 dark:text-blue-400 font-mono">credentials.store()</code>.</p>
+                  <strong className="text-gray-900 dark:text-white">{t('docs.flow.storage.title')}</strong>
+                  <p className="text-sm mt-1">{i18n.rich('docs.flow.storage.body', {
+                    method: <code dir="ltr" className="text-blue-600 dark:text-blue-400 font-mono">credentials.store()</code>,
+                  })}</p>
                 </li>
                 <li>
-                  <strong className="text-gray-900 dark:text-white">Auto-fill</strong>
-                  <p className="text-sm mt-1">On subsequent visits, stored credentials can be retrieved and auto-filled.</p>
+                  <strong className="text-gray-900 dark:text-white">{t('docs.flow.autofill.title')}</strong>
+                  <p className="text-sm mt-1">{t('docs.flow.autofill.body')}</p>
                 </li>
                 <li>
-                  <strong className="text-gray-900 dark:text-white">Logout</strong>
-                  <p className="text-sm mt-1">Silent access is prevented using <code className="text-blue-600 dark:text-blue-400 font-mono">preventSilentAccess()</code>.</p>
+                  <strong className="text-gray-900 dark:text-white">{t('docs.flow.logout.title')}</strong>
+                  <p className="text-sm mt-1">{i18n.rich('docs.flow.logout.body', {
+                    method: <code dir="ltr" className="text-blue-600 dark:text-blue-400 font-mono">preventSilentAccess()</code>,
+                  })}</p>
                 </li>
               </ol>
             </div>
           </section>
         </div>
       </div>
+
+      <ApiPlayground logger={logger} injector={faultInjector} />
     </div>
   );
 
   const mainContent = isLoggedIn ? (
     <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-md border border-gray-100 dark:border-gray-700 mt-4 sm:mt-6">
       <div className="text-center mb-8">
-        <div className="bg-blue-50 dark:bg-blue-900/30 w-16 sm:w-20 h-16 sm:h-20 rounded-full flex items-center justify-center mx-auto mb-4">
-          <UserCircle className="w-10 h-10 sm:w-12 sm:h-12 text-blue-500 dark:text-blue-400" />
-        </div>
-        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Welcome, {username}!</h2>
-        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">You're securely logged in</p>
+        {activeAccount ? (
+          <div className="flex justify-center mb-4">
+            <AccountAvatar account={activeAccount} size="w-16 h-16 sm:w-20 sm:h-20" />
+          </div>
+        ) : (
+          <div className="bg-blue-50 dark:bg-blue-900/30 w-16 sm:w-20 h-16 sm:h-20 rounded-full flex items-center justify-center mx-auto mb-4">
+            <UserCircle className="w-10 h-10 sm:w-12 sm:h-12 text-blue-500 dark:text-blue-400" />
+          </div>
+        )}
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t('account.welcome', { name: activeAccount?.name ?? username })}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          {activeAccount
+            ? t('account.summary', { id: activeAccount.id, method: t(`method.${activeAccount.method}`) })
+            : t('account.loggedIn')}
+        </p>
+      </div>
+      <div className="mb-6 empty:hidden">
+        <OperationStatus operation={manager.operation} onCancel={manager.cancelOperation} />
       </div>
       {statusMessage && (
         <div className="mb-6 p-3 sm:p-4 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-200 rounded-lg border border-green-100 dark:border-green-900/30">
           <p className="text-sm">{statusMessage}</p>
         </div>
       )}
+      {session.current && (
+        <SessionExpiryBanner times={session.current} warnBeforeMs={SESSION_WARNING_MS} onExtend={() => session.refresh('extend')} />
+      )}
+      {breachPrompt && (
+        <div role="alertdialog" aria-labelledby="breach-warning-title" className="mb-6 p-3 sm:p-4 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 rounded-lg border border-amber-200 dark:border-amber-900/30">
+          <h3 id="breach-warning-title" className="font-semibold text-sm flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {t('breach.title')}
+          </h3>
+          <p className="text-sm mt-1">
+            {t('breach.body', { count: breachPrompt.count })}
+          </p>
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => breachPrompt.resolve(false)}
+              className="flex-1 py-2 px-3 rounded-lg bg-amber-600 text-white text-sm font-medium hover:bg-amber-700"
+            >
+              {t('breach.decline')}
+            </button>
+            <button
+              onClick={() => breachPrompt.resolve(true)}
+              className="flex-1 py-2 px-3 rounded-lg border border-amber-300 dark:border-amber-800 text-sm font-medium hover:bg-amber-100 dark:hover:bg-amber-900/40"
+            >
+              {t('breach.accept')}
+            </button>
+          </div>
+        </div>
+      )}
+      {isChangingPassword ? (
+        <ChangePasswordForm
+          username={username}
+          onSubmit={handleChangePassword}
+          onGenerate={handlePasswordGenerated}
+          onCancel={() => setIsChangingPassword(false)}
+        />
+      ) : (
+        <button
+          onClick={() => setIsChangingPassword(true)}
+          className="w-full mb-3 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2"
+        >
+          <KeyRound className="w-4 h-4" />
+          {t('changePassword.open')}
+        </button>
+      )}
+      {secondFactor.status && (
+        <SecondFactorSetup
+          status={secondFactor.status}
+          onBegin={secondFactor.beginEnrollment}
+          onConfirm={secondFactor.confirmEnrollment}
+          onDisable={secondFactor.disable}
+        />
+      )}
+      {passkeys.capabilities?.available && (
+        <button
+          onClick={passkeys.register}
+          disabled={passkeys.isBusy}
+          className="w-full mb-3 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          <Fingerprint className="w-4 h-4" />
+          {passkeys.isBusy ? t('signIn.waitingForAuthenticator') : t('account.createPasskey')}
+        </button>
+      )}
+      {backend && (
+        <button
+          onClick={handleSwitchAccount}
+          disabled={isRetrieving}
+          className="w-full mb-3 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          <Users className="w-4 h-4" />
+          {isRetrieving ? t('account.waitingForChooser') : t('account.switch')}
+        </button>
+      )}
+      {activeAccount && (
+        <button
+          onClick={() => handleRemoveAccount(activeAccount)}
+          className="w-full mb-3 text-sm text-red-600 dark:text-red-400 py-2 hover:underline"
+        >
+          {t('account.remove')}
+        </button>
+      )}
       <button
-        onClick={handleLogout}
-        className="w-full bg-red-500 text-white py-3 px-4 rounded-lg hover:bg-red-600 transition-all duration-200 transform hover:scale-[0.99] active:scale-[0.97] font-medium"
+        onClick={() => handleLogout()}
+        className="w-full bg-red-500 text-white py-3 px-4 rounded-lg hover:bg-red-600 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium"
       >
-        Logout
+        {t('account.logout')}
       </button>
     </div>
+  ) : authView === 'signup' ? (
+    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-md border border-gray-100 dark:border-gray-700 mt-4 sm:mt-6">
+      <div className="text-center mb-8">
+        <div className="bg-blue-50 dark:bg-blue-900/30 w-16 sm:w-20 h-16 sm:h-20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <UserPlus className="w-10 h-10 sm:w-12 sm:h-12 text-blue-500 dark:text-blue-400" />
+        </div>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t('signUp.title')}</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{t('signUp.subtitle')}</p>
+      </div>
+      <SignUpForm
+        onSubmit={handleSignUp}
+        onGenerate={handlePasswordGenerated}
+        onCancel={() => setAuthView('signin')}
+      />
+    </div>
   ) : (
     <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-md border border-gray-100 dark:border-gray-700 mt-4 sm:mt-6">
       <div className="text-center mb-8">
         <div className="bg-blue-50 dark:bg-blue-900/30 w-16 sm:w-20 h-16 sm:h-20 rounded-full flex items-center justify-center mx-auto mb-4">
           <KeyRound className="w-10 h-10 sm:w-12 sm:h-12 text-blue-500 dark:text-blue-400" />
         </div>
-        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">Welcome Back</h1>
-        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Please sign in to continue</p>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t('signIn.title')}</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{t('signIn.subtitle')}</p>
+        <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
+          {i18n.rich('signIn.demoAccount', {
+            username: <code dir="ltr" className="font-mono">alice</code>,
+            password: <code dir="ltr" className="font-mono">correct-horse-battery</code>,
+          })}
+        </p>
       </div>
       
-      <SecurityMessage />
+      {!backend && <SecurityMessage insecureContext={securityContext === 'insecure'} />}
+
+      {embedBridge && (
+        <EmbedNotice
+          hostOrigin={embedBridge.getHostOrigin()}
+          limitations={capabilityReport ? findLimitingProbes(capabilityReport) : []}
+        />
+      )}
+
+      <KnownAccountsList accounts={session.knownAccounts} onSelect={handleSelectKnownAccount} onRemove={handleRemoveAccount} />
       
       {statusMessage && !isLoggedIn && (
         <div className="mb-6 p-3 sm:p-4 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-200 rounded-lg border border-blue-100 dark:border-blue-900/30">
@@ -429,87 +864,182 @@ function App() {
         </div>
       )}
 
-      <form onSubmit={handleSubmit} className="space-y-5">
-        <div>
-          <label htmlFor="username" className="block text-gray-700 dark:text-gray-200 text-sm font-medium mb-2">
-            Username
-          </label>
-          <div className="relative">
-            <input
-              type="text"
-              id="username"
-              name="username"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
-              autoComplete="username"
-              placeholder="Enter your username"
-            />
-          </div>
-        </div>
+      {secondFactor.prompt ? (
+        <SecondFactorPrompt
+          digits={secondFactor.prompt.digits}
+          onSubmit={secondFactor.prompt.submit}
+          onCancel={secondFactor.prompt.cancel}
+        />
+      ) : (
+        <CredentialLoginForm
+          username={username}
+          password={password}
+          onUsernameChange={value => {
+            setUsername(value);
+            clearLoginErrors();
+          }}
+          onPasswordChange={value => {
+            setPassword(value);
+            clearLoginErrors();
+          }}
+          onSubmit={handleSubmit}
+          errors={loginErrors}
+          saveOnSubmit={backend !== null}
+          webauthnAutofill={mediation === 'conditional'}
+          operation={manager.operation}
+          onCancelOperation={manager.cancelOperation}
+        >
+          <button
+            type="button"
+            onClick={() => {
+              cancelRetrieve();
+              setAuthView('signup');
+            }}
+            className="w-full text-sm text-gray-600 dark:text-gray-300 hover:underline"
+          >
+            {t('signIn.createAccount')}
+          </button>
+        </CredentialLoginForm>
+      )}
 
-        <div>
-          <label htmlFor="password" className="block text-gray-700 dark:text-gray-200 text-sm font-medium mb-2">
-            Password
-          </label>
-          <div className="relative">
-            <input
-              type="password"
-              id="password"
-              name="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
-              autoComplete="current-password"
-              placeholder="Enter your password"
-            />
+      <div className="mt-4 space-y-3">
+        {!embedMode && (
+          <button
+            type="button"
+            onClick={handleFederatedSignIn}
+            className="w-full bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2"
+          >
+            <Users className="w-4 h-4" />
+            {t('signIn.withProvider', { provider: federated.provider.name })}
+          </button>
+        )}
+        {passkeys.capabilities?.available && (
+          <button
+            type="button"
+            onClick={() => passkeys.signIn('optional')}
+            disabled={passkeys.isBusy}
+            className="w-full bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            <Fingerprint className="w-4 h-4" />
+            {passkeys.isBusy ? t('signIn.waitingForAuthenticator') : t('signIn.withPasskey')}
+          </button>
+        )}
+      </div>
+
+      {backend && (
+        <div className="mt-6 pt-6 border-t border-gray-100 dark:border-gray-700 space-y-3">
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-900/50 border border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+              <Database className="w-4 h-4 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+              <span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{t('backend.label')}</span>
+                {backend.label}
+              </span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={forceEmulated}
+                disabled={!isEmulatedBackendAvailable()}
+                onChange={(e) => handleForceEmulatedChange(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              {t('backend.forceEmulated')}
+            </label>
           </div>
-        </div>
 
-        <button
-          type="submit"
-          className="w-full bg-blue-500 text-white py-3 px-4 rounded-lg hover:bg-blue-600 transition-all duration-200 transform hover:scale-[0.99] active:scale-[0.97] font-medium flex items-center justify-center gap-2"
-        >
-          {isCredentialSupported ? (
-            <>
-              <Shield className="w-4 h-4" />
-              Login & Save Credentials
-            </>
-          ) : (
-            <>
-              <Save className="w-4 h-4" />
-              Login
-            </>
+          <label htmlFor="mediation" className="block text-gray-700 dark:text-gray-200 text-sm font-medium">
+            {t('mediation.label')}
+          </label>
+          <select
+            id="mediation"
+            value={mediation}
+            onChange={(e) => handleMediationChange(e.target.value as CredentialMediationRequirement)}
+            className="w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          >
+            {MEDIATION_MODES.map(mode => (
+              <option key={mode} value={mode}>{t(`mediation.${mode}`)}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {t(`mediation.${mediation}.description`)}
+          </p>
+          <button
+            type="button"
+            onClick={() => retrieveCredentials(mediation)}
+            disabled={isRetrieving}
+            className="w-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${isRetrieving ? 'animate-spin' : ''}`} />
+            {isRetrieving ? t('mediation.waiting') : t('mediation.retrieve')}
+          </button>
+          {!embedMode && (
+            <OperationPolicySettings policies={manager.operationPolicies} onChange={handleOperationPolicyChange} />
           )}
-        </button>
-      </form>
+        </div>
+      )}
     </div>
   );
 
+  const chooserDialog = chooserRequest && (
+    <AccountChooserDialog
+      candidates={chooserRequest.candidates}
+      onSelect={chooserRequest.resolve}
+    />
+  );
+
+  if (embedBridge) {
+    // Never show the form to a host known to be off the allow-list, so a
+    // foreign page cannot frame it to collect credentials.
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-2 sm:p-4 flex flex-col items-center">
+        {embedBridge.getStatus() === 'blocked' ? (
+          <div role="alert" className="w-full max-w-md mt-4 p-4 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 rounded-lg border border-red-200 dark:border-red-900/30">
+            <h1 className="font-semibold flex items-center gap-2">
+              <AlertCircle className="w-5 h-5" />
+              {t('embed.blocked.title')}
+            </h1>
+            <p className="text-sm mt-1">{t('embed.blocked.body', { origin: embedBridge.detectedOrigin ?? '' })}</p>
+          </div>
+        ) : mainContent}
+        {chooserDialog}
+        <LiveAnnouncer announcement={announcement} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-6 flex flex-col">
-      <button
-        onClick={toggleTheme}
-        className="fixed top-4 right-4 p-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors z-50"
-        aria-label="Toggle theme"
+      <a
+        href={`#${PROCESS_LOG_ID}`}
+        onClick={(e) => {
+          // Not every browser moves focus to a fragment target, and the
+          // arrow keys only work once the log has it.
+          e.preventDefault();
+          document.getElementById(PROCESS_LOG_ID)?.focus();
+        }}
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:start-4 focus:z-50 focus:px-4 focus:py-2 focus:rounded-lg focus:bg-blue-600 focus:text-white focus:shadow-lg"
       >
-        {theme === 'dark' ? (
-          <Sun className="w-5 h-5" />
-        ) : (
-          <Moon className="w-5 h-5" />
-        )}
-      </button>
+        {t('a11y.skipToLog')}
+      </a>
+      <div className="fixed top-4 end-4 z-50 flex items-center gap-2">
+        <LocalePicker onChange={handleLocaleChange} />
+        <ThemeSwitcher />
+      </div>
       <div className="flex flex-col lg:flex-row gap-4 sm:gap-6 lg:gap-8 max-w-7xl mx-auto flex-grow">
         <div className="flex flex-col w-full lg:w-auto">
           <ApiExplanation />
           {mainContent}
         </div>
-        <ProcessLog />
+        {processLogSection}
       </div>
       
+      {chooserDialog}
+      <LiveAnnouncer announcement={announcement} />
+
       <footer className="mt-8 text-center text-sm text-gray-500  dark:text-gray-400 py-6">
         <p>Copyright © 2025 Ed Bates (TECHBLIP LLC)</p>
-        <p className="mt-1">This software is released under the Apache-2.0 License. See the LICENSE file for details</p>
+        <p className="mt-1">{t('footer.license')}</p>
       </footer>
     </div>
   );
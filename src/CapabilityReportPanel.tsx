@@ -0,0 +1,96 @@
+import { AlertTriangle, CheckCircle2, ClipboardList, Download, RefreshCw, XCircle } from 'lucide-react';
+import { downloadReport, type CapabilityReport, type ProbeStatus } from './capabilityProbes';
+import { formatFields } from './logExport';
+import { describeProbe, probeName, useI18n } from './i18n';
+
+interface CapabilityReportPanelProps {
+  report: CapabilityReport | null;
+  onRerun: () => void;
+}
+
+const statusBadges: Record<ProbeStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-green-600 dark:text-green-400' },
+  warn: { icon: AlertTriangle, className: 'text-amber-600 dark:text-amber-400' },
+  fail: { icon: XCircle, className: 'text-red-600 dark:text-red-400' },
+};
+
+function CapabilityReportPanel({ report, onRerun }: CapabilityReportPanelProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-50 dark:bg-blue-900/30 p-2 rounded-lg">
+            <ClipboardList className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('report.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {report
+                ? t('report.summary', report.counts)
+                : t('report.running')}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            onClick={onRerun}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+            {t('report.rerun')}
+          </button>
+          <button
+            type="button"
+            onClick={() => report && downloadReport(report)}
+            disabled={!report}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {report && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-start">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+              <tr>
+                <th scope="col" className="py-2 pe-3">{t('report.probe')}</th>
+                <th scope="col" className="py-2 pe-3">{t('report.status')}</th>
+                <th scope="col" className="py-2">{t('report.explanation')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.results.map(result => {
+                const { icon: Icon, className } = statusBadges[result.status];
+                return (
+                  <tr key={result.id} className="border-b border-gray-50 dark:border-gray-700/50 align-top">
+                    <th scope="row" className="py-2 pe-3 font-medium text-gray-900 dark:text-white">{probeName(i18n, result.id)}</th>
+                    <td className={`py-2 pe-3 ${className}`}>
+                      <span className="flex items-center gap-1 font-medium">
+                        <Icon className="w-4 h-4" />
+                        {t(`report.status.${result.status}`)}
+                      </span>
+                    </td>
+                    <td className="py-2 text-gray-700 dark:text-gray-300">
+                      {describeProbe(i18n, result)}
+                      <span dir="ltr" className="block mt-0.5 font-mono text-xs text-gray-500 dark:text-gray-400 break-words">
+                        {formatFields(result.data)}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CapabilityReportPanel;
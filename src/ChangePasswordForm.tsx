@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import NewPasswordField from './NewPasswordField';
+import { useI18n } from './i18n';
+
+export interface ChangePasswordValues {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface ChangePasswordFormProps {
+  username: string;
+  /** Resolves with an error to show in the form, or null on success. */
+  onSubmit: (values: ChangePasswordValues) => Promise<string | null>;
+  onGenerate: () => void;
+  onCancel: () => void;
+}
+
+function ChangePasswordForm({ username, onSubmit, onGenerate, onCancel }: ChangePasswordFormProps) {
+  const { t } = useI18n();
+  const [values, setValues] = useState<ChangePasswordValues>({ currentPassword: '', newPassword: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(await onSubmit(values));
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5 mb-6">
+      {/* Password managers pair the new password with this username, so the
+          saved entry is updated rather than duplicated. */}
+      <input type="text" name="username" value={username} autoComplete="username" readOnly hidden />
+
+      <div>
+        <label htmlFor="current-password" className="block text-gray-700 dark:text-gray-200 text-sm font-medium mb-2">
+          {t('changePassword.current')}
+        </label>
+        <input
+          type="password"
+          id="current-password"
+          name="current-password"
+          value={values.currentPassword}
+          onChange={(e) => setValues(prev => ({ ...prev, currentPassword: e.target.value }))}
+          className="w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          autoComplete="current-password"
+          required
+        />
+      </div>
+
+      <NewPasswordField
+        id="new-password"
+        label={t('changePassword.new')}
+        value={values.newPassword}
+        username={username}
+        onChange={(newPassword) => setValues(prev => ({ ...prev, newPassword }))}
+        onGenerate={onGenerate}
+      />
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200 font-medium"
+        >
+          {t('changePassword.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex-1 bg-blue-500 text-white py-3 px-4 rounded-lg hover:bg-blue-600 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          <KeyRound className="w-4 h-4" />
+          {isSubmitting ? t('changePassword.submitting') : t('changePassword.submit')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ChangePasswordForm;
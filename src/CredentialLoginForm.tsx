@@ -0,0 +1,163 @@
+import React, { useEffect, useRef } from 'react';
+import { Save, Shield } from 'lucide-react';
+import OperationStatus from './OperationStatus';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import type { OperationState } from './operationRunner';
+import { useI18n } from './i18n';
+
+/** Class names for each part of the form; unset slots keep the defaults. */
+export interface CredentialLoginFormTheme {
+  form: string;
+  label: string;
+  input: string;
+  error: string;
+  submit: string;
+}
+
+export type CredentialLoginFormErrors = Partial<Record<'username' | 'password', string>>;
+
+const defaultLoginFormTheme: CredentialLoginFormTheme = {
+  form: 'space-y-5',
+  label: 'block text-gray-700 dark:text-gray-200 text-sm font-medium mb-2',
+  input: 'w-full p-3 border border-gray-200 dark:border-gray-700 aria-[invalid=true]:border-red-500 dark:aria-[invalid=true]:border-red-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white',
+  error: 'mt-1.5 text-sm text-red-600 dark:text-red-400',
+  submit: 'w-full bg-blue-500 text-white py-3 px-4 rounded-lg hover:bg-blue-600 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2',
+};
+
+export interface CredentialLoginFormProps {
+  username: string;
+  password: string;
+  onUsernameChange: (username: string) => void;
+  onPasswordChange: (password: string) => void;
+  onSubmit: (username: string, password: string) => void;
+  /**
+   * Messages shown under each field and linked with `aria-describedby`. A new
+   * object moves focus to the first invalid field.
+   */
+  errors?: CredentialLoginFormErrors;
+  /** Whether a successful sign-in will also store the credential; changes the submit label. */
+  saveOnSubmit?: boolean;
+  /** Lets passkeys appear in the username field's autofill, for conditional mediation. */
+  webauthnAutofill?: boolean;
+  showStrength?: boolean;
+  /** The latest credential call; while it is pending the form shows it with a cancel button. */
+  operation?: OperationState | null;
+  onCancelOperation?: () => void;
+  /** Prefixes the field ids, for pages with more than one form. */
+  idPrefix?: string;
+  theme?: Partial<CredentialLoginFormTheme>;
+  /** Extra controls rendered inside the form, after the submit button. */
+  children?: React.ReactNode;
+}
+
+const NO_ERRORS: CredentialLoginFormErrors = {};
+
+function CredentialLoginForm({
+  username,
+  password,
+  onUsernameChange,
+  onPasswordChange,
+  onSubmit,
+  errors = NO_ERRORS,
+  saveOnSubmit = false,
+  webauthnAutofill = false,
+  showStrength = true,
+  operation = null,
+  onCancelOperation = () => {},
+  idPrefix = '',
+  theme,
+  children,
+}: CredentialLoginFormProps) {
+  const { t } = useI18n();
+  const classes = { ...defaultLoginFormTheme, ...theme };
+  const usernameRef = useRef<HTMLInputElement>(null);
+  const passwordRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (errors.username) {
+      usernameRef.current?.focus();
+    } else if (errors.password) {
+      passwordRef.current?.focus();
+    }
+  }, [errors]);
+
+  const describedBy = (...ids: Array<string | false>) => ids.filter(Boolean).join(' ') || undefined;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(username, password);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={classes.form}>
+      <div>
+        <label htmlFor={`${idPrefix}username`} className={classes.label}>
+          {t('signIn.username')}
+        </label>
+        <input
+          ref={usernameRef}
+          type="text"
+          id={`${idPrefix}username`}
+          name="username"
+          value={username}
+          onChange={(e) => onUsernameChange(e.target.value)}
+          className={classes.input}
+          autoComplete={webauthnAutofill ? 'username webauthn' : 'username'}
+          placeholder={t('signIn.usernamePlaceholder')}
+          aria-invalid={Boolean(errors.username)}
+          aria-describedby={describedBy(Boolean(errors.username) && `${idPrefix}username-error`)}
+        />
+        {errors.username && (
+          <p id={`${idPrefix}username-error`} className={classes.error}>{errors.username}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}password`} className={classes.label}>
+          {t('signIn.password')}
+        </label>
+        <input
+          ref={passwordRef}
+          type="password"
+          id={`${idPrefix}password`}
+          name="password"
+          value={password}
+          onChange={(e) => onPasswordChange(e.target.value)}
+          className={classes.input}
+          autoComplete="current-password"
+          placeholder={t('signIn.passwordPlaceholder')}
+          aria-invalid={Boolean(errors.password)}
+          aria-describedby={describedBy(
+            Boolean(errors.password) && `${idPrefix}password-error`,
+            showStrength && `${idPrefix}password-strength`,
+          )}
+        />
+        {errors.password && (
+          <p id={`${idPrefix}password-error`} className={classes.error}>{errors.password}</p>
+        )}
+        {showStrength && (
+          <PasswordStrengthMeter id={`${idPrefix}password-strength`} password={password} username={username} />
+        )}
+      </div>
+
+      <OperationStatus operation={operation} onCancel={onCancelOperation} />
+
+      <button type="submit" className={classes.submit}>
+        {saveOnSubmit ? (
+          <>
+            <Shield className="w-4 h-4" />
+            {t('signIn.submitAndSave')}
+          </>
+        ) : (
+          <>
+            <Save className="w-4 h-4" />
+            {t('signIn.submit')}
+          </>
+        )}
+      </button>
+      {children}
+    </form>
+  );
+}
+
+export default CredentialLoginForm;
@@ -0,0 +1,42 @@
+import { Frame } from 'lucide-react';
+import type { ProbeResult } from './capabilityProbes';
+import { describeProbe, useI18n } from './i18n';
+
+interface EmbedNoticeProps {
+  hostOrigin: string | null;
+  limitations: ProbeResult[];
+}
+
+// Shown inside the widget so whoever embeds it can see why a credential call
+// behaves differently in their frame than on the full page.
+function EmbedNotice({ hostOrigin, limitations }: EmbedNoticeProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  return (
+    <div className="mb-6 p-3 sm:p-4 bg-gray-50 dark:bg-gray-900/50 text-gray-700 dark:text-gray-200 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+      <p className="flex items-center gap-2 font-medium">
+        <Frame className="w-4 h-4 flex-shrink-0" />
+        <span>
+          {hostOrigin
+            ? t('embed.host', { origin: hostOrigin })
+            : t('embed.hostUnknown')}
+        </span>
+      </p>
+      {limitations.length > 0 && (
+        <>
+          <h3 className="mt-3 font-semibold">{t('embed.limitations.title')}</h3>
+          <ul className="mt-1 space-y-1 list-disc ps-5">
+            {limitations.map(limitation => (
+              <li key={limitation.id} className={limitation.status === 'fail' ? 'text-red-700 dark:text-red-300' : ''}>
+                {describeProbe(i18n, limitation)}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default EmbedNotice;
@@ -0,0 +1,143 @@
+import { useState, useSyncExternalStore } from 'react';
+import { Bug, Check, Link } from 'lucide-react';
+import {
+  FAULTS,
+  FAULT_OPERATIONS,
+  FAULT_SCENARIOS,
+  faultConfigUrl,
+  isFaultConfigActive,
+  type Fault,
+  type FaultInjector,
+} from './faultInjection';
+import { useI18n, type Translator } from './i18n';
+
+interface FaultInjectionPanelProps {
+  injector: FaultInjector;
+}
+
+const sameFaults = (a: Partial<Record<string, Fault>>, b: Partial<Record<string, Fault>>) =>
+  FAULT_OPERATIONS.every(({ value }) => (a[value] ?? 'none') === (b[value] ?? 'none'));
+
+// DOMException names are API identifiers and are shown as they are.
+const faultLabel = ({ t }: Translator, fault: Fault) =>
+  fault === 'none' || fault === 'latency' || fault === 'hang' || fault === 'null' || fault === 'flaky' ? t(`faults.fault.${fault}`) : fault;
+
+function FaultInjectionPanel({ injector }: FaultInjectionPanelProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const config = useSyncExternalStore(injector.subscribe, injector.getConfig);
+  const [copied, setCopied] = useState(false);
+  const scenario = FAULT_SCENARIOS.find(candidate => sameFaults(candidate.config.faults, config.faults));
+  const active = isFaultConfigActive(config);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(faultConfigUrl(config));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt(t('faults.sharePrompt'), faultConfigUrl(config));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${active ? 'bg-red-50 dark:bg-red-900/30' : 'bg-blue-50 dark:bg-blue-900/30'}`}>
+            <Bug className={`w-6 h-6 ${active ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('faults.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {active ? t('faults.active') : t('faults.inactive')}
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={copyLink}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+        >
+          {copied ? <Check className="w-3.5 h-3.5" /> : <Link className="w-3.5 h-3.5" />}
+          {copied ? t('faults.copied') : t('faults.copyLink')}
+        </button>
+      </div>
+
+      <label htmlFor="fault-scenario" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+        {t('faults.scenario')}
+      </label>
+      <select
+        id="fault-scenario"
+        value={scenario?.id ?? 'custom'}
+        onChange={(e) => {
+          const next = FAULT_SCENARIOS.find(candidate => candidate.id === e.target.value);
+          if (next) {
+            injector.setConfig(next.config);
+          }
+        }}
+        className="w-full mb-4 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      >
+        {FAULT_SCENARIOS.map(candidate => (
+          <option key={candidate.id} value={candidate.id}>{t(`faults.scenario.${candidate.id}`)}</option>
+        ))}
+        {!scenario && <option value="custom">{t('faults.custom')}</option>}
+      </select>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {FAULT_OPERATIONS.map(operation => {
+          const fault = config.faults[operation.value] ?? 'none';
+          return (
+            <div key={operation.value}>
+              <label htmlFor={`fault-${operation.value}`} dir="ltr" className="block text-xs font-mono text-gray-600 dark:text-gray-300 mb-1">
+                {operation.label}
+              </label>
+              <select
+                id={`fault-${operation.value}`}
+                value={fault}
+                title={t(`faults.description.${fault}`)}
+                onChange={(e) => injector.setConfig({
+                  ...config,
+                  faults: { ...config.faults, [operation.value]: e.target.value as Fault },
+                })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {FAULTS.map(candidate => (
+                  <option key={candidate} value={candidate}>{faultLabel(i18n, candidate)}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      <label htmlFor="fault-latency" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mt-4 mb-1">
+        {t('faults.latency')}
+      </label>
+      <input
+        id="fault-latency"
+        type="number"
+        min={100}
+        step={100}
+        value={config.latencyMs}
+        onChange={(e) => {
+          const latencyMs = Number(e.target.value);
+          if (latencyMs > 0) {
+            injector.setConfig({ ...config, latencyMs });
+          }
+        }}
+        className="w-32 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      />
+
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+        {i18n.rich('faults.note', {
+          get: <span dir="ltr" className="font-mono">get()</span>,
+          store: <span dir="ltr" className="font-mono">store()</span>,
+          preventSilentAccess: <span dir="ltr" className="font-mono">preventSilentAccess()</span>,
+        })}
+      </p>
+    </div>
+  );
+}
+
+export default FaultInjectionPanel;
@@ -0,0 +1,34 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { I18nContext, createTranslator, isLocaleCode, matchLocale, type LocaleCode } from './i18n';
+import { safeLocalStorage } from './safeStorage';
+
+const LOCALE_STORAGE_KEY = 'locale';
+
+const getInitialLocale = (): LocaleCode => {
+  const stored = safeLocalStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocaleCode(stored) ? stored : matchLocale(navigator.languages ?? [navigator.language]);
+};
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<LocaleCode>(getInitialLocale);
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = translator.locale;
+    document.documentElement.dir = translator.dir;
+  }, [translator]);
+
+  const value = useMemo(() => ({
+    ...translator,
+    setLocale: (next: LocaleCode) => {
+      safeLocalStorage.setItem(LOCALE_STORAGE_KEY, next);
+      setLocaleState(next);
+    },
+  }), [translator]);
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
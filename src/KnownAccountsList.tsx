@@ -0,0 +1,71 @@
+import { Fingerprint, KeyRound, Trash2, UserCircle, Users } from 'lucide-react';
+import type { KnownAccount, SignInMethod } from './knownAccounts';
+import { useI18n } from './i18n';
+
+interface KnownAccountsListProps {
+  accounts: KnownAccount[];
+  onSelect: (account: KnownAccount) => void;
+  onRemove: (account: KnownAccount) => void;
+}
+
+const methodIcons: Record<SignInMethod, typeof KeyRound> = {
+  password: KeyRound,
+  federated: Users,
+  passkey: Fingerprint,
+};
+
+export function AccountAvatar({ account, size = 'w-8 h-8' }: { account: KnownAccount; size?: string }) {
+  return account.iconURL ? (
+    <img src={account.iconURL} alt="" className={`${size} rounded-full flex-shrink-0`} />
+  ) : (
+    <span className={`${size} rounded-full flex-shrink-0 bg-blue-50 dark:bg-blue-900/30 flex items-center justify-center`}>
+      <UserCircle className="w-2/3 h-2/3 text-blue-500 dark:text-blue-400" />
+    </span>
+  );
+}
+
+// Accounts this origin has seen, kept in localStorage so the list survives a
+// browser that will not enumerate its stored credentials.
+function KnownAccountsList({ accounts, onSelect, onRemove }: KnownAccountsListProps) {
+  const { t } = useI18n();
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">{t('accounts.title')}</h2>
+      <ul className="space-y-1">
+        {accounts.map(account => {
+          const MethodIcon = methodIcons[account.method];
+          return (
+            <li key={account.id} className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => onSelect(account)}
+                className="flex-grow min-w-0 flex items-center gap-3 p-2 rounded-lg text-start hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <AccountAvatar account={account} />
+                <span className="min-w-0 flex-grow">
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">{account.name}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{account.id}</span>
+                </span>
+                <MethodIcon className="w-4 h-4 flex-shrink-0 text-gray-400" aria-label={t('accounts.signsInWith', { method: t(`method.${account.method}`) })} />
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(account)}
+                className="p-2 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                aria-label={t('accounts.remove', { name: account.name })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default KnownAccountsList;
@@ -0,0 +1,27 @@
+export interface Announcement {
+  /** Changes with every announcement, so the same text is read out again. */
+  id: number;
+  message: string;
+  /** Failures interrupt the screen reader; everything else waits its turn. */
+  politeness: 'polite' | 'assertive';
+}
+
+/**
+ * Visually hidden live regions for lifecycle events such as signing in or a
+ * failed save. Both regions stay mounted, since screen readers only announce
+ * changes to a region that was already in the page.
+ */
+function LiveAnnouncer({ announcement }: { announcement: Announcement | null }) {
+  return (
+    <>
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        {announcement?.politeness === 'polite' && <span key={announcement.id}>{announcement.message}</span>}
+      </div>
+      <div role="alert" aria-live="assertive" aria-atomic="true" className="sr-only">
+        {announcement?.politeness === 'assertive' && <span key={announcement.id}>{announcement.message}</span>}
+      </div>
+    </>
+  );
+}
+
+export default LiveAnnouncer;
@@ -0,0 +1,33 @@
+import { Languages } from 'lucide-react';
+import { LOCALES, isLocaleCode, useI18n, type LocaleCode } from './i18n';
+
+interface LocalePickerProps {
+  onChange?: (locale: LocaleCode) => void;
+}
+
+function LocalePicker({ onChange }: LocalePickerProps) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1.5 p-1 ps-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400">
+      <Languages className="w-4 h-4" aria-hidden="true" />
+      <span className="sr-only">{t('locale.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocaleCode(e.target.value)) {
+            setLocale(e.target.value);
+            onChange?.(e.target.value);
+          }
+        }}
+        className="py-1 ps-1 pe-6 rounded-md border-0 bg-transparent text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {LOCALES.map(option => (
+          <option key={option.code} value={option.code} lang={option.code}>{option.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default LocalePicker;
@@ -0,0 +1,182 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { Download, Gauge, Trash2 } from 'lucide-react';
+import {
+  LATENCY_BUCKETS,
+  downloadMetrics,
+  summarizeMetrics,
+  type MetricOperation,
+  type MetricOutcome,
+  type MetricsExportFormat,
+  type MetricsRecorder,
+} from './metrics';
+import { useI18n } from './i18n';
+
+interface MetricsPanelProps {
+  metrics: MetricsRecorder;
+  /** Recorded in the export, since timings differ between native and emulated storage. */
+  backend: string | null;
+}
+
+// The timeline only draws the most recent operations, so it stays readable.
+const TIMELINE_LIMIT = 40;
+
+const outcomeClassNames: Record<MetricOutcome, string> = {
+  success: 'bg-green-500 dark:bg-green-400',
+  failure: 'bg-red-500 dark:bg-red-400',
+  abort: 'bg-gray-400 dark:bg-gray-500',
+};
+
+function MetricsPanel({ metrics, backend }: MetricsPanelProps) {
+  const samples = useSyncExternalStore(metrics.subscribe, metrics.getSamples);
+  const { t, formatNumber } = useI18n();
+  const [exportFormat, setExportFormat] = useState<MetricsExportFormat>('json');
+  const summary = useMemo(() => summarizeMetrics(samples), [samples]);
+
+  const operationLabel = (operation: MetricOperation, mediation: CredentialMediationRequirement | null) => {
+    const label = operation === 'detect' || operation === 'authenticate' || operation === 'passkeyCreate' || operation === 'passkeyGet'
+      ? t(`metrics.operation.${operation}`)
+      : `${operation}()`;
+    return mediation ? `${label} · ${mediation}` : label;
+  };
+  const ms = (value: number) => t('metrics.ms', { ms: value });
+  const bucketLabel = (index: number) => index < LATENCY_BUCKETS.length
+    ? t('metrics.bucket.below', { ms: LATENCY_BUCKETS[index] })
+    : t('metrics.bucket.above', { ms: LATENCY_BUCKETS[LATENCY_BUCKETS.length - 1] });
+
+  const timeline = samples.slice(-TIMELINE_LIMIT);
+  const timelineStart = Math.min(...timeline.map(sample => sample.startTime));
+  const timelineSpan = Math.max(1, ...timeline.map(sample => sample.startTime + sample.durationMs - timelineStart));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-50 dark:bg-blue-900/30 p-2 rounded-lg">
+            <Gauge className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('metrics.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('metrics.summary', { count: samples.length })}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as MetricsExportFormat)}
+            aria-label={t('metrics.exportFormat')}
+            className="px-1.5 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+          >
+            <option value="json">JSON</option>
+            <option value="csv">CSV</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => downloadMetrics(metrics, exportFormat, backend)}
+            disabled={samples.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" />
+            {t('metrics.export')}
+          </button>
+          <button
+            type="button"
+            onClick={metrics.clear}
+            disabled={samples.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            {t('metrics.clear')}
+          </button>
+        </div>
+      </div>
+
+      {samples.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('metrics.empty')}</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm text-start">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+                <tr>
+                  <th scope="col" className="py-2 pe-3">{t('metrics.operation')}</th>
+                  <th scope="col" className="py-2 pe-3 text-end">{t('metrics.outcome.success')}</th>
+                  <th scope="col" className="py-2 pe-3 text-end">{t('metrics.outcome.failure')}</th>
+                  <th scope="col" className="py-2 pe-3 text-end">{t('metrics.outcome.abort')}</th>
+                  <th scope="col" className="py-2 pe-3 text-end">p50</th>
+                  <th scope="col" className="py-2 pe-3 text-end">p95</th>
+                  <th scope="col" className="py-2 pe-3 text-end">{t('metrics.max')}</th>
+                  <th scope="col" className="py-2">{t('metrics.distribution')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.map(group => {
+                  const tallest = Math.max(...group.histogram);
+                  const errors = Object.entries(group.errors).map(([name, count]) => `${name} ×${count}`).join(', ');
+                  return (
+                    <tr key={`${group.operation}:${group.mediation}`} className="border-b border-gray-50 dark:border-gray-700/50 align-top">
+                      <th scope="row" className="py-2 pe-3 font-medium text-gray-900 dark:text-white">
+                        <span dir="ltr">{operationLabel(group.operation, group.mediation)}</span>
+                        {errors && (
+                          <span dir="ltr" className="block font-mono text-xs font-normal text-red-600 dark:text-red-400 break-words">{errors}</span>
+                        )}
+                      </th>
+                      <td className="py-2 pe-3 text-end tabular-nums text-green-700 dark:text-green-400">{formatNumber(group.outcomes.success)}</td>
+                      <td className="py-2 pe-3 text-end tabular-nums text-red-600 dark:text-red-400">{formatNumber(group.outcomes.failure)}</td>
+                      <td className="py-2 pe-3 text-end tabular-nums text-gray-600 dark:text-gray-300">{formatNumber(group.outcomes.abort)}</td>
+                      <td className="py-2 pe-3 text-end tabular-nums whitespace-nowrap text-gray-700 dark:text-gray-300">{ms(group.latency.p50)}</td>
+                      <td className="py-2 pe-3 text-end tabular-nums whitespace-nowrap text-gray-700 dark:text-gray-300">{ms(group.latency.p95)}</td>
+                      <td className="py-2 pe-3 text-end tabular-nums whitespace-nowrap text-gray-700 dark:text-gray-300">{ms(group.latency.max)}</td>
+                      <td className="py-2">
+                        {/* Faster buckets on the left in every locale, like the axis of a chart. */}
+                        <div dir="ltr" className="flex items-end gap-px h-6" role="img" aria-label={group.histogram
+                          .map((count, index) => count > 0 ? `${bucketLabel(index)}: ${formatNumber(count)}` : '')
+                          .filter(Boolean)
+                          .join(', ')}
+                        >
+                          {group.histogram.map((count, index) => (
+                            <div
+                              key={index}
+                              title={`${bucketLabel(index)}: ${formatNumber(count)}`}
+                              className={`w-1.5 rounded-sm ${count > 0 ? 'bg-blue-500 dark:bg-blue-400' : 'bg-gray-100 dark:bg-gray-700'}`}
+                              style={{ height: `${count > 0 ? Math.max(15, (count / tallest) * 100) : 8}%` }}
+                            />
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">{t('metrics.timeline')}</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            {t('metrics.timelineHint', { session: metrics.sessionId.slice(0, 8) })}
+          </p>
+          <ol className="space-y-1 text-xs">
+            {timeline.map(sample => (
+              <li key={sample.id} className="grid grid-cols-[minmax(0,9rem)_1fr_auto] items-center gap-2">
+                <span dir="ltr" className="truncate text-gray-700 dark:text-gray-300">{operationLabel(sample.operation, sample.mediation)}</span>
+                <span className="relative h-3 rounded bg-gray-50 dark:bg-gray-900/50">
+                  <span
+                    className={`absolute inset-y-0 rounded ${outcomeClassNames[sample.outcome]}`}
+                    style={{
+                      insetInlineStart: `${((sample.startTime - timelineStart) / timelineSpan) * 100}%`,
+                      width: `max(2px, ${(sample.durationMs / timelineSpan) * 100}%)`,
+                    }}
+                  />
+                </span>
+                <span className="tabular-nums whitespace-nowrap text-gray-500 dark:text-gray-400">
+                  {ms(sample.durationMs)} · {t(`metrics.outcome.${sample.outcome}`)}{sample.errorName && ` (${sample.errorName})`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default MetricsPanel;
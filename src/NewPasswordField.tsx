@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Eye, EyeOff, Wand2 } from 'lucide-react';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import { generatePassword } from './passwordGenerator';
+import { useI18n } from './i18n';
+
+interface NewPasswordFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  username: string;
+  onChange: (value: string) => void;
+  onGenerate?: () => void;
+}
+
+// `autocomplete="new-password"` tells password managers to offer their own
+// generator and to save rather than fill. Ours is a fallback for browsers
+// without one.
+function NewPasswordField({ id, label, value, username, onChange, onGenerate }: NewPasswordFieldProps) {
+  const { t } = useI18n();
+  const [isVisible, setIsVisible] = useState(false);
+
+  const handleGenerate = () => {
+    onChange(generatePassword());
+    setIsVisible(true);
+    onGenerate?.();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label htmlFor={id} className="block text-gray-700 dark:text-gray-200 text-sm font-medium">
+          {label}
+        </label>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          className="flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Wand2 className="w-3.5 h-3.5" />
+          {t('newPassword.generate')}
+        </button>
+      </div>
+      <div className="relative">
+        <input
+          type={isVisible ? 'text' : 'password'}
+          id={id}
+          name={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full p-3 pe-11 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-mono"
+          autoComplete="new-password"
+          placeholder={t('newPassword.placeholder')}
+          aria-describedby={`${id}-strength`}
+        />
+        <button
+          type="button"
+          onClick={() => setIsVisible(prev => !prev)}
+          className="absolute end-2 top-1/2 -translate-y-1/2 p-1.5 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+          aria-label={isVisible ? t('newPassword.hide') : t('newPassword.show')}
+        >
+          {isVisible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </button>
+      </div>
+      <PasswordStrengthMeter id={`${id}-strength`} password={value} username={username} />
+    </div>
+  );
+}
+
+export default NewPasswordField;
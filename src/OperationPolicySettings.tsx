@@ -0,0 +1,67 @@
+import { Timer } from 'lucide-react';
+import { OPERATION_NAMES, type OperationName, type OperationPolicy } from './operationRunner';
+import { useI18n } from './i18n';
+
+interface OperationPolicySettingsProps {
+  policies: Record<OperationName, OperationPolicy>;
+  onChange: (name: OperationName, policy: Partial<OperationPolicy>) => void;
+}
+
+const MAX_RETRIES = 5;
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+function OperationPolicySettings({ policies, onChange }: OperationPolicySettingsProps) {
+  const { t } = useI18n();
+
+  return (
+    <details className="rounded-lg border border-gray-100 dark:border-gray-700 p-3 text-sm text-gray-700 dark:text-gray-200">
+      <summary className="cursor-pointer font-medium flex items-center gap-2">
+        <Timer className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        {t('operation.settings.title')}
+      </summary>
+      <div className="mt-3 grid grid-cols-[1fr_auto_auto] gap-x-3 gap-y-2 items-center">
+        <span />
+        <span className="text-xs text-gray-500 dark:text-gray-400">{t('operation.settings.timeout')}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{t('operation.settings.retries')}</span>
+        {OPERATION_NAMES.map(name => (
+          <div key={name} className="contents">
+            <span dir="ltr" className="font-mono text-xs text-start">{name}()</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              aria-label={`${name}() ${t('operation.settings.timeout')}`}
+              value={policies[name].timeoutMs === null ? 0 : policies[name].timeoutMs / 1000}
+              onChange={(e) => {
+                const seconds = Number(e.target.value);
+                if (Number.isFinite(seconds) && seconds >= 0) {
+                  onChange(name, { timeoutMs: seconds === 0 ? null : Math.round(seconds * 1000) });
+                }
+              }}
+              className={`${inputClass} w-20`}
+            />
+            <input
+              type="number"
+              min={0}
+              max={MAX_RETRIES}
+              step={1}
+              aria-label={`${name}() ${t('operation.settings.retries')}`}
+              value={policies[name].retries}
+              onChange={(e) => {
+                const retries = Number(e.target.value);
+                if (Number.isInteger(retries) && retries >= 0 && retries <= MAX_RETRIES) {
+                  onChange(name, { retries });
+                }
+              }}
+              className={`${inputClass} w-16`}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{t('operation.settings.note')}</p>
+    </details>
+  );
+}
+
+export default OperationPolicySettings;
@@ -0,0 +1,70 @@
+import { Ban, Clock, Loader2, X } from 'lucide-react';
+import type { OperationState } from './operationRunner';
+import { useI18n } from './i18n';
+
+export interface OperationStatusProps {
+  operation: OperationState | null;
+  onCancel: () => void;
+}
+
+// Operation names are API identifiers and are shown as they are.
+const operationLabel = (operation: OperationState) => (
+  <code dir="ltr" className="font-mono">{operation.name}()</code>
+);
+
+/**
+ * Where the latest credential call stands. Pending calls get a cancel button;
+ * aborted and timed-out calls stay visible until the next one starts.
+ */
+function OperationStatus({ operation, onCancel }: OperationStatusProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  if (!operation || operation.status === 'succeeded' || operation.status === 'failed') {
+    return null;
+  }
+
+  if (operation.status === 'aborted' || operation.status === 'timed-out') {
+    const timedOut = operation.status === 'timed-out';
+    return (
+      <div role="status" className="p-3 rounded-lg border text-sm flex items-center gap-2 bg-gray-50 dark:bg-gray-900/50 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200">
+        {timedOut ? <Clock className="w-4 h-4 flex-shrink-0" /> : <Ban className="w-4 h-4 flex-shrink-0" />}
+        <span>
+          {timedOut
+            ? i18n.rich('operation.timedOut', {
+              operation: operationLabel(operation),
+              seconds: String(Math.round((operation.timeoutMs ?? 0) / 1000)),
+            })
+            : i18n.rich('operation.aborted', { operation: operationLabel(operation) })}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div role="status" className="p-3 rounded-lg border text-sm flex items-center justify-between gap-3 bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-900/30 text-blue-700 dark:text-blue-200">
+      <span className="flex items-center gap-2">
+        <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+        <span>
+          {operation.status === 'retrying'
+            ? i18n.rich('operation.retrying', {
+              operation: operationLabel(operation),
+              attempt: String(operation.attempt + 1),
+              max: String(operation.maxAttempts),
+            })
+            : i18n.rich('operation.pending', { operation: operationLabel(operation) })}
+        </span>
+      </span>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-white dark:bg-gray-800 border border-blue-200 dark:border-blue-800 hover:bg-blue-100 dark:hover:bg-blue-900/40"
+      >
+        <X className="w-3.5 h-3.5" />
+        {t('operation.cancel')}
+      </button>
+    </div>
+  );
+}
+
+export default OperationStatus;
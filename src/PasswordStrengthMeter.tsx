@@ -0,0 +1,67 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { DEFAULT_PASSWORD_POLICY, checkPasswordPolicy, estimateStrength, type PasswordPolicy, type StrengthScore } from './passwordPolicy';
+import { describeFeedback, describeViolation, strengthLabel, useI18n } from './i18n';
+
+interface PasswordStrengthMeterProps {
+  id?: string;
+  password: string;
+  username: string;
+  policy?: PasswordPolicy;
+}
+
+const scoreColors: Record<StrengthScore, string> = {
+  0: 'bg-red-500',
+  1: 'bg-orange-500',
+  2: 'bg-yellow-500',
+  3: 'bg-green-500',
+  4: 'bg-emerald-600',
+};
+
+function PasswordStrengthMeter({ id, password, username, policy = DEFAULT_PASSWORD_POLICY }: PasswordStrengthMeterProps) {
+  const i18n = useI18n();
+  if (!password) {
+    return null;
+  }
+
+  const strength = estimateStrength(password, username);
+  const violations = checkPasswordPolicy(password, username, policy);
+
+  return (
+    <div id={id} className="mt-2 text-xs" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {[0, 1, 2, 3, 4].map(segment => (
+          <span
+            key={segment}
+            className={`h-1.5 flex-1 rounded-full ${segment <= strength.score ? scoreColors[strength.score] : 'bg-gray-200 dark:bg-gray-700'}`}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-gray-600 dark:text-gray-300">
+        {i18n.rich('strength.label', {
+          label: <span className="font-medium">{strengthLabel(i18n, strength.score)}</span>,
+        })}
+        <span className="text-gray-400 dark:text-gray-500"> · {i18n.t('strength.bits', { bits: strength.entropyBits })}</span>
+      </p>
+      {strength.feedback.length > 0 && (
+        <p className="text-gray-500 dark:text-gray-400">{strength.feedback.map(feedback => describeFeedback(i18n, feedback)).join('. ')}.</p>
+      )}
+      {violations.length > 0 ? (
+        <ul className="mt-1 space-y-0.5 text-red-600 dark:text-red-400">
+          {violations.map(violation => (
+            <li key={violation.rule} className="flex items-center gap-1">
+              <XCircle className="w-3.5 h-3.5 flex-shrink-0" />
+              {describeViolation(i18n, violation)}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1 flex items-center gap-1 text-green-600 dark:text-green-400">
+          <CheckCircle2 className="w-3.5 h-3.5" />
+          {i18n.t('policy.met')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PasswordStrengthMeter;
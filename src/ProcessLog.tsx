@@ -0,0 +1,412 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { ArrowDown, Download, Eye, EyeOff, History, Search, Terminal, Trash2 } from 'lucide-react';
+import { LOG_EXPORT_FORMATS, downloadLog, formatFields, type LogExportFormat } from './logExport';
+import type { LogHistory, LogSession } from './logHistory';
+import { LOG_CAPACITY_OPTIONS, LOG_LEVELS, type LogEntry, type LogLevel, type Logger } from './logger';
+import type { Redactor } from './redaction';
+import VirtualList from './VirtualList';
+import { useI18n } from './i18n';
+
+type LogView = 'current' | 'all' | 'compare';
+
+type LogItem =
+  | { kind: 'session'; session: LogSession; isCurrent: boolean }
+  | { kind: 'entry'; sessionId: string; entry: LogEntry };
+
+const itemKey = (item: LogItem) =>
+  item.kind === 'session' ? `${item.session.id}:session` : `${item.sessionId}:${item.entry.id}`;
+
+const matchesSearch = (entry: LogEntry, query: string) =>
+  entry.message.toLowerCase().includes(query) || formatFields(entry.fields).toLowerCase().includes(query);
+
+interface LogPalette {
+  levels: Record<LogLevel, string>;
+  surface: string;
+  muted: string;
+  nested: string;
+}
+
+const logPalettes: Record<'standard' | 'high', LogPalette> = {
+  standard: {
+    levels: {
+      error: 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400',
+      success: 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400',
+      info: 'text-blue-600 dark:text-blue-400',
+      debug: 'text-gray-600 dark:text-gray-400',
+    },
+    surface: 'bg-gray-50 dark:bg-gray-900/50 border-gray-100 dark:border-gray-700',
+    muted: 'text-gray-500 dark:text-gray-400',
+    nested: 'border-gray-200 dark:border-gray-700',
+  },
+  // At least 7:1 against the surface (WCAG AAA), and errors and successes are
+  // outlined so they do not rely on colour alone.
+  high: {
+    levels: {
+      error: 'border border-red-800 dark:border-red-300 text-red-800 dark:text-red-300 font-semibold',
+      success: 'border border-green-900 dark:border-green-300 text-green-900 dark:text-green-300',
+      info: 'text-blue-900 dark:text-sky-300',
+      debug: 'text-black dark:text-white',
+    },
+    surface: 'bg-white dark:bg-black border-black dark:border-white',
+    muted: 'text-gray-800 dark:text-gray-200',
+    nested: 'border-black dark:border-white',
+  },
+};
+
+function LogRow({ entry, palette, highContrast }: { entry: LogEntry; palette: LogPalette; highContrast: boolean }) {
+  const { t, formatTime } = useI18n();
+  return (
+    <div
+      style={{ marginInlineStart: `${entry.depth * 1.25}rem` }}
+      className={`mb-1 py-1.5 px-2 sm:px-3 rounded ${entry.depth > 0 ? `border-s-2 ${palette.nested}` : ''} ${palette.levels[entry.level]}`}
+    >
+      <span className={`${palette.muted} me-2 select-none font-medium`}>[{formatTime(entry.timestamp)}]</span>
+      <span className={`whitespace-pre-wrap break-words ${entry.span ? 'font-semibold' : ''}`}>{entry.message}</span>
+      {entry.span && (
+        <span className={`ms-2 ${palette.muted}`}>
+          {entry.span.status === 'open' ? t('processLog.running') : t('processLog.duration', { ms: entry.span.durationMs ?? 0 })}
+        </span>
+      )}
+      {Object.keys(entry.fields).length > 0 && (
+        // Field names and values are machine-readable and stay English, so
+        // they keep left-to-right order in RTL locales.
+        <span dir="ltr" className={`block mt-0.5 ${palette.muted} break-words`}>
+          {Object.entries(entry.fields).map(([key, value]) => (
+            <span key={key} className="me-3">
+              <span className={highContrast ? 'font-semibold' : 'opacity-70'}>{key}=</span>{String(value)}
+            </span>
+          ))}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export interface ProcessLogProps {
+  logger: Logger;
+  redactor: Redactor;
+  /** Switches to the high-contrast palette. */
+  highContrast?: boolean;
+  /** Persists this session's log and offers earlier sessions for comparison. */
+  history?: LogHistory;
+  /** Called after the user changes the logger's cap, e.g. to remember it. */
+  onMaxEntriesChange?: (maxEntries: number) => void;
+  /** Given to the log list, so a "skip to log" link can target it. */
+  listId?: string;
+}
+
+function ProcessLog({ logger, redactor, highContrast = false, history, onMaxEntriesChange, listId }: ProcessLogProps) {
+  const entries = useSyncExternalStore(logger.subscribe, logger.getEntries);
+  const maxEntries = useSyncExternalStore(logger.subscribe, logger.getMaxEntries);
+  const droppedCount = useSyncExternalStore(logger.subscribe, logger.getDroppedCount);
+  const { t, locale } = useI18n();
+  const palette = logPalettes[highContrast ? 'high' : 'standard'];
+  const [enabledLevels, setEnabledLevels] = useState<Set<LogLevel>>(() => new Set(LOG_LEVELS));
+  const [query, setQuery] = useState('');
+  const [exportFormat, setExportFormat] = useState<LogExportFormat>('json');
+  // Local debugging aid only; never persisted, and exports stay masked.
+  const [showPII, setShowPII] = useState(false);
+  const [view, setView] = useState<LogView>('current');
+  const [pastSessions, setPastSessions] = useState<LogSession[]>([]);
+  const [compared, setCompared] = useState<[string, string]>(['', logger.sessionId]);
+
+  useEffect(() => {
+    if (!history) {
+      return;
+    }
+    history.list()
+      .then(sessions => {
+        const earlier = sessions.filter(session => session.id !== logger.sessionId);
+        setPastSessions(earlier);
+        setCompared(([left, right]) => [left || earlier[0]?.id || logger.sessionId, right]);
+      })
+      .catch(error => console.error('Could not read the Process Log history:', error));
+    return history.track(logger, redactor);
+  }, [history, logger, redactor]);
+
+  // Entries are immutable, so each version of one is masked once rather than
+  // the whole buffer on every new entry.
+  const maskEntry = useMemo(() => {
+    const masked = new WeakMap<LogEntry, LogEntry>();
+    return (entry: LogEntry) => {
+      let result = masked.get(entry);
+      if (!result) {
+        result = redactor.maskPII(entry);
+        masked.set(entry, result);
+      }
+      return result;
+    };
+  }, [redactor]);
+  const displayedEntries = useMemo(
+    () => showPII ? entries : entries.map(maskEntry),
+    [entries, maskEntry, showPII],
+  );
+
+  const filterEntries = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return (candidates: readonly LogEntry[]) => candidates.filter(entry =>
+      enabledLevels.has(entry.level) && (!normalizedQuery || matchesSearch(entry, normalizedQuery)));
+  }, [enabledLevels, query]);
+
+  const visibleEntries = useMemo(() => filterEntries(displayedEntries), [displayedEntries, filterEntries]);
+
+  // The live session, shaped like a stored one so both render the same way.
+  const currentSession: LogSession = useMemo(() => ({
+    id: logger.sessionId,
+    startedAt: logger.startedAt,
+    updatedAt: displayedEntries[displayedEntries.length - 1]?.timestamp ?? logger.startedAt,
+    entries: displayedEntries as LogEntry[],
+    dropped: droppedCount,
+  }), [logger, displayedEntries, droppedCount]);
+
+  const sessionItems = (session: LogSession, isCurrent: boolean): LogItem[] => [
+    { kind: 'session', session, isCurrent },
+    ...filterEntries(session.entries).map(entry => ({ kind: 'entry' as const, sessionId: session.id, entry })),
+  ];
+
+  const items: LogItem[] = view === 'all'
+    ? [...[...pastSessions].reverse().flatMap(session => sessionItems(session, false)), ...sessionItems(currentSession, true)]
+    : visibleEntries.map(entry => ({ kind: 'entry', sessionId: logger.sessionId, entry }));
+
+  const sessionTimes = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'short', timeStyle: 'medium' }),
+    [locale],
+  );
+  const sessionLabel = (session: LogSession, isCurrent: boolean) => isCurrent
+    ? t('processLog.session.current', { time: sessionTimes.format(session.startedAt) })
+    : t('processLog.session.past', { time: sessionTimes.format(session.startedAt) });
+  const findSession = (id: string) =>
+    id === logger.sessionId ? currentSession : pastSessions.find(session => session.id === id) ?? null;
+
+  const renderItem = (item: LogItem) => item.kind === 'session' ? (
+    <div className={`mt-2 mb-1 px-2 py-1 rounded text-xs font-sans font-semibold ${palette.muted} bg-gray-100 dark:bg-gray-800`}>
+      {sessionLabel(item.session, item.isCurrent)}
+      <span className="font-normal ms-2">
+        {t('processLog.session.entries', { count: item.session.entries.length })}
+        {item.session.dropped > 0 && ` · ${t('processLog.dropped', { count: item.session.dropped })}`}
+      </span>
+    </div>
+  ) : (
+    <LogRow entry={item.entry} palette={palette} highContrast={highContrast} />
+  );
+
+  const renderPaused = (resume: () => void) => (
+    <button
+      type="button"
+      onClick={resume}
+      className="absolute bottom-3 start-1/2 -translate-x-1/2 rtl:translate-x-1/2 flex items-center gap-1 px-3 py-1 rounded-full shadow bg-blue-600 text-white text-xs font-sans hover:bg-blue-700"
+    >
+      <ArrowDown className="w-3.5 h-3.5" />
+      {t('processLog.jumpToLatest')}
+    </button>
+  );
+
+  const handleMaxEntriesChange = (next: number) => {
+    logger.setMaxEntries(next);
+    onMaxEntriesChange?.(next);
+  };
+
+  const clearHistory = async () => {
+    await history?.clear();
+    setPastSessions([]);
+    setCompared(['', logger.sessionId]);
+    setView('current');
+  };
+
+  const toggleLevel = (level: LogLevel) => {
+    setEnabledLevels(prev => {
+      const next = new Set(prev);
+      if (next.has(level)) {
+        next.delete(level);
+      } else {
+        next.add(level);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="bg-blue-50 dark:bg-blue-900/30 p-2 rounded-lg">
+          <Terminal className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('processLog.title')}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('processLog.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <div className="relative flex-grow min-w-[10rem]">
+          <Search className="w-4 h-4 absolute start-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('processLog.search')}
+            aria-label={t('processLog.searchLabel')}
+            className="w-full ps-8 pe-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          />
+        </div>
+        {LOG_LEVELS.map(level => (
+          <button
+            key={level}
+            type="button"
+            onClick={() => toggleLevel(level)}
+            aria-pressed={enabledLevels.has(level)}
+            className={`px-2 py-1 rounded text-xs font-medium border transition-colors ${
+              enabledLevels.has(level)
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                : 'border-gray-200 dark:border-gray-700 text-gray-400 dark:text-gray-500'
+            }`}
+          >
+            {t(`processLog.level.${level}`)}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setShowPII(prev => !prev)}
+          aria-pressed={showPII}
+          title={t('processLog.showPIIHint')}
+          className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border transition-colors ${
+            showPII
+              ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'
+              : 'border-gray-200 dark:border-gray-700 text-gray-400 dark:text-gray-500'
+          }`}
+        >
+          {showPII ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+          {t('processLog.showPII')}
+        </button>
+      </div>
+
+      {history && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+          <History className="w-4 h-4 text-gray-400" />
+          <div role="group" aria-label={t('processLog.view')} className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            {(['current', 'all', 'compare'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                disabled={option !== 'current' && pastSessions.length === 0}
+                className={`px-2 py-1 font-medium disabled:opacity-50 ${
+                  view === option
+                    ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                    : 'text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {t(`processLog.view.${option}`)}
+              </button>
+            ))}
+          </div>
+          {pastSessions.length > 0 && (
+            <button
+              type="button"
+              onClick={clearHistory}
+              className="ms-auto text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              {t('processLog.clearHistory', { count: pastSessions.length })}
+            </button>
+          )}
+        </div>
+      )}
+
+      {view === 'compare' ? (
+        <div className="grid grid-cols-2 gap-2">
+          {compared.map((sessionId, column) => {
+            const session = findSession(sessionId);
+            const isCurrent = sessionId === logger.sessionId;
+            return (
+              <div key={column} className="min-w-0">
+                <select
+                  value={sessionId}
+                  onChange={(e) => setCompared(prev => column === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value])}
+                  aria-label={t(column === 0 ? 'processLog.compare.first' : 'processLog.compare.second')}
+                  className="w-full mb-2 px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+                >
+                  <option value={logger.sessionId}>{sessionLabel(currentSession, true)}</option>
+                  {pastSessions.map(past => (
+                    <option key={past.id} value={past.id}>{sessionLabel(past, false)}</option>
+                  ))}
+                </select>
+                <VirtualList
+                  items={session ? filterEntries(session.entries) : []}
+                  getKey={entry => entry.id}
+                  renderItem={entry => <LogRow entry={entry} palette={palette} highContrast={highContrast} />}
+                  followOutput={isCurrent}
+                  renderPaused={renderPaused}
+                  keyboardHint={t('processLog.keyboardHint')}
+                  id={column === 0 ? listId : undefined}
+                  aria-label={session ? sessionLabel(session, isCurrent) : t('processLog.title')}
+                  className={`${palette.surface} rounded-lg p-2 h-[300px] sm:h-[440px] font-mono text-xs border shadow-inner`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <VirtualList
+          items={items}
+          getKey={itemKey}
+          renderItem={renderItem}
+          followOutput
+          renderPaused={renderPaused}
+          keyboardHint={t('processLog.keyboardHint')}
+          id={listId}
+          aria-label={t('processLog.title')}
+          className={`${palette.surface} rounded-lg p-3 sm:p-4 h-[300px] sm:h-[440px] font-mono text-xs sm:text-sm border shadow-inner`}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {t('processLog.count', { visible: visibleEntries.length, count: entries.length })}
+          {droppedCount > 0 && ` · ${t('processLog.dropped', { count: droppedCount })}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={maxEntries}
+            onChange={(e) => handleMaxEntriesChange(Number(e.target.value))}
+            aria-label={t('processLog.capacity')}
+            title={t('processLog.capacity')}
+            className="px-2 py-1 border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+          >
+            {[...new Set([...LOG_CAPACITY_OPTIONS, maxEntries])].sort((a, b) => a - b).map(option => (
+              <option key={option} value={option}>{t('processLog.capacityOption', { count: option })}</option>
+            ))}
+          </select>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as LogExportFormat)}
+            aria-label={t('processLog.exportFormat')}
+            className="px-2 py-1 border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200"
+          >
+            {LOG_EXPORT_FORMATS.map(format => (
+              <option key={format.value} value={format.value}>{format.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => downloadLog(entries, exportFormat, redactor)}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            <Download className="w-3.5 h-3.5" />
+            {t('processLog.export')}
+          </button>
+          <button
+            type="button"
+            onClick={logger.clear}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            {t('processLog.clear')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ProcessLog;
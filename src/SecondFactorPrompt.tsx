@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { useI18n } from './i18n';
+
+interface SecondFactorPromptProps {
+  digits: number;
+  /** Resolves with an error to show in the form, or null once the prompt is done. */
+  onSubmit: (code: string) => Promise<string | null>;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-mono tracking-widest';
+
+// Shown between the password check and the session: nothing is stored in the
+// browser's credential manager until this step succeeds.
+function SecondFactorPrompt({ digits, onSubmit, onCancel }: SecondFactorPromptProps) {
+  const { t } = useI18n();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const result = await onSubmit(code);
+    setError(result);
+    setIsSubmitting(false);
+    if (result) {
+      setCode('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="flex items-start gap-3 p-3 sm:p-4 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-200 rounded-lg border border-blue-100 dark:border-blue-900/30">
+        <ShieldCheck className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <div>
+          <h2 className="font-semibold">{t('secondFactor.prompt.title')}</h2>
+          <p className="text-sm mt-1">
+            {useRecoveryCode ? t('secondFactor.prompt.recoveryBody') : t('secondFactor.prompt.body', { digits })}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="second-factor-code" className="block text-gray-700 dark:text-gray-200 text-sm font-medium mb-2">
+          {useRecoveryCode ? t('secondFactor.recoveryCode') : t('secondFactor.code')}
+        </label>
+        {useRecoveryCode ? (
+          <input
+            key="recovery"
+            type="text"
+            id="second-factor-code"
+            name="recovery-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className={inputClassName}
+            autoComplete="off"
+            autoCapitalize="none"
+            spellCheck={false}
+            dir="ltr"
+            placeholder="xxxx-xxxx"
+            autoFocus
+            required
+          />
+        ) : (
+          <input
+            key="totp"
+            type="text"
+            id="second-factor-code"
+            name="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, digits))}
+            className={inputClassName}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern={`\\d{${digits}}`}
+            maxLength={digits}
+            dir="ltr"
+            autoFocus
+            required
+          />
+        )}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-500 text-white py-3 px-4 rounded-lg hover:bg-blue-600 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        <ShieldCheck className="w-4 h-4" />
+        {isSubmitting ? t('secondFactor.verifying') : t('secondFactor.verify')}
+      </button>
+      <div className="flex justify-between gap-3 text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError(null);
+          }}
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {useRecoveryCode ? t('secondFactor.useAuthenticator') : t('secondFactor.useRecoveryCode')}
+        </button>
+        <button type="button" onClick={onCancel} className="text-gray-600 dark:text-gray-300 hover:underline">
+          {t('secondFactor.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default SecondFactorPrompt;
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Copy, ShieldCheck, ShieldOff } from 'lucide-react';
+import { encodeQrCode } from './qrCode';
+import { useI18n } from './i18n';
+import type { TotpEnrollment, TotpStatus } from './useSecondFactor';
+
+interface SecondFactorSetupProps {
+  status: TotpStatus;
+  /** Each callback resolves with an error to show, or its result on success. */
+  onBegin: () => Promise<TotpEnrollment | string>;
+  onConfirm: (code: string) => Promise<{ recoveryCodes: string[] } | string>;
+  onDisable: (code: string) => Promise<string | null>;
+}
+
+type Step =
+  | { name: 'idle' }
+  | { name: 'enrolling'; enrollment: TotpEnrollment }
+  | { name: 'recovery-codes'; codes: string[] }
+  | { name: 'disabling' };
+
+const QUIET_ZONE = 4;
+
+const buttonClassName = 'w-full bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-200 py-3 px-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed';
+const inputClassName = 'w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-mono tracking-widest';
+
+// Dark on light in every theme, since that is what scanners expect.
+function QrCodeImage({ text, label }: { text: string; label: string }) {
+  const qr = useMemo(() => encodeQrCode(text), [text]);
+  const size = qr.size + QUIET_ZONE * 2;
+  const path = qr.modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg role="img" aria-label={label} viewBox={`0 0 ${size} ${size}`} shapeRendering="crispEdges" className="w-48 h-48 mx-auto rounded">
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+function CodeForm({ label, submitLabel, onSubmit, onCancel }: {
+  label: string;
+  submitLabel: string;
+  onSubmit: (code: string) => Promise<string | null>;
+  onCancel: () => void;
+}) {
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const result = await onSubmit(code);
+    setIsSubmitting(false);
+    setError(result);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label htmlFor="second-factor-setup-code" className="block text-gray-700 dark:text-gray-200 text-sm font-medium">
+        {label}
+      </label>
+      <input
+        type="text"
+        id="second-factor-setup-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className={inputClassName}
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        dir="ltr"
+        required
+      />
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 py-2 px-4 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 font-medium"
+        >
+          {t('secondFactor.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex-1 bg-blue-500 text-white py-2 px-4 rounded-lg hover:bg-blue-600 font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? t('secondFactor.verifying') : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Enrollment and removal of the TOTP second factor. The `otpauth://` URI is
+ * turned into a QR code in the page, so the secret never leaves it.
+ */
+function SecondFactorSetup({ status, onBegin, onConfirm, onDisable }: SecondFactorSetupProps) {
+  const { t } = useI18n();
+  const [step, setStep] = useState<Step>({ name: 'idle' });
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const begin = async () => {
+    setIsStarting(true);
+    const result = await onBegin();
+    setIsStarting(false);
+    if (typeof result === 'string') {
+      setError(result);
+    } else {
+      setError(null);
+      setStep({ name: 'enrolling', enrollment: result });
+    }
+  };
+
+  const confirm = async (code: string) => {
+    const result = await onConfirm(code);
+    if (typeof result === 'string') {
+      return result;
+    }
+    setStep({ name: 'recovery-codes', codes: result.recoveryCodes });
+    return null;
+  };
+
+  const disable = async (code: string) => {
+    const result = await onDisable(code);
+    if (!result) {
+      setStep({ name: 'idle' });
+    }
+    return result;
+  };
+
+  const copyCodes = async (codes: string[]) => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // The codes are on screen to write down either way.
+    }
+  };
+
+  if (step.name === 'enrolling') {
+    const { enrollment } = step;
+    return (
+      <div className="mb-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white">{t('secondFactor.setup.title')}</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300">{t('secondFactor.setup.scan')}</p>
+        <QrCodeImage text={enrollment.uri} label={t('secondFactor.setup.qrLabel')} />
+        <div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('secondFactor.setup.manual')}</p>
+          <code dir="ltr" className="block mt-1 font-mono text-sm break-all text-gray-900 dark:text-white">
+            {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+          </code>
+        </div>
+        <CodeForm
+          label={t('secondFactor.setup.confirmLabel', { digits: enrollment.digits })}
+          submitLabel={t('secondFactor.setup.confirm')}
+          onSubmit={confirm}
+          onCancel={() => setStep({ name: 'idle' })}
+        />
+      </div>
+    );
+  }
+
+  if (step.name === 'recovery-codes') {
+    return (
+      <div className="mb-3 p-4 rounded-lg border border-green-200 dark:border-green-900/40 bg-green-50 dark:bg-green-900/20 space-y-3">
+        <h3 className="font-semibold text-green-800 dark:text-green-200">{t('secondFactor.recovery.title')}</h3>
+        <p className="text-sm text-green-700 dark:text-green-300">{t('secondFactor.recovery.body')}</p>
+        <ul dir="ltr" className="grid grid-cols-2 gap-1 font-mono text-sm text-gray-900 dark:text-white">
+          {step.codes.map(code => <li key={code}>{code}</li>)}
+        </ul>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => copyCodes(step.codes)}
+            className="flex-1 flex items-center justify-center gap-1 py-2 px-3 rounded-lg text-sm bg-white dark:bg-gray-800 border border-green-200 dark:border-green-900/40 hover:bg-green-100 dark:hover:bg-green-900/40"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? t('secondFactor.recovery.copied') : t('secondFactor.recovery.copy')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setStep({ name: 'idle' })}
+            className="flex-1 py-2 px-3 rounded-lg text-sm bg-green-600 text-white hover:bg-green-700 font-medium"
+          >
+            {t('secondFactor.recovery.done')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step.name === 'disabling') {
+    return (
+      <div className="mb-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+        <CodeForm
+          label={t('secondFactor.disable.label')}
+          submitLabel={t('secondFactor.disable.confirm')}
+          onSubmit={disable}
+          onCancel={() => setStep({ name: 'idle' })}
+        />
+      </div>
+    );
+  }
+
+  return status.enrolled ? (
+    <div className="mb-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3 text-sm">
+      <span className="flex items-center gap-2 text-gray-700 dark:text-gray-200">
+        <ShieldCheck className="w-4 h-4 flex-shrink-0 text-green-600 dark:text-green-400" />
+        <span>
+          {t('secondFactor.enabled')}
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            {t('secondFactor.recoveryCodesLeft', { count: status.recoveryCodesLeft })}
+          </span>
+        </span>
+      </span>
+      <button
+        type="button"
+        onClick={() => setStep({ name: 'disabling' })}
+        className="flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline whitespace-nowrap"
+      >
+        <ShieldOff className="w-4 h-4" />
+        {t('secondFactor.disable.open')}
+      </button>
+    </div>
+  ) : (
+    <>
+      <button type="button" onClick={begin} disabled={isStarting} className={`${buttonClassName} mb-3`}>
+        <ShieldCheck className="w-4 h-4" />
+        {t('secondFactor.setup.open')}
+      </button>
+      {error && (
+        <p role="alert" className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </>
+  );
+}
+
+export default SecondFactorSetup;
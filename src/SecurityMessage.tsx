@@ -0,0 +1,30 @@
+import { AlertCircle } from 'lucide-react';
+import { useI18n } from './i18n';
+
+interface SecurityMessageProps {
+  insecureContext: boolean;
+}
+
+// Shown in place of the credential features when no backend can run.
+function SecurityMessage({ insecureContext }: SecurityMessageProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mb-6 flex items-start gap-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-lg border border-yellow-200 dark:border-yellow-900/30 shadow-sm">
+      <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+      <div>
+        <h3 className="font-semibold mb-1">{t('signIn.limited.title')}</h3>
+        <p className="text-sm">
+          {t('signIn.limited.body')}
+          {insecureContext && (
+            <span className="block mt-2 text-yellow-700 dark:text-yellow-300">
+              {t('signIn.limited.insecure')}
+            </span>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default SecurityMessage;
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import type { SessionTimes } from './sessionManager';
+import { useI18n } from './i18n';
+
+interface SessionExpiryBannerProps {
+  times: SessionTimes;
+  warnBeforeMs: number;
+  onExtend: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Ticks on its own so the countdown does not re-render the whole app. The
+// alert says once that the session is ending; the countdown is a timer, which
+// screen readers leave unannounced, so it is not read out every second.
+function SessionExpiryBanner({ times, warnBeforeMs, onExtend }: SessionExpiryBannerProps) {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isIdleDeadline = times.idleExpiresAt < times.expiresAt;
+  const remaining = Math.min(times.idleExpiresAt, times.expiresAt) - now;
+  if (remaining > warnBeforeMs) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-3 sm:p-4 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 rounded-lg border border-amber-200 dark:border-amber-900/30">
+      <p role="alert" className="sr-only">
+        {isIdleDeadline ? t('expiry.idleAlert') : t('expiry.absoluteAlert')}
+      </p>
+      <p role="timer" className="text-sm flex items-center gap-2">
+        <Clock className="w-4 h-4 flex-shrink-0" />
+        {isIdleDeadline
+          ? t('expiry.idle', { remaining: formatRemaining(remaining) })
+          : t('expiry.absolute', { remaining: formatRemaining(remaining) })}
+      </p>
+      {isIdleDeadline && (
+        <button
+          onClick={onExtend}
+          className="mt-2 py-1.5 px-3 rounded-lg bg-amber-600 text-white text-sm font-medium hover:bg-amber-700"
+        >
+          {t('expiry.extend')}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default SessionExpiryBanner;
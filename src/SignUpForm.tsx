@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { UserPlus } from 'lucide-react';
+import NewPasswordField from './NewPasswordField';
+import { useI18n } from './i18n';
+
+export interface SignUpValues {
+  username: string;
+  displayName: string;
+  password: string;
+}
+
+interface SignUpFormProps {
+  /** Resolves with an error to show in the form, or null on success. */
+  onSubmit: (values: SignUpValues) => Promise<string | null>;
+  onGenerate: () => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-gray-900 text-gray-900 dark:text-white';
+
+function SignUpForm({ onSubmit, onGenerate, onCancel }: SignUpFormProps) {
+  const { t } = useI18n();
+  const [values, setValues] = useState<SignUpValues>({ username: '', displayName: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const update = (field: keyof SignUpValues) => (value: string) => setValues(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(await onSubmit(values));
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div>
+        <label htmlFor="signup-username" className="block text-gray-700 dark:text-gray-200 text-sm font-medium mb-2">
+          {t('signUp.username')}
+        </label>
+        <input
+          type="text"
+          id="signup-username"
+          name="username"
+          value={values.username}
+          onChange={(e) => update('username')(e.target.value)}
+          className={inputClassName}
+          autoComplete="username"
+          placeholder={t('signUp.usernamePlaceholder')}
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="signup-display-name" className="block text-gray-700 dark:text-gray-200 text-sm font-medium mb-2">
+          {t('signUp.displayName')} <span className="text-gray-400 dark:text-gray-500 font-normal">{t('signUp.optional')}</span>
+        </label>
+        <input
+          type="text"
+          id="signup-display-name"
+          name="name"
+          value={values.displayName}
+          onChange={(e) => update('displayName')(e.target.value)}
+          className={inputClassName}
+          autoComplete="name"
+          placeholder={t('signUp.displayNamePlaceholder')}
+        />
+      </div>
+
+      <NewPasswordField
+        id="new-password"
+        label={t('signUp.password')}
+        value={values.password}
+        username={values.username}
+        onChange={update('password')}
+        onGenerate={onGenerate}
+      />
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-500 text-white py-3 px-4 rounded-lg hover:bg-blue-600 transition-all duration-200 motion-safe:hover:scale-[0.99] motion-safe:active:scale-[0.97] font-medium flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        <UserPlus className="w-4 h-4" />
+        {isSubmitting ? t('signUp.submitting') : t('signUp.submit')}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full text-sm text-gray-600 dark:text-gray-300 hover:underline"
+      >
+        {t('signUp.signIn')}
+      </button>
+    </form>
+  );
+}
+
+export default SignUpForm;
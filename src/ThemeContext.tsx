@@ -1,31 +1,77 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import { safeLocalStorage } from './safeStorage';
 
-type Theme = 'dark' | 'light';
+export type ThemePreference = 'light' | 'dark' | 'system';
+export type ResolvedTheme = 'light' | 'dark';
+
+// Keep in step with the pre-hydration script in index.html, which applies the
+// same classes before React loads so the page never flashes the wrong theme.
+const THEME_STORAGE_KEY = 'theme';
+const CONTRAST_STORAGE_KEY = 'theme-contrast';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const HIGH_CONTRAST_QUERY = '(prefers-contrast: more)';
 
 interface ThemeContextType {
-  theme: Theme;
-  toggleTheme: () => void;
+  /** What the user picked; `system` follows the OS. */
+  theme: ThemePreference;
+  /** What is actually applied. */
+  resolvedTheme: ResolvedTheme;
+  setTheme: (theme: ThemePreference) => void;
+  highContrast: boolean;
+  setHighContrast: (highContrast: boolean) => void;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
+const getStoredTheme = (): ThemePreference => {
+  const stored = safeLocalStorage.getItem(THEME_STORAGE_KEY);
+  return stored === 'light' || stored === 'dark' ? stored : 'system';
+};
+
+const getInitialContrast = () => {
+  const stored = safeLocalStorage.getItem(CONTRAST_STORAGE_KEY);
+  return stored === null ? window.matchMedia(HIGH_CONTRAST_QUERY).matches : stored === 'high';
+};
+
 export function ThemeProvider({ children }: { children: React.ReactNode }) {
-  const [theme, setTheme] = useState<Theme>('dark');
+  const [theme, setThemeState] = useState<ThemePreference>(getStoredTheme);
+  const [systemTheme, setSystemTheme] = useState<ResolvedTheme>(() => window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light');
+  const [highContrast, setHighContrastState] = useState(getInitialContrast);
+  const resolvedTheme = theme === 'system' ? systemTheme : theme;
+
+  useEffect(() => {
+    const query = window.matchMedia(DARK_QUERY);
+    const onChange = () => setSystemTheme(query.matches ? 'dark' : 'light');
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
 
   useEffect(() => {
-    if (theme === 'dark') {
-      document.documentElement.classList.add('dark');
+    const root = document.documentElement;
+    root.classList.toggle('dark', resolvedTheme === 'dark');
+    root.style.colorScheme = resolvedTheme;
+  }, [resolvedTheme]);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('high-contrast', highContrast);
+  }, [highContrast]);
+
+  const setTheme = (next: ThemePreference) => {
+    if (next === 'system') {
+      safeLocalStorage.removeItem(THEME_STORAGE_KEY);
     } else {
-      document.documentElement.classList.remove('dark');
+      safeLocalStorage.setItem(THEME_STORAGE_KEY, next);
     }
-  }, [theme]);
+    setThemeState(next);
+  };
 
-  const toggleTheme = () => {
-    setTheme(prev => prev === 'dark' ? 'light' : 'dark');
+  const setHighContrast = (next: boolean) => {
+    safeLocalStorage.setItem(CONTRAST_STORAGE_KEY, next ? 'high' : 'standard');
+    setHighContrastState(next);
   };
 
   return (
-    <ThemeContext.Provider value={{ theme, toggleTheme }}>
+    <ThemeContext.Provider value={{ theme, resolvedTheme, setTheme, highContrast, setHighContrast }}>
       {children}
     </ThemeContext.Provider>
   );
@@ -37,4 +83,4 @@ export function useTheme() {
     throw new Error('useTheme must be used within a ThemeProvider');
   }
   return context;
-}
\ No newline at end of file
+}
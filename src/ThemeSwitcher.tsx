@@ -0,0 +1,52 @@
+import { Contrast, Monitor, Moon, Sun } from 'lucide-react';
+import { useTheme, type ThemePreference } from './ThemeContext';
+import { useI18n } from './i18n';
+
+const THEME_OPTIONS: Array<{ value: ThemePreference; icon: typeof Sun }> = [
+  { value: 'light', icon: Sun },
+  { value: 'dark', icon: Moon },
+  { value: 'system', icon: Monitor },
+];
+
+const buttonClassName = (active: boolean) => `p-1.5 rounded-md transition-colors ${active
+  ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
+  : 'text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'}`;
+
+function ThemeSwitcher() {
+  const { theme, setTheme, highContrast, setHighContrast } = useTheme();
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-1 p-1 rounded-lg bg-gray-100 dark:bg-gray-800">
+      <div role="radiogroup" aria-label={t('theme.group')} className="flex items-center gap-1">
+        {THEME_OPTIONS.map(({ value, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={theme === value}
+            aria-label={t(`theme.${value}`)}
+            title={t(`theme.${value}`)}
+            onClick={() => setTheme(value)}
+            className={buttonClassName(theme === value)}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      <span className="w-px h-5 bg-gray-300 dark:bg-gray-600" aria-hidden="true" />
+      <button
+        type="button"
+        aria-pressed={highContrast}
+        aria-label={t('theme.highContrast')}
+        title={t('theme.highContrast')}
+        onClick={() => setHighContrast(!highContrast)}
+        className={buttonClassName(highContrast)}
+      >
+        <Contrast className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export default ThemeSwitcher;
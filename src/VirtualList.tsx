@@ -0,0 +1,269 @@
+import { useId, useLayoutEffect, useRef, useState, type KeyboardEvent, type ReactNode } from 'react';
+
+export interface VirtualListProps<T> {
+  items: readonly T[];
+  getKey: (item: T) => string | number;
+  renderItem: (item: T) => ReactNode;
+  /** Height assumed for rows that have not been measured yet. */
+  estimatedHeight?: number;
+  /** Keeps the newest row in view while the user is at the bottom. */
+  followOutput?: boolean;
+  className?: string;
+  /** Rendered over the list while following is paused, e.g. a "jump to latest" button. */
+  renderPaused?: (resume: () => void) => ReactNode;
+  /** Read out by screen readers on entering the list, e.g. which keys move between rows. */
+  keyboardHint?: string;
+  id?: string;
+  'aria-label': string;
+}
+
+// Rows rendered beyond each edge of the viewport, so fast scrolling does not
+// show blank space before the next render.
+const OVERSCAN_PX = 400;
+// Within this distance of the bottom counts as "at the bottom".
+const STICK_THRESHOLD_PX = 24;
+
+/**
+ * A scroll container that renders only the rows near the viewport. Rows can
+ * have any height: each is measured once rendered, and the unrendered rest
+ * are stood in for by spacers sized from those measurements.
+ */
+function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedHeight = 40,
+  followOutput = false,
+  className = '',
+  renderPaused,
+  keyboardHint,
+  id,
+  'aria-label': ariaLabel,
+}: VirtualListProps<T>) {
+  const hintId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const rows = useRef(new Map<string, HTMLElement>());
+  const rowRefs = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const [, setMeasured] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [isFollowing, setIsFollowing] = useState(true);
+  // Scroll events from our own scrollTo must not count as the user leaving the bottom.
+  const isAutoScrolling = useRef(false);
+  // The row the arrow keys move from, and one waiting to be focused once it is rendered.
+  const activeKey = useRef<string | null>(null);
+  const pendingFocus = useRef<string | null>(null);
+
+  const [observer] = useState(() => typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(records => {
+    let changed = false;
+    for (const record of records) {
+      const key = (record.target as HTMLElement).dataset.key!;
+      const height = (record.target as HTMLElement).offsetHeight;
+      if (heights.current.get(key) !== height) {
+        heights.current.set(key, height);
+        changed = true;
+      }
+    }
+    if (changed) {
+      setMeasured(count => count + 1);
+    }
+  }));
+
+  useLayoutEffect(() => () => observer?.disconnect(), [observer]);
+
+  // Forget the heights of rows that have left the list, e.g. entries a ring
+  // buffer dropped, so the map stays as bounded as the items.
+  useLayoutEffect(() => {
+    if (heights.current.size <= items.length) {
+      return;
+    }
+    const live = new Set(items.map(item => String(getKey(item))));
+    for (const key of heights.current.keys()) {
+      if (!live.has(key)) {
+        heights.current.delete(key);
+      }
+    }
+  }, [items, getKey]);
+
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, index) => {
+    offsets[index + 1] = offsets[index] + (heights.current.get(String(getKey(item))) ?? estimatedHeight);
+  });
+  const totalHeight = offsets[items.length];
+
+  let start = 0;
+  while (start < items.length && offsets[start + 1] < viewport.top - OVERSCAN_PX) {
+    start++;
+  }
+  let end = start;
+  while (end < items.length && offsets[end] < viewport.top + viewport.height + OVERSCAN_PX) {
+    end++;
+  }
+
+  const following = followOutput && isFollowing;
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container && following && container.scrollTop + container.clientHeight < container.scrollHeight - 1) {
+      isAutoScrolling.current = true;
+      container.scrollTop = container.scrollHeight;
+    }
+  });
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    setViewport({ top: container.scrollTop, height: container.clientHeight });
+    if (typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    const resize = new ResizeObserver(() => setViewport({ top: container.scrollTop, height: container.clientHeight }));
+    resize.observe(container);
+    return () => resize.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const key = pendingFocus.current;
+    const row = key === null ? null : containerRef.current?.querySelector<HTMLElement>(`[data-key="${CSS.escape(key)}"]`);
+    if (row) {
+      pendingFocus.current = null;
+      row.focus({ preventScroll: true });
+    }
+  });
+
+  const handleScroll = () => {
+    const container = containerRef.current!;
+    setViewport({ top: container.scrollTop, height: container.clientHeight });
+    if (isAutoScrolling.current) {
+      isAutoScrolling.current = false;
+      return;
+    }
+    const atBottom = container.scrollHeight - container.scrollTop - container.clientHeight < STICK_THRESHOLD_PX;
+    if (atBottom !== isFollowing) {
+      setIsFollowing(atBottom);
+    }
+  };
+
+  const resume = () => {
+    setIsFollowing(true);
+    const container = containerRef.current;
+    if (container && container.scrollTop + container.clientHeight < container.scrollHeight - 1) {
+      isAutoScrolling.current = true;
+      container.scrollTop = container.scrollHeight;
+    }
+  };
+
+  // Rows follow the feed pattern: arrow keys, Page Up/Down, Home and End move
+  // focus between them, scrolling unrendered rows into view first.
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const container = containerRef.current!;
+    if (items.length === 0 || event.altKey || event.ctrlKey || event.metaKey) {
+      return;
+    }
+    const current = items.findIndex(item => String(getKey(item)) === activeKey.current);
+    // Without an active row, start from the first one in view.
+    const from = current === -1 ? Math.max(0, offsets.findIndex(offset => offset >= container.scrollTop) - 1) : current;
+    const pageSize = Math.max(1, Math.floor(container.clientHeight / estimatedHeight));
+    const targets: Record<string, number> = {
+      ArrowDown: current === -1 ? from : from + 1,
+      ArrowUp: current === -1 ? from : from - 1,
+      PageDown: from + pageSize,
+      PageUp: from - pageSize,
+      Home: 0,
+      End: items.length - 1,
+    };
+    if (!(event.key in targets)) {
+      return;
+    }
+    event.preventDefault();
+    const index = Math.min(items.length - 1, Math.max(0, targets[event.key]));
+    const key = String(getKey(items[index]));
+    activeKey.current = key;
+    pendingFocus.current = key;
+
+    if (index === items.length - 1) {
+      resume();
+    } else {
+      setIsFollowing(false);
+      if (offsets[index] < container.scrollTop) {
+        container.scrollTop = offsets[index];
+      } else if (offsets[index + 1] > container.scrollTop + container.clientHeight) {
+        container.scrollTop = offsets[index + 1] - container.clientHeight;
+      }
+    }
+    setViewport({ top: container.scrollTop, height: container.clientHeight });
+  };
+
+  // Rows are observed while mounted, so heights stay right when a row's
+  // content changes, such as a span gaining its duration. Each key keeps one
+  // ref callback while its row is mounted, so React does not detach and
+  // reattach every row on each render.
+  const measure = (key: string) => {
+    let ref = rowRefs.current.get(key);
+    if (!ref) {
+      ref = (element: HTMLElement | null) => {
+        const previous = rows.current.get(key);
+        if (previous) {
+          observer?.unobserve(previous);
+          rows.current.delete(key);
+        }
+        if (element) {
+          observer?.observe(element);
+          rows.current.set(key, element);
+        } else {
+          rowRefs.current.delete(key);
+        }
+      };
+      rowRefs.current.set(key, ref);
+    }
+    return ref;
+  };
+
+  return (
+    <div className="relative">
+      {keyboardHint && <p id={hintId} className="sr-only">{keyboardHint}</p>}
+      {/* Focusable, so keyboard users can scroll it and reach the rows. */}
+      <div
+        ref={containerRef}
+        id={id}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        className={`overflow-y-auto ${className}`}
+        role="feed"
+        aria-label={ariaLabel}
+        aria-describedby={keyboardHint ? hintId : undefined}
+        tabIndex={0}
+      >
+        <div style={{ height: offsets[start] }} />
+        {items.slice(start, end).map((item, offset) => {
+          const key = String(getKey(item));
+          return (
+            <div
+              key={key}
+              data-key={key}
+              role="article"
+              aria-posinset={start + offset + 1}
+              aria-setsize={items.length}
+              tabIndex={-1}
+              onFocus={() => {
+                activeKey.current = key;
+              }}
+              // flow-root keeps the rows' margins inside the measured box.
+              className="flow-root rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500"
+              ref={measure(key)}
+            >
+              {renderItem(item)}
+            </div>
+          );
+        })}
+        <div style={{ height: totalHeight - offsets[end] }} />
+      </div>
+      {followOutput && !isFollowing && renderPaused?.(resume)}
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -0,0 +1,39 @@
+import type { AxeResults, ElementContext } from 'axe-core';
+
+export interface AccessibilityViolation {
+  /** The axe rule, e.g. `color-contrast` or `label`. */
+  id: string;
+  impact: 'minor' | 'moderate' | 'serious' | 'critical' | null;
+  help: string;
+  helpUrl: string;
+  /** Selectors of the offending elements. */
+  targets: string[];
+}
+
+// WCAG 2.1 level A and AA; best-practice rules are left out so every
+// violation points at a success criterion.
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+// axe refuses to start while another run is in progress.
+let pending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs axe-core against `context` and returns its WCAG violations. axe is
+ * loaded on the first call, so it stays out of the bundle of any page that
+ * never checks.
+ */
+export function checkAccessibility(context: ElementContext = document): Promise<AccessibilityViolation[]> {
+  const run = pending.catch(() => undefined).then(async () => {
+    const { default: axe } = await import('axe-core');
+    const results: AxeResults = await axe.run(context, { runOnly: { type: 'tag', values: WCAG_TAGS } });
+    return results.violations.map(violation => ({
+      id: violation.id,
+      impact: violation.impact ?? null,
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      targets: violation.nodes.map(node => node.target.join(' ')),
+    }));
+  });
+  pending = run;
+  return run;
+}
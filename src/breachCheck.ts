@@ -0,0 +1,43 @@
+export const BREACH_RANGE_URL = '/api/pwned/range/';
+
+export interface BreachCheckResult {
+  breached: boolean;
+  /** Times the password appears in the breach corpus. */
+  count: number;
+  /** The only part of the hash that left the browser. */
+  prefix: string;
+}
+
+const sha1Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+/**
+ * k-anonymity lookup in the style of the Pwned Passwords range API: only the
+ * first five hex digits of the SHA-1 hash are sent, and the suffix is matched
+ * locally against every hash that shares that prefix.
+ */
+export async function checkBreachedPassword(password: string, signal?: AbortSignal): Promise<BreachCheckResult> {
+  const hash = await sha1Hex(password);
+  const prefix = hash.slice(0, 5);
+  const suffix = hash.slice(5);
+
+  const response = await fetch(`${BREACH_RANGE_URL}${prefix}`, {
+    headers: { 'Add-Padding': 'true' },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Breach range lookup failed with status ${response.status}`);
+  }
+
+  for (const line of (await response.text()).split(/\r?\n/)) {
+    const [candidate, count] = line.split(':');
+    if (candidate === suffix) {
+      const occurrences = Number(count);
+      // Padding lines carry a count of 0 and never count as a hit.
+      return { breached: occurrences > 0, count: occurrences, prefix };
+    }
+  }
+  return { breached: false, count: 0, prefix };
+}
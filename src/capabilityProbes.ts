@@ -0,0 +1,333 @@
+import { createTranslator, describeProbe, probeName, type MessageParams } from './i18n';
+import type { LogFields } from './logger';
+
+export type ProbeStatus = 'pass' | 'warn' | 'fail';
+
+export type ProbeId =
+  | 'secure-context'
+  | 'secure-origin'
+  | 'embedding'
+  | 'permissions-policy'
+  | 'credential-types'
+  | 'prevent-silent-access'
+  | 'conditional-mediation'
+  | 'storage'
+  | 'third-party-storage';
+
+// Names and explanations live in the message catalog, under
+// `report.probeName.*` and `report.explanation.*`.
+export type ProbeExplanation =
+  | 'secure-context.pass'
+  | 'secure-context.fail'
+  | 'secure-origin.pass'
+  | 'secure-origin.untrustworthy'
+  | 'secure-origin.insecureAncestor'
+  | 'embedding.pass'
+  | 'embedding.crossOrigin'
+  | 'embedding.sameOrigin'
+  | 'permissions-policy.pass'
+  | 'permissions-policy.noApi'
+  | 'permissions-policy.blocked'
+  | 'credential-types.pass'
+  | 'credential-types.emulated'
+  | 'credential-types.missing'
+  | 'prevent-silent-access.pass'
+  | 'prevent-silent-access.missing'
+  | 'conditional-mediation.pass'
+  | 'conditional-mediation.noPublicKey'
+  | 'conditional-mediation.unknown'
+  | 'conditional-mediation.unavailable'
+  | 'storage.pass'
+  | 'storage.missing'
+  | 'third-party-storage.firstParty'
+  | 'third-party-storage.unknown'
+  | 'third-party-storage.pass'
+  | 'third-party-storage.blocked'
+  | 'probeFailed';
+
+export interface ProbeResult {
+  id: ProbeId;
+  status: ProbeStatus;
+  /** One sentence a user can act on, as a catalog id. */
+  explanation: ProbeExplanation;
+  /** Placeholders in the explanation. */
+  params?: MessageParams;
+  /** The raw observations behind the status. */
+  data: LogFields;
+}
+
+export interface CapabilityReport {
+  generatedAt: string;
+  origin: string;
+  userAgent: string;
+  platform: string;
+  language: string;
+  counts: Record<ProbeStatus, number>;
+  results: ProbeResult[];
+}
+
+export type ProbeOutcome = Omit<ProbeResult, 'id'>;
+
+export interface Probe {
+  id: ProbeId;
+  run(): ProbeOutcome | Promise<ProbeOutcome>;
+}
+
+// Not yet in TypeScript's DOM lib. Chromium exposes the policy as
+// `document.permissionsPolicy` (older builds: `document.featurePolicy`).
+interface PermissionsPolicyLike {
+  allowsFeature(feature: string): boolean;
+  features(): string[];
+}
+
+const getPermissionsPolicy = () => {
+  const doc = document as Document & { permissionsPolicy?: PermissionsPolicyLike; featurePolicy?: PermissionsPolicyLike };
+  return doc.permissionsPolicy ?? doc.featurePolicy;
+};
+
+const isLoopbackHost = (hostname: string) =>
+  hostname === 'localhost' ||
+  hostname.endsWith('.localhost') ||
+  /^127(\.\d{1,3}){3}$/.test(hostname) ||
+  hostname === '[::1]';
+
+/**
+ * Whether an origin is "potentially trustworthy" per the Secure Contexts
+ * spec: https/wss, or a loopback host on any scheme. Any HTTPS host
+ * qualifies, not just localhost.
+ */
+export const isPotentiallyTrustworthyOrigin = (url: URL) =>
+  url.protocol === 'https:' || url.protocol === 'wss:' || isLoopbackHost(url.hostname);
+
+const describeEmbedding = () => {
+  if (window.top === window.self) {
+    return { embedded: false, crossOrigin: false };
+  }
+  try {
+    // Reading a cross-origin parent's location throws.
+    return { embedded: true, crossOrigin: window.top?.location.origin !== window.location.origin };
+  } catch {
+    return { embedded: true, crossOrigin: true };
+  }
+};
+
+const tryStorage = (storage: () => Storage) => {
+  try {
+    const key = '__capability_probe__';
+    storage().setItem(key, key);
+    storage().removeItem(key);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const tryIndexedDB = () => new Promise<boolean>(resolve => {
+  try {
+    const request = indexedDB.open('__capability_probe__');
+    request.onsuccess = () => {
+      request.result.close();
+      indexedDB.deleteDatabase('__capability_probe__');
+      resolve(true);
+    };
+    request.onerror = () => resolve(false);
+  } catch {
+    resolve(false);
+  }
+});
+
+export const PROBES: Probe[] = [
+  {
+    id: 'secure-context',
+    run() {
+      const secureContext = window.isSecureContext;
+      return secureContext
+        ? { status: 'pass', explanation: 'secure-context.pass', data: { secureContext } }
+        : { status: 'fail', explanation: 'secure-context.fail', data: { secureContext } };
+    },
+  },
+  {
+    id: 'secure-origin',
+    run() {
+      const url = new URL(window.location.href);
+      const trustworthy = isPotentiallyTrustworthyOrigin(url);
+      const data = { protocol: url.protocol, hostname: url.hostname, trustworthy, secureContext: window.isSecureContext };
+      if (!trustworthy) {
+        return { status: 'fail', explanation: 'secure-origin.untrustworthy', params: { origin: url.origin }, data };
+      }
+      if (!window.isSecureContext) {
+        return { status: 'warn', explanation: 'secure-origin.insecureAncestor', data };
+      }
+      return { status: 'pass', explanation: 'secure-origin.pass', params: { origin: url.origin }, data };
+    },
+  },
+  {
+    id: 'embedding',
+    run() {
+      const data = describeEmbedding();
+      if (!data.embedded) {
+        return { status: 'pass', explanation: 'embedding.pass', data };
+      }
+      return data.crossOrigin
+        ? { status: 'warn', explanation: 'embedding.crossOrigin', data }
+        : { status: 'warn', explanation: 'embedding.sameOrigin', data };
+    },
+  },
+  {
+    id: 'permissions-policy',
+    run() {
+      const policy = getPermissionsPolicy();
+      if (!policy) {
+        return { status: 'warn', explanation: 'permissions-policy.noApi', data: { policyApi: false } };
+      }
+      const data = {
+        policyApi: true,
+        publickeyCredentialsGet: policy.allowsFeature('publickey-credentials-get'),
+        publickeyCredentialsCreate: policy.allowsFeature('publickey-credentials-create'),
+      };
+      if (data.publickeyCredentialsGet && data.publickeyCredentialsCreate) {
+        return { status: 'pass', explanation: 'permissions-policy.pass', data };
+      }
+      return { status: data.publickeyCredentialsGet || data.publickeyCredentialsCreate ? 'warn' : 'fail', explanation: 'permissions-policy.blocked', data };
+    },
+  },
+  {
+    id: 'credential-types',
+    run() {
+      const data = {
+        credentialsContainer: Boolean(navigator.credentials),
+        passwordCredential: typeof window.PasswordCredential !== 'undefined',
+        federatedCredential: typeof window.FederatedCredential !== 'undefined',
+        publicKeyCredential: typeof window.PublicKeyCredential !== 'undefined',
+      };
+      if (data.passwordCredential && data.federatedCredential) {
+        return { status: 'pass', explanation: 'credential-types.pass', data };
+      }
+      return data.credentialsContainer
+        ? { status: 'warn', explanation: 'credential-types.emulated', data }
+        : { status: 'fail', explanation: 'credential-types.missing', data };
+    },
+  },
+  {
+    id: 'prevent-silent-access',
+    run() {
+      const available = typeof navigator.credentials?.preventSilentAccess === 'function';
+      return available
+        ? { status: 'pass', explanation: 'prevent-silent-access.pass', data: { available } }
+        : { status: 'warn', explanation: 'prevent-silent-access.missing', data: { available } };
+    },
+  },
+  {
+    id: 'conditional-mediation',
+    async run(): Promise<ProbeOutcome> {
+      if (typeof window.PublicKeyCredential === 'undefined') {
+        return { status: 'fail', explanation: 'conditional-mediation.noPublicKey', data: { publicKeyCredential: false } };
+      }
+      if (typeof PublicKeyCredential.isConditionalMediationAvailable !== 'function') {
+        return { status: 'warn', explanation: 'conditional-mediation.unknown', data: { probeAvailable: false } };
+      }
+      const available = await PublicKeyCredential.isConditionalMediationAvailable().catch(() => false);
+      return available
+        ? { status: 'pass', explanation: 'conditional-mediation.pass', data: { available } }
+        : { status: 'warn', explanation: 'conditional-mediation.unavailable', data: { available } };
+    },
+  },
+  {
+    id: 'storage',
+    async run(): Promise<ProbeOutcome> {
+      const data = {
+        localStorage: tryStorage(() => window.localStorage),
+        sessionStorage: tryStorage(() => window.sessionStorage),
+        indexedDB: await tryIndexedDB(),
+        cookies: navigator.cookieEnabled,
+      };
+      const missing = Object.entries(data).filter(([, available]) => !available).map(([name]) => name);
+      if (missing.length === 0) {
+        return { status: 'pass', explanation: 'storage.pass', data };
+      }
+      return {
+        status: data.indexedDB && data.cookies ? 'warn' : 'fail',
+        explanation: 'storage.missing',
+        params: { missing: missing.join(', ') },
+        data,
+      };
+    },
+  },
+  {
+    id: 'third-party-storage',
+    async run(): Promise<ProbeOutcome> {
+      const { crossOrigin } = describeEmbedding();
+      if (!crossOrigin) {
+        return { status: 'pass', explanation: 'third-party-storage.firstParty', data: { crossOrigin } };
+      }
+      if (typeof document.hasStorageAccess !== 'function') {
+        return { status: 'warn', explanation: 'third-party-storage.unknown', data: { crossOrigin, storageAccessApi: false } };
+      }
+      const hasStorageAccess = await document.hasStorageAccess().catch(() => false);
+      const data = { crossOrigin, storageAccessApi: true, hasStorageAccess };
+      return hasStorageAccess
+        ? { status: 'pass', explanation: 'third-party-storage.pass', data }
+        : { status: 'fail', explanation: 'third-party-storage.blocked', data };
+    },
+  },
+];
+
+/** Runs every probe. A probe that throws is reported as a failure rather than aborting the report. */
+export async function runProbes(probes: Probe[] = PROBES): Promise<CapabilityReport> {
+  const results = await Promise.all(probes.map(async ({ id, run }): Promise<ProbeResult> => {
+    try {
+      return { id, ...await run() };
+    } catch (error) {
+      return {
+        id,
+        status: 'fail',
+        explanation: 'probeFailed',
+        data: { errorMessage: error instanceof Error ? error.message : String(error) },
+      };
+    }
+  }));
+
+  const counts: Record<ProbeStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  results.forEach(result => counts[result.status]++);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    origin: window.location.origin,
+    userAgent: navigator.userAgent,
+    platform: navigator.platform,
+    language: navigator.language,
+    counts,
+    results,
+  };
+}
+
+export const findProbe = (report: CapabilityReport, id: ProbeId) =>
+  report.results.find(result => result.id === id);
+
+/**
+ * The report with each probe's name and explanation written out in English,
+ * whatever the UI language, so support can read every ticket.
+ */
+export function describeReport(report: CapabilityReport) {
+  const english = createTranslator('en');
+  return {
+    ...report,
+    results: report.results.map(result => ({
+      id: result.id,
+      name: probeName(english, result.id),
+      status: result.status,
+      explanation: describeProbe(english, result),
+      data: result.data,
+    })),
+  };
+}
+
+export function downloadReport(report: CapabilityReport) {
+  const blob = new Blob([JSON.stringify(describeReport(report), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `environment-report-${report.generatedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,60 @@
+// Credential Management Level 1 types that TypeScript's DOM lib does not ship.
+// https://w3c.github.io/webappsec-credential-management/
+
+interface PasswordCredentialData {
+  id: string;
+  password: string;
+  name?: string;
+  iconURL?: string;
+  origin?: string;
+}
+
+interface PasswordCredential extends Credential {
+  readonly password: string;
+  readonly name: string;
+  readonly iconURL: string;
+}
+
+// eslint-disable-next-line no-var
+declare var PasswordCredential: {
+  prototype: PasswordCredential;
+  new (data: PasswordCredentialData): PasswordCredential;
+  new (form: HTMLFormElement): PasswordCredential;
+};
+
+interface FederatedCredentialInit {
+  id: string;
+  provider: string;
+  name?: string;
+  iconURL?: string;
+  protocol?: string;
+  origin?: string;
+}
+
+interface FederatedCredential extends Credential {
+  readonly provider: string;
+  readonly protocol: string | null;
+  readonly name: string;
+  readonly iconURL: string;
+}
+
+// eslint-disable-next-line no-var
+declare var FederatedCredential: {
+  prototype: FederatedCredential;
+  new (data: FederatedCredentialInit): FederatedCredential;
+};
+
+interface FederatedCredentialRequestOptions {
+  providers?: string[];
+  protocols?: string[];
+}
+
+interface CredentialRequestOptions {
+  password?: boolean;
+  federated?: FederatedCredentialRequestOptions;
+}
+
+interface CredentialCreationOptions {
+  password?: PasswordCredentialData;
+  federated?: FederatedCredentialInit;
+}
@@ -0,0 +1,206 @@
+import type { AccountChooser, CredentialBackend, CredentialData, CredentialQuery, UnreadableCredentialHandler } from './types';
+
+const DB_NAME = 'credential-emulator';
+const DB_VERSION = 1;
+const KEY_STORE = 'keys';
+const CREDENTIAL_STORE = 'credentials';
+const ORIGIN_STORE = 'origins';
+const WRAPPING_KEY_ID = 'aes-gcm';
+
+interface EncryptedCredential {
+  origin: string;
+  type: CredentialData['type'];
+  id: string;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+  updatedAt: number;
+}
+
+interface OriginState {
+  origin: string;
+  preventSilentAccess: boolean;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(KEY_STORE);
+    db.createObjectStore(CREDENTIAL_STORE, { keyPath: ['origin', 'type', 'id'] });
+    db.createObjectStore(ORIGIN_STORE, { keyPath: 'origin' });
+  };
+  return promisify(request);
+}
+
+export function isEmulatedBackendAvailable() {
+  return typeof indexedDB !== 'undefined' && Boolean(globalThis.crypto?.subtle);
+}
+
+/**
+ * Credential store that follows the Credential Management spec's model on top
+ * of IndexedDB. Records are scoped to the current origin and encrypted with an
+ * AES-GCM key that is generated non-extractable, so script can use it but
+ * never read it out. Mediation and the per-origin "prevent silent access" flag
+ * behave as the spec describes; `chooseAccount` stands in for the browser's
+ * account chooser. Records that no longer decrypt are left out of `get` and
+ * passed to `onUnreadable`.
+ */
+export function createEmulatedBackend(chooseAccount: AccountChooser, onUnreadable?: UnreadableCredentialHandler): CredentialBackend {
+  const origin = window.location.origin;
+  let database: Promise<IDBDatabase> | null = null;
+  let wrappingKey: Promise<CryptoKey> | null = null;
+
+  const db = () => (database ??= openDatabase());
+
+  const transaction = async (stores: string[], mode: IDBTransactionMode) =>
+    (await db()).transaction(stores, mode);
+
+  const loadKey = async (): Promise<CryptoKey> => {
+    const existing = await promisify((await transaction([KEY_STORE], 'readonly')).objectStore(KEY_STORE).get(WRAPPING_KEY_ID));
+    if (existing) {
+      return existing as CryptoKey;
+    }
+    // Generated before the transaction opens, which would commit while
+    // WebCrypto works. The check and the write then share one readwrite
+    // transaction, so a second tab waits for it and keeps the first key
+    // instead of replacing it and orphaning what was encrypted with it.
+    const generated = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const tx = await transaction([KEY_STORE], 'readwrite');
+    return new Promise<CryptoKey>((resolve, reject) => {
+      const store = tx.objectStore(KEY_STORE);
+      let key = generated;
+      const lookup = store.get(WRAPPING_KEY_ID);
+      lookup.onsuccess = () => {
+        if (lookup.result) {
+          key = lookup.result;
+        } else {
+          store.put(generated, WRAPPING_KEY_ID);
+        }
+      };
+      tx.oncomplete = () => resolve(key);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? abortError());
+    });
+  };
+
+  // A failed load is not cached, so the next call tries again.
+  const key = () => (wrappingKey ??= loadKey().catch(error => {
+    wrappingKey = null;
+    throw error;
+  }));
+
+  // The record's identity is bound as additional data, so a ciphertext cannot
+  // be moved to another origin or account.
+  const additionalData = (type: string, id: string) => encoder.encode(`${origin}|${type}|${id}`);
+
+  const encrypt = async (credential: CredentialData): Promise<EncryptedCredential> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(credential.type, credential.id) },
+      await key(),
+      encoder.encode(JSON.stringify(credential)),
+    );
+    return { origin, type: credential.type, id: credential.id, iv, ciphertext, updatedAt: Date.now() };
+  };
+
+  const decrypt = async (record: EncryptedCredential): Promise<CredentialData> => {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: record.iv, additionalData: additionalData(record.type, record.id) },
+      await key(),
+      record.ciphertext,
+    );
+    return JSON.parse(decoder.decode(plaintext));
+  };
+
+  const readOriginState = async (): Promise<OriginState> => {
+    const state = await promisify((await transaction([ORIGIN_STORE], 'readonly')).objectStore(ORIGIN_STORE).get(origin));
+    return state ?? { origin, preventSilentAccess: false };
+  };
+
+  const writeOriginState = async (state: OriginState) => {
+    await promisify((await transaction([ORIGIN_STORE], 'readwrite')).objectStore(ORIGIN_STORE).put(state));
+  };
+
+  return {
+    kind: 'emulated',
+    label: 'Emulated (IndexedDB + AES-GCM)',
+    supportsFederated: true,
+
+    async store(credential) {
+      const record = await encrypt(credential);
+      await promisify((await transaction([CREDENTIAL_STORE], 'readwrite')).objectStore(CREDENTIAL_STORE).put(record));
+    },
+
+    async get({ password, federated, mediation = 'optional', signal }: CredentialQuery) {
+      if (signal?.aborted) {
+        throw abortError();
+      }
+      if (mediation === 'conditional') {
+        throw new DOMException('Conditional mediation is only available for passkeys.', 'NotSupportedError');
+      }
+
+      const records: EncryptedCredential[] = await promisify(
+        (await transaction([CREDENTIAL_STORE], 'readonly')).objectStore(CREDENTIAL_STORE).getAll(),
+      );
+      const decrypted = await Promise.all(records
+        .filter(record => record.origin === origin)
+        .map(async record => {
+          try {
+            return await decrypt(record);
+          } catch (error) {
+            onUnreadable?.({ type: record.type, id: record.id }, error);
+            return null;
+          }
+        }));
+      const candidates = decrypted.filter((candidate): candidate is CredentialData => candidate !== null);
+      const matching = candidates.filter(candidate => candidate.type === 'password'
+        ? Boolean(password)
+        : Boolean(federated?.providers.includes(candidate.provider)));
+
+      if (signal?.aborted) {
+        throw abortError();
+      }
+
+      const { preventSilentAccess } = await readOriginState();
+      const canReturnSilently = !preventSilentAccess && matching.length === 1;
+      if (mediation === 'silent' || matching.length === 0) {
+        return mediation === 'silent' && canReturnSilently ? matching[0] : null;
+      }
+      if (mediation === 'optional' && canReturnSilently) {
+        return matching[0];
+      }
+
+      const chosen = await chooseAccount(matching, signal);
+      if (chosen) {
+        // A credential handed over with user mediation re-enables silent access.
+        await writeOriginState({ origin, preventSilentAccess: false });
+      }
+      return chosen;
+    },
+
+    async preventSilentAccess() {
+      await writeOriginState({ origin, preventSilentAccess: true });
+    },
+
+    async remove(type, id) {
+      const store = (await transaction([CREDENTIAL_STORE], 'readwrite')).objectStore(CREDENTIAL_STORE);
+      const existing = await promisify(store.count([origin, type, id]));
+      if (existing === 0) {
+        return false;
+      }
+      await promisify(store.delete([origin, type, id]));
+      return true;
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { FaultInjector } from '../faultInjection';
+import type { CredentialBackend } from './types';
+
+/**
+ * Wraps a backend so every call first passes through the fault injector.
+ * With no faults configured it behaves exactly like the wrapped backend.
+ */
+export function withFaults(backend: CredentialBackend, injector: FaultInjector): CredentialBackend {
+  return {
+    kind: backend.kind,
+    label: backend.label,
+    supportsFederated: backend.supportsFederated,
+
+    async store(credential) {
+      await injector.run('store', () => backend.store(credential));
+    },
+
+    get(query) {
+      return injector.run('get', () => backend.get(query), query.signal);
+    },
+
+    async preventSilentAccess() {
+      await injector.run('preventSilentAccess', () => backend.preventSilentAccess());
+    },
+
+    remove(type, id) {
+      return backend.remove(type, id);
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { createEmulatedBackend, isEmulatedBackendAvailable } from './emulated';
+import { createNativeBackend, isNativeBackendAvailable } from './native';
+import type { AccountChooser, CredentialBackend, UnreadableCredentialHandler } from './types';
+
+export type { AccountChooser, BackendKind, CredentialBackend, CredentialData, CredentialQuery, UnreadableCredentialHandler } from './types';
+export { isEmulatedBackendAvailable, isNativeBackendAvailable };
+export { withFaults } from './faulty';
+
+/**
+ * Picks the native backend when the browser implements PasswordCredential,
+ * otherwise (or when forced) the emulated one. Returns null when neither can
+ * run, e.g. outside a secure context where WebCrypto is unavailable.
+ */
+export function selectBackend(options: {
+  forceEmulated: boolean;
+  chooseAccount: AccountChooser;
+  onUnreadableCredential?: UnreadableCredentialHandler;
+}): CredentialBackend | null {
+  if (options.forceEmulated && isEmulatedBackendAvailable()) {
+    return createEmulatedBackend(options.chooseAccount, options.onUnreadableCredential);
+  }
+  if (isNativeBackendAvailable()) {
+    return createNativeBackend();
+  }
+  if (isEmulatedBackendAvailable()) {
+    return createEmulatedBackend(options.chooseAccount, options.onUnreadableCredential);
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import type { CredentialBackend, CredentialData, CredentialQuery } from './types';
+
+const fromCredential = (credential: Credential | null): CredentialData | null => {
+  if (typeof window.PasswordCredential !== 'undefined' && credential instanceof PasswordCredential) {
+    return { type: 'password', id: credential.id, password: credential.password, name: credential.name, iconURL: credential.iconURL };
+  }
+  if (typeof window.FederatedCredential !== 'undefined' && credential instanceof FederatedCredential) {
+    return { type: 'federated', id: credential.id, provider: credential.provider, name: credential.name, iconURL: credential.iconURL };
+  }
+  return null;
+};
+
+export function isNativeBackendAvailable() {
+  return window.isSecureContext && typeof window.PasswordCredential !== 'undefined' && Boolean(navigator.credentials);
+}
+
+export function createNativeBackend(): CredentialBackend {
+  const supportsFederated = typeof window.FederatedCredential !== 'undefined';
+
+  return {
+    kind: 'native',
+    label: 'Native (navigator.credentials)',
+    supportsFederated,
+
+    async store(credential) {
+      const { type, ...data } = credential;
+      await navigator.credentials.store(type === 'password'
+        ? new PasswordCredential(data as PasswordCredentialData)
+        : new FederatedCredential(data as FederatedCredentialInit));
+    },
+
+    async get({ password, federated, mediation, signal }: CredentialQuery) {
+      const credential = await navigator.credentials.get({
+        password,
+        ...(supportsFederated && federated && { federated }),
+        mediation,
+        signal,
+      });
+      return fromCredential(credential);
+    },
+
+    preventSilentAccess() {
+      return navigator.credentials.preventSilentAccess();
+    },
+
+    // Only the user can delete entries, from the browser's password manager.
+    async remove() {
+      return false;
+    },
+  };
+}
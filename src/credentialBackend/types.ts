@@ -0,0 +1,39 @@
+export type BackendKind = 'native' | 'emulated';
+
+export type CredentialData =
+  | { type: 'password'; id: string; password: string; name?: string; iconURL?: string }
+  | { type: 'federated'; id: string; provider: string; name?: string; iconURL?: string };
+
+export interface CredentialQuery {
+  password?: boolean;
+  federated?: { providers: string[] };
+  mediation?: CredentialMediationRequirement;
+  signal?: AbortSignal;
+}
+
+/**
+ * The subset of CredentialsContainer the app relies on for password and
+ * federated credentials. Passkeys always go through navigator.credentials.
+ */
+export interface CredentialBackend {
+  readonly kind: BackendKind;
+  readonly label: string;
+  readonly supportsFederated: boolean;
+  store(credential: CredentialData): Promise<void>;
+  get(query: CredentialQuery): Promise<CredentialData | null>;
+  preventSilentAccess(): Promise<void>;
+  /**
+   * Deletes a stored credential. Resolves false when the backend cannot, as
+   * the Credential Management API has no delete operation.
+   */
+  remove(type: CredentialData['type'], id: string): Promise<boolean>;
+}
+
+/**
+ * Told about a stored record that cannot be decrypted, e.g. because its key
+ * was replaced. The record is skipped rather than failing the whole `get`.
+ */
+export type UnreadableCredentialHandler = (record: Pick<CredentialData, 'type' | 'id'>, error: unknown) => void;
+
+/** Lets the emulated backend ask the user to pick an account, as a browser chooser would. */
+export type AccountChooser = (candidates: CredentialData[], signal?: AbortSignal) => Promise<CredentialData | null>;
@@ -0,0 +1,188 @@
+import type { CapabilityReport, ProbeId, ProbeResult } from './capabilityProbes';
+import type { CredentialData } from './credentialBackend';
+import { createTranslator, describeProbe } from './i18n';
+import type { LogEntry } from './logger';
+import type { SessionEndReason } from './sessionManager';
+
+/**
+ * Messages between the embedded widget and its host page. Every message
+ * carries the protocol name and version; a host speaking another version gets
+ * an `unsupported_version` error instead of a best-effort guess.
+ */
+export const EMBED_PROTOCOL = 'credential-widget';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+/** `?embed=1` renders only the login card and turns the protocol on. */
+export const isEmbedMode = () => new URLSearchParams(window.location.search).get('embed') === '1';
+
+export type EmbedCommand =
+  | { type: 'sign-in'; requestId?: string; username: string; password: string; store?: boolean }
+  | { type: 'sign-out'; requestId?: string }
+  | { type: 'silent-get'; requestId?: string };
+
+export type EmbedErrorCode = 'unsupported_version' | 'invalid_command';
+
+export type EmbedEvent =
+  | { type: 'ready'; support: 'native' | 'emulated' | 'none'; limitations: EmbedLimitation[] }
+  | { type: 'result'; requestId?: string; command: EmbedCommand['type']; ok: boolean; reason?: string; credentialType?: CredentialData['type'] | null }
+  | { type: 'logged-in'; account: { id: string; name: string; method: string } }
+  | { type: 'logged-out'; reason: SessionEndReason }
+  | { type: 'stored'; credentialType: CredentialData['type']; id: string }
+  /** `code` is an `EmbedErrorCode` for protocol errors, or the DOMException name when a credential call fails. */
+  | { type: 'error'; code: EmbedErrorCode | (string & {}); message: string; requestId?: string; operation?: string }
+  | { type: 'log-entry'; entry: LogEntry };
+
+/**
+ * A restriction the embedding places on the credential APIs, as found by the
+ * capability probes. The explanation is in English whatever the widget's
+ * language, so hosts can log it alongside their own diagnostics.
+ */
+export interface EmbedLimitation {
+  probe: ProbeId;
+  status: 'warn' | 'fail';
+  explanation: string;
+}
+
+// Probes whose failures come from being framed rather than from the browser.
+const EMBEDDING_PROBES: ProbeId[] = ['secure-origin', 'embedding', 'permissions-policy', 'third-party-storage', 'storage'];
+
+/** The probe results that the widget shows as limitations of its frame. */
+export const findLimitingProbes = (report: CapabilityReport): ProbeResult[] =>
+  report.results.filter(result => EMBEDDING_PROBES.includes(result.id) && result.status !== 'pass');
+
+export const findEmbedLimitations = (report: CapabilityReport): EmbedLimitation[] => {
+  const english = createTranslator('en');
+  return findLimitingProbes(report).map(result => ({
+    probe: result.id,
+    status: result.status as EmbedLimitation['status'],
+    explanation: describeProbe(english, result),
+  }));
+};
+
+/**
+ * Hosts allowed to drive the widget: the widget's own origin plus the
+ * comma-separated origins in `VITE_EMBED_ALLOWED_ORIGINS`. Entries must be
+ * exact origins; wildcards and anything that does not parse are dropped.
+ */
+export function getAllowedOrigins(configured = import.meta.env.VITE_EMBED_ALLOWED_ORIGINS ?? ''): string[] {
+  const origins = new Set([window.location.origin]);
+  for (const value of configured.split(',').map(origin => origin.trim())) {
+    try {
+      const url = new URL(value);
+      if (url.origin === value.replace(/\/$/, '')) {
+        origins.add(url.origin);
+      }
+    } catch {
+      // Not an origin; ignored rather than widening the list.
+    }
+  }
+  return [...origins];
+}
+
+// Chromium and Safari report the embedder in ancestorOrigins; elsewhere the
+// referrer is the only hint, and a strict referrer policy can remove it.
+const detectHostOrigin = () => {
+  if (window.parent === window) {
+    return null;
+  }
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) {
+    return ancestor;
+  }
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+type CommandCheck = { ok: true; command: EmbedCommand } | { ok: false; code: EmbedErrorCode; message: string; requestId?: string };
+
+const checkCommand = (data: Record<string, unknown>): CommandCheck => {
+  const requestId = typeof data.requestId === 'string' ? data.requestId : undefined;
+  if (data.version !== EMBED_PROTOCOL_VERSION) {
+    return { ok: false, code: 'unsupported_version', message: `This widget speaks version ${EMBED_PROTOCOL_VERSION} of the protocol`, requestId };
+  }
+  switch (data.type) {
+    case 'sign-in':
+      if (typeof data.username !== 'string' || typeof data.password !== 'string') {
+        return { ok: false, code: 'invalid_command', message: 'sign-in needs a string username and password', requestId };
+      }
+      return {
+        ok: true,
+        command: { type: 'sign-in', requestId, username: data.username, password: data.password, store: data.store !== false },
+      };
+    case 'sign-out':
+    case 'silent-get':
+      return { ok: true, command: { type: data.type, requestId } };
+    default:
+      return { ok: false, code: 'invalid_command', message: `Unknown command: ${String(data.type)}`, requestId };
+  }
+};
+
+export interface EmbedBridge {
+  /** The host page's origin, once known and allowed; events are only ever sent there. */
+  getHostOrigin(): string | null;
+  /** Whether the host could be identified and is on the allow-list. */
+  getStatus(): 'allowed' | 'blocked' | 'unknown';
+  /** The embedder's origin as reported by the browser, allowed or not. */
+  detectedOrigin: string | null;
+  allowedOrigins: readonly string[];
+  post(event: EmbedEvent): void;
+  listen(handlers: {
+    onCommand: (command: EmbedCommand) => void;
+    /** Messages from origins outside the allow-list; they are dropped without a reply. */
+    onRejected: (origin: string) => void;
+  }): () => void;
+}
+
+/**
+ * Connects the widget to its parent frame. Commands are accepted only from
+ * the parent window at an allowed origin, and events are posted to that exact
+ * origin, never to `*`. When the host cannot be detected up front, the first
+ * valid command from an allowed origin identifies it.
+ */
+export function createEmbedBridge(allowedOrigins: readonly string[] = getAllowedOrigins()): EmbedBridge {
+  const detected = detectHostOrigin();
+  let hostOrigin = detected && allowedOrigins.includes(detected) ? detected : null;
+  const status = !detected ? 'unknown' : hostOrigin ? 'allowed' : 'blocked';
+
+  const send = (origin: string, event: EmbedEvent) =>
+    window.parent.postMessage({ protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, ...event }, origin);
+
+  return {
+    getHostOrigin: () => hostOrigin,
+    getStatus: () => hostOrigin ? 'allowed' : status,
+    detectedOrigin: detected,
+    allowedOrigins,
+    post(event) {
+      if (hostOrigin) {
+        send(hostOrigin, event);
+      }
+    },
+    listen({ onCommand, onRejected }) {
+      const handleMessage = (event: MessageEvent) => {
+        if (event.source !== window.parent || window.parent === window) {
+          return;
+        }
+        const data: unknown = event.data;
+        if (typeof data !== 'object' || data === null || (data as Record<string, unknown>).protocol !== EMBED_PROTOCOL) {
+          return;
+        }
+        if (!allowedOrigins.includes(event.origin) || (hostOrigin && event.origin !== hostOrigin) || status === 'blocked') {
+          onRejected(event.origin);
+          return;
+        }
+        hostOrigin = event.origin;
+        const checked = checkCommand(data as Record<string, unknown>);
+        if (checked.ok) {
+          onCommand(checked.command);
+        } else {
+          send(event.origin, { type: 'error', code: checked.code, message: checked.message, requestId: checked.requestId });
+        }
+      };
+      window.addEventListener('message', handleMessage);
+      return () => window.removeEventListener('message', handleMessage);
+    },
+  };
+}
@@ -0,0 +1,159 @@
+export type FaultOperation = 'get' | 'store' | 'preventSilentAccess' | 'create';
+
+export type Fault = 'none' | 'NotAllowedError' | 'SecurityError' | 'AbortError' | 'latency' | 'hang' | 'null' | 'flaky';
+
+export type FaultConfig = {
+  faults: Partial<Record<FaultOperation, Fault>>;
+  /** Delay applied by the `latency` fault. */
+  latencyMs: number;
+};
+
+export const FAULT_OPERATIONS: Array<{ value: FaultOperation; label: string }> = [
+  { value: 'get', label: 'get()' },
+  { value: 'store', label: 'store()' },
+  { value: 'preventSilentAccess', label: 'preventSilentAccess()' },
+  { value: 'create', label: 'create() (passkeys)' },
+];
+
+// Labels and descriptions live in the message catalog under `faults.*`.
+export const FAULTS: Fault[] = ['none', 'NotAllowedError', 'SecurityError', 'AbortError', 'latency', 'hang', 'null', 'flaky'];
+
+export type FaultScenarioId = 'none' | 'dismissed' | 'security' | 'aborted' | 'slow' | 'hung' | 'empty' | 'storage-fails' | 'flaky';
+
+export const FAULT_SCENARIOS: Array<{ id: FaultScenarioId; config: FaultConfig }> = [
+  { id: 'none', config: { faults: {}, latencyMs: 2000 } },
+  { id: 'dismissed', config: { faults: { get: 'NotAllowedError', store: 'NotAllowedError', create: 'NotAllowedError' }, latencyMs: 2000 } },
+  { id: 'security', config: { faults: { get: 'SecurityError', store: 'SecurityError', preventSilentAccess: 'SecurityError', create: 'SecurityError' }, latencyMs: 2000 } },
+  { id: 'aborted', config: { faults: { get: 'AbortError' }, latencyMs: 2000 } },
+  { id: 'slow', config: { faults: { get: 'latency', store: 'latency', preventSilentAccess: 'latency', create: 'latency' }, latencyMs: 3000 } },
+  { id: 'hung', config: { faults: { get: 'hang', store: 'hang' }, latencyMs: 2000 } },
+  { id: 'empty', config: { faults: { get: 'null' }, latencyMs: 2000 } },
+  { id: 'storage-fails', config: { faults: { store: 'SecurityError', preventSilentAccess: 'NotAllowedError' }, latencyMs: 2000 } },
+  { id: 'flaky', config: { faults: { get: 'flaky', store: 'flaky', preventSilentAccess: 'flaky' }, latencyMs: 2000 } },
+];
+
+// ?faults=get:NotAllowedError,store:hang&faultLatency=3000
+const FAULTS_PARAM = 'faults';
+const LATENCY_PARAM = 'faultLatency';
+const DEFAULT_LATENCY_MS = 2000;
+
+const isFault = (value: string): value is Fault => FAULTS.some(fault => fault === value);
+const isOperation = (value: string): value is FaultOperation => FAULT_OPERATIONS.some(operation => operation.value === value);
+
+export function readFaultConfigFromUrl(search = window.location.search): FaultConfig {
+  const params = new URLSearchParams(search);
+  const faults: FaultConfig['faults'] = {};
+  for (const pair of (params.get(FAULTS_PARAM) ?? '').split(',')) {
+    const [operation, fault] = pair.split(':');
+    if (operation && fault && isOperation(operation) && isFault(fault)) {
+      faults[operation] = fault;
+    }
+  }
+  const latencyMs = Number(params.get(LATENCY_PARAM));
+  return { faults, latencyMs: Number.isFinite(latencyMs) && latencyMs > 0 ? latencyMs : DEFAULT_LATENCY_MS };
+}
+
+/** A shareable link that reproduces the configuration. */
+export function faultConfigUrl(config: FaultConfig, href = window.location.href) {
+  const url = new URL(href);
+  const active = Object.entries(config.faults).filter(([, fault]) => fault && fault !== 'none');
+  if (active.length > 0) {
+    url.searchParams.set(FAULTS_PARAM, active.map(([operation, fault]) => `${operation}:${fault}`).join(','));
+    url.searchParams.set(LATENCY_PARAM, String(config.latencyMs));
+  } else {
+    url.searchParams.delete(FAULTS_PARAM);
+    url.searchParams.delete(LATENCY_PARAM);
+  }
+  return url.href;
+}
+
+export const isFaultConfigActive = (config: FaultConfig) =>
+  Object.values(config.faults).some(fault => fault && fault !== 'none');
+
+export interface FaultInjector {
+  getConfig(): FaultConfig;
+  setConfig(config: FaultConfig): void;
+  subscribe(listener: () => void): () => void;
+  /** Applies the fault configured for `operation`, then (if it allows) calls through. */
+  run<T>(operation: FaultOperation, call: () => Promise<T>, signal?: AbortSignal): Promise<T | null>;
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+/** Resolves after `ms`, or rejects as soon as `signal` aborts. */
+const wait = (ms: number | null, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = ms === null ? undefined : setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+const INJECTED_MESSAGES: Record<'NotAllowedError' | 'SecurityError' | 'AbortError', string> = {
+  NotAllowedError: 'The request is not allowed by the user agent or the platform in the current context. (injected)',
+  SecurityError: 'The operation is insecure. (injected)',
+  AbortError: 'The operation was aborted. (injected)',
+};
+
+/**
+ * Holds the active fault configuration and applies it to credential calls.
+ * The configuration is mirrored into the URL so a scenario can be shared.
+ */
+export function createFaultInjector(options: {
+  initial?: FaultConfig;
+  onInject?: (operation: FaultOperation, fault: Fault, latencyMs: number) => void;
+} = {}): FaultInjector {
+  let config = options.initial ?? readFaultConfigFromUrl();
+  const listeners = new Set<() => void>();
+  // Calls seen per operation by the `flaky` fault, which fails every other one.
+  const flakyCalls: Partial<Record<FaultOperation, number>> = {};
+
+  return {
+    getConfig: () => config,
+    setConfig(next) {
+      config = next;
+      window.history.replaceState(window.history.state, '', faultConfigUrl(next));
+      listeners.forEach(listener => listener());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    async run(operation, call, signal) {
+      const fault = config.faults[operation] ?? 'none';
+      if (fault === 'none') {
+        return call();
+      }
+      options.onInject?.(operation, fault, config.latencyMs);
+
+      switch (fault) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+        case 'AbortError':
+          throw new DOMException(INJECTED_MESSAGES[fault], fault);
+        case 'latency':
+          await wait(config.latencyMs, signal);
+          return call();
+        case 'hang':
+          await wait(null, signal);
+          return null;
+        case 'null':
+          return null;
+        case 'flaky': {
+          const calls = (flakyCalls[operation] ?? 0) + 1;
+          flakyCalls[operation] = calls;
+          if (calls % 2 === 1) {
+            throw new DOMException('An unknown transient error occurred. (injected)', 'UnknownError');
+          }
+          return call();
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { safeSessionStorage } from './safeStorage';
+
+const PENDING_SIGN_IN_KEY = 'federated-sign-in';
+
+export const IDENTITY_PROVIDER = {
+  name: 'Demo Identity Provider',
+  // FederatedCredential records the provider by origin; the mock IdP is served
+  // by the same dev server as the app.
+  origin: window.location.origin,
+  authorizeUrl: '/idp/authorize',
+};
+
+export const FEDERATED_REDIRECT_URI = '/';
+
+interface PendingSignIn {
+  state: string;
+  nonce: string;
+}
+
+export type FederatedCallback =
+  | { status: 'code'; code: string; nonce: string }
+  | { status: 'error'; error: string };
+
+const randomToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Redirects to the identity provider's authorization endpoint. `state` and
+ * `nonce` are kept in sessionStorage so the callback can be checked on return.
+ */
+export function beginFederatedSignIn(options: { loginHint?: string; prompt?: 'none' } = {}) {
+  const pending: PendingSignIn = { state: randomToken(), nonce: randomToken() };
+  safeSessionStorage.setItem(PENDING_SIGN_IN_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: window.location.origin,
+    redirect_uri: FEDERATED_REDIRECT_URI,
+    state: pending.state,
+    nonce: pending.nonce,
+  });
+  if (options.loginHint) {
+    params.set('login_hint', options.loginHint);
+  }
+  if (options.prompt) {
+    params.set('prompt', options.prompt);
+  }
+  window.location.assign(`${IDENTITY_PROVIDER.authorizeUrl}?${params}`);
+}
+
+/**
+ * Reads and clears an authorization response from the current URL. Returns
+ * null when the page was not loaded as a provider callback.
+ */
+export function consumeFederatedCallback(): FederatedCallback | null {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has('state') || (!params.has('code') && !params.has('error'))) {
+    return null;
+  }
+
+  window.history.replaceState(null, '', window.location.pathname);
+  const stored = safeSessionStorage.getItem(PENDING_SIGN_IN_KEY);
+  safeSessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+  const pending: PendingSignIn | null = stored ? JSON.parse(stored) : null;
+
+  if (!pending || pending.state !== params.get('state')) {
+    return { status: 'error', error: 'state_mismatch' };
+  }
+  const code = params.get('code');
+  if (!code) {
+    return { status: 'error', error: params.get('error') ?? 'unknown_error' };
+  }
+  return { status: 'code', code, nonce: pending.nonce };
+}
@@ -0,0 +1,136 @@
+import { Fragment, createContext, createElement, useContext, type ReactNode } from 'react';
+import en from './locales/en';
+import de from './locales/de';
+import ar from './locales/ar';
+import type { ProbeId, ProbeResult } from './capabilityProbes';
+import type { PolicyViolation, StrengthFeedback, StrengthScore } from './passwordPolicy';
+
+/** Plural forms keyed by `Intl.PluralRules` category, chosen by the `count` param. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+/** Shipped locales must translate every key; the type checker enforces it. */
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export type LocaleCode = 'en' | 'de' | 'ar';
+
+export interface LocaleInfo {
+  code: LocaleCode;
+  /** The language's own name for itself, as locale pickers conventionally show. */
+  name: string;
+  dir: 'ltr' | 'rtl';
+  catalog: Catalog;
+}
+
+// The pre-hydration script in index.html keeps its own copy of the RTL codes.
+export const LOCALES: LocaleInfo[] = [
+  { code: 'en', name: 'English', dir: 'ltr', catalog: en },
+  { code: 'de', name: 'Deutsch', dir: 'ltr', catalog: de },
+  { code: 'ar', name: 'العربية', dir: 'rtl', catalog: ar },
+];
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+export const isLocaleCode = (value: unknown): value is LocaleCode =>
+  LOCALES.some(locale => locale.code === value);
+
+/** First supported locale among the user's preferences, matching `de-AT` to `de`. */
+export function matchLocale(preferred: readonly string[]): LocaleCode {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split('-')[0];
+    const match = LOCALES.find(locale => locale.code === language);
+    if (match) {
+      return match.code;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+export interface Translator {
+  locale: LocaleCode;
+  dir: 'ltr' | 'rtl';
+  /** Looks up `key`, picks the plural form for `params.count` and fills `{name}` placeholders. */
+  t(key: MessageKey, params?: MessageParams): string;
+  /** Like `t`, but placeholders may be React nodes such as `<code>` elements. */
+  rich(key: MessageKey, params: Record<string, ReactNode>): ReactNode;
+  formatNumber(value: number): string;
+  /** Wall-clock time with milliseconds, for log timestamps. */
+  formatTime(timestamp: number): string;
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export function createTranslator(code: LocaleCode): Translator {
+  const locale = LOCALES.find(candidate => candidate.code === code) ?? LOCALES[0];
+  const plurals = new Intl.PluralRules(code);
+  const numbers = new Intl.NumberFormat(code);
+  const times = new Intl.DateTimeFormat(code, {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    fractionalSecondDigits: 3,
+  });
+
+  const lookup = (key: MessageKey, count: unknown) => {
+    const message = locale.catalog[key] ?? en[key] ?? key;
+    if (typeof message === 'string') {
+      return message;
+    }
+    return typeof count === 'number' ? message[plurals.select(count)] ?? message.other : message.other;
+  };
+
+  const formatNumber = (value: number) => numbers.format(value);
+
+  return {
+    locale: code,
+    dir: locale.dir,
+    t(key, params = {}) {
+      return lookup(key, params.count).replace(PLACEHOLDER, (placeholder, name: string) => {
+        const value = params[name];
+        return value === undefined ? placeholder : typeof value === 'number' ? formatNumber(value) : value;
+      });
+    },
+    rich(key, params) {
+      return lookup(key, undefined).split(PLACEHOLDER).map((part, index) =>
+        // split() with a capture group alternates text and placeholder names.
+        createElement(Fragment, { key: index }, index % 2 === 1 ? params[part] ?? `{${part}}` : part));
+    },
+    formatNumber,
+    formatTime: timestamp => times.format(timestamp),
+  };
+}
+
+export const strengthLabel = ({ t }: Translator, score: StrengthScore) => t(`strength.${score}`);
+
+export const describeFeedback = ({ t }: Translator, feedback: StrengthFeedback) =>
+  t(`strength.feedback.${feedback.code}`, { word: feedback.word ?? '' });
+
+export const describeViolation = (translator: Translator, violation: PolicyViolation) =>
+  translator.t(`policy.${violation.rule}`, {
+    ...violation.params,
+    ...(violation.params?.score !== undefined && {
+      label: strengthLabel(translator, violation.params.score as StrengthScore),
+    }),
+  });
+
+export const probeName = ({ t }: Translator, id: ProbeId) => t(`report.probeName.${id}`);
+
+export const describeProbe = ({ t }: Translator, result: Pick<ProbeResult, 'explanation' | 'params'>) =>
+  t(`report.explanation.${result.explanation}`, result.params);
+
+export interface I18nContextType extends Translator {
+  setLocale: (locale: LocaleCode) => void;
+}
+
+// Outside an I18nProvider, as when the library components are mounted on
+// their own, everything renders in the default locale.
+export const I18nContext = createContext<I18nContextType>({
+  ...createTranslator(DEFAULT_LOCALE),
+  setLocale: () => {},
+});
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,96 @@
+// Library entry point, built by `npm run build:lib`. The demo page takes its
+// credential handling, sign-in flows and session from here too; only demo
+// tooling such as fault injection, the breach check and the capability probes
+// is imported from the modules directly.
+export { useCredentialManager } from './useCredentialManager';
+export type {
+  AuthenticationResult,
+  CredentialManager,
+  CredentialManagerEvent,
+  CredentialManagerOptions,
+  CredentialOperation,
+  CredentialSupport,
+  PasswordCredentialData,
+  SignInResult,
+  StoreOutcome,
+} from './useCredentialManager';
+export { useSession } from './useSession';
+export type { Session, SessionOptions, SignedInAccount } from './useSession';
+export { useSecondFactor } from './useSecondFactor';
+export type {
+  SecondFactor,
+  SecondFactorOptions,
+  SecondFactorPromptState,
+  SecondFactorResult,
+  TotpEnrollment,
+  TotpStatus,
+} from './useSecondFactor';
+export { usePasswordAccount } from './usePasswordAccount';
+export type { PasswordAccount, PasswordAccountOptions } from './usePasswordAccount';
+export { usePasskeys } from './usePasskeys';
+export type { PasskeyOptions, Passkeys } from './usePasskeys';
+export { useFederatedSignIn } from './useFederatedSignIn';
+export type { FederatedSignIn, FederatedSignInOptions } from './useFederatedSignIn';
+export { useEmbedBridge } from './useEmbedBridge';
+export type { EmbedBridgeOptions } from './useEmbedBridge';
+export { default as CredentialLoginForm } from './CredentialLoginForm';
+export type { CredentialLoginFormErrors, CredentialLoginFormProps, CredentialLoginFormTheme } from './CredentialLoginForm';
+export { default as OperationStatus } from './OperationStatus';
+export type { OperationStatusProps } from './OperationStatus';
+export { default as ProcessLog } from './ProcessLog';
+export type { ProcessLogProps } from './ProcessLog';
+export { I18nProvider } from './I18nProvider';
+export { LOCALES, createTranslator, useI18n, type LocaleCode, type Translator } from './i18n';
+export {
+  DEFAULT_MAX_LOG_ENTRIES,
+  LOG_CAPACITY_OPTIONS,
+  createLogger,
+  errorFields,
+  type LogEntry,
+  type LogLevel,
+  type LogScope,
+  type Logger,
+  type LoggerOptions,
+  type Span,
+} from './logger';
+export { createLogHistory, isLogHistoryAvailable, type LogHistory, type LogSession } from './logHistory';
+export { createRedactor, type Redactor } from './redaction';
+export {
+  METRIC_OPERATIONS,
+  createMetrics,
+  endWhenSettled,
+  formatMetrics,
+  summarizeMetrics,
+  type Measurement,
+  type MetricOperation,
+  type MetricOutcome,
+  type MetricSample,
+  type MetricSummary,
+  type MetricsExportFormat,
+  type MetricsRecorder,
+} from './metrics';
+export {
+  DEFAULT_OPERATION_POLICIES,
+  OPERATION_NAMES,
+  createOperationRunner,
+  isTransientError,
+  type OperationName,
+  type OperationPolicy,
+  type OperationRunner,
+  type OperationState,
+  type RunOptions,
+} from './operationRunner';
+export {
+  isEmulatedBackendAvailable,
+  isNativeBackendAvailable,
+  type AccountChooser,
+  type CredentialBackend,
+  type CredentialData,
+} from './credentialBackend';
+export { accountAvatarURL, type KnownAccount, type SignInMethod } from './knownAccounts';
+export type { PersistedSession, SessionEndReason, SessionTimes } from './sessionManager';
+export { IDENTITY_PROVIDER, consumeFederatedCallback, type FederatedCallback } from './federation';
+export { isEmbedMode, type EmbedBridge, type EmbedCommand, type EmbedEvent } from './embed';
+export type { PasskeyCapabilities } from './passkeys';
+export type { SignUpValues } from './SignUpForm';
+export type { ChangePasswordValues } from './ChangePasswordForm';
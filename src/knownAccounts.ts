@@ -0,0 +1,41 @@
+import { safeLocalStorage } from './safeStorage';
+
+export type SignInMethod = 'password' | 'federated' | 'passkey';
+
+/** Profile metadata for an account used on this device. Never holds secrets. */
+export interface KnownAccount {
+  id: string;
+  name: string;
+  iconURL?: string;
+  method: SignInMethod;
+  /** Set for federated accounts. */
+  provider?: string;
+  lastUsedAt: number;
+}
+
+const KNOWN_ACCOUNTS_STORAGE_KEY = 'known-accounts';
+
+/** The avatar the local auth service renders for a username. */
+export const accountAvatarURL = (username: string) =>
+  new URL(`/api/auth/avatar/${encodeURIComponent(username)}.svg`, window.location.origin).href;
+
+export function loadKnownAccounts(): KnownAccount[] {
+  try {
+    const stored = JSON.parse(safeLocalStorage.getItem(KNOWN_ACCOUNTS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+const saveKnownAccounts = (accounts: KnownAccount[]) => {
+  safeLocalStorage.setItem(KNOWN_ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts));
+  return accounts;
+};
+
+/** Adds or refreshes an account, most recently used first. */
+export const rememberAccount = (account: KnownAccount) =>
+  saveKnownAccounts([account, ...loadKnownAccounts().filter(known => known.id !== account.id)]);
+
+export const forgetAccount = (id: string) =>
+  saveKnownAccounts(loadKnownAccounts().filter(known => known.id !== id));
@@ -0,0 +1,596 @@
+import type { Catalog } from '../i18n';
+
+// Arabic uses all six plural categories; `Intl.PluralRules('ar')` picks them.
+const ar: Catalog = {
+  // Shell
+  'locale.label': 'اللغة',
+  'theme.group': 'المظهر',
+  'theme.light': 'المظهر الفاتح',
+  'theme.dark': 'المظهر الداكن',
+  'theme.system': 'مطابقة مظهر النظام',
+  'theme.highContrast': 'سجل عالي التباين',
+  'a11y.skipToLog': 'الانتقال إلى سجل العمليات',
+  'footer.license': 'هذا البرنامج مُصدر بموجب رخصة Apache-2.0. راجع ملف LICENSE للتفاصيل',
+
+  // Introduction and documentation
+  'intro.title': 'واجهة Password Credentials',
+  'intro.body': 'يعرض هذا المثال واجهة Password Credentials Management، وهي معيار ويب حديث يتيح تخزين بيانات الاعتماد بأمان في متصفحك. تتيح للمواقع:',
+  'intro.store': 'تخزين بيانات تسجيل الدخول بأمان',
+  'intro.autofill': 'ملء نماذج تسجيل الدخول تلقائيًا بأمان',
+  'intro.manage': 'إدارة بيانات الاعتماد المحفوظة',
+  'docs.title': 'توثيق واجهة Credential Management',
+  'docs.subtitle': 'دليل شامل لإدارة بيانات الاعتماد في المتصفح',
+  'docs.concepts.title': 'المفاهيم الأساسية',
+  'docs.concepts.body': 'توفر واجهة Credential Management واجهة برمجية بين المتصفح وتطبيقات الويب للتعامل مع بيانات اعتماد المستخدم بسلاسة وأمان. وهي تبسّط عملية المصادقة مع الحفاظ على معايير أمان عالية.',
+  'docs.concepts.storage': 'تخزين آمن لبيانات اعتماد المستخدم في مدير كلمات المرور بالمتصفح',
+  'docs.concepts.autofill': 'ملء النماذج تلقائيًا ببيانات الاعتماد المحفوظة',
+  'docs.concepts.interface': 'واجهة موحدة لطرق المصادقة المختلفة',
+  'docs.concepts.encryption': 'أمان معزز بالتشفير على مستوى المتصفح',
+  'docs.methods.title': 'دوال الواجهة',
+  'docs.methods.store': 'تخزن بيانات اعتماد المستخدم بأمان في مدير كلمات المرور بالمتصفح. تُشفَّر البيانات وتُربط بالأصل.',
+  'docs.methods.get': 'تسترجع بيانات الاعتماد المحفوظة للأصل الحالي، مما يتيح تسجيل الدخول التلقائي.',
+  'docs.methods.preventSilentAccess': 'تمنع تسجيل الدخول التلقائي، وتُستدعى عادةً بعد تسجيل خروج المستخدم.',
+  'docs.security.title': 'ميزات الأمان',
+  'docs.security.origin.title': 'الربط بالأصل',
+  'docs.security.origin.body': 'ترتبط بيانات الاعتماد بالأصل الذي خزّنها فقط، مما يمنع الوصول إليها من مواقع أخرى.',
+  'docs.security.context.title': 'السياق الآمن',
+  'docs.security.context.body': 'تعمل الواجهة في السياقات الآمنة فقط (HTTPS أو localhost)، لضمان حماية البيانات أثناء النقل.',
+  'docs.security.mediation.title': 'موافقة المستخدم',
+  'docs.security.mediation.body': 'يطلب المتصفح موافقة صريحة من المستخدم قبل تخزين بيانات الاعتماد أو استرجاعها.',
+  'docs.security.encryption.title': 'التشفير',
+  'docs.security.encryption.body': 'تُشفَّر بيانات الاعتماد عند التخزين باستخدام آليات الأمان في المتصفح.',
+  'docs.flow.title': 'خطوات التنفيذ',
+  'docs.flow.authentication.title': 'المصادقة',
+  'docs.flow.authentication.body': 'يرسل المستخدم بيانات اعتماده عبر نموذج تسجيل الدخول.',
+  'docs.flow.validation.title': 'التحقق',
+  'docs.flow.validation.body': 'يتحقق التطبيق من بيانات الاعتماد لدى خادم المصادقة.',
+  'docs.flow.storage.title': 'التخزين',
+  'docs.flow.storage.body': 'بعد نجاح المصادقة، تُخزَّن بيانات الاعتماد باستخدام {method}.',
+  'docs.flow.autofill.title': 'الملء التلقائي',
+  'docs.flow.autofill.body': 'في الزيارات اللاحقة، يمكن استرجاع بيانات الاعتماد المحفوظة وملؤها تلقائيًا.',
+  'docs.flow.logout.title': 'تسجيل الخروج',
+  'docs.flow.logout.body': 'يُمنع الوصول الصامت باستخدام {method}.',
+
+  // Sign-in form
+  'signIn.title': 'مرحبًا بعودتك',
+  'signIn.subtitle': 'يرجى تسجيل الدخول للمتابعة',
+  'signIn.demoAccount': 'الحساب التجريبي: {username} / {password}',
+  'signIn.username': 'اسم المستخدم',
+  'signIn.usernamePlaceholder': 'أدخل اسم المستخدم',
+  'signIn.password': 'كلمة المرور',
+  'signIn.passwordPlaceholder': 'أدخل كلمة المرور',
+  'signIn.submitAndSave': 'تسجيل الدخول وحفظ بيانات الاعتماد',
+  'signIn.submit': 'تسجيل الدخول',
+  'signIn.createAccount': 'جديد هنا؟ أنشئ حسابًا',
+  'signIn.withProvider': 'تسجيل الدخول باستخدام {provider}',
+  'signIn.withPasskey': 'تسجيل الدخول بمفتاح مرور',
+  'signIn.waitingForAuthenticator': 'في انتظار أداة المصادقة...',
+  'signIn.limited.title': 'وظائف محدودة',
+  'signIn.limited.body': 'إدارة بيانات الاعتماد غير متاحة. سيعمل التطبيق، لكنه لن يحفظ بيانات تسجيل دخولك.',
+  'signIn.limited.insecure': 'لتفعيل هذه الميزة، افتح الموقع عبر HTTPS أو localhost.',
+  'signIn.error.usernameRequired': 'أدخل اسم المستخدم',
+  'signIn.error.passwordRequired': 'أدخل كلمة المرور',
+  'backend.label': 'الواجهة الخلفية لبيانات الاعتماد',
+  'backend.forceEmulated': 'فرض المحاكاة',
+  'mediation.label': 'وساطة تسجيل الدخول التلقائي',
+  'mediation.silent': 'صامت',
+  'mediation.silent.description': 'لا يطلب أبدًا. يعيد null ما لم يمكن تسليم بيانات اعتماد دون تدخل المستخدم.',
+  'mediation.optional': 'اختياري',
+  'mediation.optional.description': 'يسجل الدخول بصمت عند السماح، وإلا يعرض المتصفح قائمة اختيار الحساب.',
+  'mediation.required': 'مطلوب',
+  'mediation.required.description': 'يعرض قائمة اختيار الحساب دائمًا، حتى لو كان الوصول الصامت مسموحًا.',
+  'mediation.conditional': 'مشروط',
+  'mediation.conditional.description': 'ينتظر حتى يختار المستخدم بيانات اعتماد من اقتراحات الملء التلقائي في النموذج.',
+  'mediation.retrieve': 'تسجيل الدخول ببيانات اعتماد محفوظة',
+  'mediation.waiting': 'في انتظار بيانات الاعتماد...',
+
+  // Sign-up and password change
+  'signUp.title': 'إنشاء حساب',
+  'signUp.subtitle': 'يمكن لمتصفحك حفظ كلمة المرور الجديدة لك',
+  'signUp.username': 'اسم المستخدم',
+  'signUp.usernamePlaceholder': 'اختر اسم مستخدم',
+  'signUp.displayName': 'الاسم المعروض',
+  'signUp.optional': '(اختياري)',
+  'signUp.displayNamePlaceholder': 'بماذا نناديك؟',
+  'signUp.password': 'كلمة المرور',
+  'signUp.submit': 'إنشاء حساب',
+  'signUp.submitting': 'جارٍ إنشاء الحساب...',
+  'signUp.signIn': 'لديك حساب بالفعل؟ سجّل الدخول',
+  'changePassword.open': 'تغيير كلمة المرور',
+  'changePassword.current': 'كلمة المرور الحالية',
+  'changePassword.new': 'كلمة المرور الجديدة',
+  'changePassword.cancel': 'إلغاء',
+  'changePassword.submit': 'تغيير كلمة المرور',
+  'changePassword.submitting': 'جارٍ الحفظ...',
+  'newPassword.generate': 'توليد',
+  'newPassword.placeholder': 'اختر كلمة مرور',
+  'newPassword.show': 'إظهار كلمة المرور',
+  'newPassword.hide': 'إخفاء كلمة المرور',
+
+  // Password policy and strength
+  'strength.label': 'القوة: {label}',
+  'strength.bits': '~{bits} بت',
+  'strength.0': 'ضعيفة جدًا',
+  'strength.1': 'ضعيفة',
+  'strength.2': 'متوسطة',
+  'strength.3': 'قوية',
+  'strength.4': 'قوية جدًا',
+  'strength.feedback.commonWord': 'تحتوي على كلمة شائعة («{word}»)',
+  'strength.feedback.repeats': 'تكرر الحرف نفسه',
+  'strength.feedback.sequence': 'تحتوي على تسلسل مثل «abc» أو «123»',
+  'strength.feedback.keyboard': 'تحتوي على نمط من لوحة المفاتيح',
+  'strength.feedback.year': 'تحتوي على سنة',
+  'strength.feedback.username': 'تحتوي على اسم المستخدم',
+  'policy.met': 'تستوفي سياسة كلمات المرور',
+  'policy.minLength': 'استخدم {min} أحرف على الأقل',
+  'policy.maxLength': 'استخدم {max} حرفًا على الأكثر',
+  'policy.characterClasses': 'امزج {count} على الأقل من: أحرف صغيرة، أحرف كبيرة، أرقام، رموز',
+  'policy.containsUsername': 'يجب ألا تحتوي على اسم المستخدم',
+  'policy.strength': 'يجب أن تُقيَّم «{label}» على الأقل',
+  'policy.reused': 'اختر كلمة مرور مختلفة عن الحالية',
+
+  // Signed-in view
+  'account.welcome': 'مرحبًا، {name}!',
+  'account.summary': '{id} · تسجيل الدخول عبر {method}',
+  'account.loggedIn': 'لقد سجلت الدخول بأمان',
+  'account.createPasskey': 'إنشاء مفتاح مرور',
+  'account.switch': 'تبديل الحساب',
+  'account.waitingForChooser': 'في انتظار قائمة اختيار الحساب...',
+  'account.remove': 'إزالة هذا الحساب من هذا الجهاز',
+  'account.logout': 'تسجيل الخروج',
+  'method.password': 'كلمة المرور',
+  'method.federated': 'مزود الهوية',
+  'method.passkey': 'مفتاح المرور',
+  'breach.title': 'ظهرت كلمة المرور هذه في تسريب بيانات',
+  'breach.body': {
+    one: 'عُثر عليها مرة واحدة في تسريبات معروفة. حفظها يجعل المتصفح يواصل ملء كلمة مرور مخترقة.',
+    two: 'عُثر عليها مرتين في تسريبات معروفة. حفظها يجعل المتصفح يواصل ملء كلمة مرور مخترقة.',
+    few: 'عُثر عليها {count} مرات في تسريبات معروفة. حفظها يجعل المتصفح يواصل ملء كلمة مرور مخترقة.',
+    many: 'عُثر عليها {count} مرة في تسريبات معروفة. حفظها يجعل المتصفح يواصل ملء كلمة مرور مخترقة.',
+    other: 'عُثر عليها {count} مرة في تسريبات معروفة. حفظها يجعل المتصفح يواصل ملء كلمة مرور مخترقة.',
+  },
+  'breach.decline': 'عدم الحفظ',
+  'breach.accept': 'الحفظ على أي حال',
+  'expiry.idle': 'سيتم تسجيل خروجك بسبب عدم النشاط خلال {remaining}.',
+  'expiry.absolute': 'تنتهي جلستك خلال {remaining}. سجّل الدخول مجددًا للمتابعة بعد ذلك.',
+  'expiry.idleAlert': 'سيتم تسجيل خروجك قريبًا بسبب عدم النشاط.',
+  'expiry.absoluteAlert': 'ستنتهي جلستك قريبًا.',
+  'expiry.extend': 'البقاء متصلًا',
+  'accounts.title': 'الحسابات على هذا الجهاز',
+  'accounts.signsInWith': 'يسجل الدخول عبر {method}',
+  'accounts.remove': 'إزالة {name} من هذا الجهاز',
+  'chooser.title': 'اختر حسابًا',
+  'chooser.emulated': '{origin} (قائمة اختيار محاكاة)',
+  'chooser.dismiss': 'إغلاق قائمة اختيار الحساب',
+
+  // Two-factor authentication
+  'secondFactor.prompt.title': 'المصادقة الثنائية',
+  'secondFactor.prompt.body': 'أدخل الرمز المكوّن من {digits} أرقام من تطبيق المصادقة.',
+  'secondFactor.prompt.recoveryBody': 'أدخل أحد رموز الاسترداد التي حفظتها عند إعداد المصادقة الثنائية. يعمل كل رمز مرة واحدة.',
+  'secondFactor.code': 'رمز المصادقة',
+  'secondFactor.recoveryCode': 'رمز الاسترداد',
+  'secondFactor.verify': 'تحقق',
+  'secondFactor.verifying': 'جارٍ التحقق...',
+  'secondFactor.useRecoveryCode': 'استخدام رمز استرداد',
+  'secondFactor.useAuthenticator': 'استخدام تطبيق المصادقة',
+  'secondFactor.cancel': 'إلغاء',
+  'secondFactor.error.invalid': 'هذا الرمز غير صالح. تحقق من التطبيق وحاول مرة أخرى.',
+  'secondFactor.error.replayed': 'استُخدم هذا الرمز من قبل. انتظر الرمز التالي.',
+  'secondFactor.setup.open': 'إعداد المصادقة الثنائية',
+  'secondFactor.setup.title': 'إعداد المصادقة الثنائية',
+  'secondFactor.setup.scan': 'امسح رمز QR هذا بتطبيق مصادقة. يُرسم الرمز داخل هذه الصفحة، فلا يُرسل السر إلى أي مكان آخر.',
+  'secondFactor.setup.qrLabel': 'رمز QR لتطبيق المصادقة',
+  'secondFactor.setup.manual': 'أو أدخل هذا المفتاح يدويًا:',
+  'secondFactor.setup.confirmLabel': 'أدخل الرمز المكوّن من {digits} أرقام الذي يعرضه التطبيق',
+  'secondFactor.setup.confirm': 'تفعيل',
+  'secondFactor.setup.failed': 'تعذّر إعداد المصادقة الثنائية',
+  'secondFactor.recovery.title': 'احفظ رموز الاسترداد',
+  'secondFactor.recovery.body': 'يسجّل كل رمز دخولك مرة واحدة إذا فقدت تطبيق المصادقة. لن تُعرض إلا الآن.',
+  'secondFactor.recovery.copy': 'نسخ الرموز',
+  'secondFactor.recovery.copied': 'تم النسخ',
+  'secondFactor.recovery.done': 'حفظتها',
+  'secondFactor.enabled': 'المصادقة الثنائية مفعّلة',
+  'secondFactor.recoveryCodesLeft': {
+    zero: 'لم يتبقَّ أي رمز استرداد',
+    one: 'تبقّى رمز استرداد واحد',
+    two: 'تبقّى رمزا استرداد',
+    few: 'تبقّت {count} رموز استرداد',
+    many: 'تبقّى {count} رمز استرداد',
+    other: 'تبقّى {count} رمز استرداد',
+  },
+  'secondFactor.disable.open': 'إيقاف',
+  'secondFactor.disable.label': 'أدخل رمزًا حاليًا لإيقاف المصادقة الثنائية',
+  'secondFactor.disable.confirm': 'إيقاف',
+
+  // Status messages
+  'status.insecureContext': 'تتطلب إدارة بيانات الاعتماد سياقًا آمنًا (HTTPS أو localhost)',
+  'status.unsupported': 'متصفحك لا يدعم إدارة بيانات الاعتماد',
+  'status.providerCancelled': 'أُلغي تسجيل الدخول عبر المزود',
+  'status.providerIncomplete': 'لم يكتمل تسجيل الدخول عبر المزود',
+  'status.providerFailed': 'فشل تسجيل الدخول عبر المزود',
+  'status.providerSignedIn': 'تم تسجيل الدخول عبر {provider}',
+  'status.providerSignedInSaved': 'تم تسجيل الدخول عبر {provider}. حُفظ الحساب للاستخدام لاحقًا.',
+  'status.passkeyCreated': 'أُنشئ مفتاح المرور. يمكنك الآن تسجيل الدخول دون كلمة مرور.',
+  'status.passkeyCreateFailed': 'تعذر إنشاء مفتاح مرور',
+  'status.passkeySignedIn': 'تم تسجيل الدخول بمفتاح مرور',
+  'status.passkeySignInFailed': 'لم يكتمل تسجيل الدخول بمفتاح المرور',
+  'status.serviceUnreachable': 'تعذر الوصول إلى خدمة المصادقة',
+  'status.locked': {
+    zero: 'قُفل الحساب بعد محاولات فاشلة كثيرة. حاول مجددًا الآن.',
+    one: 'قُفل الحساب بعد محاولات فاشلة كثيرة. حاول مجددًا بعد ثانية واحدة.',
+    two: 'قُفل الحساب بعد محاولات فاشلة كثيرة. حاول مجددًا بعد ثانيتين.',
+    few: 'قُفل الحساب بعد محاولات فاشلة كثيرة. حاول مجددًا بعد {count} ثوانٍ.',
+    many: 'قُفل الحساب بعد محاولات فاشلة كثيرة. حاول مجددًا بعد {count} ثانية.',
+    other: 'قُفل الحساب بعد محاولات فاشلة كثيرة. حاول مجددًا بعد {count} ثانية.',
+  },
+  'status.invalidCredentials': {
+    zero: 'اسم المستخدم أو كلمة المرور غير صحيحة. لم تتبق أي محاولة.',
+    one: 'اسم المستخدم أو كلمة المرور غير صحيحة. تتبقى محاولة واحدة.',
+    two: 'اسم المستخدم أو كلمة المرور غير صحيحة. تتبقى محاولتان.',
+    few: 'اسم المستخدم أو كلمة المرور غير صحيحة. تتبقى {count} محاولات.',
+    many: 'اسم المستخدم أو كلمة المرور غير صحيحة. تتبقى {count} محاولة.',
+    other: 'اسم المستخدم أو كلمة المرور غير صحيحة. تتبقى {count} محاولة.',
+  },
+  'status.loginFailed': 'فشل تسجيل الدخول',
+  'status.secondFactorCancelled': 'أُلغي تسجيل الدخول. لم يُحفظ أي شيء.',
+  'status.secondFactorFailed': 'انتهت صلاحية محاولة تسجيل الدخول أو أُدخلت رموز خاطئة كثيرة. أدخل كلمة المرور مرة أخرى.',
+  'status.secondFactorDisabled': 'المصادقة الثنائية متوقفة.',
+  'status.loggedIn': 'تم تسجيل الدخول بنجاح!',
+  'status.loggedInSaved': 'نجح تسجيل الدخول! حُفظت بيانات الاعتماد للاستخدام لاحقًا.',
+  'status.loggedInBreached': 'نجح تسجيل الدخول! لم تُحفظ بيانات الاعتماد لأن كلمة المرور مخترقة.',
+  'status.loggedInSaveFailed': 'نجح تسجيل الدخول! (تعذر حفظ بيانات الاعتماد)',
+  'announce.loggedIn': 'تم تسجيل الدخول باسم {name}',
+  'announce.loggedOut': 'تم تسجيل الخروج',
+  'announce.credentialSaved': 'تم حفظ بيانات الاعتماد في المتصفح',
+  'announce.storageFailed': 'تعذر حفظ بيانات الاعتماد في المتصفح',
+  'status.registrationFailed': 'فشل التسجيل',
+  'status.accountCreated': 'أُنشئ الحساب وتم تسجيل الدخول.',
+  'status.accountCreatedSaved': 'أُنشئ الحساب. حُفظت بيانات الاعتماد لتسجيلات الدخول القادمة.',
+  'status.passwordChangeFailed': 'فشل تغيير كلمة المرور',
+  'status.passwordChangedSaved': 'تم تغيير كلمة المرور. حُدّثت بيانات الاعتماد المحفوظة.',
+  'status.passwordChanged': 'تم تغيير كلمة المرور. تذكّر تحديث أي نسخ محفوظة.',
+  'status.signedOutIdle': 'تم تسجيل خروجك بعد فترة من عدم النشاط.',
+  'status.sessionEnded': 'انتهت جلستك. يرجى تسجيل الدخول مجددًا.',
+  'status.sessionRestored': 'مرحبًا بعودتك. استُعيدت جلستك.',
+  'status.remoteLogin': 'تم تسجيل الدخول باسم {name} في علامة تبويب أخرى',
+  'status.accountRemoved': 'أُزيل {name} من هذا الجهاز.',
+  'status.accountRemovedNative': 'أُزيل {name} من هذا الجهاز. لا يزال متصفحك يحتفظ ببيانات الاعتماد المحفوظة؛ احذفها من مدير كلمات المرور فيه.',
+
+  // Process Log panel
+  'processLog.title': 'سجل العمليات',
+  'processLog.subtitle': 'أحداث النظام والعمليات في الوقت الفعلي',
+  'processLog.search': 'ابحث في الرسائل والحقول',
+  'processLog.searchLabel': 'البحث في السجل',
+  'processLog.level.debug': 'تصحيح',
+  'processLog.level.info': 'معلومات',
+  'processLog.level.success': 'نجاح',
+  'processLog.level.error': 'خطأ',
+  'processLog.showPII': 'إظهار البيانات الشخصية',
+  'processLog.showPIIHint': 'إظهار أسماء المستخدمين وعناوين البريد في هذا العرض. لا تُسجَّل كلمات المرور والرموز أبدًا، وتبقى الملفات المصدّرة مقنّعة دائمًا.',
+  'processLog.running': '(قيد التشغيل…)',
+  'processLog.duration': '({ms} مللي ثانية)',
+  'processLog.count': {
+    zero: '{visible} من {count} إدخال',
+    one: '{visible} من إدخال واحد',
+    two: '{visible} من إدخالين',
+    few: '{visible} من {count} إدخالات',
+    many: '{visible} من {count} إدخالًا',
+    other: '{visible} من {count} إدخال',
+  },
+  'processLog.exportFormat': 'صيغة التصدير',
+  'processLog.export': 'تصدير',
+  'processLog.clear': 'مسح',
+  'processLog.view': 'الجلسات المعروضة',
+  'processLog.view.current': 'هذه الجلسة',
+  'processLog.view.all': 'كل الجلسات',
+  'processLog.view.compare': 'مقارنة',
+  'processLog.session.current': 'هذه الجلسة، بدأت {time}',
+  'processLog.session.past': 'جلسة بدأت {time}',
+  'processLog.session.entries': {
+    zero: 'لا إدخالات',
+    one: 'إدخال واحد',
+    two: 'إدخالان',
+    few: '{count} إدخالات',
+    many: '{count} إدخالًا',
+    other: '{count} إدخال',
+  },
+  'processLog.compare.first': 'الجلسة الأولى للمقارنة',
+  'processLog.compare.second': 'الجلسة الثانية للمقارنة',
+  'processLog.clearHistory': {
+    zero: 'لا جلسات سابقة',
+    one: 'نسيان جلسة سابقة واحدة',
+    two: 'نسيان جلستين سابقتين',
+    few: 'نسيان {count} جلسات سابقة',
+    many: 'نسيان {count} جلسة سابقة',
+    other: 'نسيان {count} جلسة سابقة',
+  },
+  'processLog.jumpToLatest': 'الانتقال إلى الأحدث',
+  'processLog.dropped': {
+    zero: 'لم يُحذف أي إدخال قديم',
+    one: 'حُذف إدخال قديم واحد',
+    two: 'حُذف إدخالان قديمان',
+    few: 'حُذفت {count} إدخالات قديمة',
+    many: 'حُذف {count} إدخالًا قديمًا',
+    other: 'حُذف {count} إدخال قديم',
+  },
+  'processLog.capacity': 'عدد الإدخالات المحفوظة',
+  'processLog.capacityOption': 'الاحتفاظ بـ {count}',
+  'processLog.keyboardHint': 'استخدم مفاتيح الأسهم وPage Up وPage Down وHome وEnd للتنقل بين الإدخالات.',
+
+  // Environment report
+  'report.title': 'تقرير البيئة',
+  'report.summary': 'نجح {pass}، {warn} تحذيرات، فشل {fail}',
+  'report.running': 'جارٍ تشغيل فحوص القدرات…',
+  'report.rerun': 'إعادة التشغيل',
+  'report.probe': 'الفحص',
+  'report.status': 'الحالة',
+  'report.explanation': 'الشرح',
+  'report.status.pass': 'نجح',
+  'report.status.warn': 'تحذير',
+  'report.status.fail': 'فشل',
+  'report.probeName.secure-context': 'سياق آمن',
+  'report.probeName.secure-origin': 'مصدر موثوق',
+  'report.probeName.embedding': 'التضمين',
+  'report.probeName.permissions-policy': 'سياسة الأذونات',
+  'report.probeName.credential-types': 'أنواع بيانات الاعتماد',
+  'report.probeName.prevent-silent-access': 'منع الوصول الصامت',
+  'report.probeName.conditional-mediation': 'الملء التلقائي لمفاتيح المرور',
+  'report.probeName.storage': 'التخزين',
+  'report.probeName.third-party-storage': 'تخزين الجهات الخارجية',
+  'report.explanation.secure-context.pass': 'تعمل الصفحة في سياق آمن، لذا تتوفر واجهات بيانات الاعتماد.',
+  'report.explanation.secure-context.fail': 'واجهات بيانات الاعتماد مخفية خارج السياق الآمن. قدّم الصفحة عبر HTTPS أو من localhost.',
+  'report.explanation.secure-origin.pass': '{origin} مصدر يُحتمل أن يكون موثوقًا.',
+  'report.explanation.secure-origin.untrustworthy': '{origin} ليس مصدرًا يُحتمل أن يكون موثوقًا. استخدم HTTPS، أو مضيف الاسترجاع للتطوير المحلي.',
+  'report.explanation.secure-origin.insecureAncestor': 'المصدر موثوق، لكن إحدى الصفحات المضمِّنة ليست كذلك، لذا يبقى السياق غير آمن.',
+  'report.explanation.embedding.pass': 'الصفحة في المستوى الأعلى، لذا لا تنطبق قيود التضمين.',
+  'report.explanation.embedding.crossOrigin': 'الصفحة داخل iframe من مصدر مختلف. بيانات اعتماد كلمات المرور غير متاحة، ومفاتيح المرور تحتاج إلى أن تفوّضها الصفحة المضمِّنة بسمة allow.',
+  'report.explanation.embedding.sameOrigin': 'الصفحة داخل iframe من المصدر نفسه. لا تزال بعض المتصفحات تقصر مطالبات بيانات الاعتماد على صفحات المستوى الأعلى.',
+  'report.explanation.permissions-policy.pass': 'يُسمح بكل من publickey-credentials-get وpublickey-credentials-create في هذا المستند.',
+  'report.explanation.permissions-policy.noApi': 'لا يوفر المتصفح واجهة Permissions Policy، لذا لا يمكن التحقق من التفويض عبر البرمجة.',
+  'report.explanation.permissions-policy.blocked': 'ترويسة Permissions-Policy أو سمة allow في الـ iframe تحظر هنا تسجيل الدخول أو التسجيل بمفاتيح المرور.',
+  'report.explanation.credential-types.pass': 'PasswordCredential وFederatedCredential مطبّقان أصليًا.',
+  'report.explanation.credential-types.emulated': 'يفتقر المتصفح إلى PasswordCredential أو FederatedCredential؛ وتسدّ الواجهة الخلفية المحاكاة هذا النقص.',
+  'report.explanation.credential-types.missing': 'navigator.credentials غير موجود، لذا لا يمكن استخدام سوى الواجهة الخلفية المحاكاة.',
+  'report.explanation.prevent-silent-access.pass': 'يمكن لتسجيل الخروج أن يمنع المتصفح من تسليم بيانات الاعتماد بصمت.',
+  'report.explanation.prevent-silent-access.missing': 'preventSilentAccess() غير موجودة؛ ويعتمد تسجيل الخروج على علامة الواجهة الخلفية المحاكاة.',
+  'report.explanation.conditional-mediation.pass': 'يمكن عرض مفاتيح المرور في الملء التلقائي للنماذج.',
+  'report.explanation.conditional-mediation.noPublicKey': 'PublicKeyCredential غير متاحة، لذا لا يمكن استخدام مفاتيح المرور.',
+  'report.explanation.conditional-mediation.unknown': 'لا يستطيع المتصفح الإبلاغ عن دعم الوساطة المشروطة؛ تعمل مفاتيح المرور عبر المطالبة المنبثقة فقط.',
+  'report.explanation.conditional-mediation.unavailable': 'لا تُعرض مفاتيح المرور في الملء التلقائي؛ استخدم زر مفتاح المرور.',
+  'report.explanation.storage.pass': 'كل أنواع التخزين التي يستخدمها العرض التوضيحي متاحة.',
+  'report.explanation.storage.missing': 'غير متاح: {missing}. قد يسبب ذلك التصفح الخاص أو حظر بيانات الموقع، وقد لا تُحفظ الإعدادات أو الجلسات.',
+  'report.explanation.third-party-storage.firstParty': 'الصفحة ليست داخل إطار من مصدر مختلف، لذا فملفات تعريف الارتباط والتخزين فيها من الطرف الأول.',
+  'report.explanation.third-party-storage.unknown': 'لا يستطيع المتصفح الإبلاغ عن الوصول إلى التخزين. قد تكون ملفات تعريف الارتباط والتخزين في هذا الإطار مفصولة عن موقع المستوى الأعلى.',
+  'report.explanation.third-party-storage.pass': 'يملك الإطار وصولًا غير مقسَّم إلى التخزين.',
+  'report.explanation.third-party-storage.blocked': 'ملفات تعريف الارتباط والتخزين في هذا الإطار مقسَّمة أو محظورة. لا يُرسل ملف تعريف ارتباط الجلسة SameSite=Strict من إطار عبر المواقع، لذا لا يستمر تسجيل الدخول هنا، والمخزن المحاكى والإعدادات المحفوظة منفصلة عن موقع المستوى الأعلى.',
+  'report.explanation.probeFailed': 'تعذّر تشغيل الفحص نفسه.',
+  'embed.host': 'مضمّن بواسطة {origin}',
+  'embed.hostUnknown': 'مضمّن بواسطة صفحة تعذر تحديدها',
+  'embed.limitations.title': 'القيود في هذا الإطار',
+  'embed.blocked.title': 'التضمين غير مسموح',
+  'embed.blocked.body': '{origin} ليس ضمن قائمة المضيفين المسموح بهم لهذه الأداة، لذا تم تعطيل تسجيل الدخول هنا.',
+
+  // Metrics panel
+  'metrics.title': 'مقاييس العمليات',
+  'metrics.summary': {
+    zero: 'لا استدعاءات مقيسة في هذه الجلسة',
+    one: 'استدعاء واحد مقيس في هذه الجلسة',
+    two: 'استدعاءان مقيسان في هذه الجلسة',
+    few: '{count} استدعاءات مقيسة في هذه الجلسة',
+    many: '{count} استدعاءً مقيسًا في هذه الجلسة',
+    other: '{count} استدعاء مقيس في هذه الجلسة',
+  },
+  'metrics.empty': 'لم يُقس أي استدعاء لبيانات الاعتماد بعد.',
+  'metrics.exportFormat': 'صيغة تصدير المقاييس',
+  'metrics.export': 'تصدير',
+  'metrics.clear': 'مسح',
+  'metrics.operation': 'العملية',
+  'metrics.operation.detect': 'اكتشاف الدعم',
+  'metrics.operation.authenticate': 'المصادقة',
+  'metrics.operation.passkeyCreate': 'create() لمفتاح المرور',
+  'metrics.operation.passkeyGet': 'get() لمفتاح المرور',
+  'metrics.outcome.success': 'نجح',
+  'metrics.outcome.failure': 'فشل',
+  'metrics.outcome.abort': 'أُلغي',
+  'metrics.max': 'الأقصى',
+  'metrics.distribution': 'التوزيع',
+  'metrics.ms': '{ms} مللي ثانية',
+  'metrics.bucket.below': 'أقل من {ms} مللي ثانية',
+  'metrics.bucket.above': '{ms} مللي ثانية أو أكثر',
+  'metrics.timeline': 'المخطط الزمني للجلسة',
+  'metrics.timelineHint': 'الاستدعاءات منذ تحميل الصفحة (الجلسة {session}) بترتيب بدئها. الأشرطة متناسبة مع المدة.',
+
+  // Credential operations
+  'operation.pending': 'في انتظار {operation}…',
+  'operation.retrying': 'إعادة محاولة {operation}، المحاولة {attempt} من {max}…',
+  'operation.aborted': 'أُلغيت {operation}',
+  'operation.timedOut': 'انتهت مهلة {operation} بعد {seconds} ث',
+  'operation.cancel': 'إلغاء',
+  'operation.settings.title': 'المهلات وإعادة المحاولة',
+  'operation.settings.timeout': 'المهلة (ث، 0 = بلا مهلة)',
+  'operation.settings.retries': 'مرات إعادة المحاولة',
+  'operation.settings.note': 'لا يُعاد إلا ما فشل بخطأ عابر. لا يُعاد أبدًا طلب رفضه المستخدم أو أُلغي أو انتهت مهلته.',
+
+  // Failure scenarios
+  'faults.title': 'سيناريوهات الفشل',
+  'faults.active': 'يجري حقن أعطال في navigator.credentials',
+  'faults.inactive': 'تذهب الاستدعاءات مباشرةً إلى navigator.credentials',
+  'faults.copyLink': 'نسخ الرابط',
+  'faults.copied': 'تم النسخ',
+  'faults.sharePrompt': 'انسخ هذا الرابط لمشاركة السيناريو:',
+  'faults.scenario': 'السيناريو',
+  'faults.custom': 'مخصص',
+  'faults.latency': 'التأخير (مللي ثانية)',
+  'faults.note': 'لا تنتهي الوعود المعلّقة إلا عندما يلغيها المستدعي. يتوقف مشغّل العمليات عن انتظار {store} و{preventSilentAccess} عند انتهاء المهلة، لكن {get} وحدها تُلغى فعلًا في المتصفح.',
+  'faults.scenario.none': 'تشغيل عادي',
+  'faults.scenario.dismissed': 'المستخدم يرفض كل طلب',
+  'faults.scenario.security': 'قيود أمنية',
+  'faults.scenario.aborted': 'أُلغي الاسترجاع',
+  'faults.scenario.slow': 'مدير كلمات مرور بطيء',
+  'faults.scenario.hung': 'طلبات معلّقة',
+  'faults.scenario.empty': 'لم تُعَد أي بيانات اعتماد',
+  'faults.scenario.storage-fails': 'فشل التخزين وتنظيف تسجيل الخروج',
+  'faults.scenario.flaky': 'أعطال متقطعة',
+  'faults.fault.none': 'بلا عطل',
+  'faults.fault.latency': 'تأخير',
+  'faults.fault.hang': 'وعد معلّق',
+  'faults.fault.null': 'الإرجاع بـ null',
+  'faults.fault.flaky': 'فشل كل استدعاء ثانٍ',
+  'faults.description.none': 'استدعاء الواجهة الحقيقية.',
+  'faults.description.NotAllowedError': 'رفض المستخدم الطلب، أو رفضه المتصفح.',
+  'faults.description.SecurityError': 'الأصل أو السياق غير مسموح له باستخدام الواجهة.',
+  'faults.description.AbortError': 'أُلغيت العملية قبل اكتمالها.',
+  'faults.description.latency': 'الانتظار، ثم استدعاء الواجهة الحقيقية.',
+  'faults.description.hang': 'لا ينتهي أبدًا، إلا إذا ألغاه AbortSignal.',
+  'faults.description.null': 'الإرجاع بـ null، كما تفعل get() حين لا يوجد ما تعيده.',
+  'faults.description.flaky': 'رمي خطأ UnknownError عابر في كل استدعاء ثانٍ، فتنجح إعادة المحاولة.',
+
+  // API playground
+  'playground.title': 'ساحة تجربة الواجهة',
+  'playground.subtitle': 'أنشئ الخيارات، واستدعِ الواجهة، وانسخ الشيفرة',
+  'playground.method': 'الدالة',
+  'playground.credentialType': 'نوع بيانات الاعتماد',
+  'playground.providers': 'providers (أصول مفصولة بفواصل)',
+  'playground.anyAttachment': '(أي)',
+  'playground.abortAfter': 'AbortSignal.timeout (مللي ثانية، 0 لعدم الإلغاء)',
+  'playground.run': 'تشغيل',
+  'playground.running': 'في انتظار المتصفح…',
+  'playground.resolved': 'اكتمل بعد {ms} مللي ثانية',
+  'playground.rejected': 'رُفض بـ {name} بعد {ms} مللي ثانية',
+  'playground.snippet': 'TypeScript',
+  'playground.copy': 'نسخ',
+  'playground.copied': 'تم النسخ',
+
+  // Process Log messages
+  'log.environmentCheck': 'فحص بيئة النظام',
+  'log.systemInformation': 'معلومات النظام',
+  'log.probeResult': '{name}: {status}',
+  'log.passkeyCapabilities': 'قدرات مفاتيح المرور (WebAuthn)',
+  'log.faultScenarioLoaded': 'حُمّل سيناريو الفشل من الرابط',
+  'log.faultInjected': 'حُقن عطل',
+  'log.crossTabUnavailable': 'مزامنة الجلسة بين علامات التبويب غير متاحة',
+  'log.localeChanged': 'تغيّرت اللغة',
+  'log.sessionStarted': 'بدأت الجلسة',
+  'log.backendSelected': 'اختيرت الواجهة الخلفية لبيانات الاعتماد',
+  'log.noBackend': 'لا تتوفر واجهة خلفية لبيانات الاعتماد',
+  'log.credentialUnreadable': 'تم تخطي بيانات اعتماد مخزنة تعذّر فك تشفيرها',
+  'log.autoSignIn': 'تسجيل الدخول التلقائي',
+  'log.waitingForAutofill': 'في انتظار اختيار بيانات اعتماد من الملء التلقائي',
+  'log.conditionalPasskeysOnly': 'تنطبق الوساطة المشروطة على مفاتيح المرور فقط؛ لم تُطلب بيانات اعتماد كلمة مرور',
+  'log.passkeyAutofillUnavailable': 'لا يمكن عرض مفاتيح المرور في الملء التلقائي في هذا المتصفح',
+  'log.silentAccessBlocked': 'حُظر الوصول الصامت',
+  'log.noCredential': 'لم تُعَد أي بيانات اعتماد',
+  'log.federatedRetrieved': 'استُرجعت بيانات اعتماد موحدة',
+  'log.redirectingToProvider': 'إعادة التوجيه إلى المزود',
+  'log.passwordRetrieved': 'استُرجعت بيانات اعتماد كلمة المرور',
+  'log.retrievalDenied': 'رُفض استرجاع بيانات الاعتماد',
+  'log.retrievalFailed': 'فشل استرجاع بيانات الاعتماد',
+  'log.federatedStart': 'بدء تسجيل الدخول عبر {provider}',
+  'log.federatedCallback': 'استدعاء رجوع تسجيل الدخول الموحد من {provider}',
+  'log.federatedFailed': 'فشل تسجيل الدخول الموحد',
+  'log.authorizationCodeReceived': 'استُلم رمز التفويض وتم التحقق من state',
+  'log.codeExchange': 'تبادل الرمز',
+  'log.codeExchangeFailed': 'فشل تبادل الرمز',
+  'log.identityVerificationFailed': 'فشل التحقق من الهوية',
+  'log.federatedSucceeded': 'نجحت المصادقة الموحدة',
+  'log.federatedStorageSkipped': 'تم تخطي تخزين بيانات الاعتماد الموحدة',
+  'log.passkeyRegistration': 'تسجيل مفتاح المرور',
+  'log.registrationOptionsRequested': 'طُلبت خيارات التسجيل',
+  'log.authenticationOptionsRequested': 'طُلبت خيارات تسجيل الدخول',
+  'log.challengeReceived': 'استُلم التحدي',
+  'log.attestationVerificationRequested': 'طُلب التحقق من الإثبات',
+  'log.passkeyRegistered': 'سُجّل مفتاح المرور',
+  'log.passkeyRegistrationFailed': 'فشل تسجيل مفتاح المرور',
+  'log.passkeySignIn': 'تسجيل الدخول بمفتاح المرور',
+  'log.assertionVerificationRequested': 'طُلب التحقق من التأكيد',
+  'log.passkeySucceeded': 'نجحت المصادقة بمفتاح المرور',
+  'log.passkeySignInFailed': 'فشل تسجيل الدخول بمفتاح المرور',
+  'log.mediationChanged': 'تغيّر وضع الوساطة',
+  'log.storageSkipped': 'تم تخطي تخزين بيانات الاعتماد',
+  'log.breachCheck': 'فحص كلمات المرور المسربة',
+  'log.breachFound': 'وُجدت كلمة المرور في بيانات مسربة؛ السؤال قبل الحفظ',
+  'log.storageDeclined': 'رُفض تخزين بيانات الاعتماد',
+  'log.breachCheckUnavailable': 'فحص التسريبات غير متاح؛ المتابعة بدونه',
+  'log.storage': 'تخزين بيانات الاعتماد',
+  'log.storageFailed': 'فشل تخزين بيانات الاعتماد',
+  'log.operationPending': 'في انتظار {operation}',
+  'log.operationRetry': 'فشلت {operation} بخطأ عابر؛ تجري إعادة المحاولة',
+  'log.operationTimedOut': 'انتهت مهلة {operation}',
+  'log.operationAborted': 'أُلغيت {operation}',
+  'log.operationPolicyChanged': 'تغيّرت المهلة وإعادة المحاولة لـ {operation}',
+  'log.login': 'تسجيل الدخول',
+  'log.validationFailed': 'فشل التحقق من الإدخال',
+  'log.inputValidated': 'تم التحقق من الإدخال',
+  'log.processingAuthentication': 'جارٍ معالجة المصادقة',
+  'log.authenticationRequest': 'طلب المصادقة',
+  'log.authenticationRequestFailed': 'فشل طلب المصادقة',
+  'log.accountLocked': 'قُفل الحساب',
+  'log.authenticationRejected': 'رُفضت المصادقة',
+  'log.sessionEstablished': 'أُنشئت الجلسة',
+  'log.secondFactorRequired': 'قُبلت كلمة المرور؛ العامل الثاني مطلوب',
+  'log.secondFactorVerified': 'تم التحقق من العامل الثاني',
+  'log.secondFactorRejected': 'رُفض رمز العامل الثاني',
+  'log.secondFactorFailed': 'فشل العامل الثاني',
+  'log.secondFactorCancelled': 'أُلغي العامل الثاني',
+  'log.totpRequest': 'طلب المصادقة الثنائية',
+  'log.totpEnrollment': 'تسجيل المصادقة الثنائية',
+  'log.totpSecretIssued': 'صدر سر TOTP',
+  'log.totpConfirmation': 'تأكيد المصادقة الثنائية',
+  'log.totpEnabled': 'فُعّلت المصادقة الثنائية',
+  'log.totpDisabling': 'إيقاف المصادقة الثنائية',
+  'log.passwordGenerated': 'وُلّدت كلمة مرور',
+  'log.signUp': 'التسجيل',
+  'log.registrationPolicyViolated': 'خُرقت سياسة كلمات المرور؛ حُظر التسجيل',
+  'log.policySatisfied': 'استُوفيت سياسة كلمات المرور',
+  'log.createAccount': 'إنشاء الحساب',
+  'log.registrationUnreachable': 'تعذر الوصول إلى خدمة التسجيل',
+  'log.registrationRejected': 'رُفض التسجيل',
+  'log.accountCreated': 'أُنشئ الحساب؛ أُنشئت الجلسة',
+  'log.changePassword': 'تغيير كلمة المرور',
+  'log.changePolicyViolated': 'خُرقت سياسة كلمات المرور؛ حُظر التغيير',
+  'log.updatePassword': 'تحديث كلمة المرور',
+  'log.serviceUnreachable': 'تعذر الوصول إلى خدمة المصادقة',
+  'log.passwordChangeRejected': 'رُفض تغيير كلمة المرور',
+  'log.passwordUpdated': 'حُدّثت كلمة المرور على الخادم',
+  'log.replacingCredential': 'استبدال بيانات الاعتماد المحفوظة',
+  'log.logout': 'تسجيل الخروج',
+  'log.remoteLogout': 'استُلم تسجيل خروج من علامة تبويب أخرى',
+  'log.localSessionCleared': 'مُسحت حالة الجلسة المحلية',
+  'log.endServerSession': 'إنهاء جلسة الخادم',
+  'log.serverLogoutFailed': 'فشل تسجيل الخروج على الخادم',
+  'log.serverSessionAlreadyEnded': 'أنهت علامة التبويب المصدر جلسة الخادم بالفعل',
+  'log.preventSilentAccessFailed': 'فشل منع الوصول الصامت',
+  'log.sessionInvalid': 'لم تعد الجلسة صالحة على الخادم',
+  'log.sessionExtended': 'مُدّدت الجلسة',
+  'log.sessionActivity': 'أُبلغ عن نشاط الجلسة',
+  'log.sessionRefreshFailed': 'فشل تحديث الجلسة',
+  'log.restoreSession': 'استعادة الجلسة المحفوظة',
+  'log.serverSessionChecked': 'فُحصت جلسة الخادم',
+  'log.serverSessionEnded': 'انتهت جلسة الخادم؛ تسجيل الخروج محليًا',
+  'log.restoreUnreachable': 'تعذر الوصول إلى خدمة المصادقة؛ الإبقاء على الجلسة المحلية',
+  'log.remoteLogin': 'استُلم تسجيل دخول من علامة تبويب أخرى',
+  'log.remoteLogoutIgnored': 'تم تجاهل تسجيل خروج من علامة تبويب أخرى؛ تم تسجيل الخروج بالفعل',
+  'log.idleTimeout': 'انتهت مهلة عدم النشاط',
+  'log.sessionExpired': 'انتهت صلاحية الجلسة',
+  'log.switchAccount': 'تبديل الحساب',
+  'log.knownAccountSelected': 'اختير حساب معروف',
+  'log.removeAccount': 'إزالة الحساب من هذا الجهاز',
+  'log.removedFromKnownAccounts': 'أُزيل من قائمة الحسابات المعروفة',
+  'log.storedCredentialDeleted': 'حُذفت بيانات الاعتماد المحفوظة',
+  'log.storedCredentialKept': 'تُركت بيانات الاعتماد المحفوظة في مكانها',
+  'log.noStoredCredential': 'لا توجد بيانات اعتماد محفوظة لهذا الحساب',
+  'log.storedCredentialDeleteFailed': 'تعذر حذف بيانات الاعتماد المحفوظة',
+  'log.passkeyKept': 'بقي مفتاح المرور على أداة المصادقة',
+  'log.loginFormSubmitted': 'أُرسل نموذج تسجيل الدخول',
+  'log.playgroundCall': 'ساحة التجربة: {call}',
+  'log.snippetCopyFailed': 'تعذر نسخ مقتطف الشيفرة',
+  'log.embedMode': 'وضع التضمين نشط',
+  'log.embedCommand': 'أمر من الصفحة المضيفة',
+  'log.embedMessageRejected': 'تم تجاهل رسالة من أصل غير مسموح به',
+  'log.accessibilityCheck': 'فحص إمكانية الوصول',
+  'log.accessibilityViolation': 'مخالفة لإمكانية الوصول',
+  'log.accessibilityPassed': 'لم يتم العثور على مخالفات لمعايير WCAG 2.1 AA',
+  'log.accessibilityCheckFailed': 'تعذر تشغيل فحص إمكانية الوصول',
+};
+
+export default ar;
@@ -0,0 +1,560 @@
+import type { Catalog } from '../i18n';
+
+const de: Catalog = {
+  // Shell
+  'locale.label': 'Sprache',
+  'theme.group': 'Farbschema',
+  'theme.light': 'Helles Farbschema',
+  'theme.dark': 'Dunkles Farbschema',
+  'theme.system': 'Systemeinstellung verwenden',
+  'theme.highContrast': 'Protokoll mit hohem Kontrast',
+  'a11y.skipToLog': 'Zum Prozessprotokoll springen',
+  'footer.license': 'Diese Software steht unter der Apache-2.0-Lizenz. Details siehe Datei LICENSE',
+
+  // Introduction and documentation
+  'intro.title': 'Password Credentials API',
+  'intro.body': 'Diese Demo zeigt die Password Credentials Management API, einen modernen Webstandard zur sicheren Speicherung von Anmeldedaten im Browser. Damit können Websites:',
+  'intro.store': 'Anmeldedaten sicher speichern',
+  'intro.autofill': 'Anmeldeformulare sicher automatisch ausfüllen',
+  'intro.manage': 'Gespeicherte Anmeldedaten verwalten',
+  'docs.title': 'Dokumentation der Credential Management API',
+  'docs.subtitle': 'Umfassender Leitfaden zur Verwaltung von Anmeldedaten im Browser',
+  'docs.concepts.title': 'Grundlagen',
+  'docs.concepts.body': 'Die Credential Management API bietet eine programmierbare Schnittstelle zwischen Browser und Webanwendung, um Anmeldedaten nahtlos und sicher zu handhaben. Sie vereinfacht die Anmeldung und wahrt dabei hohe Sicherheitsstandards.',
+  'docs.concepts.storage': 'Sichere Speicherung von Anmeldedaten im Passwortmanager des Browsers',
+  'docs.concepts.autofill': 'Automatisches Ausfüllen von Formularen mit gespeicherten Anmeldedaten',
+  'docs.concepts.interface': 'Einheitliche Schnittstelle für verschiedene Anmeldeverfahren',
+  'docs.concepts.encryption': 'Mehr Sicherheit durch Verschlüsselung auf Browserebene',
+  'docs.methods.title': 'API-Methoden',
+  'docs.methods.store': 'Speichert Anmeldedaten sicher im Passwortmanager des Browsers. Sie werden verschlüsselt und an den Ursprung gebunden.',
+  'docs.methods.get': 'Ruft gespeicherte Anmeldedaten für den aktuellen Ursprung ab und ermöglicht so die automatische Anmeldung.',
+  'docs.methods.preventSilentAccess': 'Verhindert die automatische Anmeldung, üblicherweise nach dem Abmelden.',
+  'docs.security.title': 'Sicherheitsmerkmale',
+  'docs.security.origin.title': 'Ursprungsbindung',
+  'docs.security.origin.body': 'Anmeldedaten sind fest an den Ursprung gebunden, der sie gespeichert hat. Andere Websites haben keinen Zugriff.',
+  'docs.security.context.title': 'Sicherer Kontext',
+  'docs.security.context.body': 'Die API funktioniert nur in sicheren Kontexten (HTTPS oder localhost), damit Daten bei der Übertragung geschützt sind.',
+  'docs.security.mediation.title': 'Zustimmung des Nutzers',
+  'docs.security.mediation.body': 'Der Browser verlangt eine ausdrückliche Zustimmung, bevor Anmeldedaten gespeichert oder abgerufen werden.',
+  'docs.security.encryption.title': 'Verschlüsselung',
+  'docs.security.encryption.body': 'Anmeldedaten werden mit den Sicherheitsmechanismen des Browsers verschlüsselt gespeichert.',
+  'docs.flow.title': 'Ablauf',
+  'docs.flow.authentication.title': 'Anmeldung',
+  'docs.flow.authentication.body': 'Der Nutzer sendet seine Anmeldedaten über ein Formular.',
+  'docs.flow.validation.title': 'Prüfung',
+  'docs.flow.validation.body': 'Die Anwendung prüft die Anmeldedaten beim Authentifizierungsserver.',
+  'docs.flow.storage.title': 'Speicherung',
+  'docs.flow.storage.body': 'Nach erfolgreicher Anmeldung werden die Anmeldedaten mit {method} gespeichert.',
+  'docs.flow.autofill.title': 'Automatisches Ausfüllen',
+  'docs.flow.autofill.body': 'Bei späteren Besuchen können gespeicherte Anmeldedaten abgerufen und eingetragen werden.',
+  'docs.flow.logout.title': 'Abmeldung',
+  'docs.flow.logout.body': 'Die stille Anmeldung wird mit {method} verhindert.',
+
+  // Sign-in form
+  'signIn.title': 'Willkommen zurück',
+  'signIn.subtitle': 'Bitte melden Sie sich an, um fortzufahren',
+  'signIn.demoAccount': 'Demokonto: {username} / {password}',
+  'signIn.username': 'Benutzername',
+  'signIn.usernamePlaceholder': 'Benutzernamen eingeben',
+  'signIn.password': 'Passwort',
+  'signIn.passwordPlaceholder': 'Passwort eingeben',
+  'signIn.submitAndSave': 'Anmelden und Zugangsdaten speichern',
+  'signIn.submit': 'Anmelden',
+  'signIn.createAccount': 'Neu hier? Konto erstellen',
+  'signIn.withProvider': 'Mit {provider} anmelden',
+  'signIn.withPasskey': 'Mit einem Passkey anmelden',
+  'signIn.waitingForAuthenticator': 'Warte auf den Authenticator...',
+  'signIn.limited.title': 'Eingeschränkte Funktionen',
+  'signIn.limited.body': 'Die Verwaltung von Anmeldedaten ist nicht verfügbar. Die App funktioniert, speichert Ihre Zugangsdaten aber nicht.',
+  'signIn.limited.insecure': 'Rufen Sie die Seite über HTTPS oder localhost auf, um diese Funktion zu aktivieren.',
+  'signIn.error.usernameRequired': 'Geben Sie Ihren Benutzernamen ein',
+  'signIn.error.passwordRequired': 'Geben Sie Ihr Passwort ein',
+  'backend.label': 'Backend für Anmeldedaten',
+  'backend.forceEmulated': 'Emulation erzwingen',
+  'mediation.label': 'Vermittlung bei automatischer Anmeldung',
+  'mediation.silent': 'Still',
+  'mediation.silent.description': 'Nie nachfragen. Liefert null, außer eine Anmeldeinformation lässt sich ohne Zutun des Nutzers übergeben.',
+  'mediation.optional': 'Optional',
+  'mediation.optional.description': 'Still anmelden, wenn erlaubt, sonst zeigt der Browser seine Kontoauswahl.',
+  'mediation.required': 'Erforderlich',
+  'mediation.required.description': 'Immer die Kontoauswahl zeigen, auch wenn stiller Zugriff erlaubt wäre.',
+  'mediation.conditional': 'Bedingt',
+  'mediation.conditional.description': 'Warten, bis der Nutzer eine Anmeldeinformation aus den Vorschlägen des Formulars wählt.',
+  'mediation.retrieve': 'Mit gespeicherten Zugangsdaten anmelden',
+  'mediation.waiting': 'Warte auf Anmeldeinformation...',
+
+  // Sign-up and password change
+  'signUp.title': 'Konto erstellen',
+  'signUp.subtitle': 'Ihr Browser kann das neue Passwort für Sie speichern',
+  'signUp.username': 'Benutzername',
+  'signUp.usernamePlaceholder': 'Benutzernamen wählen',
+  'signUp.displayName': 'Anzeigename',
+  'signUp.optional': '(optional)',
+  'signUp.displayNamePlaceholder': 'Wie sollen wir Sie ansprechen?',
+  'signUp.password': 'Passwort',
+  'signUp.submit': 'Konto erstellen',
+  'signUp.submitting': 'Konto wird erstellt...',
+  'signUp.signIn': 'Schon ein Konto? Anmelden',
+  'changePassword.open': 'Passwort ändern',
+  'changePassword.current': 'Aktuelles Passwort',
+  'changePassword.new': 'Neues Passwort',
+  'changePassword.cancel': 'Abbrechen',
+  'changePassword.submit': 'Passwort ändern',
+  'changePassword.submitting': 'Wird gespeichert...',
+  'newPassword.generate': 'Erzeugen',
+  'newPassword.placeholder': 'Passwort wählen',
+  'newPassword.show': 'Passwort anzeigen',
+  'newPassword.hide': 'Passwort verbergen',
+
+  // Password policy and strength
+  'strength.label': 'Stärke: {label}',
+  'strength.bits': '~{bits} Bit',
+  'strength.0': 'Sehr schwach',
+  'strength.1': 'Schwach',
+  'strength.2': 'Mittel',
+  'strength.3': 'Stark',
+  'strength.4': 'Sehr stark',
+  'strength.feedback.commonWord': 'Enthält ein häufiges Wort („{word}“)',
+  'strength.feedback.repeats': 'Wiederholt dasselbe Zeichen',
+  'strength.feedback.sequence': 'Enthält eine Folge wie „abc“ oder „123“',
+  'strength.feedback.keyboard': 'Enthält ein Tastaturmuster',
+  'strength.feedback.year': 'Enthält eine Jahreszahl',
+  'strength.feedback.username': 'Enthält den Benutzernamen',
+  'policy.met': 'Erfüllt die Passwortrichtlinie',
+  'policy.minLength': 'Mindestens {min} Zeichen verwenden',
+  'policy.maxLength': 'Höchstens {max} Zeichen verwenden',
+  'policy.characterClasses': 'Mindestens {count} davon mischen: Kleinbuchstaben, Großbuchstaben, Ziffern, Sonderzeichen',
+  'policy.containsUsername': 'Darf den Benutzernamen nicht enthalten',
+  'policy.strength': 'Muss mindestens als „{label}“ bewertet sein',
+  'policy.reused': 'Wählen Sie ein anderes Passwort als das aktuelle',
+
+  // Signed-in view
+  'account.welcome': 'Willkommen, {name}!',
+  'account.summary': '{id} · angemeldet per {method}',
+  'account.loggedIn': 'Sie sind sicher angemeldet',
+  'account.createPasskey': 'Passkey erstellen',
+  'account.switch': 'Konto wechseln',
+  'account.waitingForChooser': 'Warte auf die Kontoauswahl...',
+  'account.remove': 'Dieses Konto von diesem Gerät entfernen',
+  'account.logout': 'Abmelden',
+  'method.password': 'Passwort',
+  'method.federated': 'Identitätsanbieter',
+  'method.passkey': 'Passkey',
+  'breach.title': 'Dieses Passwort ist in einem Datenleck aufgetaucht',
+  'breach.body': {
+    one: 'Es wurde einmal in bekannten Datenlecks gefunden. Wenn Sie es speichern, füllt der Browser weiterhin ein kompromittiertes Passwort ein.',
+    other: 'Es wurde {count}-mal in bekannten Datenlecks gefunden. Wenn Sie es speichern, füllt der Browser weiterhin ein kompromittiertes Passwort ein.',
+  },
+  'breach.decline': 'Nicht speichern',
+  'breach.accept': 'Trotzdem speichern',
+  'expiry.idle': 'Sie werden in {remaining} wegen Inaktivität abgemeldet.',
+  'expiry.absolute': 'Ihre Sitzung endet in {remaining}. Danach müssen Sie sich erneut anmelden.',
+  'expiry.idleAlert': 'Sie werden bald wegen Inaktivität abgemeldet.',
+  'expiry.absoluteAlert': 'Ihre Sitzung endet bald.',
+  'expiry.extend': 'Angemeldet bleiben',
+  'accounts.title': 'Konten auf diesem Gerät',
+  'accounts.signsInWith': 'Meldet sich per {method} an',
+  'accounts.remove': '{name} von diesem Gerät entfernen',
+  'chooser.title': 'Konto auswählen',
+  'chooser.emulated': '{origin} (emulierte Auswahl)',
+  'chooser.dismiss': 'Kontoauswahl schließen',
+
+  // Two-factor authentication
+  'secondFactor.prompt.title': 'Zwei-Faktor-Authentifizierung',
+  'secondFactor.prompt.body': 'Geben Sie den {digits}-stelligen Code aus Ihrer Authenticator-App ein.',
+  'secondFactor.prompt.recoveryBody': 'Geben Sie einen der Wiederherstellungscodes ein, die Sie bei der Einrichtung gespeichert haben. Jeder Code funktioniert einmal.',
+  'secondFactor.code': 'Authentifizierungscode',
+  'secondFactor.recoveryCode': 'Wiederherstellungscode',
+  'secondFactor.verify': 'Bestätigen',
+  'secondFactor.verifying': 'Wird geprüft...',
+  'secondFactor.useRecoveryCode': 'Wiederherstellungscode verwenden',
+  'secondFactor.useAuthenticator': 'Authenticator-App verwenden',
+  'secondFactor.cancel': 'Abbrechen',
+  'secondFactor.error.invalid': 'Dieser Code ist ungültig. Prüfen Sie die App und versuchen Sie es erneut.',
+  'secondFactor.error.replayed': 'Dieser Code wurde bereits verwendet. Warten Sie auf den nächsten.',
+  'secondFactor.setup.open': 'Zwei-Faktor-Authentifizierung einrichten',
+  'secondFactor.setup.title': 'Zwei-Faktor-Authentifizierung einrichten',
+  'secondFactor.setup.scan': 'Scannen Sie diesen QR-Code mit einer Authenticator-App. Er wird in dieser Seite gezeichnet, das Geheimnis wird also nirgendwohin gesendet.',
+  'secondFactor.setup.qrLabel': 'QR-Code für die Authenticator-App',
+  'secondFactor.setup.manual': 'Oder geben Sie diesen Schlüssel von Hand ein:',
+  'secondFactor.setup.confirmLabel': 'Geben Sie den {digits}-stelligen Code aus der App ein',
+  'secondFactor.setup.confirm': 'Einschalten',
+  'secondFactor.setup.failed': 'Die Zwei-Faktor-Authentifizierung konnte nicht eingerichtet werden',
+  'secondFactor.recovery.title': 'Wiederherstellungscodes speichern',
+  'secondFactor.recovery.body': 'Jeder Code meldet Sie einmal an, falls Sie den Authenticator verlieren. Sie werden nur jetzt angezeigt.',
+  'secondFactor.recovery.copy': 'Codes kopieren',
+  'secondFactor.recovery.copied': 'Kopiert',
+  'secondFactor.recovery.done': 'Ich habe sie gespeichert',
+  'secondFactor.enabled': 'Zwei-Faktor-Authentifizierung ist aktiv',
+  'secondFactor.recoveryCodesLeft': {
+    one: 'Noch 1 Wiederherstellungscode',
+    other: 'Noch {count} Wiederherstellungscodes',
+  },
+  'secondFactor.disable.open': 'Ausschalten',
+  'secondFactor.disable.label': 'Geben Sie einen aktuellen Code ein, um die Zwei-Faktor-Authentifizierung auszuschalten',
+  'secondFactor.disable.confirm': 'Ausschalten',
+
+  // Status messages
+  'status.insecureContext': 'Die Verwaltung von Anmeldedaten erfordert einen sicheren Kontext (HTTPS oder localhost)',
+  'status.unsupported': 'Ihr Browser unterstützt die Verwaltung von Anmeldedaten nicht',
+  'status.providerCancelled': 'Die Anmeldung beim Anbieter wurde abgebrochen',
+  'status.providerIncomplete': 'Die Anmeldung beim Anbieter wurde nicht abgeschlossen',
+  'status.providerFailed': 'Die Anmeldung beim Anbieter ist fehlgeschlagen',
+  'status.providerSignedIn': 'Mit {provider} angemeldet',
+  'status.providerSignedInSaved': 'Mit {provider} angemeldet. Das Konto wurde für später gespeichert.',
+  'status.passkeyCreated': 'Passkey erstellt. Sie können sich jetzt ohne Passwort anmelden.',
+  'status.passkeyCreateFailed': 'Passkey konnte nicht erstellt werden',
+  'status.passkeySignedIn': 'Mit einem Passkey angemeldet',
+  'status.passkeySignInFailed': 'Die Anmeldung mit dem Passkey wurde nicht abgeschlossen',
+  'status.serviceUnreachable': 'Der Authentifizierungsdienst ist nicht erreichbar',
+  'status.locked': {
+    one: 'Konto nach zu vielen Fehlversuchen gesperrt. Versuchen Sie es in {count} Sekunde erneut.',
+    other: 'Konto nach zu vielen Fehlversuchen gesperrt. Versuchen Sie es in {count} Sekunden erneut.',
+  },
+  'status.invalidCredentials': {
+    one: 'Benutzername oder Passwort ungültig. Noch {count} Versuch.',
+    other: 'Benutzername oder Passwort ungültig. Noch {count} Versuche.',
+  },
+  'status.loginFailed': 'Anmeldung fehlgeschlagen',
+  'status.secondFactorCancelled': 'Anmeldung abgebrochen. Es wurde nichts gespeichert.',
+  'status.secondFactorFailed': 'Der Anmeldeversuch ist abgelaufen oder hatte zu viele falsche Codes. Geben Sie Ihr Passwort erneut ein.',
+  'status.secondFactorDisabled': 'Die Zwei-Faktor-Authentifizierung ist ausgeschaltet.',
+  'status.loggedIn': 'Erfolgreich angemeldet!',
+  'status.loggedInSaved': 'Anmeldung erfolgreich! Zugangsdaten für später gespeichert.',
+  'status.loggedInBreached': 'Anmeldung erfolgreich! Die Zugangsdaten wurden nicht gespeichert, weil das Passwort kompromittiert ist.',
+  'status.loggedInSaveFailed': 'Anmeldung erfolgreich! (Zugangsdaten konnten nicht gespeichert werden)',
+  'announce.loggedIn': 'Angemeldet als {name}',
+  'announce.loggedOut': 'Abgemeldet',
+  'announce.credentialSaved': 'Zugangsdaten im Browser gespeichert',
+  'announce.storageFailed': 'Zugangsdaten konnten nicht im Browser gespeichert werden',
+  'status.registrationFailed': 'Registrierung fehlgeschlagen',
+  'status.accountCreated': 'Konto erstellt und angemeldet.',
+  'status.accountCreatedSaved': 'Konto erstellt. Zugangsdaten für künftige Anmeldungen gespeichert.',
+  'status.passwordChangeFailed': 'Passwortänderung fehlgeschlagen',
+  'status.passwordChangedSaved': 'Passwort geändert. Die gespeicherten Zugangsdaten wurden aktualisiert.',
+  'status.passwordChanged': 'Passwort geändert. Denken Sie daran, gespeicherte Kopien zu aktualisieren.',
+  'status.signedOutIdle': 'Sie wurden nach längerer Inaktivität abgemeldet.',
+  'status.sessionEnded': 'Ihre Sitzung ist beendet. Bitte melden Sie sich erneut an.',
+  'status.sessionRestored': 'Willkommen zurück. Ihre Sitzung wurde wiederhergestellt.',
+  'status.remoteLogin': 'In einem anderen Tab als {name} angemeldet',
+  'status.accountRemoved': '{name} wurde von diesem Gerät entfernt.',
+  'status.accountRemovedNative': '{name} wurde von diesem Gerät entfernt. Ihr Browser bewahrt die gespeicherten Zugangsdaten weiterhin auf; löschen Sie sie in seinem Passwortmanager.',
+
+  // Process Log panel
+  'processLog.title': 'Prozessprotokoll',
+  'processLog.subtitle': 'Systemereignisse und Vorgänge in Echtzeit',
+  'processLog.search': 'Meldungen und Felder durchsuchen',
+  'processLog.searchLabel': 'Protokoll durchsuchen',
+  'processLog.level.debug': 'Debug',
+  'processLog.level.info': 'Info',
+  'processLog.level.success': 'Erfolg',
+  'processLog.level.error': 'Fehler',
+  'processLog.showPII': 'Personendaten zeigen',
+  'processLog.showPIIHint': 'Benutzernamen und E-Mail-Adressen in dieser Ansicht zeigen. Passwörter und Tokens werden nie aufgezeichnet, Exporte sind immer maskiert.',
+  'processLog.running': '(läuft…)',
+  'processLog.duration': '({ms} ms)',
+  'processLog.count': {
+    one: '{visible} von {count} Eintrag',
+    other: '{visible} von {count} Einträgen',
+  },
+  'processLog.exportFormat': 'Exportformat',
+  'processLog.export': 'Exportieren',
+  'processLog.clear': 'Leeren',
+  'processLog.view': 'Angezeigte Sitzungen',
+  'processLog.view.current': 'Diese Sitzung',
+  'processLog.view.all': 'Alle Sitzungen',
+  'processLog.view.compare': 'Vergleichen',
+  'processLog.session.current': 'Diese Sitzung, gestartet {time}',
+  'processLog.session.past': 'Sitzung gestartet {time}',
+  'processLog.session.entries': {
+    one: '{count} Eintrag',
+    other: '{count} Einträge',
+  },
+  'processLog.compare.first': 'Erste Sitzung zum Vergleich',
+  'processLog.compare.second': 'Zweite Sitzung zum Vergleich',
+  'processLog.clearHistory': {
+    one: '{count} frühere Sitzung vergessen',
+    other: '{count} frühere Sitzungen vergessen',
+  },
+  'processLog.jumpToLatest': 'Zum neuesten Eintrag',
+  'processLog.dropped': {
+    one: '{count} älterer Eintrag verworfen',
+    other: '{count} ältere Einträge verworfen',
+  },
+  'processLog.capacity': 'Aufbewahrte Einträge',
+  'processLog.capacityOption': '{count} behalten',
+  'processLog.keyboardHint': 'Mit den Pfeiltasten, Bild auf, Bild ab, Pos1 und Ende zwischen den Einträgen wechseln.',
+
+  // Environment report
+  'report.title': 'Umgebungsbericht',
+  'report.summary': '{pass} bestanden, {warn} Warnungen, {fail} fehlgeschlagen',
+  'report.running': 'Fähigkeiten werden geprüft…',
+  'report.rerun': 'Erneut prüfen',
+  'report.probe': 'Prüfung',
+  'report.status': 'Status',
+  'report.explanation': 'Erläuterung',
+  'report.status.pass': 'bestanden',
+  'report.status.warn': 'Warnung',
+  'report.status.fail': 'fehlgeschlagen',
+  'report.probeName.secure-context': 'Sicherer Kontext',
+  'report.probeName.secure-origin': 'Vertrauenswürdiger Ursprung',
+  'report.probeName.embedding': 'Einbettung',
+  'report.probeName.permissions-policy': 'Berechtigungsrichtlinie',
+  'report.probeName.credential-types': 'Anmeldedatentypen',
+  'report.probeName.prevent-silent-access': 'Stillen Zugriff verhindern',
+  'report.probeName.conditional-mediation': 'Passkey-Autofill',
+  'report.probeName.storage': 'Speicher',
+  'report.probeName.third-party-storage': 'Drittanbieter-Speicher',
+  'report.explanation.secure-context.pass': 'Die Seite läuft in einem sicheren Kontext, daher sind die Anmeldedaten-APIs verfügbar.',
+  'report.explanation.secure-context.fail': 'Außerhalb eines sicheren Kontexts sind die Anmeldedaten-APIs nicht verfügbar. Stellen Sie die Seite über HTTPS oder von localhost bereit.',
+  'report.explanation.secure-origin.pass': '{origin} ist ein potenziell vertrauenswürdiger Ursprung.',
+  'report.explanation.secure-origin.untrustworthy': '{origin} ist kein potenziell vertrauenswürdiger Ursprung. Verwenden Sie HTTPS oder für die lokale Entwicklung einen Loopback-Host.',
+  'report.explanation.secure-origin.insecureAncestor': 'Der Ursprung ist vertrauenswürdig, aber eine einbettende Seite nicht, daher ist der Kontext trotzdem unsicher.',
+  'report.explanation.embedding.pass': 'Die Seite ist nicht eingebettet, daher gelten keine Einschränkungen für Einbettungen.',
+  'report.explanation.embedding.crossOrigin': 'Die Seite liegt in einem ursprungsübergreifenden iframe. Passwort-Anmeldedaten sind nicht verfügbar, und Passkeys muss die einbettende Seite per allow-Attribut freigeben.',
+  'report.explanation.embedding.sameOrigin': 'Die Seite liegt in einem iframe desselben Ursprungs. Manche Browser zeigen Anmeldedialoge trotzdem nur auf Seiten der obersten Ebene.',
+  'report.explanation.permissions-policy.pass': 'publickey-credentials-get und publickey-credentials-create sind in diesem Dokument erlaubt.',
+  'report.explanation.permissions-policy.noApi': 'Der Browser stellt die Permissions-Policy-API nicht bereit, daher lässt sich die Freigabe nicht per Skript prüfen.',
+  'report.explanation.permissions-policy.blocked': 'Ein Permissions-Policy-Header oder ein allow-Attribut des iframes blockiert hier die Anmeldung oder Registrierung mit Passkeys.',
+  'report.explanation.credential-types.pass': 'PasswordCredential und FederatedCredential sind nativ implementiert.',
+  'report.explanation.credential-types.emulated': 'Dem Browser fehlt PasswordCredential oder FederatedCredential; das emulierte Backend schließt die Lücke.',
+  'report.explanation.credential-types.missing': 'navigator.credentials fehlt, daher kann nur das emulierte Backend verwendet werden.',
+  'report.explanation.prevent-silent-access.pass': 'Die Abmeldung kann verhindern, dass der Browser Anmeldedaten ohne Rückfrage herausgibt.',
+  'report.explanation.prevent-silent-access.missing': 'preventSilentAccess() fehlt; die Abmeldung stützt sich auf das Flag des emulierten Backends.',
+  'report.explanation.conditional-mediation.pass': 'Passkeys können beim automatischen Ausfüllen angeboten werden.',
+  'report.explanation.conditional-mediation.noPublicKey': 'PublicKeyCredential ist nicht verfügbar, daher können keine Passkeys verwendet werden.',
+  'report.explanation.conditional-mediation.unknown': 'Der Browser kann nicht melden, ob bedingte Vermittlung unterstützt wird; Passkeys funktionieren nur über den modalen Dialog.',
+  'report.explanation.conditional-mediation.unavailable': 'Passkeys werden beim automatischen Ausfüllen nicht angeboten; verwenden Sie die Passkey-Schaltfläche.',
+  'report.explanation.storage.pass': 'Alle von der Demo genutzten Speicher sind verfügbar.',
+  'report.explanation.storage.missing': 'Nicht verfügbar: {missing}. Das kann an privatem Surfen oder blockierten Websitedaten liegen; Einstellungen oder Sitzungen bleiben dann eventuell nicht erhalten.',
+  'report.explanation.third-party-storage.firstParty': 'Die Seite liegt in keinem ursprungsübergreifenden Frame, daher sind Cookies und Speicher Erstanbieter-Daten.',
+  'report.explanation.third-party-storage.unknown': 'Der Browser kann den Speicherzugriff nicht melden. Cookies und Speicher in diesem Frame sind eventuell von der Website der obersten Ebene getrennt.',
+  'report.explanation.third-party-storage.pass': 'Der Frame hat ungeteilten Speicherzugriff.',
+  'report.explanation.third-party-storage.blocked': 'Cookies und Speicher in diesem Frame sind partitioniert oder blockiert. Das SameSite=Strict-Sitzungscookie wird aus einem websiteübergreifenden Frame nicht gesendet, daher bleibt eine Anmeldung hier nicht erhalten, und der emulierte Speicher sowie gespeicherte Einstellungen sind von der Website der obersten Ebene getrennt.',
+  'report.explanation.probeFailed': 'Die Prüfung selbst konnte nicht ausgeführt werden.',
+  'embed.host': 'Eingebettet von {origin}',
+  'embed.hostUnknown': 'Eingebettet von einer Seite, die nicht ermittelt werden konnte',
+  'embed.limitations.title': 'Einschränkungen in diesem Frame',
+  'embed.blocked.title': 'Einbetten nicht erlaubt',
+  'embed.blocked.body': '{origin} steht nicht auf der Liste der erlaubten Hosts dieses Widgets, daher ist die Anmeldung hier deaktiviert.',
+
+  // Metrics panel
+  'metrics.title': 'Messwerte der Aufrufe',
+  'metrics.summary': {
+    one: '{count} gemessener Aufruf in dieser Sitzung',
+    other: '{count} gemessene Aufrufe in dieser Sitzung',
+  },
+  'metrics.empty': 'Noch keine Credential-Aufrufe gemessen.',
+  'metrics.exportFormat': 'Exportformat der Messwerte',
+  'metrics.export': 'Exportieren',
+  'metrics.clear': 'Leeren',
+  'metrics.operation': 'Vorgang',
+  'metrics.operation.detect': 'Unterstützungsprüfung',
+  'metrics.operation.authenticate': 'Authentifizierung',
+  'metrics.operation.passkeyCreate': 'Passkey create()',
+  'metrics.operation.passkeyGet': 'Passkey get()',
+  'metrics.outcome.success': 'OK',
+  'metrics.outcome.failure': 'Fehlgeschlagen',
+  'metrics.outcome.abort': 'Abgebrochen',
+  'metrics.max': 'Max.',
+  'metrics.distribution': 'Verteilung',
+  'metrics.ms': '{ms} ms',
+  'metrics.bucket.below': 'unter {ms} ms',
+  'metrics.bucket.above': '{ms} ms oder mehr',
+  'metrics.timeline': 'Zeitleiste der Sitzung',
+  'metrics.timelineHint': 'Aufrufe seit dem Laden der Seite (Sitzung {session}) in der Reihenfolge ihres Starts. Die Balken sind maßstabsgetreu.',
+
+  // Credential operations
+  'operation.pending': 'Warte auf {operation} …',
+  'operation.retrying': '{operation} wird wiederholt, Versuch {attempt} von {max} …',
+  'operation.aborted': '{operation} wurde abgebrochen',
+  'operation.timedOut': '{operation} hat nach {seconds} s das Zeitlimit überschritten',
+  'operation.cancel': 'Abbrechen',
+  'operation.settings.title': 'Zeitlimits und Wiederholungen',
+  'operation.settings.timeout': 'Zeitlimit (s, 0 = keins)',
+  'operation.settings.retries': 'Wiederholungen',
+  'operation.settings.note': 'Wiederholt werden nur vorübergehende Fehler. Eine abgelehnte Abfrage, ein Abbruch oder eine Zeitüberschreitung wird nie wiederholt.',
+
+  // Failure scenarios
+  'faults.title': 'Fehlerszenarien',
+  'faults.active': 'In navigator.credentials werden Fehler eingeschleust',
+  'faults.inactive': 'Aufrufe gehen direkt an navigator.credentials',
+  'faults.copyLink': 'Link kopieren',
+  'faults.copied': 'Kopiert',
+  'faults.sharePrompt': 'Diesen Link kopieren, um das Szenario zu teilen:',
+  'faults.scenario': 'Szenario',
+  'faults.custom': 'Benutzerdefiniert',
+  'faults.latency': 'Verzögerung (ms)',
+  'faults.note': 'Hängende Promises enden erst, wenn der Aufrufer sie abbricht. Der Operation-Runner wartet bei einer Zeitüberschreitung nicht länger auf {store} und {preventSilentAccess}, im Browser wirklich abgebrochen wird aber nur {get}.',
+  'faults.scenario.none': 'Normalbetrieb',
+  'faults.scenario.dismissed': 'Nutzer schließt jede Abfrage',
+  'faults.scenario.security': 'Sicherheitsbeschränkungen',
+  'faults.scenario.aborted': 'Abruf abgebrochen',
+  'faults.scenario.slow': 'Langsamer Passwortmanager',
+  'faults.scenario.hung': 'Hängende Abfragen',
+  'faults.scenario.empty': 'Keine Anmeldeinformation zurückgegeben',
+  'faults.scenario.storage-fails': 'Speichern und Abmelde-Aufräumen schlagen fehl',
+  'faults.scenario.flaky': 'Sporadische Fehler',
+  'faults.fault.none': 'Kein Fehler',
+  'faults.fault.latency': 'Verzögerung',
+  'faults.fault.hang': 'Hängendes Promise',
+  'faults.fault.null': 'Mit null auflösen',
+  'faults.fault.flaky': 'Jeder zweite Aufruf scheitert',
+  'faults.description.none': 'Die echte API aufrufen.',
+  'faults.description.NotAllowedError': 'Der Nutzer hat die Abfrage geschlossen oder der Browser hat sie abgelehnt.',
+  'faults.description.SecurityError': 'Der Ursprung oder Kontext darf die API nicht verwenden.',
+  'faults.description.AbortError': 'Der Vorgang wurde vor seinem Ende abgebrochen.',
+  'faults.description.latency': 'Warten, dann die echte API aufrufen.',
+  'faults.description.hang': 'Nie abschließen, außer ein AbortSignal bricht ab.',
+  'faults.description.null': 'Mit null auflösen, wie get(), wenn nichts zurückgegeben werden kann.',
+  'faults.description.flaky': 'Bei jedem zweiten Aufruf einen vorübergehenden UnknownError werfen, sodass ein erneuter Versuch gelingt.',
+
+  // API playground
+  'playground.title': 'API-Spielwiese',
+  'playground.subtitle': 'Optionen zusammenstellen, die API aufrufen und den Code kopieren',
+  'playground.method': 'Methode',
+  'playground.credentialType': 'Typ der Anmeldeinformation',
+  'playground.providers': 'providers (kommagetrennte Ursprünge)',
+  'playground.anyAttachment': '(beliebig)',
+  'playground.abortAfter': 'AbortSignal.timeout (ms, 0 für keines)',
+  'playground.run': 'Ausführen',
+  'playground.running': 'Warte auf den Browser…',
+  'playground.resolved': 'Nach {ms} ms aufgelöst',
+  'playground.rejected': 'Nach {ms} ms mit {name} abgelehnt',
+  'playground.snippet': 'TypeScript',
+  'playground.copy': 'Kopieren',
+  'playground.copied': 'Kopiert',
+
+  // Process Log messages
+  'log.environmentCheck': 'Prüfung der Systemumgebung',
+  'log.systemInformation': 'Systeminformationen',
+  'log.probeResult': '{name}: {status}',
+  'log.passkeyCapabilities': 'Passkey-Fähigkeiten (WebAuthn)',
+  'log.faultScenarioLoaded': 'Fehlerszenario aus der URL geladen',
+  'log.faultInjected': 'Fehler eingeschleust',
+  'log.crossTabUnavailable': 'Sitzungsabgleich zwischen Tabs nicht verfügbar',
+  'log.localeChanged': 'Sprache geändert',
+  'log.sessionStarted': 'Sitzung gestartet',
+  'log.backendSelected': 'Backend für Anmeldedaten gewählt',
+  'log.noBackend': 'Kein Backend für Anmeldedaten verfügbar',
+  'log.credentialUnreadable': 'Gespeicherte Anmeldedaten übersprungen, die nicht entschlüsselt werden konnten',
+  'log.autoSignIn': 'Automatische Anmeldung',
+  'log.waitingForAutofill': 'Warte auf die Auswahl einer Anmeldeinformation aus dem Autofill',
+  'log.conditionalPasskeysOnly': 'Bedingte Vermittlung gilt nur für Passkeys; es wurden keine Passwort-Anmeldedaten angefordert',
+  'log.passkeyAutofillUnavailable': 'Dieser Browser kann Passkeys nicht beim automatischen Ausfüllen anbieten',
+  'log.silentAccessBlocked': 'Stiller Zugriff blockiert',
+  'log.noCredential': 'Keine Anmeldeinformation zurückgegeben',
+  'log.federatedRetrieved': 'Föderierte Anmeldeinformation abgerufen',
+  'log.redirectingToProvider': 'Weiterleitung zum Anbieter',
+  'log.passwordRetrieved': 'Passwort-Anmeldeinformation abgerufen',
+  'log.retrievalDenied': 'Abruf der Anmeldeinformation verweigert',
+  'log.retrievalFailed': 'Abruf der Anmeldeinformation fehlgeschlagen',
+  'log.federatedStart': 'Anmeldung mit {provider} wird gestartet',
+  'log.federatedCallback': 'Rückruf der föderierten Anmeldung von {provider}',
+  'log.federatedFailed': 'Föderierte Anmeldung fehlgeschlagen',
+  'log.authorizationCodeReceived': 'Autorisierungscode erhalten, State geprüft',
+  'log.codeExchange': 'Code-Austausch',
+  'log.codeExchangeFailed': 'Code-Austausch fehlgeschlagen',
+  'log.identityVerificationFailed': 'Identitätsprüfung fehlgeschlagen',
+  'log.federatedSucceeded': 'Föderierte Authentifizierung erfolgreich',
+  'log.federatedStorageSkipped': 'Speichern der föderierten Anmeldeinformation übersprungen',
+  'log.passkeyRegistration': 'Passkey-Registrierung',
+  'log.registrationOptionsRequested': 'Registrierungsoptionen angefordert',
+  'log.authenticationOptionsRequested': 'Anmeldeoptionen angefordert',
+  'log.challengeReceived': 'Challenge erhalten',
+  'log.attestationVerificationRequested': 'Prüfung der Attestierung angefordert',
+  'log.passkeyRegistered': 'Passkey registriert',
+  'log.passkeyRegistrationFailed': 'Passkey-Registrierung fehlgeschlagen',
+  'log.passkeySignIn': 'Passkey-Anmeldung',
+  'log.assertionVerificationRequested': 'Prüfung der Assertion angefordert',
+  'log.passkeySucceeded': 'Passkey-Authentifizierung erfolgreich',
+  'log.passkeySignInFailed': 'Passkey-Anmeldung fehlgeschlagen',
+  'log.mediationChanged': 'Vermittlungsmodus geändert',
+  'log.storageSkipped': 'Speichern der Anmeldeinformation übersprungen',
+  'log.breachCheck': 'Prüfung auf kompromittierte Passwörter',
+  'log.breachFound': 'Passwort in Datenlecks gefunden; Nachfrage vor dem Speichern',
+  'log.storageDeclined': 'Speichern der Anmeldeinformation abgelehnt',
+  'log.breachCheckUnavailable': 'Datenleck-Prüfung nicht verfügbar; weiter ohne sie',
+  'log.storage': 'Speichern der Anmeldeinformation',
+  'log.storageFailed': 'Speichern der Anmeldeinformation fehlgeschlagen',
+  'log.operationPending': 'Warte auf {operation}',
+  'log.operationRetry': '{operation} ist vorübergehend fehlgeschlagen; neuer Versuch',
+  'log.operationTimedOut': 'Zeitlimit für {operation} überschritten',
+  'log.operationAborted': '{operation} wurde abgebrochen',
+  'log.operationPolicyChanged': 'Zeitlimit und Wiederholungen für {operation} geändert',
+  'log.login': 'Anmeldung',
+  'log.validationFailed': 'Validierung fehlgeschlagen',
+  'log.inputValidated': 'Eingabe validiert',
+  'log.processingAuthentication': 'Authentifizierung wird verarbeitet',
+  'log.authenticationRequest': 'Authentifizierungsanfrage',
+  'log.authenticationRequestFailed': 'Authentifizierungsanfrage fehlgeschlagen',
+  'log.accountLocked': 'Konto gesperrt',
+  'log.authenticationRejected': 'Authentifizierung abgelehnt',
+  'log.sessionEstablished': 'Sitzung aufgebaut',
+  'log.secondFactorRequired': 'Passwort akzeptiert; zweiter Faktor erforderlich',
+  'log.secondFactorVerified': 'Zweiter Faktor bestätigt',
+  'log.secondFactorRejected': 'Code für den zweiten Faktor abgelehnt',
+  'log.secondFactorFailed': 'Zweiter Faktor fehlgeschlagen',
+  'log.secondFactorCancelled': 'Zweiter Faktor abgebrochen',
+  'log.totpRequest': 'Zwei-Faktor-Anfrage',
+  'log.totpEnrollment': 'Zwei-Faktor-Einrichtung',
+  'log.totpSecretIssued': 'TOTP-Geheimnis ausgegeben',
+  'log.totpConfirmation': 'Zwei-Faktor-Bestätigung',
+  'log.totpEnabled': 'Zwei-Faktor-Authentifizierung aktiviert',
+  'log.totpDisabling': 'Zwei-Faktor-Deaktivierung',
+  'log.passwordGenerated': 'Passwort erzeugt',
+  'log.signUp': 'Registrierung',
+  'log.registrationPolicyViolated': 'Passwortrichtlinie verletzt; Registrierung blockiert',
+  'log.policySatisfied': 'Passwortrichtlinie erfüllt',
+  'log.createAccount': 'Konto erstellen',
+  'log.registrationUnreachable': 'Registrierungsdienst nicht erreichbar',
+  'log.registrationRejected': 'Registrierung abgelehnt',
+  'log.accountCreated': 'Konto erstellt; Sitzung aufgebaut',
+  'log.changePassword': 'Passwort ändern',
+  'log.changePolicyViolated': 'Passwortrichtlinie verletzt; Änderung blockiert',
+  'log.updatePassword': 'Passwort aktualisieren',
+  'log.serviceUnreachable': 'Authentifizierungsdienst nicht erreichbar',
+  'log.passwordChangeRejected': 'Passwortänderung abgelehnt',
+  'log.passwordUpdated': 'Passwort auf dem Server aktualisiert',
+  'log.replacingCredential': 'Gespeicherte Anmeldeinformation wird ersetzt',
+  'log.logout': 'Abmeldung',
+  'log.remoteLogout': 'Abmeldung aus einem anderen Tab empfangen',
+  'log.localSessionCleared': 'Lokaler Sitzungszustand gelöscht',
+  'log.endServerSession': 'Serversitzung beenden',
+  'log.serverLogoutFailed': 'Abmeldung am Server fehlgeschlagen',
+  'log.serverSessionAlreadyEnded': 'Serversitzung bereits vom auslösenden Tab beendet',
+  'log.preventSilentAccessFailed': 'Verhindern des stillen Zugriffs fehlgeschlagen',
+  'log.sessionInvalid': 'Sitzung auf dem Server nicht mehr gültig',
+  'log.sessionExtended': 'Sitzung verlängert',
+  'log.sessionActivity': 'Sitzungsaktivität gemeldet',
+  'log.sessionRefreshFailed': 'Auffrischen der Sitzung fehlgeschlagen',
+  'log.restoreSession': 'Gespeicherte Sitzung wiederherstellen',
+  'log.serverSessionChecked': 'Serversitzung geprüft',
+  'log.serverSessionEnded': 'Serversitzung ist beendet; lokale Abmeldung',
+  'log.restoreUnreachable': 'Authentifizierungsdienst nicht erreichbar; lokale Sitzung bleibt bestehen',
+  'log.remoteLogin': 'Anmeldung aus einem anderen Tab empfangen',
+  'log.remoteLogoutIgnored': 'Abmeldung aus einem anderen Tab ignoriert; bereits abgemeldet',
+  'log.idleTimeout': 'Inaktivitätslimit erreicht',
+  'log.sessionExpired': 'Sitzung abgelaufen',
+  'log.switchAccount': 'Konto wird gewechselt',
+  'log.knownAccountSelected': 'Bekanntes Konto ausgewählt',
+  'log.removeAccount': 'Konto von diesem Gerät entfernen',
+  'log.removedFromKnownAccounts': 'Aus der Liste bekannter Konten entfernt',
+  'log.storedCredentialDeleted': 'Gespeicherte Anmeldeinformation gelöscht',
+  'log.storedCredentialKept': 'Gespeicherte Anmeldeinformation belassen',
+  'log.noStoredCredential': 'Keine gespeicherte Anmeldeinformation für dieses Konto',
+  'log.storedCredentialDeleteFailed': 'Gespeicherte Anmeldeinformation konnte nicht gelöscht werden',
+  'log.passkeyKept': 'Passkey bleibt auf dem Authenticator',
+  'log.loginFormSubmitted': 'Anmeldeformular gesendet',
+  'log.playgroundCall': 'Spielwiese: {call}',
+  'log.snippetCopyFailed': 'Code-Schnipsel konnte nicht kopiert werden',
+  'log.embedMode': 'Einbettungsmodus aktiv',
+  'log.embedCommand': 'Befehl von der Host-Seite',
+  'log.embedMessageRejected': 'Nachricht von einem nicht erlaubten Ursprung ignoriert',
+  'log.accessibilityCheck': 'Barrierefreiheitsprüfung',
+  'log.accessibilityViolation': 'Verstoß gegen die Barrierefreiheit',
+  'log.accessibilityPassed': 'Keine Verstöße gegen WCAG 2.1 AA gefunden',
+  'log.accessibilityCheckFailed': 'Barrierefreiheitsprüfung konnte nicht ausgeführt werden',
+};
+
+export default de;
@@ -0,0 +1,562 @@
+import type { Message } from '../i18n';
+
+// Source catalog: every other locale is checked against these keys. Log field
+// names and values stay in English so exported logs read the same everywhere.
+const en = {
+  // Shell
+  'locale.label': 'Language',
+  'theme.group': 'Theme',
+  'theme.light': 'Light theme',
+  'theme.dark': 'Dark theme',
+  'theme.system': 'Match system theme',
+  'theme.highContrast': 'High contrast log',
+  'a11y.skipToLog': 'Skip to Process Log',
+  'footer.license': 'This software is released under the Apache-2.0 License. See the LICENSE file for details',
+
+  // Introduction and documentation
+  'intro.title': 'Password Credentials API',
+  'intro.body': 'This demo showcases the Password Credentials Management API, a modern web standard that enables secure credential storage in your browser. It allows websites to:',
+  'intro.store': 'Securely store login credentials',
+  'intro.autofill': 'Auto-fill login forms safely',
+  'intro.manage': 'Manage stored credentials',
+  'docs.title': 'Credential Management API Documentation',
+  'docs.subtitle': 'Comprehensive guide to browser credential management',
+  'docs.concepts.title': 'Core Concepts',
+  'docs.concepts.body': 'The Credential Management API provides a programmatic interface between the browser and web applications to seamlessly and securely handle user credentials. It streamlines the authentication process while maintaining high security standards.',
+  'docs.concepts.storage': 'Secure storage of user credentials in the browser\'s credential manager',
+  'docs.concepts.autofill': 'Automated form filling for stored credentials',
+  'docs.concepts.interface': 'Standardized interface for various authentication methods',
+  'docs.concepts.encryption': 'Enhanced security through browser-level encryption',
+  'docs.methods.title': 'API Methods',
+  'docs.methods.store': 'Securely stores user credentials in the browser\'s credential manager. Credentials are encrypted and bound to the origin.',
+  'docs.methods.get': 'Retrieves stored credentials for the current origin, enabling automatic sign-in capabilities.',
+  'docs.methods.preventSilentAccess': 'Prevents automatic sign-in, typically called after a user logs out.',
+  'docs.security.title': 'Security Features',
+  'docs.security.origin.title': 'Origin Binding',
+  'docs.security.origin.body': 'Credentials are strictly bound to the origin that stored them, preventing cross-site access.',
+  'docs.security.context.title': 'Secure Context',
+  'docs.security.context.body': 'API only works in secure contexts (HTTPS or localhost), ensuring data security in transit.',
+  'docs.security.mediation.title': 'User Mediation',
+  'docs.security.mediation.body': 'Browser requires explicit user consent before storing or retrieving credentials.',
+  'docs.security.encryption.title': 'Encryption',
+  'docs.security.encryption.body': 'Credentials are encrypted at rest using the browser\'s security mechanisms.',
+  'docs.flow.title': 'Implementation Flow',
+  'docs.flow.authentication.title': 'Authentication',
+  'docs.flow.authentication.body': 'User submits credentials through a login form.',
+  'docs.flow.validation.title': 'Validation',
+  'docs.flow.validation.body': 'Application validates credentials with the authentication server.',
+  'docs.flow.storage.title': 'Storage',
+  'docs.flow.storage.body': 'On successful authentication, credentials are stored using {method}.',
+  'docs.flow.autofill.title': 'Auto-fill',
+  'docs.flow.autofill.body': 'On subsequent visits, stored credentials can be retrieved and auto-filled.',
+  'docs.flow.logout.title': 'Logout',
+  'docs.flow.logout.body': 'Silent access is prevented using {method}.',
+
+  // Sign-in view
+  'signIn.title': 'Welcome Back',
+  'signIn.subtitle': 'Please sign in to continue',
+  'signIn.demoAccount': 'Demo account: {username} / {password}',
+  'signIn.username': 'Username',
+  'signIn.usernamePlaceholder': 'Enter your username',
+  'signIn.password': 'Password',
+  'signIn.passwordPlaceholder': 'Enter your password',
+  'signIn.submitAndSave': 'Login & Save Credentials',
+  'signIn.submit': 'Login',
+  'signIn.createAccount': 'New here? Create an account',
+  'signIn.withProvider': 'Sign in with {provider}',
+  'signIn.withPasskey': 'Sign in with a Passkey',
+  'signIn.waitingForAuthenticator': 'Waiting for authenticator...',
+  'signIn.limited.title': 'Limited Functionality',
+  'signIn.limited.body': 'Credential management is not available. The app will work, but won\'t save your login details.',
+  'signIn.limited.insecure': 'To enable this feature, please access the site via HTTPS or localhost.',
+  'signIn.error.usernameRequired': 'Enter your username',
+  'signIn.error.passwordRequired': 'Enter your password',
+  'backend.label': 'Credential backend',
+  'backend.forceEmulated': 'Force emulated',
+  'mediation.label': 'Automatic sign-in mediation',
+  'mediation.silent': 'Silent',
+  'mediation.silent.description': 'Never prompt. Returns null unless a credential can be handed over without user interaction.',
+  'mediation.optional': 'Optional',
+  'mediation.optional.description': 'Sign in silently when allowed, otherwise let the browser show its account chooser.',
+  'mediation.required': 'Required',
+  'mediation.required.description': 'Always show the account chooser, even if silent access would be allowed.',
+  'mediation.conditional': 'Conditional',
+  'mediation.conditional.description': 'Wait until the user picks a credential from the form\'s autofill suggestions.',
+  'mediation.retrieve': 'Sign In with Stored Credential',
+  'mediation.waiting': 'Waiting for credential...',
+
+  // Sign-up and password change
+  'signUp.title': 'Create an Account',
+  'signUp.subtitle': 'Your browser can save the new password for you',
+  'signUp.username': 'Username',
+  'signUp.usernamePlaceholder': 'Choose a username',
+  'signUp.displayName': 'Display name',
+  'signUp.optional': '(optional)',
+  'signUp.displayNamePlaceholder': 'How should we greet you?',
+  'signUp.password': 'Password',
+  'signUp.submit': 'Create Account',
+  'signUp.submitting': 'Creating account...',
+  'signUp.signIn': 'Already have an account? Sign in',
+  'changePassword.open': 'Change Password',
+  'changePassword.current': 'Current password',
+  'changePassword.new': 'New password',
+  'changePassword.cancel': 'Cancel',
+  'changePassword.submit': 'Change Password',
+  'changePassword.submitting': 'Saving...',
+  'newPassword.generate': 'Generate',
+  'newPassword.placeholder': 'Choose a password',
+  'newPassword.show': 'Show password',
+  'newPassword.hide': 'Hide password',
+
+  // Password policy and strength
+  'strength.label': 'Strength: {label}',
+  'strength.bits': '~{bits} bits',
+  'strength.0': 'Very weak',
+  'strength.1': 'Weak',
+  'strength.2': 'Fair',
+  'strength.3': 'Strong',
+  'strength.4': 'Very strong',
+  'strength.feedback.commonWord': 'Contains a common word ("{word}")',
+  'strength.feedback.repeats': 'Repeats the same character',
+  'strength.feedback.sequence': 'Contains a sequence like "abc" or "123"',
+  'strength.feedback.keyboard': 'Contains a keyboard pattern',
+  'strength.feedback.year': 'Contains a year',
+  'strength.feedback.username': 'Contains the username',
+  'policy.met': 'Meets the password policy',
+  'policy.minLength': 'Use at least {min} characters',
+  'policy.maxLength': 'Use at most {max} characters',
+  'policy.characterClasses': 'Mix at least {count} of: lowercase, uppercase, digits, symbols',
+  'policy.containsUsername': 'Must not contain the username',
+  'policy.strength': 'Must be rated at least "{label}"',
+  'policy.reused': 'Choose a password different from the current one',
+
+  // Signed-in view
+  'account.welcome': 'Welcome, {name}!',
+  'account.summary': '{id} · signed in with {method}',
+  'account.loggedIn': 'You\'re securely logged in',
+  'account.createPasskey': 'Create a Passkey',
+  'account.switch': 'Switch Account',
+  'account.waitingForChooser': 'Waiting for account chooser...',
+  'account.remove': 'Remove this account from this device',
+  'account.logout': 'Logout',
+  'method.password': 'password',
+  'method.federated': 'identity provider',
+  'method.passkey': 'passkey',
+  'breach.title': 'This password has appeared in a data breach',
+  'breach.body': {
+    one: 'It was found once in known breaches. Saving it lets the browser keep filling in a compromised password.',
+    other: 'It was found {count} times in known breaches. Saving it lets the browser keep filling in a compromised password.',
+  },
+  'breach.decline': 'Don\'t save',
+  'breach.accept': 'Save anyway',
+  'expiry.idle': 'You will be signed out for inactivity in {remaining}.',
+  'expiry.absolute': 'Your session ends in {remaining}. Sign in again to continue after that.',
+  'expiry.idleAlert': 'You will soon be signed out for inactivity.',
+  'expiry.absoluteAlert': 'Your session will end soon.',
+  'expiry.extend': 'Stay signed in',
+  'accounts.title': 'Accounts on this device',
+  'accounts.signsInWith': 'Signs in with {method}',
+  'accounts.remove': 'Remove {name} from this device',
+  'chooser.title': 'Choose an account',
+  'chooser.emulated': '{origin} (emulated chooser)',
+  'chooser.dismiss': 'Dismiss account chooser',
+
+  // Two-factor authentication
+  'secondFactor.prompt.title': 'Two-factor authentication',
+  'secondFactor.prompt.body': 'Enter the {digits}-digit code from your authenticator app.',
+  'secondFactor.prompt.recoveryBody': 'Enter one of the recovery codes you saved when you set up two-factor authentication. Each code works once.',
+  'secondFactor.code': 'Authentication code',
+  'secondFactor.recoveryCode': 'Recovery code',
+  'secondFactor.verify': 'Verify',
+  'secondFactor.verifying': 'Verifying...',
+  'secondFactor.useRecoveryCode': 'Use a recovery code',
+  'secondFactor.useAuthenticator': 'Use the authenticator app',
+  'secondFactor.cancel': 'Cancel',
+  'secondFactor.error.invalid': 'That code is not valid. Check the app and try again.',
+  'secondFactor.error.replayed': 'That code was already used. Wait for the next one.',
+  'secondFactor.setup.open': 'Set up two-factor authentication',
+  'secondFactor.setup.title': 'Set up two-factor authentication',
+  'secondFactor.setup.scan': 'Scan this QR code with an authenticator app. It is drawn in this page, so the secret is not sent anywhere else.',
+  'secondFactor.setup.qrLabel': 'QR code for the authenticator app',
+  'secondFactor.setup.manual': 'Or enter this key by hand:',
+  'secondFactor.setup.confirmLabel': 'Enter the {digits}-digit code the app shows',
+  'secondFactor.setup.confirm': 'Turn on',
+  'secondFactor.setup.failed': 'Two-factor authentication could not be set up',
+  'secondFactor.recovery.title': 'Save your recovery codes',
+  'secondFactor.recovery.body': 'Each code signs you in once if you lose the authenticator. They are shown only now.',
+  'secondFactor.recovery.copy': 'Copy codes',
+  'secondFactor.recovery.copied': 'Copied',
+  'secondFactor.recovery.done': 'I have saved them',
+  'secondFactor.enabled': 'Two-factor authentication is on',
+  'secondFactor.recoveryCodesLeft': {
+    one: '1 recovery code left',
+    other: '{count} recovery codes left',
+  },
+  'secondFactor.disable.open': 'Turn off',
+  'secondFactor.disable.label': 'Enter a current code to turn off two-factor authentication',
+  'secondFactor.disable.confirm': 'Turn off',
+
+  // Status messages
+  'status.insecureContext': 'Credential management requires a secure context (HTTPS or localhost)',
+  'status.unsupported': 'Your browser does not support credential management',
+  'status.providerCancelled': 'Sign-in with provider was cancelled',
+  'status.providerIncomplete': 'Sign-in with provider did not complete',
+  'status.providerFailed': 'Sign-in with provider failed',
+  'status.providerSignedIn': 'Signed in with {provider}',
+  'status.providerSignedInSaved': 'Signed in with {provider}. Account saved for future use.',
+  'status.passkeyCreated': 'Passkey created. You can now sign in without a password.',
+  'status.passkeyCreateFailed': 'Could not create a passkey',
+  'status.passkeySignedIn': 'Signed in with a passkey',
+  'status.passkeySignInFailed': 'Passkey sign-in did not complete',
+  'status.serviceUnreachable': 'Could not reach the authentication service',
+  'status.locked': {
+    one: 'Account locked after too many failed attempts. Try again in {count} second.',
+    other: 'Account locked after too many failed attempts. Try again in {count} seconds.',
+  },
+  'status.invalidCredentials': {
+    one: 'Invalid username or password. {count} attempt remaining.',
+    other: 'Invalid username or password. {count} attempts remaining.',
+  },
+  'status.loginFailed': 'Login failed',
+  'status.secondFactorCancelled': 'Sign-in cancelled. Nothing was saved.',
+  'status.secondFactorFailed': 'The sign-in attempt expired or had too many wrong codes. Enter your password again.',
+  'status.secondFactorDisabled': 'Two-factor authentication is off.',
+  'status.loggedIn': 'Successfully logged in!',
+  'status.loggedInSaved': 'Login successful! Credentials saved for future use.',
+  'status.loggedInBreached': 'Login successful! Credentials were not saved because the password has been breached.',
+  'status.loggedInSaveFailed': 'Login successful! (Could not save credentials)',
+  'announce.loggedIn': 'Signed in as {name}',
+  'announce.loggedOut': 'Signed out',
+  'announce.credentialSaved': 'Credentials saved to the browser',
+  'announce.storageFailed': 'Could not save credentials to the browser',
+  'status.registrationFailed': 'Registration failed',
+  'status.accountCreated': 'Account created and signed in.',
+  'status.accountCreatedSaved': 'Account created. Credentials saved for future sign-ins.',
+  'status.passwordChangeFailed': 'Password change failed',
+  'status.passwordChangedSaved': 'Password changed. The saved credential was updated.',
+  'status.passwordChanged': 'Password changed. Remember to update any saved copies.',
+  'status.signedOutIdle': 'You were signed out after a period of inactivity.',
+  'status.sessionEnded': 'Your session has ended. Please sign in again.',
+  'status.sessionRestored': 'Welcome back. Your session was restored.',
+  'status.remoteLogin': 'Signed in as {name} in another tab',
+  'status.accountRemoved': '{name} was removed from this device.',
+  'status.accountRemovedNative': '{name} was removed from this device. Your browser still keeps the saved credential; delete it from its password manager.',
+
+  // Process Log panel
+  'processLog.title': 'Process Log',
+  'processLog.subtitle': 'Real-time system events and operations',
+  'processLog.search': 'Search messages and fields',
+  'processLog.searchLabel': 'Search log',
+  'processLog.level.debug': 'debug',
+  'processLog.level.info': 'info',
+  'processLog.level.success': 'success',
+  'processLog.level.error': 'error',
+  'processLog.showPII': 'Show PII',
+  'processLog.showPIIHint': 'Reveal usernames and emails in this view. Passwords and tokens are never recorded, and exports are always masked.',
+  'processLog.running': '(running…)',
+  'processLog.duration': '({ms} ms)',
+  'processLog.count': {
+    one: '{visible} of {count} entry',
+    other: '{visible} of {count} entries',
+  },
+  'processLog.exportFormat': 'Export format',
+  'processLog.export': 'Export',
+  'processLog.clear': 'Clear',
+  'processLog.view': 'Sessions to show',
+  'processLog.view.current': 'This session',
+  'processLog.view.all': 'All sessions',
+  'processLog.view.compare': 'Compare',
+  'processLog.session.current': 'This session, started {time}',
+  'processLog.session.past': 'Session started {time}',
+  'processLog.session.entries': {
+    one: '{count} entry',
+    other: '{count} entries',
+  },
+  'processLog.compare.first': 'First session to compare',
+  'processLog.compare.second': 'Second session to compare',
+  'processLog.clearHistory': {
+    one: 'Forget {count} earlier session',
+    other: 'Forget {count} earlier sessions',
+  },
+  'processLog.jumpToLatest': 'Jump to latest',
+  'processLog.dropped': {
+    one: '{count} older entry dropped',
+    other: '{count} older entries dropped',
+  },
+  'processLog.capacity': 'Entries to keep',
+  'processLog.capacityOption': 'Keep {count}',
+  'processLog.keyboardHint': 'Use the arrow keys, Page Up, Page Down, Home and End to move between entries.',
+
+  // Environment report
+  'report.title': 'Environment Report',
+  'report.summary': '{pass} passed, {warn} warnings, {fail} failed',
+  'report.running': 'Running capability probes…',
+  'report.rerun': 'Re-run',
+  'report.probe': 'Probe',
+  'report.status': 'Status',
+  'report.explanation': 'Explanation',
+  'report.status.pass': 'pass',
+  'report.status.warn': 'warn',
+  'report.status.fail': 'fail',
+  'report.probeName.secure-context': 'Secure context',
+  'report.probeName.secure-origin': 'Trustworthy origin',
+  'report.probeName.embedding': 'Embedding',
+  'report.probeName.permissions-policy': 'Permissions policy',
+  'report.probeName.credential-types': 'Credential types',
+  'report.probeName.prevent-silent-access': 'Prevent silent access',
+  'report.probeName.conditional-mediation': 'Passkey autofill',
+  'report.probeName.storage': 'Storage',
+  'report.probeName.third-party-storage': 'Third-party storage',
+  'report.explanation.secure-context.pass': 'The page runs in a secure context, so credential APIs are exposed.',
+  'report.explanation.secure-context.fail': 'Credential APIs are hidden outside a secure context. Serve the page over HTTPS or from localhost.',
+  'report.explanation.secure-origin.pass': '{origin} is a potentially trustworthy origin.',
+  'report.explanation.secure-origin.untrustworthy': '{origin} is not a potentially trustworthy origin. Use HTTPS, or a loopback host for local development.',
+  'report.explanation.secure-origin.insecureAncestor': 'The origin is trustworthy, but an embedding ancestor is not, so the context is still insecure.',
+  'report.explanation.embedding.pass': 'The page is top-level, so no embedding restrictions apply.',
+  'report.explanation.embedding.crossOrigin': 'The page is in a cross-origin iframe. Password credentials are unavailable, and passkeys need the embedder to delegate them with an allow attribute.',
+  'report.explanation.embedding.sameOrigin': 'The page is in a same-origin iframe. Some browsers still limit credential prompts to top-level pages.',
+  'report.explanation.permissions-policy.pass': 'Both publickey-credentials-get and publickey-credentials-create are allowed in this document.',
+  'report.explanation.permissions-policy.noApi': 'The browser does not expose the Permissions Policy API, so delegation cannot be checked from script.',
+  'report.explanation.permissions-policy.blocked': 'A Permissions-Policy header or iframe allow attribute blocks passkey sign-in or registration here.',
+  'report.explanation.credential-types.pass': 'PasswordCredential and FederatedCredential are implemented natively.',
+  'report.explanation.credential-types.emulated': 'The browser lacks PasswordCredential or FederatedCredential; the emulated backend fills the gap.',
+  'report.explanation.credential-types.missing': 'navigator.credentials is missing, so only the emulated backend can be used.',
+  'report.explanation.prevent-silent-access.pass': 'Sign-out can stop the browser from handing out credentials silently.',
+  'report.explanation.prevent-silent-access.missing': 'preventSilentAccess() is missing; sign-out relies on the emulated backend\'s flag.',
+  'report.explanation.conditional-mediation.pass': 'Passkeys can be offered in form autofill.',
+  'report.explanation.conditional-mediation.noPublicKey': 'PublicKeyCredential is not available, so passkeys cannot be used.',
+  'report.explanation.conditional-mediation.unknown': 'The browser cannot report conditional mediation support; passkeys work through the modal prompt only.',
+  'report.explanation.conditional-mediation.unavailable': 'Passkeys are not offered in autofill; use the explicit passkey button.',
+  'report.explanation.storage.pass': 'All storage used by the demo is available.',
+  'report.explanation.storage.missing': 'Unavailable: {missing}. Private browsing or blocked site data can cause this, and settings or sessions may not persist.',
+  'report.explanation.third-party-storage.firstParty': 'The page is not in a cross-origin frame, so its cookies and storage are first-party.',
+  'report.explanation.third-party-storage.unknown': 'The browser cannot report storage access. Cookies and storage in this frame may be partitioned from the top-level site.',
+  'report.explanation.third-party-storage.pass': 'The frame has unpartitioned storage access.',
+  'report.explanation.third-party-storage.blocked': 'Cookies and storage in this frame are partitioned or blocked. The SameSite=Strict session cookie is not sent from a cross-site frame, so sign-in here does not persist, and the emulated store and saved settings are separate from the top-level site.',
+  'report.explanation.probeFailed': 'The probe itself failed to run.',
+  'embed.host': 'Embedded by {origin}',
+  'embed.hostUnknown': 'Embedded by a page that could not be identified',
+  'embed.limitations.title': 'Limits in this frame',
+  'embed.blocked.title': 'Embedding not allowed',
+  'embed.blocked.body': '{origin} is not on this widget\'s list of allowed hosts, so sign-in is disabled here.',
+
+  // Metrics panel
+  'metrics.title': 'Operation Metrics',
+  'metrics.summary': {
+    one: '{count} measured call this session',
+    other: '{count} measured calls this session',
+  },
+  'metrics.empty': 'No credential calls measured yet.',
+  'metrics.exportFormat': 'Metrics export format',
+  'metrics.export': 'Export',
+  'metrics.clear': 'Clear',
+  'metrics.operation': 'Operation',
+  'metrics.operation.detect': 'Support detection',
+  'metrics.operation.authenticate': 'Authentication',
+  'metrics.operation.passkeyCreate': 'Passkey create()',
+  'metrics.operation.passkeyGet': 'Passkey get()',
+  'metrics.outcome.success': 'OK',
+  'metrics.outcome.failure': 'Failed',
+  'metrics.outcome.abort': 'Aborted',
+  'metrics.max': 'Max',
+  'metrics.distribution': 'Distribution',
+  'metrics.ms': '{ms} ms',
+  'metrics.bucket.below': 'under {ms} ms',
+  'metrics.bucket.above': '{ms} ms or more',
+  'metrics.timeline': 'Session timeline',
+  'metrics.timelineHint': 'Calls in this page load (session {session}), in the order they started. Bars are to scale.',
+
+  // Credential operations
+  'operation.pending': 'Waiting for {operation}…',
+  'operation.retrying': 'Retrying {operation}, attempt {attempt} of {max}…',
+  'operation.aborted': '{operation} was cancelled',
+  'operation.timedOut': '{operation} timed out after {seconds} s',
+  'operation.cancel': 'Cancel',
+  'operation.settings.title': 'Timeouts and retries',
+  'operation.settings.timeout': 'Timeout (s, 0 = none)',
+  'operation.settings.retries': 'Retries',
+  'operation.settings.note': 'Only transient errors are retried. A declined prompt, a cancel or a timeout is never retried.',
+
+  // Failure scenarios
+  'faults.title': 'Failure Scenarios',
+  'faults.active': 'Faults are being injected into navigator.credentials',
+  'faults.inactive': 'Calls go straight to navigator.credentials',
+  'faults.copyLink': 'Copy link',
+  'faults.copied': 'Copied',
+  'faults.sharePrompt': 'Copy this link to share the scenario:',
+  'faults.scenario': 'Scenario',
+  'faults.custom': 'Custom',
+  'faults.latency': 'Latency (ms)',
+  'faults.note': 'Hung promises settle only when the caller aborts them. The operation runner stops waiting for {store} and {preventSilentAccess} when they time out, but only {get} is really cancelled in the browser.',
+  'faults.scenario.none': 'Normal operation',
+  'faults.scenario.dismissed': 'User dismisses every prompt',
+  'faults.scenario.security': 'Security restrictions',
+  'faults.scenario.aborted': 'Retrieval aborted',
+  'faults.scenario.slow': 'Slow credential manager',
+  'faults.scenario.hung': 'Hung prompts',
+  'faults.scenario.empty': 'No credential returned',
+  'faults.scenario.storage-fails': 'Storage and sign-out cleanup fail',
+  'faults.scenario.flaky': 'Intermittent failures',
+  'faults.fault.none': 'No fault',
+  'faults.fault.latency': 'Latency',
+  'faults.fault.hang': 'Hung promise',
+  'faults.fault.null': 'Resolve null',
+  'faults.fault.flaky': 'Fail every other call',
+  'faults.description.none': 'Call through to the real API.',
+  'faults.description.NotAllowedError': 'The user dismissed the prompt, or the browser refused it.',
+  'faults.description.SecurityError': 'The origin or context is not allowed to use the API.',
+  'faults.description.AbortError': 'The operation was aborted before it finished.',
+  'faults.description.latency': 'Wait, then call through to the real API.',
+  'faults.description.hang': 'Never settle, unless an AbortSignal aborts it.',
+  'faults.description.null': 'Resolve with null, as get() does when nothing can be returned.',
+  'faults.description.flaky': 'Throw a transient UnknownError on every other call, so a retry succeeds.',
+
+  // API playground
+  'playground.title': 'API Playground',
+  'playground.subtitle': 'Build options, call the API and copy the code',
+  'playground.method': 'Method',
+  'playground.credentialType': 'Credential type',
+  'playground.providers': 'providers (comma-separated origins)',
+  'playground.anyAttachment': '(any)',
+  'playground.abortAfter': 'AbortSignal.timeout (ms, 0 for none)',
+  'playground.run': 'Run',
+  'playground.running': 'Waiting for the browser…',
+  'playground.resolved': 'Resolved after {ms} ms',
+  'playground.rejected': 'Rejected with {name} after {ms} ms',
+  'playground.snippet': 'TypeScript',
+  'playground.copy': 'Copy',
+  'playground.copied': 'Copied',
+
+  // Process Log messages
+  'log.environmentCheck': 'System environment check',
+  'log.systemInformation': 'System information',
+  'log.probeResult': '{name}: {status}',
+  'log.passkeyCapabilities': 'Passkey (WebAuthn) capabilities',
+  'log.faultScenarioLoaded': 'Failure scenario loaded from the URL',
+  'log.faultInjected': 'Fault injected',
+  'log.crossTabUnavailable': 'Cross-tab session sync unavailable',
+  'log.localeChanged': 'Language changed',
+  'log.sessionStarted': 'Session started',
+  'log.backendSelected': 'Credential backend selected',
+  'log.noBackend': 'No credential backend available',
+  'log.credentialUnreadable': 'Skipped a stored credential that could not be decrypted',
+  'log.autoSignIn': 'Automatic sign-in',
+  'log.waitingForAutofill': 'Waiting for a credential to be picked from autofill',
+  'log.conditionalPasskeysOnly': 'Conditional mediation only applies to passkeys; no password credential was requested',
+  'log.passkeyAutofillUnavailable': 'Passkeys cannot be offered in autofill in this browser',
+  'log.silentAccessBlocked': 'Silent access blocked',
+  'log.noCredential': 'No credential returned',
+  'log.federatedRetrieved': 'Federated credential retrieved',
+  'log.redirectingToProvider': 'Redirecting to provider',
+  'log.passwordRetrieved': 'Password credential retrieved',
+  'log.retrievalDenied': 'Credential retrieval denied',
+  'log.retrievalFailed': 'Credential retrieval failed',
+  'log.federatedStart': 'Starting sign-in with {provider}',
+  'log.federatedCallback': 'Federated sign-in callback from {provider}',
+  'log.federatedFailed': 'Federated sign-in failed',
+  'log.authorizationCodeReceived': 'Authorization code received, state verified',
+  'log.codeExchange': 'Code exchange',
+  'log.codeExchangeFailed': 'Code exchange failed',
+  'log.identityVerificationFailed': 'Identity verification failed',
+  'log.federatedSucceeded': 'Federated authentication succeeded',
+  'log.federatedStorageSkipped': 'Federated credential storage skipped',
+  'log.passkeyRegistration': 'Passkey registration',
+  'log.registrationOptionsRequested': 'Registration options requested',
+  'log.authenticationOptionsRequested': 'Sign-in options requested',
+  'log.challengeReceived': 'Challenge received',
+  'log.attestationVerificationRequested': 'Attestation verification requested',
+  'log.passkeyRegistered': 'Passkey registered',
+  'log.passkeyRegistrationFailed': 'Passkey registration failed',
+  'log.passkeySignIn': 'Passkey sign-in',
+  'log.assertionVerificationRequested': 'Assertion verification requested',
+  'log.passkeySucceeded': 'Passkey authentication succeeded',
+  'log.passkeySignInFailed': 'Passkey sign-in failed',
+  'log.mediationChanged': 'Mediation mode changed',
+  'log.storageSkipped': 'Credential storage skipped',
+  'log.breachCheck': 'Breached password check',
+  'log.breachFound': 'Password found in breach corpus; asking before saving',
+  'log.storageDeclined': 'Credential storage declined',
+  'log.breachCheckUnavailable': 'Breach check unavailable; continuing without it',
+  'log.storage': 'Credential storage',
+  'log.storageFailed': 'Credential storage failed',
+  'log.operationPending': 'Waiting for {operation}',
+  'log.operationRetry': '{operation} failed with a transient error; retrying',
+  'log.operationTimedOut': '{operation} timed out',
+  'log.operationAborted': '{operation} was aborted',
+  'log.operationPolicyChanged': 'Timeout and retries for {operation} changed',
+  'log.login': 'Login',
+  'log.validationFailed': 'Validation failed',
+  'log.inputValidated': 'Input validated',
+  'log.processingAuthentication': 'Processing authentication',
+  'log.authenticationRequest': 'Authentication request',
+  'log.authenticationRequestFailed': 'Authentication request failed',
+  'log.accountLocked': 'Account locked',
+  'log.authenticationRejected': 'Authentication rejected',
+  'log.sessionEstablished': 'Session established',
+  'log.secondFactorRequired': 'Password accepted; second factor required',
+  'log.secondFactorVerified': 'Second factor verified',
+  'log.secondFactorRejected': 'Second factor code rejected',
+  'log.secondFactorFailed': 'Second factor failed',
+  'log.secondFactorCancelled': 'Second factor cancelled',
+  'log.totpRequest': 'Two-factor request',
+  'log.totpEnrollment': 'Two-factor enrollment',
+  'log.totpSecretIssued': 'TOTP secret issued',
+  'log.totpConfirmation': 'Two-factor confirmation',
+  'log.totpEnabled': 'Two-factor authentication enabled',
+  'log.totpDisabling': 'Two-factor removal',
+  'log.passwordGenerated': 'Password generated',
+  'log.signUp': 'Sign-up',
+  'log.registrationPolicyViolated': 'Password policy violated; registration blocked',
+  'log.policySatisfied': 'Password policy satisfied',
+  'log.createAccount': 'Create account',
+  'log.registrationUnreachable': 'Registration service unreachable',
+  'log.registrationRejected': 'Registration rejected',
+  'log.accountCreated': 'Account created; session established',
+  'log.changePassword': 'Change password',
+  'log.changePolicyViolated': 'Password policy violated; change blocked',
+  'log.updatePassword': 'Update password',
+  'log.serviceUnreachable': 'Authentication service unreachable',
+  'log.passwordChangeRejected': 'Password change rejected',
+  'log.passwordUpdated': 'Password updated on the server',
+  'log.replacingCredential': 'Replacing stored credential',
+  'log.logout': 'Logout',
+  'log.remoteLogout': 'Logout received from another tab',
+  'log.localSessionCleared': 'Local session state cleared',
+  'log.endServerSession': 'End server session',
+  'log.serverLogoutFailed': 'Server logout failed',
+  'log.serverSessionAlreadyEnded': 'Server session already ended by the originating tab',
+  'log.preventSilentAccessFailed': 'Silent access prevention failed',
+  'log.sessionInvalid': 'Session no longer valid on the server',
+  'log.sessionExtended': 'Session extended',
+  'log.sessionActivity': 'Session activity reported',
+  'log.sessionRefreshFailed': 'Session refresh failed',
+  'log.restoreSession': 'Restore persisted session',
+  'log.serverSessionChecked': 'Server session checked',
+  'log.serverSessionEnded': 'Server session has ended; signing out locally',
+  'log.restoreUnreachable': 'Could not reach the authentication service; keeping the local session',
+  'log.remoteLogin': 'Login received from another tab',
+  'log.remoteLogoutIgnored': 'Logout from another tab ignored; already signed out',
+  'log.idleTimeout': 'Idle timeout reached',
+  'log.sessionExpired': 'Session expired',
+  'log.switchAccount': 'Switching account',
+  'log.knownAccountSelected': 'Known account selected',
+  'log.removeAccount': 'Remove account from this device',
+  'log.removedFromKnownAccounts': 'Removed from known accounts list',
+  'log.storedCredentialDeleted': 'Stored credential deleted',
+  'log.storedCredentialKept': 'Stored credential left in place',
+  'log.noStoredCredential': 'No stored credential for this account',
+  'log.storedCredentialDeleteFailed': 'Stored credential could not be deleted',
+  'log.passkeyKept': 'Passkey kept on the authenticator',
+  'log.loginFormSubmitted': 'Login form submitted',
+  'log.playgroundCall': 'Playground: {call}',
+  'log.snippetCopyFailed': 'Could not copy the snippet',
+  'log.embedMode': 'Embed mode active',
+  'log.embedCommand': 'Command from host page',
+  'log.embedMessageRejected': 'Message from a disallowed origin ignored',
+  'log.accessibilityCheck': 'Accessibility check',
+  'log.accessibilityViolation': 'Accessibility violation',
+  'log.accessibilityPassed': 'No WCAG 2.1 AA violations found',
+  'log.accessibilityCheckFailed': 'Accessibility check could not run',
+} satisfies Record<string, Message>;
+
+export default en;
@@ -0,0 +1,52 @@
+import type { LogEntry, LogFields } from './logger';
+import type { Redactor } from './redaction';
+
+export type LogExportFormat = 'json' | 'ndjson' | 'text';
+
+export const LOG_EXPORT_FORMATS: Array<{ value: LogExportFormat; label: string; mimeType: string; extension: string }> = [
+  { value: 'json', label: 'JSON', mimeType: 'application/json', extension: 'json' },
+  { value: 'ndjson', label: 'NDJSON', mimeType: 'application/x-ndjson', extension: 'ndjson' },
+  { value: 'text', label: 'Plain text', mimeType: 'text/plain', extension: 'txt' },
+];
+
+const toRecord = (entry: LogEntry) => ({
+  id: entry.id,
+  parentId: entry.parentId,
+  time: new Date(entry.timestamp).toISOString(),
+  level: entry.level,
+  message: entry.message,
+  fields: entry.fields,
+  ...(entry.span && { span: entry.span }),
+});
+
+export const formatFields = (fields: LogFields) =>
+  Object.entries(fields)
+    .map(([key, value]) => `${key}=${typeof value === 'string' && /\s/.test(value) ? JSON.stringify(value) : String(value)}`)
+    .join(' ');
+
+export function formatLog(entries: readonly LogEntry[], format: LogExportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(entries.map(toRecord), null, 2);
+    case 'ndjson':
+      return entries.map(entry => JSON.stringify(toRecord(entry))).join('\n');
+    case 'text':
+      return entries.map(entry => {
+        const duration = entry.span?.durationMs !== undefined ? ` (${entry.span.durationMs} ms)` : '';
+        const fields = formatFields(entry.fields);
+        return `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase().padEnd(7)} ${'  '.repeat(entry.depth)}${entry.message}${duration}${fields ? ` ${fields}` : ''}`;
+      }).join('\n');
+  }
+}
+
+/** Exports always mask PII, whatever the panel is currently showing. */
+export function downloadLog(entries: readonly LogEntry[], format: LogExportFormat, redactor: Redactor) {
+  const { mimeType, extension } = LOG_EXPORT_FORMATS.find(option => option.value === format)!;
+  const blob = new Blob([formatLog(entries.map(redactor.maskPII), format)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `process-log-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
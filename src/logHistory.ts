@@ -0,0 +1,137 @@
+import type { LogEntry, Logger } from './logger';
+import type { Redactor } from './redaction';
+
+const DB_NAME = 'process-log-history';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const STARTED_AT_INDEX = 'startedAt';
+
+// Writes are batched; a burst of entries costs one transaction.
+const SAVE_DELAY_MS = 1000;
+
+export interface LogSession {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  entries: LogEntry[];
+  /** Entries the ring buffer had already dropped when the session was saved. */
+  dropped: number;
+}
+
+export interface LogHistory {
+  /** Stored sessions, newest first. */
+  list(): Promise<LogSession[]>;
+  save(session: LogSession): Promise<void>;
+  clear(): Promise<void>;
+  /**
+   * Saves the logger's session whenever it changes, and when the page is
+   * hidden or unloaded. PII is masked before anything is written. Returns a
+   * function that stops tracking.
+   */
+  track(logger: Logger, redactor: Redactor): () => void;
+}
+
+const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = event => {
+    const sessions = event.oldVersion < 1
+      ? request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+      : request.transaction!.objectStore(SESSION_STORE);
+    if (event.oldVersion < 2) {
+      sessions.createIndex(STARTED_AT_INDEX, 'startedAt');
+    }
+  };
+  return promisify(request);
+}
+
+export const isLogHistoryAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Keeps the Process Log of the last `maxSessions` page loads in IndexedDB, so
+ * a session can be compared with the one before a reload.
+ */
+export function createLogHistory({ maxSessions = 10 }: { maxSessions?: number } = {}): LogHistory {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const db = () => (database ??= openDatabase());
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await db()).transaction([SESSION_STORE], mode).objectStore(SESSION_STORE);
+
+  const list = async () => {
+    const sessions: LogSession[] = await promisify((await store('readonly')).getAll());
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+  };
+
+  // Trimming counts the sessions and walks the oldest by key, so a save never
+  // reads the stored entries back.
+  const save = async (session: LogSession) => {
+    const sessions = await store('readwrite');
+    sessions.put(session);
+    let excess = await promisify(sessions.count()) - maxSessions;
+    if (excess <= 0) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const request = sessions.index(STARTED_AT_INDEX).openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && excess-- > 0) {
+          sessions.delete(cursor.primaryKey);
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    list,
+    save,
+    async clear() {
+      await promisify((await store('readwrite')).clear());
+    },
+
+    track(logger, redactor) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const flush = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        save({
+          id: logger.sessionId,
+          startedAt: logger.startedAt,
+          updatedAt: Date.now(),
+          entries: logger.getEntries().map(redactor.maskPII),
+          dropped: logger.getDroppedCount(),
+        }).catch(error => console.error('Could not save the Process Log history:', error));
+      };
+      const onHide = () => {
+        if (document.visibilityState === 'hidden' && timer !== undefined) {
+          flush();
+        }
+      };
+
+      const unsubscribe = logger.subscribe(() => {
+        timer ??= setTimeout(flush, SAVE_DELAY_MS);
+      });
+      document.addEventListener('visibilitychange', onHide);
+      window.addEventListener('pagehide', flush);
+      flush();
+
+      return () => {
+        unsubscribe();
+        clearTimeout(timer);
+        document.removeEventListener('visibilitychange', onHide);
+        window.removeEventListener('pagehide', flush);
+      };
+    },
+  };
+}
@@ -0,0 +1,204 @@
+import type { Redactor } from './redaction';
+
+export type LogLevel = 'debug' | 'info' | 'success' | 'error';
+export type LogValue = string | number | boolean | null;
+export type LogFields = Record<string, LogValue>;
+export type SpanStatus = 'open' | 'ok' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'success', 'error'];
+
+export interface LogEntry {
+  id: number;
+  /** The span this entry was logged in, or null at the top level. */
+  parentId: number | null;
+  depth: number;
+  timestamp: number;
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+  /** Present on entries that open a span. */
+  span?: {
+    status: SpanStatus;
+    durationMs?: number;
+  };
+}
+
+export interface LogScope {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  success(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Opens a child span; entries logged through it are nested beneath it. */
+  span(message: string, fields?: LogFields): Span;
+}
+
+export interface Span extends LogScope {
+  readonly id: number;
+  /** Closes the span, recording its duration. Later calls are ignored. */
+  end(status?: Exclude<SpanStatus, 'open'>, fields?: LogFields): void;
+}
+
+export interface Logger extends LogScope {
+  /** Identifies this page load, e.g. in the persisted log history. */
+  readonly sessionId: string;
+  readonly startedAt: number;
+  getEntries(): readonly LogEntry[];
+  getMaxEntries(): number;
+  /** Changes the cap; the oldest entries beyond it are dropped at once. */
+  setMaxEntries(maxEntries: number): void;
+  /** How many entries have been dropped to stay within the cap since the last clear. */
+  getDroppedCount(): number;
+  subscribe(listener: () => void): () => void;
+  clear(): void;
+}
+
+export interface LoggerOptions {
+  /** Secrets are scrubbed from every entry before it is stored. */
+  redactor?: Redactor;
+  /** Entries kept before the oldest are dropped. */
+  maxEntries?: number;
+  sessionId?: string;
+}
+
+export const DEFAULT_MAX_LOG_ENTRIES = 2000;
+export const LOG_CAPACITY_OPTIONS = [500, 1000, 2000, 5000];
+
+export const createSessionId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Creates a structured logger. Entries are kept in memory in a ring buffer of
+ * `maxEntries` and published to subscribers, so it can back
+ * `useSyncExternalStore`.
+ */
+export function createLogger({
+  redactor,
+  maxEntries = DEFAULT_MAX_LOG_ENTRIES,
+  sessionId = createSessionId(),
+}: LoggerOptions = {}): Logger {
+  let capacity = Math.max(1, Math.floor(maxEntries));
+  let ring: Array<LogEntry | undefined> = new Array(capacity);
+  // Slot of the oldest entry. Ids are consecutive, so an id's slot follows
+  // from its distance to the oldest one.
+  let head = 0;
+  let size = 0;
+  let dropped = 0;
+  // Rebuilt on the first read after a change, so appending does not copy.
+  let snapshot: readonly LogEntry[] | null = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+  const openSpans = new Map<number, number>();
+
+  const publish = () => listeners.forEach(listener => listener());
+
+  const getEntries = () => snapshot ??= Array.from({ length: size }, (_, index) => ring[(head + index) % capacity]!);
+
+  const slotOf = (id: number) => {
+    const offset = id - (nextId - size);
+    return offset >= 0 && offset < size ? (head + offset) % capacity : -1;
+  };
+
+  const append = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+    const id = nextId++;
+    const scrubbed = redactor ? redactor.scrubSecrets(entry) : entry;
+    const stored = { ...scrubbed, id, timestamp: Date.now() };
+    if (size < capacity) {
+      ring[(head + size) % capacity] = stored;
+      size++;
+    } else {
+      ring[head] = stored;
+      head = (head + 1) % capacity;
+      dropped++;
+    }
+    snapshot = null;
+    publish();
+    return id;
+  };
+
+  const scope = (parentId: number | null, depth: number): LogScope => {
+    const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+      append({ parentId, depth, level, message, fields });
+    };
+
+    return {
+      debug: write('debug'),
+      info: write('info'),
+      success: write('success'),
+      error: write('error'),
+      span(message, fields = {}) {
+        const id = append({ parentId, depth, level: 'info', message, fields, span: { status: 'open' } });
+        openSpans.set(id, performance.now());
+        return {
+          ...scope(id, depth + 1),
+          id,
+          end(status = 'ok', endFields = {}) {
+            const startedAt = openSpans.get(id);
+            if (startedAt === undefined) {
+              return;
+            }
+            openSpans.delete(id);
+            const durationMs = Math.round((performance.now() - startedAt) * 10) / 10;
+            const slot = slotOf(id);
+            if (slot === -1) {
+              return;
+            }
+            const entry = ring[slot]!;
+            ring[slot] = {
+              ...entry,
+              level: status === 'error' ? 'error' : entry.level,
+              fields: { ...entry.fields, ...(redactor ? redactor.scrubSecrets({ message: '', fields: endFields }).fields : endFields) },
+              span: { status, durationMs },
+            };
+            snapshot = null;
+            publish();
+          },
+        };
+      },
+    };
+  };
+
+  return {
+    ...scope(null, 0),
+    sessionId,
+    startedAt: Date.now(),
+    getEntries,
+    getMaxEntries: () => capacity,
+    setMaxEntries(next) {
+      const kept = getEntries().slice(-Math.max(1, Math.floor(next)));
+      dropped += size - kept.length;
+      capacity = Math.max(1, Math.floor(next));
+      ring = new Array(capacity);
+      kept.forEach((entry, index) => {
+        ring[index] = entry;
+      });
+      head = 0;
+      size = kept.length;
+      snapshot = null;
+      publish();
+    },
+    getDroppedCount: () => dropped,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clear() {
+      ring = new Array(capacity);
+      head = 0;
+      size = 0;
+      dropped = 0;
+      snapshot = null;
+      openSpans.clear();
+      publish();
+    },
+  };
+}
+
+/** Standard fields for a caught error. */
+export const errorFields = (error: unknown): LogFields => ({
+  errorType: error instanceof Error ? error.name : 'Unknown',
+  errorMessage: error instanceof Error ? error.message : 'Unknown error',
+});
@@ -0,0 +1,247 @@
+import { createSessionId } from './logger';
+
+export type MetricOperation = 'detect' | 'authenticate' | 'get' | 'store' | 'preventSilentAccess' | 'passkeyCreate' | 'passkeyGet';
+export type MetricOutcome = 'success' | 'failure' | 'abort';
+
+export const METRIC_OPERATIONS: MetricOperation[] = ['detect', 'authenticate', 'get', 'store', 'preventSilentAccess', 'passkeyCreate', 'passkeyGet'];
+export const METRIC_OUTCOMES: MetricOutcome[] = ['success', 'failure', 'abort'];
+
+export interface MetricSample {
+  id: number;
+  operation: MetricOperation;
+  /** Only `get()` and `passkeyGet` have a mediation mode. */
+  mediation: CredentialMediationRequirement | null;
+  outcome: MetricOutcome;
+  /** The DOMException name of a failure or abort, e.g. `NotAllowedError` or `TimeoutError`, or a server error code. */
+  errorName: string | null;
+  /** Milliseconds since the page's time origin, as in the Performance timeline. */
+  startTime: number;
+  durationMs: number;
+}
+
+export interface MetricSummary {
+  operation: MetricOperation;
+  mediation: CredentialMediationRequirement | null;
+  count: number;
+  outcomes: Record<MetricOutcome, number>;
+  errors: Record<string, number>;
+  latency: { min: number; p50: number; p90: number; p95: number; max: number; mean: number };
+  /** Sample counts per bucket of `LATENCY_BUCKETS`, plus one for anything slower. */
+  histogram: number[];
+}
+
+/** Upper bounds in ms. Prompts that wait for the user land in the top buckets. */
+export const LATENCY_BUCKETS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10_000];
+
+export interface Measurement {
+  /**
+   * Ends the measure; later calls are ignored. For anything but success, pass
+   * the caught error or a short reason such as a server error code.
+   */
+  end(outcome: MetricOutcome, error?: unknown): void;
+}
+
+export interface MetricsRecorder {
+  /** Identifies this page load in exports, so runs from several browsers can be told apart. */
+  readonly sessionId: string;
+  /** Epoch time of the page's time origin; sample times are relative to it. */
+  readonly timeOrigin: number;
+  getSamples(): readonly MetricSample[];
+  subscribe(listener: () => void): () => void;
+  /**
+   * Sets a `performance.mark` and returns a handle that closes it with a
+   * `performance.measure`, so the span also shows in the browser's
+   * performance tools under `credential:<operation>`.
+   */
+  start(operation: MetricOperation, mediation?: CredentialMediationRequirement | null): Measurement;
+  clear(): void;
+}
+
+export const outcomeOf = (error: unknown): MetricOutcome =>
+  error instanceof DOMException && error.name === 'AbortError' ? 'abort' : 'failure';
+
+/** Ends `measurement` when `promise` settles: a success if it resolves, otherwise by the error. */
+export const endWhenSettled = <T,>(measurement: Measurement, promise: Promise<T>) => promise.then(
+  result => {
+    measurement.end('success');
+    return result;
+  },
+  error => {
+    measurement.end(outcomeOf(error), error);
+    throw error;
+  },
+);
+
+const MARK_PREFIX = 'credential:';
+
+/**
+ * Records the duration and outcome of each credential operation. Samples are
+ * kept in memory for this page load and published to subscribers, so the
+ * store can back `useSyncExternalStore`.
+ */
+export function createMetrics({ sessionId = createSessionId() }: { sessionId?: string } = {}): MetricsRecorder {
+  const samples: MetricSample[] = [];
+  // Rebuilt on the first read after a change, so recording does not copy.
+  let snapshot: readonly MetricSample[] | null = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const publish = () => {
+    snapshot = null;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    sessionId,
+    timeOrigin: performance.timeOrigin,
+    getSamples: () => snapshot ??= [...samples],
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    start(operation, mediation = null) {
+      const id = nextId++;
+      const name = `${MARK_PREFIX}${operation}`;
+      const startMark = `${name}:${id}:start`;
+      const endMark = `${name}:${id}:end`;
+      const startTime = performance.mark(startMark).startTime;
+      let ended = false;
+
+      return {
+        end(outcome, error) {
+          if (ended) {
+            return;
+          }
+          ended = true;
+          const errorName = outcome === 'success'
+            ? null
+            : typeof error === 'string' ? error : error instanceof Error ? error.name : 'Error';
+          performance.mark(endMark);
+          const measure = performance.measure(name, {
+            start: startMark,
+            end: endMark,
+            detail: { mediation, outcome, errorName, sessionId },
+          });
+          // The measure carries both ends; the marks would only pile up.
+          performance.clearMarks(startMark);
+          performance.clearMarks(endMark);
+          samples.push({
+            id,
+            operation,
+            mediation,
+            outcome,
+            errorName,
+            startTime: Math.round(startTime * 10) / 10,
+            durationMs: Math.round(measure.duration * 10) / 10,
+          });
+          publish();
+        },
+      };
+    },
+
+    clear() {
+      samples.length = 0;
+      METRIC_OPERATIONS.forEach(operation => performance.clearMeasures(`${MARK_PREFIX}${operation}`));
+      publish();
+    },
+  };
+}
+
+// Nearest-rank percentile over sorted durations.
+const percentile = (sorted: number[], p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+/** Groups samples by operation and mediation mode, in `METRIC_OPERATIONS` order. */
+export function summarizeMetrics(samples: readonly MetricSample[]): MetricSummary[] {
+  const groups = new Map<string, MetricSample[]>();
+  for (const sample of samples) {
+    const key = `${sample.operation}:${sample.mediation ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), sample]);
+  }
+
+  return [...groups.values()]
+    .map(group => {
+      const durations = group.map(sample => sample.durationMs).sort((a, b) => a - b);
+      const outcomes = { success: 0, failure: 0, abort: 0 };
+      const errors: Record<string, number> = {};
+      const histogram = new Array<number>(LATENCY_BUCKETS.length + 1).fill(0);
+      for (const sample of group) {
+        outcomes[sample.outcome]++;
+        if (sample.errorName) {
+          errors[sample.errorName] = (errors[sample.errorName] ?? 0) + 1;
+        }
+        const bucket = LATENCY_BUCKETS.findIndex(bound => sample.durationMs < bound);
+        histogram[bucket === -1 ? LATENCY_BUCKETS.length : bucket]++;
+      }
+      const total = durations.reduce((sum, duration) => sum + duration, 0);
+      return {
+        operation: group[0].operation,
+        mediation: group[0].mediation,
+        count: group.length,
+        outcomes,
+        errors,
+        latency: {
+          min: durations[0],
+          p50: percentile(durations, 50),
+          p90: percentile(durations, 90),
+          p95: percentile(durations, 95),
+          max: durations[durations.length - 1],
+          mean: Math.round((total / durations.length) * 10) / 10,
+        },
+        histogram,
+      };
+    })
+    .sort((a, b) =>
+      METRIC_OPERATIONS.indexOf(a.operation) - METRIC_OPERATIONS.indexOf(b.operation) ||
+      (a.mediation ?? '').localeCompare(b.mediation ?? ''));
+}
+
+export type MetricsExportFormat = 'json' | 'csv';
+
+const CSV_COLUMNS: Array<keyof MetricSample> = ['id', 'operation', 'mediation', 'outcome', 'errorName', 'startTime', 'durationMs'];
+
+/**
+ * The JSON export is the comparison format: one file per browser, each with
+ * its environment, the per-group summary and the raw samples. CSV carries
+ * only the samples, one per row, for spreadsheets.
+ */
+export function formatMetrics(metrics: MetricsRecorder, format: MetricsExportFormat, backend: string | null): string {
+  const samples = metrics.getSamples();
+  if (format === 'csv') {
+    return [
+      ['sessionId', ...CSV_COLUMNS].join(','),
+      ...samples.map(sample => [metrics.sessionId, ...CSV_COLUMNS.map(column => sample[column] ?? '')].join(',')),
+    ].join('\n');
+  }
+  return JSON.stringify({
+    format: 'credential-metrics',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: metrics.sessionId,
+      startedAt: new Date(metrics.timeOrigin).toISOString(),
+    },
+    environment: {
+      userAgent: navigator.userAgent,
+      platform: navigator.platform,
+      origin: window.location.origin,
+      secureContext: window.isSecureContext,
+      backend,
+    },
+    latencyBucketsMs: LATENCY_BUCKETS,
+    summary: summarizeMetrics(samples),
+    samples,
+  }, null, 2);
+}
+
+export function downloadMetrics(metrics: MetricsRecorder, format: MetricsExportFormat, backend: string | null) {
+  const blob = new Blob([formatMetrics(metrics, format, backend)], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `credential-metrics-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,183 @@
+export type OperationName = 'get' | 'store' | 'preventSilentAccess' | 'create';
+
+export type OperationStatus = 'pending' | 'retrying' | 'succeeded' | 'failed' | 'aborted' | 'timed-out';
+
+export interface OperationPolicy {
+  /** Per attempt; null waits indefinitely. */
+  timeoutMs: number | null;
+  /** Extra attempts after a transient failure. */
+  retries: number;
+  /** Delay before the first retry, doubled for each one after it. */
+  backoffMs: number;
+}
+
+export interface OperationState {
+  id: number;
+  name: OperationName;
+  status: OperationStatus;
+  attempt: number;
+  maxAttempts: number;
+  timeoutMs: number | null;
+  startedAt: number;
+  errorName?: string;
+}
+
+export const OPERATION_NAMES: OperationName[] = ['get', 'store', 'preventSilentAccess', 'create'];
+
+export const DEFAULT_OPERATION_POLICIES: Record<OperationName, OperationPolicy> = {
+  get: { timeoutMs: 60_000, retries: 2, backoffMs: 500 },
+  store: { timeoutMs: 30_000, retries: 2, backoffMs: 500 },
+  preventSilentAccess: { timeoutMs: 10_000, retries: 2, backoffMs: 500 },
+  create: { timeoutMs: 120_000, retries: 0, backoffMs: 500 },
+};
+
+// Failures that say nothing about the user's choice and may clear on their
+// own. NotAllowedError (the user declined), SecurityError, aborts and
+// timeouts are final: retrying would re-prompt or repeat a refusal.
+const TRANSIENT_ERRORS = new Set(['NetworkError', 'UnknownError', 'OperationError', 'TransactionInactiveError']);
+
+export const isTransientError = (error: unknown) =>
+  error instanceof DOMException && TRANSIENT_ERRORS.has(error.name);
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+/** Settles with `promise`, or rejects with the abort reason as soon as `signal` aborts. */
+const untilAborted = <T,>(promise: Promise<T>, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => reject(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+const delay = (ms: number, signal: AbortSignal) =>
+  untilAborted(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+export interface RunOptions {
+  /** Aborts the operation from outside, e.g. when a newer request supersedes it. */
+  signal?: AbortSignal;
+  /** Overrides the policy's timeout for this call. */
+  timeoutMs?: number | null;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface OperationRunner {
+  /** The most recently started or updated operation, for `useSyncExternalStore`. */
+  getLatest(): OperationState | null;
+  getPolicies(): Record<OperationName, OperationPolicy>;
+  setPolicy(name: OperationName, policy: Partial<OperationPolicy>): void;
+  subscribe(listener: () => void): () => void;
+  /**
+   * Runs `call` under the operation's policy. Each attempt gets its own
+   * signal, aborted on timeout or cancel. A call that ignores its signal, like
+   * `store()`, cannot be stopped in the browser; the runner just stops waiting.
+   * Rejects with a `TimeoutError` or `AbortError` DOMException in those cases.
+   */
+  run<T>(name: OperationName, call: (signal: AbortSignal) => Promise<T>, options?: RunOptions): Promise<T>;
+  /** Aborts every pending operation. */
+  cancel(): void;
+}
+
+export function createOperationRunner(policies: Partial<Record<OperationName, Partial<OperationPolicy>>> = {}): OperationRunner {
+  let current = Object.fromEntries(OPERATION_NAMES.map(name => [
+    name,
+    { ...DEFAULT_OPERATION_POLICIES[name], ...policies[name] },
+  ])) as Record<OperationName, OperationPolicy>;
+  let latest: OperationState | null = null;
+  let nextId = 1;
+  const pending = new Set<AbortController>();
+  const listeners = new Set<() => void>();
+
+  const publish = () => listeners.forEach(listener => listener());
+
+  return {
+    getLatest: () => latest,
+    getPolicies: () => current,
+    setPolicy(name, policy) {
+      current = { ...current, [name]: { ...current[name], ...policy } };
+      publish();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async run(name, call, { signal, timeoutMs, onRetry } = {}) {
+      const policy = current[name];
+      const attemptTimeout = timeoutMs === undefined ? policy.timeoutMs : timeoutMs;
+      const controller = new AbortController();
+      const forwardAbort = () => controller.abort(signal?.reason ?? abortError());
+      if (signal?.aborted) {
+        forwardAbort();
+      }
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+      pending.add(controller);
+
+      let state: OperationState = {
+        id: nextId++,
+        name,
+        status: 'pending',
+        attempt: 1,
+        maxAttempts: policy.retries + 1,
+        timeoutMs: attemptTimeout,
+        startedAt: Date.now(),
+      };
+      const update = (changes: Partial<OperationState>) => {
+        state = { ...state, ...changes };
+        latest = state;
+        publish();
+      };
+      update({});
+
+      try {
+        for (;;) {
+          if (controller.signal.aborted) {
+            throw controller.signal.reason;
+          }
+          const attempt = new AbortController();
+          const abortAttempt = () => attempt.abort(controller.signal.reason);
+          controller.signal.addEventListener('abort', abortAttempt, { once: true });
+          const timer = attemptTimeout === null ? undefined : setTimeout(() => attempt.abort(
+            new DOMException(`${name}() did not settle within ${attemptTimeout} ms`, 'TimeoutError'),
+          ), attemptTimeout);
+          try {
+            const result = await untilAborted(call(attempt.signal), attempt.signal);
+            update({ status: 'succeeded' });
+            return result;
+          } catch (error) {
+            if (isTransientError(error) && state.attempt < state.maxAttempts && !controller.signal.aborted) {
+              const backoff = policy.backoffMs * 2 ** (state.attempt - 1);
+              update({ status: 'retrying', errorName: (error as DOMException).name });
+              onRetry?.(state.attempt, backoff, error);
+              await delay(backoff, controller.signal);
+              update({ status: 'pending', attempt: state.attempt + 1 });
+              continue;
+            }
+            throw error;
+          } finally {
+            clearTimeout(timer);
+            controller.signal.removeEventListener('abort', abortAttempt);
+          }
+        }
+      } catch (error) {
+        const errorName = error instanceof Error ? error.name : 'Error';
+        update({
+          status: errorName === 'TimeoutError' ? 'timed-out' : errorName === 'AbortError' ? 'aborted' : 'failed',
+          errorName,
+        });
+        throw error;
+      } finally {
+        pending.delete(controller);
+        signal?.removeEventListener('abort', forwardAbort);
+      }
+    },
+
+    cancel() {
+      pending.forEach(controller => controller.abort(abortError()));
+    },
+  };
+}
@@ -0,0 +1,96 @@
+// Conversions between the relying party's JSON (base64url for binary fields)
+// and the ArrayBuffer-based options that navigator.credentials expects.
+
+export interface CreationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  attestation: AttestationConveyancePreference;
+  authenticatorSelection: AuthenticatorSelectionCriteria;
+  excludeCredentials: Array<{ type: 'public-key'; id: string; transports?: string[] }>;
+}
+
+export interface RequestOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: UserVerificationRequirement;
+  allowCredentials: Array<{ type: 'public-key'; id: string; transports?: string[] }>;
+}
+
+export interface PasskeyCapabilities {
+  available: boolean;
+  platformAuthenticator: boolean;
+  conditionalMediation: boolean;
+}
+
+export const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+export const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0)).buffer;
+};
+
+const toDescriptor = ({ id, transports }: { id: string; transports?: string[] }): PublicKeyCredentialDescriptor => ({
+  type: 'public-key',
+  id: fromBase64Url(id),
+  transports: transports as AuthenticatorTransport[] | undefined,
+});
+
+export const toCreationOptions = (json: CreationOptionsJSON): PublicKeyCredentialCreationOptions => ({
+  ...json,
+  challenge: fromBase64Url(json.challenge),
+  user: { ...json.user, id: fromBase64Url(json.user.id) },
+  excludeCredentials: json.excludeCredentials.map(toDescriptor),
+});
+
+export const toRequestOptions = (json: RequestOptionsJSON): PublicKeyCredentialRequestOptions => ({
+  ...json,
+  challenge: fromBase64Url(json.challenge),
+  allowCredentials: json.allowCredentials.map(toDescriptor),
+});
+
+export const serializeRegistration = (credential: PublicKeyCredential) => {
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+};
+
+export const serializeAssertion = (credential: PublicKeyCredential) => {
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+  };
+};
+
+export async function getPasskeyCapabilities(): Promise<PasskeyCapabilities> {
+  if (typeof window.PublicKeyCredential === 'undefined') {
+    return { available: false, platformAuthenticator: false, conditionalMediation: false };
+  }
+  const [platformAuthenticator, conditionalMediation] = await Promise.all([
+    PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable().catch(() => false),
+    PublicKeyCredential.isConditionalMediationAvailable?.().catch(() => false) ?? false,
+  ]);
+  return { available: true, platformAuthenticator, conditionalMediation };
+}
@@ -0,0 +1,42 @@
+const CHARACTER_SETS = {
+  lowercase: 'abcdefghijkmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHJKLMNPQRSTUVWXYZ',
+  digits: '23456789',
+  symbols: '!#$%&*+-=?@_~',
+};
+
+export const DEFAULT_GENERATED_LENGTH = 20;
+
+/**
+ * Uniform integer in [0, max). Rejection sampling avoids the modulo bias a
+ * plain `value % max` would introduce.
+ */
+function randomIndex(max: number) {
+  const limit = Math.floor(0x1_0000_0000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+}
+
+/**
+ * Generates a password from `crypto.getRandomValues` with at least one
+ * character from every set. Look-alike characters (l, I, O, 0, 1) are left
+ * out so a generated password can be read back if needed.
+ */
+export function generatePassword(length = DEFAULT_GENERATED_LENGTH) {
+  const sets = Object.values(CHARACTER_SETS);
+  const alphabet = sets.join('');
+  const characters = sets.map(set => set[randomIndex(set.length)]);
+  while (characters.length < length) {
+    characters.push(alphabet[randomIndex(alphabet.length)]);
+  }
+
+  // Fisher-Yates, so the guaranteed characters are not always first.
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1);
+    [characters[i], characters[j]] = [characters[j], characters[i]];
+  }
+  return characters.join('');
+}
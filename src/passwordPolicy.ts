@@ -0,0 +1,188 @@
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  /** How many of lowercase, uppercase, digits and symbols must appear. */
+  minCharacterClasses: number;
+  disallowUsername: boolean;
+  minStrength: StrengthScore;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  minCharacterClasses: 2,
+  disallowUsername: true,
+  minStrength: 2,
+};
+
+export type PolicyRule = 'minLength' | 'maxLength' | 'characterClasses' | 'containsUsername' | 'strength' | 'reused';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+  /** The limit the rule checks, for messages built outside this module. */
+  params?: Record<string, number>;
+}
+
+export type StrengthFeedbackCode = 'commonWord' | 'repeats' | 'sequence' | 'keyboard' | 'year' | 'username';
+
+export interface StrengthFeedback {
+  code: StrengthFeedbackCode;
+  message: string;
+  /** The dictionary word found, for `commonWord`. */
+  word?: string;
+}
+
+export interface PasswordStrength {
+  score: StrengthScore;
+  label: string;
+  entropyBits: number;
+  /** Patterns that lowered the score. */
+  feedback: StrengthFeedback[];
+}
+
+export const STRENGTH_LABELS: Record<StrengthScore, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Strong',
+  4: 'Very strong',
+};
+
+const CHARACTER_CLASSES = [
+  { pattern: /[a-z]/, size: 26 },
+  { pattern: /[A-Z]/, size: 26 },
+  { pattern: /[0-9]/, size: 10 },
+  { pattern: /[^a-zA-Z0-9]/, size: 33 },
+];
+
+const COMMON_WORDS = [
+  'password', 'passw', 'qwerty', 'letmein', 'welcome', 'admin', 'login', 'dragon', 'monkey', 'master',
+  'sunshine', 'princess', 'football', 'baseball', 'shadow', 'superman', 'iloveyou', 'trustno', 'secret',
+  'troubador', 'changeme', 'hello', 'freedom', 'whatever', 'summer', 'winter', 'spring', 'autumn',
+];
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', '1234567890'];
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+const unleet = (value: string) => value.toLowerCase().replace(/[013457@$!]/g, char => LEET[char]);
+
+const characterClassCount = (password: string) =>
+  CHARACTER_CLASSES.filter(({ pattern }) => pattern.test(password)).length;
+
+/** Length of the longest run of consecutive code points (abc, 321). */
+const longestSequence = (password: string) => {
+  let longest = 1;
+  let run = 1;
+  for (let i = 2; i < password.length; i++) {
+    const step = password.charCodeAt(i) - password.charCodeAt(i - 1);
+    const previous = password.charCodeAt(i - 1) - password.charCodeAt(i - 2);
+    run = Math.abs(step) === 1 && step === previous ? run + 1 : 1;
+    longest = Math.max(longest, run + 1);
+  }
+  return password.length < 3 ? 0 : longest;
+};
+
+const containsKeyboardWalk = (password: string) => {
+  const lower = password.toLowerCase();
+  return KEYBOARD_ROWS.some(row => {
+    for (let i = 0; i + 4 <= row.length; i++) {
+      if (lower.includes(row.slice(i, i + 4))) {
+        return true;
+      }
+    }
+    return false;
+  });
+};
+
+/**
+ * Estimates strength from the character pool, then removes credit for
+ * patterns attackers try first: dictionary words (including leetspeak),
+ * repeats, sequences, keyboard walks, years and the username.
+ */
+export function estimateStrength(password: string, username = ''): PasswordStrength {
+  if (!password) {
+    return { score: 0, label: STRENGTH_LABELS[0], entropyBits: 0, feedback: [] };
+  }
+
+  const poolSize = CHARACTER_CLASSES
+    .filter(({ pattern }) => pattern.test(password))
+    .reduce((sum, { size }) => sum + size, 0);
+  const bitsPerChar = Math.log2(poolSize);
+  let effectiveLength = password.length;
+  const feedback: StrengthFeedback[] = [];
+
+  const normalized = unleet(password);
+  for (const word of COMMON_WORDS) {
+    if (normalized.includes(word)) {
+      // A dictionary word costs about as much as two random characters.
+      effectiveLength -= word.length - 2;
+      feedback.push({ code: 'commonWord', message: `Contains a common word ("${word}")`, word });
+      break;
+    }
+  }
+
+  const repeats = password.match(/(.)\1{2,}/g) ?? [];
+  if (repeats.length > 0) {
+    effectiveLength -= repeats.reduce((sum, run) => sum + run.length - 1, 0);
+    feedback.push({ code: 'repeats', message: 'Repeats the same character' });
+  }
+
+  const sequence = longestSequence(password);
+  if (sequence >= 3) {
+    effectiveLength -= sequence - 1;
+    feedback.push({ code: 'sequence', message: 'Contains a sequence like "abc" or "123"' });
+  }
+
+  if (containsKeyboardWalk(password)) {
+    effectiveLength -= 3;
+    feedback.push({ code: 'keyboard', message: 'Contains a keyboard pattern' });
+  }
+
+  if (/(19|20)\d\d/.test(password)) {
+    effectiveLength -= 2;
+    feedback.push({ code: 'year', message: 'Contains a year' });
+  }
+
+  if (username && password.toLowerCase().includes(username.toLowerCase())) {
+    effectiveLength -= username.length;
+    feedback.push({ code: 'username', message: 'Contains the username' });
+  }
+
+  const entropyBits = Math.max(0, Math.round(Math.max(effectiveLength, 0) * bitsPerChar));
+  const score: StrengthScore = entropyBits < 28 ? 0 : entropyBits < 36 ? 1 : entropyBits < 60 ? 2 : entropyBits < 80 ? 3 : 4;
+  return { score, label: STRENGTH_LABELS[score], entropyBits, feedback };
+}
+
+export function checkPasswordPolicy(password: string, username = '', policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({ rule: 'minLength', message: `Use at least ${policy.minLength} characters`, params: { min: policy.minLength } });
+  }
+  if (password.length > policy.maxLength) {
+    violations.push({ rule: 'maxLength', message: `Use at most ${policy.maxLength} characters`, params: { max: policy.maxLength } });
+  }
+  if (characterClassCount(password) < policy.minCharacterClasses) {
+    violations.push({
+      rule: 'characterClasses',
+      message: `Mix at least ${policy.minCharacterClasses} of: lowercase, uppercase, digits, symbols`,
+      params: { count: policy.minCharacterClasses },
+    });
+  }
+  if (policy.disallowUsername && username && password.toLowerCase().includes(username.toLowerCase())) {
+    violations.push({ rule: 'containsUsername', message: 'Must not contain the username' });
+  }
+  if (estimateStrength(password, username).score < policy.minStrength) {
+    violations.push({
+      rule: 'strength',
+      message: `Must be rated at least "${STRENGTH_LABELS[policy.minStrength]}"`,
+      params: { score: policy.minStrength },
+    });
+  }
+
+  return violations;
+}
@@ -0,0 +1,324 @@
+import { toBase64Url } from './passkeys';
+
+export type PlaygroundMethod = 'get' | 'create' | 'store' | 'preventSilentAccess';
+export type PlaygroundCredentialType = 'password' | 'federated' | 'publicKey';
+
+/** Everything the playground form can set, kept flat so it maps onto inputs. */
+export interface PlaygroundState {
+  method: PlaygroundMethod;
+  // get()
+  mediation: CredentialMediationRequirement;
+  requestPassword: boolean;
+  requestFederated: boolean;
+  federatedProviders: string;
+  requestPublicKey: boolean;
+  // create() and store()
+  credentialType: PlaygroundCredentialType;
+  id: string;
+  name: string;
+  password: string;
+  provider: string;
+  // publicKey, for both get() and create()
+  rpName: string;
+  userName: string;
+  userDisplayName: string;
+  authenticatorAttachment: AuthenticatorAttachment | '';
+  residentKey: ResidentKeyRequirement;
+  userVerification: UserVerificationRequirement;
+  attestation: AttestationConveyancePreference;
+  algorithms: number[];
+  publicKeyTimeoutMs: number;
+  // AbortSignal.timeout(); 0 leaves the call without a signal.
+  abortAfterMs: number;
+}
+
+export const PLAYGROUND_METHODS: PlaygroundMethod[] = ['get', 'create', 'store', 'preventSilentAccess'];
+
+export const COSE_ALGORITHMS: Array<{ value: number; label: string }> = [
+  { value: -7, label: 'ES256' },
+  { value: -8, label: 'EdDSA' },
+  { value: -257, label: 'RS256' },
+];
+
+export const DEFAULT_PLAYGROUND_STATE: PlaygroundState = {
+  method: 'get',
+  mediation: 'optional',
+  requestPassword: true,
+  requestFederated: false,
+  federatedProviders: window.location.origin,
+  requestPublicKey: false,
+  credentialType: 'password',
+  id: 'alice',
+  name: 'Alice',
+  password: '',
+  provider: window.location.origin,
+  rpName: 'Credential Management Demo',
+  userName: 'alice',
+  userDisplayName: 'Alice',
+  authenticatorAttachment: '',
+  residentKey: 'preferred',
+  userVerification: 'preferred',
+  attestation: 'none',
+  algorithms: [-7, -257],
+  publicKeyTimeoutMs: 60000,
+  abortAfterMs: 0,
+};
+
+/** Which credential types each method accepts; `get()` picks any combination. */
+export const credentialTypesFor = (method: PlaygroundMethod): PlaygroundCredentialType[] => {
+  switch (method) {
+    case 'create':
+      return ['password', 'federated', 'publicKey'];
+    case 'store':
+      return ['password', 'federated'];
+    default:
+      return [];
+  }
+};
+
+const providersOf = (state: PlaygroundState) =>
+  state.federatedProviders.split(',').map(provider => provider.trim()).filter(Boolean);
+
+// The playground has no relying party behind it, so challenges and user
+// handles are random. A real app must use a challenge issued by its server.
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export function buildRequestOptions(state: PlaygroundState, signal?: AbortSignal): CredentialRequestOptions {
+  return {
+    mediation: state.mediation,
+    ...(state.requestPassword && { password: true }),
+    ...(state.requestFederated && { federated: { providers: providersOf(state) } }),
+    ...(state.requestPublicKey && {
+      publicKey: {
+        challenge: randomBytes(32),
+        rpId: window.location.hostname,
+        userVerification: state.userVerification,
+        timeout: state.publicKeyTimeoutMs,
+      },
+    }),
+    ...(signal && { signal }),
+  };
+}
+
+export function buildCreationOptions(state: PlaygroundState, signal?: AbortSignal): CredentialCreationOptions {
+  const base = signal ? { signal } : {};
+  switch (state.credentialType) {
+    case 'password':
+      return { ...base, password: { id: state.id, password: state.password, name: state.name || undefined } };
+    case 'federated':
+      return { ...base, federated: { id: state.id, provider: state.provider, name: state.name || undefined } };
+    case 'publicKey':
+      return {
+        ...base,
+        publicKey: {
+          challenge: randomBytes(32),
+          rp: { id: window.location.hostname, name: state.rpName },
+          user: { id: randomBytes(16), name: state.userName, displayName: state.userDisplayName },
+          pubKeyCredParams: state.algorithms.map(alg => ({ type: 'public-key' as const, alg })),
+          timeout: state.publicKeyTimeoutMs,
+          attestation: state.attestation,
+          authenticatorSelection: {
+            ...(state.authenticatorAttachment && { authenticatorAttachment: state.authenticatorAttachment }),
+            residentKey: state.residentKey,
+            userVerification: state.userVerification,
+          },
+        },
+      };
+  }
+}
+
+/** The credential `store()` is given; throws where the browser lacks the constructor. */
+export function buildStoredCredential(state: PlaygroundState): Credential {
+  if (state.credentialType === 'federated') {
+    if (typeof window.FederatedCredential === 'undefined') {
+      throw new TypeError('FederatedCredential is not supported in this browser');
+    }
+    return new FederatedCredential({ id: state.id, provider: state.provider, name: state.name || undefined });
+  }
+  if (typeof window.PasswordCredential === 'undefined') {
+    throw new TypeError('PasswordCredential is not supported in this browser');
+  }
+  return new PasswordCredential({ id: state.id, password: state.password, name: state.name || undefined });
+}
+
+/**
+ * A JSON-friendly view of whatever `get()` or `create()` resolved with.
+ * Passwords are masked; binary fields are base64url.
+ */
+export function describeCredential(credential: Credential | null): unknown {
+  if (credential === null) {
+    return null;
+  }
+  if (typeof window.PasswordCredential !== 'undefined' && credential instanceof PasswordCredential) {
+    return {
+      type: credential.type,
+      id: credential.id,
+      name: credential.name,
+      iconURL: credential.iconURL,
+      password: '•'.repeat(credential.password.length),
+    };
+  }
+  if (typeof window.FederatedCredential !== 'undefined' && credential instanceof FederatedCredential) {
+    return {
+      type: credential.type,
+      id: credential.id,
+      name: credential.name,
+      iconURL: credential.iconURL,
+      provider: credential.provider,
+      protocol: credential.protocol,
+    };
+  }
+  if (typeof window.PublicKeyCredential !== 'undefined' && credential instanceof PublicKeyCredential) {
+    const response: Record<string, unknown> = {
+      clientDataJSON: JSON.parse(new TextDecoder().decode(credential.response.clientDataJSON)),
+    };
+    if ('attestationObject' in credential.response) {
+      const attestation = credential.response as AuthenticatorAttestationResponse;
+      response.attestationObject = toBase64Url(attestation.attestationObject);
+      response.transports = attestation.getTransports?.() ?? [];
+    } else {
+      const assertion = credential.response as AuthenticatorAssertionResponse;
+      response.authenticatorData = toBase64Url(assertion.authenticatorData);
+      response.signature = toBase64Url(assertion.signature);
+      response.userHandle = assertion.userHandle ? toBase64Url(assertion.userHandle) : null;
+    }
+    return {
+      type: credential.type,
+      id: credential.id,
+      authenticatorAttachment: credential.authenticatorAttachment,
+      response,
+    };
+  }
+  return { type: credential.type, id: credential.id };
+}
+
+// --- Code generation ---------------------------------------------------------
+
+const RAW = Symbol('raw');
+type Raw = { [RAW]: string };
+/** Emitted verbatim instead of as a literal, e.g. an expression or a call. */
+const raw = (code: string): Raw => ({ [RAW]: code });
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// JSON escapes quotes, backslashes and control characters but leaves the line
+// and paragraph separators raw, which older parsers reject inside strings.
+const quote = (value: string) => JSON.stringify(value).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+
+function literal(value: unknown, indent: string): string {
+  if (value && typeof value === 'object' && RAW in value) {
+    return (value as Raw)[RAW];
+  }
+  if (typeof value === 'string') {
+    return quote(value);
+  }
+  if (Array.isArray(value)) {
+    const inline = value.map(item => literal(item, indent)).join(', ');
+    if (!inline.includes('\n') && inline.length < 60) {
+      return `[${inline}]`;
+    }
+    return `[\n${value.map(item => `${indent}  ${literal(item, `${indent}  `)},`).join('\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    const lines = entries.map(([key, entry]) =>
+      `${indent}  ${IDENTIFIER.test(key) ? key : quote(key)}: ${literal(entry, `${indent}  `)},`);
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+  return String(value);
+}
+
+const signalExpression = (state: PlaygroundState) =>
+  state.abortAfterMs > 0 ? raw(`AbortSignal.timeout(${state.abortAfterMs})`) : undefined;
+
+function requestOptionsSource(state: PlaygroundState) {
+  return {
+    mediation: state.mediation,
+    password: state.requestPassword || undefined,
+    federated: state.requestFederated ? { providers: providersOf(state) } : undefined,
+    publicKey: state.requestPublicKey
+      ? {
+        challenge: raw('challengeFromServer'),
+        rpId: window.location.hostname,
+        userVerification: state.userVerification,
+        timeout: state.publicKeyTimeoutMs,
+      }
+      : undefined,
+    signal: signalExpression(state),
+  };
+}
+
+function creationOptionsSource(state: PlaygroundState) {
+  const name = state.name || undefined;
+  switch (state.credentialType) {
+    case 'password':
+      return { password: { id: state.id, password: raw('password'), name }, signal: signalExpression(state) };
+    case 'federated':
+      return { federated: { id: state.id, provider: state.provider, name }, signal: signalExpression(state) };
+    case 'publicKey':
+      return {
+        publicKey: {
+          challenge: raw('challengeFromServer'),
+          rp: { id: window.location.hostname, name: state.rpName },
+          user: { id: raw('userHandleFromServer'), name: state.userName, displayName: state.userDisplayName },
+          pubKeyCredParams: state.algorithms.map(alg => ({ type: 'public-key', alg })),
+          timeout: state.publicKeyTimeoutMs,
+          attestation: state.attestation,
+          authenticatorSelection: {
+            authenticatorAttachment: state.authenticatorAttachment || undefined,
+            residentKey: state.residentKey,
+            userVerification: state.userVerification,
+          },
+        },
+        signal: signalExpression(state),
+      };
+  }
+}
+
+const SERVER_VALUES_NOTE = '// challengeFromServer (and userHandleFromServer) are ArrayBuffers issued by your server.';
+
+/** The TypeScript equivalent of what Run will do with the current form. */
+export function generateSnippet(state: PlaygroundState): string {
+  switch (state.method) {
+    case 'get': {
+      const lines = [
+        `const credential = await navigator.credentials.get(${literal(requestOptionsSource(state), '')});`,
+        '',
+        'if (credential instanceof PasswordCredential) {',
+        '  // Send credential.id and credential.password to your sign-in endpoint.',
+        '} else if (credential instanceof FederatedCredential) {',
+        '  // Start sign-in with credential.provider for credential.id.',
+        '} else if (credential instanceof PublicKeyCredential) {',
+        '  // Send the assertion to your server for verification.',
+        '} else {',
+        '  // null: nothing was available, or mediation did not allow it. Show the form.',
+        '}',
+      ];
+      return (state.requestPublicKey ? [SERVER_VALUES_NOTE, ...lines] : lines).join('\n');
+    }
+    case 'create': {
+      const lines = [
+        `const credential = await navigator.credentials.create(${literal(creationOptionsSource(state), '')});`,
+      ];
+      if (state.credentialType === 'publicKey') {
+        return [SERVER_VALUES_NOTE, ...lines, '// Send the attestation to your server to register the passkey.'].join('\n');
+      }
+      return [...lines, '', '// create() only builds the credential; store() saves it.', 'await navigator.credentials.store(credential!);'].join('\n');
+    }
+    case 'store': {
+      const name = state.name || undefined;
+      const credential = state.credentialType === 'federated'
+        ? `new FederatedCredential(${literal({ id: state.id, provider: state.provider, name }, '')})`
+        : `new PasswordCredential(${literal({ id: state.id, password: raw('password'), name }, '')})`;
+      return `await navigator.credentials.store(${credential});`;
+    }
+    case 'preventSilentAccess':
+      return [
+        '// Call on sign-out so the next get() with mediation: "silent" returns null.',
+        'await navigator.credentials.preventSilentAccess();',
+      ].join('\n');
+  }
+}
@@ -0,0 +1,133 @@
+import type { LogEntry, LogFields, LogValue } from './logger';
+
+export type RedactionCategory = 'secret' | 'pii';
+
+export interface RedactionPattern {
+  name: string;
+  pattern: RegExp;
+  category: RedactionCategory;
+}
+
+export interface RedactionPolicy {
+  /** Field names whose values are dropped before an entry is recorded. */
+  secretFields: string[];
+  /** Field names whose values are masked unless PII is explicitly shown. */
+  piiFields: string[];
+  /**
+   * Field names that carry identifiers logged on purpose, such as passkey
+   * credential ids. Patterns are not applied to them, since long random ids
+   * look like tokens; registered values still are.
+   */
+  identifierFields: string[];
+  /** Applied to messages and string field values. Patterns must be global. */
+  patterns: RedactionPattern[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Shorter registered values are ignored: they occur inside ordinary words and
+ * numbers, so replacing them would garble the log. Secret fields are still
+ * dropped by name whatever their length.
+ */
+export const MIN_REGISTERED_LENGTH = 3;
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  secretFields: ['password', 'pass', 'currentPassword', 'newPassword', 'secret', 'token', 'code', 'sessionId', 'cookie', 'authorization'],
+  // Only fields that name a person or account. Generic ids such as span,
+  // operation or credential ids are not personal and stay readable.
+  piiFields: ['username', 'user', 'account', 'email', 'loginHint', 'displayName', 'name'],
+  identifierFields: ['id', 'credentialId', 'requestId', 'tabId'],
+  patterns: [
+    { name: 'jwt', pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+\b/g, category: 'secret' },
+    { name: 'bearer', pattern: /\bBearer\s+[\w.~+/-]+=*/gi, category: 'secret' },
+    { name: 'opaque-token', pattern: /\b[A-Za-z0-9_-]{32,}\b/g, category: 'secret' },
+    { name: 'email', pattern: /\b[\w.+-]+@[\w-]+(\.[\w-]+)+\b/g, category: 'pii' },
+  ],
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const maskValue = (value: string) => {
+  const at = value.indexOf('@');
+  if (at > 0) {
+    return `${value[0]}***${value.slice(at)}`;
+  }
+  return value.length <= 1 ? '*' : `${value[0]}***`;
+};
+
+export interface Redactor {
+  /**
+   * Marks a runtime value (e.g. a typed password) as sensitive wherever it
+   * appears. Values shorter than `MIN_REGISTERED_LENGTH` are ignored.
+   */
+  register(value: string, category: RedactionCategory): void;
+  /** Removes secrets. Applied once, before an entry reaches the log store. */
+  scrubSecrets<T extends Pick<LogEntry, 'message' | 'fields'>>(entry: T): T;
+  /** Masks PII for display or export; secrets are already gone. */
+  maskPII<T extends Pick<LogEntry, 'message' | 'fields'>>(entry: T): T;
+  /** A console-safe summary of an error, with secrets and PII masked. */
+  redactError(error: unknown): { name: string; message: string };
+}
+
+/**
+ * Builds the redaction layer between log callers and the log store. Secrets
+ * (by field name, pattern or registered value) never reach the store. PII is
+ * kept so "show PII" can reveal it locally, and is masked everywhere else.
+ */
+export function createRedactor(policy: RedactionPolicy = DEFAULT_REDACTION_POLICY): Redactor {
+  const registered: Record<RedactionCategory, Set<string>> = { secret: new Set(), pii: new Set() };
+
+  const redactText = (text: string, category: RedactionCategory, applyPatterns = true) => {
+    let result = text;
+    // Longest first, so a value that contains another is replaced whole.
+    for (const value of [...registered[category]].sort((a, b) => b.length - a.length)) {
+      result = result.replace(new RegExp(escapeRegExp(value), 'g'), category === 'secret' ? REDACTED : maskValue(value));
+    }
+    if (!applyPatterns) {
+      return result;
+    }
+    for (const { pattern, category: patternCategory } of policy.patterns) {
+      if (patternCategory === category) {
+        result = result.replace(pattern, match => category === 'secret' ? REDACTED : maskValue(match));
+      }
+    }
+    return result;
+  };
+
+  const redactFields = (fields: LogFields, category: RedactionCategory) => {
+    const names = category === 'secret' ? policy.secretFields : policy.piiFields;
+    const redacted: LogFields = {};
+    for (const [key, value] of Object.entries(fields)) {
+      let next: LogValue = value;
+      if (names.includes(key) && value !== null) {
+        next = category === 'secret' ? REDACTED : maskValue(String(value));
+      } else if (typeof value === 'string') {
+        next = redactText(value, category, !policy.identifierFields.includes(key));
+      }
+      redacted[key] = next;
+    }
+    return redacted;
+  };
+
+  const redact = <T extends Pick<LogEntry, 'message' | 'fields'>>(entry: T, category: RedactionCategory): T => ({
+    ...entry,
+    message: redactText(entry.message, category),
+    fields: redactFields(entry.fields, category),
+  });
+
+  return {
+    register(value, category) {
+      if (value.length >= MIN_REGISTERED_LENGTH) {
+        registered[category].add(value);
+      }
+    },
+    scrubSecrets: entry => redact(entry, 'secret'),
+    maskPII: entry => redact(entry, 'pii'),
+    redactError(error) {
+      const name = error instanceof Error ? error.name : 'Unknown';
+      const message = error instanceof Error ? error.message : String(error);
+      return { name, message: redactText(redactText(message, 'secret'), 'pii') };
+    },
+  };
+}
@@ -0,0 +1,43 @@
+export interface SafeStorage {
+  /** The stored value, or null when it is missing or storage is blocked. */
+  getItem(key: string): string | null;
+  /** Whether the value was written. */
+  setItem(key: string, value: string): boolean;
+  removeItem(key: string): void;
+}
+
+/**
+ * Wraps Web Storage so that blocked storage reads as empty and drops writes.
+ * Browsers throw on `window.localStorage` itself, not only on its methods, in
+ * sandboxed frames and when third-party storage is disabled; the app then
+ * runs with its defaults and the `storage` probe reports what is missing.
+ */
+function createSafeStorage(area: 'localStorage' | 'sessionStorage'): SafeStorage {
+  return {
+    getItem(key) {
+      try {
+        return window[area].getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    setItem(key, value) {
+      try {
+        window[area].setItem(key, value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    removeItem(key) {
+      try {
+        window[area].removeItem(key);
+      } catch {
+        // Blocked: there is nothing stored to remove.
+      }
+    },
+  };
+}
+
+export const safeLocalStorage = createSafeStorage('localStorage');
+export const safeSessionStorage = createSafeStorage('sessionStorage');
@@ -0,0 +1,196 @@
+import type { KnownAccount } from './knownAccounts';
+import { createSessionId } from './logger';
+import { safeLocalStorage } from './safeStorage';
+
+/** Deadlines issued by the auth service; the service stays the source of truth. */
+export interface SessionTimes {
+  expiresAt: number;
+  idleExpiresAt: number;
+}
+
+export interface PersistedSession extends SessionTimes {
+  account: KnownAccount;
+}
+
+export type SessionEndReason = 'logout' | 'expired' | 'idle' | 'revoked';
+
+/** Messages exchanged between tabs over the BroadcastChannel. */
+type SessionMessage =
+  | { type: 'login'; tabId: string; session: PersistedSession }
+  | { type: 'logout'; tabId: string; reason: SessionEndReason }
+  | { type: 'activity'; tabId: string; times: SessionTimes };
+
+export type SessionEvent =
+  | { type: 'remote-login'; session: PersistedSession }
+  | { type: 'remote-logout'; reason: SessionEndReason }
+  | { type: 'timeout'; reason: Extract<SessionEndReason, 'expired' | 'idle'> };
+
+export interface SessionManager {
+  readonly tabId: string;
+  readonly crossTab: boolean;
+  getSession(): PersistedSession | null;
+  /** For `useSyncExternalStore`: notified whenever the session changes. */
+  subscribe(listener: () => void): () => void;
+  /** Cross-tab messages and local timeouts. Opens the channel while subscribed. */
+  onEvent(listener: (event: SessionEvent) => void): () => void;
+  start(session: PersistedSession): void;
+  /** Applies refreshed deadlines after activity was reported to the service. */
+  update(times: SessionTimes): void;
+  end(reason: SessionEndReason, options?: { broadcast?: boolean }): void;
+}
+
+const SESSION_STORAGE_KEY = 'session';
+const SESSION_CHANNEL = 'credential-demo-session';
+const TIMEOUT_LOCK = 'credential-demo-session-timeout';
+
+const isLive = (stored: PersistedSession, now = Date.now()) => Math.min(stored.expiresAt, stored.idleExpiresAt) > now;
+
+const readStoredSession = (): PersistedSession | null => {
+  try {
+    return JSON.parse(safeLocalStorage.getItem(SESSION_STORAGE_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+const loadSession = (): PersistedSession | null => {
+  const stored = readStoredSession();
+  return stored && isLive(stored) ? stored : null;
+};
+
+/**
+ * Persists the signed-in profile and the service's deadlines in localStorage
+ * (the session secret stays in its HttpOnly cookie), fires a timeout at the
+ * earlier of the idle and absolute deadlines, and keeps tabs in step over a
+ * BroadcastChannel.
+ */
+export function createSessionManager(): SessionManager {
+  // Plain-HTTP LAN origins have no crypto.randomUUID.
+  const tabId = createSessionId();
+  const crossTab = typeof BroadcastChannel !== 'undefined';
+  let session = loadSession();
+  if (!session) {
+    safeLocalStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+  const listeners = new Set<() => void>();
+  const eventListeners = new Set<(event: SessionEvent) => void>();
+  let channel: BroadcastChannel | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const emit = (event: SessionEvent) => eventListeners.forEach(listener => listener(event));
+
+  // Every open tab's timer fires at about the same moment, but only one may
+  // end the session and tell the service. The first to take the lock does;
+  // the others then find the session gone from storage and end it as if its
+  // logout broadcast had arrived. Storage is cleared synchronously by `end`,
+  // before the lock is released.
+  const expire = (reason: Extract<SessionEndReason, 'expired' | 'idle'>) => {
+    const stored = readStoredSession();
+    if (!stored) {
+      emit({ type: 'remote-logout', reason });
+      return;
+    }
+    if (isLive(stored)) {
+      // Another tab reported activity and its broadcast has not arrived yet.
+      set(stored);
+      return;
+    }
+    emit({ type: 'timeout', reason });
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    if (!session) {
+      return;
+    }
+    const reason = session.idleExpiresAt < session.expiresAt ? 'idle' : 'expired';
+    const delay = Math.min(session.idleExpiresAt, session.expiresAt) - Date.now();
+    // setTimeout overflows past ~24.8 days; sessions are far shorter.
+    timer = setTimeout(() => {
+      // Web Locks need a secure context; without them the storage check
+      // alone still keeps tabs that fire later from ending it again.
+      if (typeof navigator.locks === 'undefined') {
+        expire(reason);
+      } else {
+        navigator.locks.request(TIMEOUT_LOCK, () => expire(reason));
+      }
+    }, Math.max(delay, 0));
+  };
+
+  const set = (next: PersistedSession | null) => {
+    session = next;
+    if (next) {
+      safeLocalStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(next));
+    } else {
+      safeLocalStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+    schedule();
+    listeners.forEach(listener => listener());
+  };
+
+  const post = (message: SessionMessage) => channel?.postMessage(message);
+
+  const receive = ({ data }: MessageEvent<SessionMessage>) => {
+    if (data.tabId === tabId) {
+      return;
+    }
+    switch (data.type) {
+      case 'login':
+        set(data.session);
+        emit({ type: 'remote-login', session: data.session });
+        break;
+      case 'logout':
+        emit({ type: 'remote-logout', reason: data.reason });
+        break;
+      case 'activity':
+        if (session) {
+          set({ ...session, ...data.times });
+        }
+        break;
+    }
+  };
+
+  return {
+    tabId,
+    crossTab,
+    getSession: () => session,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    onEvent(listener) {
+      eventListeners.add(listener);
+      if (crossTab && !channel) {
+        channel = new BroadcastChannel(SESSION_CHANNEL);
+        channel.onmessage = receive;
+      }
+      schedule();
+      return () => {
+        eventListeners.delete(listener);
+        if (eventListeners.size === 0) {
+          channel?.close();
+          channel = null;
+          clearTimeout(timer);
+        }
+      };
+    },
+    start(next) {
+      set(next);
+      post({ type: 'login', tabId, session: next });
+    },
+    update(times) {
+      if (session) {
+        set({ ...session, ...times });
+        post({ type: 'activity', tabId, times });
+      }
+    },
+    end(reason, { broadcast = true } = {}) {
+      set(null);
+      if (broadcast) {
+        post({ type: 'logout', tabId, reason });
+      }
+    },
+  };
+}
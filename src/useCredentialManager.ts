@@ -0,0 +1,443 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { selectBackend, type AccountChooser, type CredentialBackend, type CredentialData } from './credentialBackend';
+import { useI18n } from './i18n';
+import { createLogger, errorFields, type LogScope, type Logger } from './logger';
+import { createMetrics, outcomeOf, type MetricsRecorder } from './metrics';
+import {
+  createOperationRunner,
+  type OperationName,
+  type OperationPolicy,
+  type OperationRunner,
+  type OperationState,
+  type RunOptions,
+} from './operationRunner';
+import { createRedactor, type Redactor } from './redaction';
+import { safeLocalStorage } from './safeStorage';
+
+// Set at sign-out so a later silent get() returning null can be explained.
+const SILENT_ACCESS_STORAGE_KEY = 'silent-access-prevented';
+
+export type CredentialSupport = 'native' | 'emulated' | 'none';
+export type PasswordCredentialData = Extract<CredentialData, { type: 'password' }>;
+export type StoreOutcome = 'stored' | 'declined' | 'failed' | 'cancelled' | 'timed-out' | 'unavailable';
+export type CredentialOperation = 'get' | 'store' | 'preventSilentAccess' | 'authenticate';
+
+/** What `authenticate` reports back; `outcome` is recorded on the sign-in span. */
+export type AuthenticationResult =
+  | { ok: true; name?: string; iconURL?: string }
+  | { ok: false; outcome: string };
+
+export type SignInResult =
+  | { ok: true; storage: StoreOutcome | 'skipped' }
+  | { ok: false; reason: 'invalid_input' | 'error' | (string & {}) };
+
+/** Events never carry passwords, so listeners can forward them as they are. */
+export type CredentialManagerEvent =
+  | { type: 'backend-changed'; support: CredentialSupport }
+  | { type: 'retrieved'; credentialType: CredentialData['type']; id: string; mediation: CredentialMediationRequirement }
+  | { type: 'signed-in'; id: string }
+  | { type: 'stored'; credentialType: CredentialData['type']; id: string }
+  | { type: 'signed-out' }
+  | { type: 'error'; operation: CredentialOperation; name: string; message: string };
+
+export interface CredentialManagerOptions {
+  /** Checks a username and password with the app's server; log the request through `scope`. */
+  authenticate: (username: string, password: string, scope: LogScope) => Promise<AuthenticationResult>;
+  /** Asked before a password is stored; resolve false to skip storing it. */
+  confirmStore?: (credential: PasswordCredentialData, scope: LogScope) => Promise<boolean>;
+  /** Identity provider origins to request federated credentials for. */
+  federatedProviders?: string[];
+  /** Start on the emulated backend even where PasswordCredential exists; see `setForceEmulated`. */
+  forceEmulated?: boolean;
+  /** Picks an account for the emulated backend; defaults to the first candidate. */
+  chooseAccount?: AccountChooser;
+  /** Decorates the selected backend, e.g. with `withFaults`. */
+  wrapBackend?: (backend: CredentialBackend) => CredentialBackend;
+  /** Timeouts and retries per operation; read once, then changed with `setOperationPolicy`. */
+  operationPolicies?: Partial<Record<OperationName, Partial<OperationPolicy>>>;
+  logger?: Logger;
+  redactor?: Redactor;
+  /** Receives the duration and outcome of every get, store, preventSilentAccess and authenticate call. */
+  metrics?: MetricsRecorder;
+}
+
+export interface CredentialManager {
+  support: CredentialSupport;
+  backend: CredentialBackend | null;
+  isRetrieving: boolean;
+  /** The latest credential call and where it stands: pending, retrying, aborted, timed out. */
+  operation: OperationState | null;
+  operationPolicies: Record<OperationName, OperationPolicy>;
+  logger: Logger;
+  redactor: Redactor;
+  metrics: MetricsRecorder;
+  /**
+   * Resolves null when nothing was returned, the user declined or the call was
+   * cancelled. `conditional` applies to passkeys only and resolves null at once.
+   */
+  retrieve: (mediation: CredentialMediationRequirement) => Promise<CredentialData | null>;
+  cancelRetrieve: () => void;
+  /** Authenticates, then stores the password unless `store` is false. */
+  signIn: (username: string, password: string, options?: { store?: boolean }) => Promise<SignInResult>;
+  store: (credential: CredentialData, scope?: LogScope) => Promise<StoreOutcome>;
+  /** Calls preventSilentAccess() so the next visit does not sign in automatically. */
+  signOut: (scope?: LogScope) => Promise<void>;
+  /** Aborts every pending credential call, retrieval included. */
+  cancelOperation: () => void;
+  setOperationPolicy: OperationRunner['setPolicy'];
+  /**
+   * Runs a credential call the hook does not make itself, such as a passkey
+   * ceremony, under the same policies, logging its retries and timeout to `scope`.
+   */
+  runOperation: <T>(name: OperationName, scope: LogScope, call: (signal: AbortSignal) => Promise<T>, options?: Omit<RunOptions, 'onRetry'>) => Promise<T>;
+  setForceEmulated: (emulated: boolean) => void;
+  /** The same function on every render, so effects can depend on it. */
+  subscribe: (listener: (event: CredentialManagerEvent) => void) => () => void;
+}
+
+const isDOMException = (error: unknown, name: string) => error instanceof DOMException && error.name === name;
+
+// Timeouts and cancels are reported by the runner, not as failures of the call.
+const failureOutcome = (error: unknown) =>
+  isDOMException(error, 'TimeoutError') ? 'timed-out' : isDOMException(error, 'AbortError') ? 'cancelled' : 'failed';
+
+const firstCandidate: AccountChooser = candidates => Promise.resolve(candidates[0] ?? null);
+
+const errorEvent = (operation: CredentialOperation, error: unknown): CredentialManagerEvent => ({
+  type: 'error',
+  operation,
+  name: error instanceof Error ? error.name : 'Error',
+  message: error instanceof Error ? error.message : String(error),
+});
+
+/**
+ * The credential half of a sign-in page: picks a backend, retrieves and
+ * stores credentials, and cleans up at sign-out. Sessions and the server
+ * protocol stay with the app, which plugs them in through `authenticate`.
+ */
+export function useCredentialManager(options: CredentialManagerOptions): CredentialManager {
+  const { t } = useI18n();
+  const latestOptions = useRef(options);
+  latestOptions.current = options;
+  // For messages logged from effects and backend callbacks, which outlive the render.
+  const latestT = useRef(t);
+  latestT.current = t;
+  const [redactor] = useState(() => options.redactor ?? createRedactor());
+  const [logger] = useState(() => options.logger ?? createLogger({ redactor }));
+  const [metrics] = useState(() => options.metrics ?? createMetrics());
+  const [listeners] = useState(() => new Set<(event: CredentialManagerEvent) => void>());
+  const [runner] = useState(() => createOperationRunner(options.operationPolicies));
+  const operation = useSyncExternalStore(runner.subscribe, runner.getLatest);
+  const operationPolicies = useSyncExternalStore(runner.subscribe, runner.getPolicies);
+  const [forcedEmulation, setForcedEmulation] = useState(options.forceEmulated ?? false);
+  const [backend, setBackend] = useState(() => pickBackend(forcedEmulation));
+  const [isRetrieving, setIsRetrieving] = useState(false);
+  const pendingRetrieval = useRef<AbortController | null>(null);
+
+  function pickBackend(emulated: boolean) {
+    const selected = selectBackend({
+      forceEmulated: emulated,
+      chooseAccount: (candidates, signal) => (latestOptions.current.chooseAccount ?? firstCandidate)(candidates, signal),
+      onUnreadableCredential: ({ type, id }, error) => {
+        logger.error(latestT.current('log.credentialUnreadable'), { type, username: id, ...errorFields(error) });
+      },
+    });
+    const { wrapBackend } = latestOptions.current;
+    return selected && wrapBackend ? wrapBackend(selected) : selected;
+  }
+
+  const [emit] = useState(() => (event: CredentialManagerEvent) => listeners.forEach(listener => listener(event)));
+
+  // Raw error objects can carry request bodies or credential values, so the
+  // console only ever sees a redacted summary.
+  const reportError = (context: string, error: unknown) => {
+    console.error(context, redactor.redactError(error));
+  };
+
+  // Logged once per selection, in the language active at the time.
+  useEffect(() => {
+    const t = latestT.current;
+    if (backend) {
+      logger.info(t('log.backendSelected'), {
+        backend: backend.kind,
+        label: backend.label,
+        forcedEmulation,
+        federated: backend.supportsFederated,
+      });
+    } else {
+      logger.error(t('log.noBackend'), {
+        reason: 'No PasswordCredential, and IndexedDB or WebCrypto is missing',
+      });
+    }
+    emit({ type: 'backend-changed', support: backend?.kind ?? 'none' });
+  }, [backend, emit, forcedEmulation, logger]);
+
+  useEffect(() => () => runner.cancel(), [runner]);
+
+  const cancelRetrieve = () => pendingRetrieval.current?.abort();
+
+  const runOperation = async <T,>(
+    name: OperationName,
+    scope: LogScope,
+    call: (signal: AbortSignal) => Promise<T>,
+    runOptions: Omit<RunOptions, 'onRetry'> = {},
+  ) => {
+    const policy = runner.getPolicies()[name];
+    const timeoutMs = runOptions.timeoutMs === undefined ? policy.timeoutMs : runOptions.timeoutMs;
+    scope.debug(t('log.operationPending', { operation: `${name}()` }), { timeoutMs, maxAttempts: policy.retries + 1 });
+    try {
+      return await runner.run(name, call, {
+        ...runOptions,
+        onRetry: (attempt, delayMs, error) => scope.info(t('log.operationRetry', { operation: `${name}()` }), {
+          ...errorFields(error),
+          attempt,
+          maxAttempts: policy.retries + 1,
+          retryInMs: delayMs,
+        }),
+      });
+    } catch (error) {
+      if (isDOMException(error, 'TimeoutError')) {
+        scope.error(t('log.operationTimedOut', { operation: `${name}()` }), {
+          timeoutMs,
+          reason: 'No answer in time; the prompt may have been ignored or the browser is stuck',
+        });
+      } else if (isDOMException(error, 'AbortError')) {
+        scope.info(t('log.operationAborted', { operation: `${name}()` }), errorFields(error));
+      }
+      throw error;
+    }
+  };
+
+  const setForceEmulated = (emulated: boolean) => {
+    cancelRetrieve();
+    setForcedEmulation(emulated);
+    setBackend(pickBackend(emulated));
+  };
+
+  const retrieve = async (mediation: CredentialMediationRequirement) => {
+    if (!backend) {
+      return null;
+    }
+    // Conditional mediation is defined for passkeys only, and browsers reject
+    // it for password and federated requests.
+    if (mediation === 'conditional') {
+      logger.info(t('log.conditionalPasskeysOnly'), { mediation });
+      return null;
+    }
+    cancelRetrieve();
+    const controller = new AbortController();
+    pendingRetrieval.current = controller;
+    const silentAccessPrevented = safeLocalStorage.getItem(SILENT_ACCESS_STORAGE_KEY) === 'true';
+    const providers = backend.supportsFederated ? latestOptions.current.federatedProviders ?? [] : [];
+
+    const span = logger.span(t('log.autoSignIn'), {
+      backend: backend.kind,
+      mediation,
+      types: providers.length > 0 ? 'password,federated' : 'password',
+      silentAccessPrevented,
+    });
+
+    setIsRetrieving(true);
+    const measurement = metrics.start('get', mediation);
+    try {
+      const cred = await runOperation('get', span, signal => backend.get({
+        password: true,
+        ...(providers.length > 0 && { federated: { providers } }),
+        mediation,
+        signal,
+      }), { signal: controller.signal });
+      measurement.end('success');
+
+      if (!cred) {
+        if (mediation === 'silent' && silentAccessPrevented) {
+          span.info(t('log.silentAccessBlocked'), {
+            result: null,
+            reason: 'preventSilentAccess() was called at logout',
+            solution: 'Retry with optional or required mediation',
+          });
+        } else {
+          span.info(t('log.noCredential'), {
+            result: null,
+            reason: 'No stored credential, or none could be released',
+          });
+        }
+        span.end('ok', { outcome: 'null' });
+        return null;
+      }
+
+      if (mediation !== 'silent') {
+        safeLocalStorage.removeItem(SILENT_ACCESS_STORAGE_KEY);
+      }
+      redactor.register(cred.id, 'pii');
+      if (cred.type === 'federated') {
+        span.success(t('log.federatedRetrieved'), { username: cred.id, provider: cred.provider });
+      } else {
+        redactor.register(cred.password, 'secret');
+        span.success(t('log.passwordRetrieved'), { username: cred.id });
+      }
+      span.end('ok', { outcome: cred.type });
+      emit({ type: 'retrieved', credentialType: cred.type, id: cred.id, mediation });
+      return cred;
+    } catch (error) {
+      measurement.end(outcomeOf(error), error);
+      if (isDOMException(error, 'AbortError')) {
+        span.end('ok', { outcome: 'aborted' });
+      } else if (isDOMException(error, 'TimeoutError')) {
+        span.end('error', { outcome: 'timed_out' });
+        emit(errorEvent('get', error));
+      } else if (isDOMException(error, 'NotAllowedError')) {
+        span.error(t('log.retrievalDenied'), {
+          ...errorFields(error),
+          reason: 'The user dismissed the prompt or the browser refused the request',
+        });
+        span.end('error', { outcome: 'denied' });
+        emit(errorEvent('get', error));
+      } else {
+        reportError('Credential retrieval error:', error);
+        span.error(t('log.retrievalFailed'), errorFields(error));
+        span.end('error', { outcome: 'error' });
+        emit(errorEvent('get', error));
+      }
+      return null;
+    } finally {
+      if (pendingRetrieval.current === controller) {
+        pendingRetrieval.current = null;
+        setIsRetrieving(false);
+      }
+    }
+  };
+
+  const store = async (credential: CredentialData, scope: LogScope = logger): Promise<StoreOutcome> => {
+    if (!backend) {
+      scope.info(t('log.storageSkipped'), {
+        reason: 'No credential backend available',
+        secureContext: window.isSecureContext,
+      });
+      return 'unavailable';
+    }
+    const { confirmStore } = latestOptions.current;
+    if (credential.type === 'password' && confirmStore && !await confirmStore(credential, scope)) {
+      return 'declined';
+    }
+
+    const storage = scope.span(t('log.storage'), {
+      backend: backend.kind,
+      type: credential.type,
+      ...(credential.type === 'federated' && { provider: credential.provider }),
+    });
+    const measurement = metrics.start('store');
+    try {
+      await runOperation('store', storage, () => backend.store(credential));
+      measurement.end('success');
+      safeLocalStorage.removeItem(SILENT_ACCESS_STORAGE_KEY);
+      storage.end('ok');
+      emit({ type: 'stored', credentialType: credential.type, id: credential.id });
+      return 'stored';
+    } catch (error) {
+      measurement.end(outcomeOf(error), error);
+      const outcome = failureOutcome(error);
+      if (outcome === 'failed') {
+        reportError('Credential storage error:', error);
+        storage.error(t('log.storageFailed'), errorFields(error));
+      }
+      storage.end('error', { outcome });
+      emit(errorEvent('store', error));
+      return outcome;
+    }
+  };
+
+  const signIn = async (username: string, password: string, { store: shouldStore = true } = {}): Promise<SignInResult> => {
+    const login = logger.span(t('log.login'), { storeCredential: shouldStore });
+
+    if (!username || !password) {
+      login.error(t('log.validationFailed'), { usernameProvided: Boolean(username), passwordProvided: Boolean(password) });
+      login.end('error', { outcome: 'invalid_input' });
+      return { ok: false, reason: 'invalid_input' };
+    }
+    redactor.register(username, 'pii');
+    redactor.register(password, 'secret');
+    login.debug(t('log.inputValidated'), { usernameProvided: true, passwordProvided: true });
+    login.info(t('log.processingAuthentication'), { username });
+
+    let result: AuthenticationResult;
+    const measurement = metrics.start('authenticate');
+    try {
+      result = await latestOptions.current.authenticate(username, password, login);
+      if (result.ok) {
+        measurement.end('success');
+      } else {
+        measurement.end('failure', result.outcome);
+      }
+    } catch (error) {
+      measurement.end(outcomeOf(error), error);
+      reportError('Authentication error:', error);
+      login.error(t('log.authenticationRequestFailed'), errorFields(error));
+      login.end('error', { outcome: 'error' });
+      emit(errorEvent('authenticate', error));
+      return { ok: false, reason: 'error' };
+    }
+    if (!result.ok) {
+      login.end('error', { outcome: result.outcome });
+      emit({ type: 'error', operation: 'authenticate', name: 'AuthenticationError', message: result.outcome });
+      return { ok: false, reason: result.outcome };
+    }
+    emit({ type: 'signed-in', id: username });
+
+    const storage = shouldStore
+      ? await store({ type: 'password', id: username, password, name: result.name, iconURL: result.iconURL }, login)
+      : 'skipped';
+    login.end('ok', { outcome: 'success' });
+    return { ok: true, storage };
+  };
+
+  const signOut = async (scope: LogScope = logger) => {
+    if (backend) {
+      const cleanup = scope.span('preventSilentAccess()', { backend: backend.kind });
+      const measurement = metrics.start('preventSilentAccess');
+      try {
+        await runOperation('preventSilentAccess', cleanup, () => backend.preventSilentAccess());
+        measurement.end('success');
+        safeLocalStorage.setItem(SILENT_ACCESS_STORAGE_KEY, 'true');
+        cleanup.end('ok');
+      } catch (error) {
+        measurement.end(outcomeOf(error), error);
+        const outcome = failureOutcome(error);
+        if (outcome === 'failed') {
+          reportError('Error preventing silent access:', error);
+          cleanup.error(t('log.preventSilentAccessFailed'), errorFields(error));
+        }
+        cleanup.end('error', { outcome });
+        emit(errorEvent('preventSilentAccess', error));
+      }
+    }
+    emit({ type: 'signed-out' });
+  };
+
+  const [subscribe] = useState(() => (listener: (event: CredentialManagerEvent) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  });
+
+  return {
+    support: backend?.kind ?? 'none',
+    backend,
+    isRetrieving,
+    operation,
+    operationPolicies,
+    logger,
+    redactor,
+    metrics,
+    retrieve,
+    cancelRetrieve,
+    signIn,
+    store,
+    signOut,
+    cancelOperation: runner.cancel,
+    setOperationPolicy: runner.setPolicy,
+    runOperation,
+    setForceEmulated,
+    subscribe,
+  };
+}
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from './i18n';
+import type { LogEntry } from './logger';
+import type { CredentialData } from './credentialBackend';
+import { EMBED_PROTOCOL_VERSION, createEmbedBridge, type EmbedBridge, type EmbedCommand } from './embed';
+import type { CredentialManager, SignInResult } from './useCredentialManager';
+
+export interface EmbedBridgeOptions {
+  /** Off outside an iframe; see `isEmbedMode`. */
+  enabled: boolean;
+  /** Whose log entries and credential events are mirrored to the host. */
+  manager: CredentialManager;
+  /** What the host's commands do; each result is posted back with the command's `requestId`. */
+  commands: {
+    signIn: (username: string, password: string, store?: boolean) => Promise<SignInResult>;
+    signOut: () => Promise<void>;
+    silentGet: () => Promise<CredentialData | null>;
+  };
+}
+
+/**
+ * Runs the widget side of the embed protocol: answers the host's commands and
+ * mirrors the log and credential outcomes to it. Returns null when `enabled`
+ * is false.
+ */
+export function useEmbedBridge(options: EmbedBridgeOptions): EmbedBridge | null {
+  const { t } = useI18n();
+  const latestT = useRef(t);
+  latestT.current = t;
+  const { manager, commands } = options;
+  const { logger, redactor, subscribe } = manager;
+  const [bridge] = useState(() => options.enabled ? createEmbedBridge() : null);
+  const commandHandler = useRef<(command: EmbedCommand) => void>();
+
+  // Assigned on every render, so the listener below always runs the latest one.
+  commandHandler.current = async (command: EmbedCommand) => {
+    logger.info(t('log.embedCommand'), { command: command.type, requestId: command.requestId ?? null });
+    switch (command.type) {
+      case 'sign-in': {
+        const result = await commands.signIn(command.username, command.password, command.store);
+        bridge?.post({
+          type: 'result',
+          requestId: command.requestId,
+          command: command.type,
+          ok: result.ok,
+          ...(!result.ok && { reason: result.reason }),
+        });
+        break;
+      }
+      case 'sign-out':
+        await commands.signOut();
+        bridge?.post({ type: 'result', requestId: command.requestId, command: command.type, ok: true });
+        break;
+      case 'silent-get': {
+        const cred = await commands.silentGet();
+        bridge?.post({
+          type: 'result',
+          requestId: command.requestId,
+          command: command.type,
+          ok: true,
+          credentialType: cred?.type ?? null,
+        });
+        break;
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!bridge) {
+      return;
+    }
+    logger.info(latestT.current('log.embedMode'), {
+      host: bridge.getHostOrigin(),
+      status: bridge.getStatus(),
+      allowedOrigins: bridge.allowedOrigins.join(','),
+      protocolVersion: EMBED_PROTOCOL_VERSION,
+    });
+    return bridge.listen({
+      onCommand: command => commandHandler.current?.(command),
+      onRejected: origin => logger.error(latestT.current('log.embedMessageRejected'), {
+        origin,
+        reason: 'Origin is not on the allow-list',
+      }),
+    });
+  }, [bridge, logger]);
+
+  // Mirrors the log and credential outcomes to the host page. Log entries are
+  // masked like an export; a span is sent again, with the same id, when it ends.
+  useEffect(() => {
+    if (!bridge) {
+      return;
+    }
+    const sent = new Map<number, LogEntry>();
+    const stopLog = logger.subscribe(() => {
+      const entries = logger.getEntries();
+      for (const entry of entries) {
+        if (sent.get(entry.id) !== entry) {
+          sent.set(entry.id, entry);
+          bridge.post({ type: 'log-entry', entry: redactor.maskPII(entry) });
+        }
+      }
+      // Forget entries the logger has dropped, so this stays as bounded as it is.
+      const oldestId = entries[0]?.id ?? Infinity;
+      for (const id of sent.keys()) {
+        if (id >= oldestId) {
+          break;
+        }
+        sent.delete(id);
+      }
+    });
+    const stopEvents = subscribe(event => {
+      if (event.type === 'stored') {
+        bridge.post({ type: 'stored', credentialType: event.credentialType, id: event.id });
+      } else if (event.type === 'error') {
+        bridge.post({ type: 'error', code: event.name, message: event.message, operation: event.operation });
+      }
+    });
+    return () => {
+      stopLog();
+      stopEvents();
+    };
+  }, [bridge, logger, redactor, subscribe]);
+
+  return bridge;
+}
@@ -0,0 +1,151 @@
+import { useI18n } from './i18n';
+import { errorFields, type LogScope } from './logger';
+import { FEDERATED_REDIRECT_URI, IDENTITY_PROVIDER, beginFederatedSignIn, type FederatedCallback } from './federation';
+import type { SessionTimes } from './sessionManager';
+import type { CredentialManager } from './useCredentialManager';
+import type { SecondFactorResult } from './useSecondFactor';
+import type { SignedInAccount } from './useSession';
+
+export interface FederatedSignInOptions {
+  /** Stores the FederatedCredential after sign-in, and logs with its logger. */
+  manager: CredentialManager;
+  verifySecondFactor: (challenge: string, digits: number, scope: LogScope) => Promise<SecondFactorResult>;
+  onSignedIn: (account: SignedInAccount, times: SessionTimes) => void;
+  onStatus?: (message: string) => void;
+}
+
+export interface FederatedSignIn {
+  provider: typeof IDENTITY_PROVIDER;
+  /**
+   * Redirects to the provider. `prompt: 'none'` asks it to answer without
+   * showing anything, for an account the credential manager returned.
+   */
+  begin: (request?: { loginHint?: string; prompt?: 'none' }) => void;
+  /** Exchanges the code from `consumeFederatedCallback()` and starts the session. */
+  complete: (callback: FederatedCallback) => Promise<void>;
+}
+
+/** Sign-in with the identity provider, from the redirect to the stored credential. */
+export function useFederatedSignIn(options: FederatedSignInOptions): FederatedSignIn {
+  const { t } = useI18n();
+  const { manager, verifySecondFactor, onSignedIn, onStatus } = options;
+  const { logger, redactor, backend } = manager;
+
+  const reportError = (context: string, error: unknown) => {
+    console.error(context, redactor.redactError(error));
+  };
+
+  const begin = (request: { loginHint?: string; prompt?: 'none' } = {}) => {
+    if (request.prompt === 'none') {
+      logger.info(t('log.redirectingToProvider'), { prompt: 'none', loginHint: request.loginHint ?? null });
+    } else {
+      logger.info(t('log.federatedStart', { provider: IDENTITY_PROVIDER.name }), {
+        authorizationEndpoint: IDENTITY_PROVIDER.authorizeUrl,
+        redirectUri: FEDERATED_REDIRECT_URI,
+      });
+    }
+    beginFederatedSignIn(request);
+  };
+
+  const complete = async (callback: FederatedCallback) => {
+    const span = logger.span(t('log.federatedCallback', { provider: IDENTITY_PROVIDER.name }));
+
+    if (callback.status === 'error') {
+      const reasons: Record<string, string> = {
+        access_denied: 'The user cancelled consent at the provider',
+        login_required: 'The provider needs the user to choose an account interactively',
+        state_mismatch: 'The state parameter did not match; the response was discarded',
+      };
+      onStatus?.(callback.error === 'access_denied'
+        ? t('status.providerCancelled')
+        : t('status.providerIncomplete'));
+      span.error(t('log.federatedFailed'), {
+        error: callback.error,
+        reason: reasons[callback.error] ?? 'Unknown provider error',
+      });
+      span.end('error');
+      return;
+    }
+
+    span.debug(t('log.authorizationCodeReceived'));
+
+    let body: {
+      user?: { username: string; displayName: string };
+      identity?: { email: string; name: string; picture: string; nonce: string };
+      provider?: string;
+      message?: string;
+      secondFactor?: 'totp';
+      challenge?: string;
+      digits?: number;
+    } & Partial<SessionTimes>;
+    const exchange = span.span(t('log.codeExchange'), { method: 'POST', url: '/api/auth/federated' });
+    let response: Response | undefined;
+    try {
+      response = await fetch('/api/auth/federated', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ code: callback.code, redirectUri: FEDERATED_REDIRECT_URI }),
+      });
+      body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message ?? 'Code exchange rejected');
+      }
+      exchange.end('ok', { status: response.status });
+    } catch (error) {
+      reportError('Federated sign-in error:', error);
+      onStatus?.(t('status.providerFailed'));
+      exchange.end('error', response && { status: response.status });
+      span.error(t('log.codeExchangeFailed'), errorFields(error));
+      span.end('error');
+      return;
+    }
+
+    const { user, identity } = body;
+    if (!user || !identity || identity.nonce !== callback.nonce) {
+      onStatus?.(t('status.providerFailed'));
+      span.error(t('log.identityVerificationFailed'), { reason: 'Nonce mismatch; the identity was not issued for this request' });
+      span.end('error');
+      return;
+    }
+
+    let times = body as SessionTimes;
+    if (body.secondFactor === 'totp' && body.challenge) {
+      span.info(t('log.secondFactorRequired'), { method: 'totp', credentialStored: false });
+      const secondFactor = await verifySecondFactor(body.challenge, body.digits ?? 6, span);
+      if (!secondFactor.ok) {
+        span.end('error', { outcome: secondFactor.outcome });
+        return;
+      }
+      times = secondFactor.body;
+    }
+
+    const iconURL = new URL(identity.picture, window.location.origin).href;
+    onSignedIn(
+      { id: user.username, name: user.displayName, iconURL, method: 'federated', provider: IDENTITY_PROVIDER.origin },
+      times,
+    );
+    onStatus?.(t('status.providerSignedIn', { provider: body.provider ?? IDENTITY_PROVIDER.name }));
+    span.success(t('log.federatedSucceeded'), { provider: body.provider ?? null, account: user.username });
+
+    if (!backend?.supportsFederated) {
+      span.info(t('log.federatedStorageSkipped'), { reason: 'FederatedCredential not supported' });
+      span.end('ok');
+      return;
+    }
+
+    const outcome = await manager.store({
+      type: 'federated',
+      id: user.username,
+      provider: IDENTITY_PROVIDER.origin,
+      name: user.displayName,
+      iconURL,
+    }, span);
+    if (outcome === 'stored') {
+      onStatus?.(t('status.providerSignedInSaved', { provider: body.provider ?? IDENTITY_PROVIDER.name }));
+    }
+    span.end('ok');
+  };
+
+  return { provider: IDENTITY_PROVIDER, begin, complete };
+}
@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from './i18n';
+import { errorFields, type LogScope } from './logger';
+import { endWhenSettled } from './metrics';
+import { accountAvatarURL } from './knownAccounts';
+import {
+  getPasskeyCapabilities,
+  serializeAssertion,
+  serializeRegistration,
+  toCreationOptions,
+  toRequestOptions,
+  type CreationOptionsJSON,
+  type PasskeyCapabilities,
+  type RequestOptionsJSON,
+} from './passkeys';
+import type { SessionTimes } from './sessionManager';
+import type { CredentialManager } from './useCredentialManager';
+import type { SecondFactorResult } from './useSecondFactor';
+import type { SignedInAccount } from './useSession';
+
+export interface PasskeyOptions {
+  /** Runs the ceremonies under its operation policies, and logs and measures them with its logger and metrics. */
+  manager: CredentialManager;
+  verifySecondFactor: (challenge: string, digits: number, scope: LogScope) => Promise<SecondFactorResult>;
+  onSignedIn: (account: SignedInAccount, times: SessionTimes) => void;
+  onStatus?: (message: string) => void;
+  /** Decorates the `navigator.credentials` calls, e.g. with a fault injector's `run`. */
+  wrapCeremony?: (operation: 'create' | 'get', call: () => Promise<Credential | null>, signal: AbortSignal) => Promise<Credential | null>;
+}
+
+export interface Passkeys {
+  /** Null until detection has finished. */
+  capabilities: PasskeyCapabilities | null;
+  /** A modal ceremony is waiting for the authenticator; autofill does not count. */
+  isBusy: boolean;
+  /** Registers a passkey for the signed-in account. */
+  register: () => Promise<void>;
+  /** `conditional` waits for the user to pick a passkey from the username field's autofill. */
+  signIn: (mode: 'optional' | 'conditional') => Promise<void>;
+  /** Aborts a waiting autofill request, which would block any other credential prompt. */
+  cancelAutofill: () => void;
+}
+
+const passThrough: NonNullable<PasskeyOptions['wrapCeremony']> = (_operation, call) => call();
+
+/**
+ * WebAuthn registration and sign-in against the auth service's relying party.
+ * Sign-ins end in the same `onSignedIn` as the other methods.
+ */
+export function usePasskeys(options: PasskeyOptions): Passkeys {
+  const { t } = useI18n();
+  const latestT = useRef(t);
+  latestT.current = t;
+  const { manager, verifySecondFactor, onSignedIn, onStatus, wrapCeremony = passThrough } = options;
+  const { logger, metrics, redactor } = manager;
+  const [capabilities, setCapabilities] = useState<PasskeyCapabilities | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // The pending conditional request, which waits for autofill.
+  const autofillRequest = useRef<AbortController | null>(null);
+
+  const reportError = (context: string, error: unknown) => {
+    console.error(context, redactor.redactError(error));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    getPasskeyCapabilities().then(detected => {
+      if (cancelled) {
+        return;
+      }
+      setCapabilities(detected);
+      logger.info(latestT.current('log.passkeyCapabilities'), {
+        publicKeyCredential: detected.available,
+        platformAuthenticator: detected.platformAuthenticator,
+        conditionalMediation: detected.conditionalMediation,
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [logger]);
+
+  const cancelAutofill = () => autofillRequest.current?.abort();
+
+  const register = async () => {
+    setIsBusy(true);
+    const span = logger.span(t('log.passkeyRegistration'));
+    try {
+      const optionsResponse = await fetch('/api/auth/passkey/register/options', { method: 'POST', credentials: 'same-origin' });
+      const optionsBody = await optionsResponse.json();
+      span.debug(t('log.registrationOptionsRequested'), { url: '/api/auth/passkey/register/options', status: optionsResponse.status });
+      if (!optionsResponse.ok) {
+        throw new Error(optionsBody.message ?? 'Could not get registration options');
+      }
+      const creationOptions = optionsBody as CreationOptionsJSON;
+      span.debug(t('log.challengeReceived'), {
+        rpId: creationOptions.rp.id,
+        attestation: creationOptions.attestation,
+        residentKey: creationOptions.authenticatorSelection.residentKey ?? null,
+        excludedPasskeys: creationOptions.excludeCredentials.length,
+      });
+
+      const ceremony = span.span('navigator.credentials.create({ publicKey })');
+      const credential = await endWhenSettled(metrics.start('passkeyCreate'), manager.runOperation('create', ceremony, signal => wrapCeremony(
+        'create',
+        () => navigator.credentials.create({ publicKey: toCreationOptions(creationOptions), signal }),
+        signal,
+      ))).finally(() => ceremony.end());
+      if (!(credential instanceof PublicKeyCredential)) {
+        throw new Error('No passkey was created');
+      }
+
+      const verifyResponse = await fetch('/api/auth/passkey/register/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify(serializeRegistration(credential)),
+      });
+      const result = await verifyResponse.json();
+      span.debug(t('log.attestationVerificationRequested'), { url: '/api/auth/passkey/register/verify', status: verifyResponse.status });
+      if (!verifyResponse.ok) {
+        throw new Error(result.message ?? 'Registration was rejected');
+      }
+
+      onStatus?.(t('status.passkeyCreated'));
+      span.success(t('log.passkeyRegistered'), {
+        credentialId: result.id,
+        algorithm: result.algorithm,
+        userVerified: result.userVerified,
+        signCount: result.signCount,
+        passkeyCount: result.passkeyCount,
+      });
+      span.end('ok');
+    } catch (error) {
+      reportError('Passkey registration error:', error);
+      onStatus?.(t('status.passkeyCreateFailed'));
+      span.error(t('log.passkeyRegistrationFailed'), errorFields(error));
+      span.end('error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const signIn = async (mode: 'optional' | 'conditional') => {
+    manager.cancelRetrieve();
+    cancelAutofill();
+    const conditional = mode === 'conditional';
+    if (conditional && !(await getPasskeyCapabilities()).conditionalMediation) {
+      logger.info(t('log.passkeyAutofillUnavailable'), { mediation: mode });
+      return;
+    }
+    const autofill = conditional ? new AbortController() : null;
+    if (autofill) {
+      autofillRequest.current = autofill;
+    } else {
+      setIsBusy(true);
+    }
+    const span = logger.span(t('log.passkeySignIn'), { mediation: mode });
+    try {
+      const optionsResponse = await fetch('/api/auth/passkey/login/options', { method: 'POST', credentials: 'same-origin' });
+      const optionsBody = await optionsResponse.json();
+      span.debug(t('log.authenticationOptionsRequested'), { url: '/api/auth/passkey/login/options', status: optionsResponse.status });
+      if (!optionsResponse.ok) {
+        throw new Error(optionsBody.message ?? 'Could not get sign-in options');
+      }
+      const requestOptions = optionsBody as RequestOptionsJSON;
+      span.debug(t('log.challengeReceived'), { rpId: requestOptions.rpId, userVerification: requestOptions.userVerification });
+      if (conditional) {
+        span.info(t('log.waitingForAutofill'));
+      }
+
+      // Autofill waits for the user, which may never happen, so it is exempt
+      // from the timeout.
+      const ceremony = span.span(`navigator.credentials.get({ publicKey${conditional ? ", mediation: 'conditional'" : ''} })`);
+      const credential = await endWhenSettled(metrics.start('passkeyGet', mode), manager.runOperation('get', ceremony, signal => wrapCeremony(
+        'get',
+        () => navigator.credentials.get({ publicKey: toRequestOptions(requestOptions), ...(conditional && { mediation: mode }), signal }),
+        signal,
+      ), autofill ? { signal: autofill.signal, timeoutMs: null } : {})).finally(() => ceremony.end());
+      if (!(credential instanceof PublicKeyCredential)) {
+        throw new Error('No passkey was selected');
+      }
+
+      const verifyResponse = await fetch('/api/auth/passkey/login/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify(serializeAssertion(credential)),
+      });
+      const result = await verifyResponse.json();
+      span.debug(t('log.assertionVerificationRequested'), { url: '/api/auth/passkey/login/verify', status: verifyResponse.status });
+      if (!verifyResponse.ok) {
+        throw new Error(result.message ?? 'Assertion was rejected');
+      }
+
+      let times: SessionTimes = result;
+      if (result.secondFactor === 'totp') {
+        span.info(t('log.secondFactorRequired'), { method: 'totp', userVerified: result.passkey.userVerified });
+        const secondFactor = await verifySecondFactor(result.challenge, result.digits, span);
+        if (!secondFactor.ok) {
+          span.end('error', { outcome: secondFactor.outcome });
+          return;
+        }
+        times = secondFactor.body;
+      }
+
+      onSignedIn({
+        id: result.user.username,
+        name: result.user.displayName,
+        iconURL: accountAvatarURL(result.user.username),
+        method: 'passkey',
+      }, times);
+      onStatus?.(t('status.passkeySignedIn'));
+      span.success(t('log.passkeySucceeded'), {
+        account: result.user.username,
+        signatureValid: true,
+        previousSignCount: result.passkey.previousSignCount,
+        signCount: result.passkey.signCount,
+        userVerified: result.passkey.userVerified,
+      });
+      span.end('ok');
+    } catch (error) {
+      if (conditional && error instanceof DOMException && error.name === 'AbortError') {
+        span.end('ok', { outcome: 'aborted' });
+        return;
+      }
+      reportError('Passkey sign-in error:', error);
+      onStatus?.(t('status.passkeySignInFailed'));
+      span.error(t('log.passkeySignInFailed'), errorFields(error));
+      span.end('error');
+    } finally {
+      if (autofill) {
+        if (autofillRequest.current === autofill) {
+          autofillRequest.current = null;
+        }
+      } else {
+        setIsBusy(false);
+      }
+    }
+  };
+
+  return { capabilities, isBusy, register, signIn, cancelAutofill };
+}
@@ -0,0 +1,257 @@
+import { describeViolation, useI18n } from './i18n';
+import { errorFields, type LogScope, type Logger } from './logger';
+import type { Redactor } from './redaction';
+import type { CredentialData } from './credentialBackend';
+import { accountAvatarURL, type KnownAccount } from './knownAccounts';
+import { checkPasswordPolicy } from './passwordPolicy';
+import type { SessionTimes } from './sessionManager';
+import type { SignUpValues } from './SignUpForm';
+import type { ChangePasswordValues } from './ChangePasswordForm';
+import type { AuthenticationResult, StoreOutcome } from './useCredentialManager';
+import type { SecondFactorResult } from './useSecondFactor';
+import type { SignedInAccount } from './useSession';
+
+export interface PasswordAccountOptions {
+  logger: Logger;
+  redactor: Redactor;
+  /** Saves the new password after sign-up or a change, usually the credential manager's `store`. */
+  store: (credential: CredentialData, scope: LogScope) => Promise<StoreOutcome>;
+  /** Asks for the code when the account has a second factor, e.g. `useSecondFactor().verify`. */
+  verifySecondFactor: (challenge: string, digits: number, scope: LogScope) => Promise<SecondFactorResult>;
+  /** Starts the session once the server has accepted the account, e.g. `useSession().start`. */
+  onSignedIn: (account: SignedInAccount, times: SessionTimes) => void;
+  onStatus?: (message: string) => void;
+}
+
+export interface PasswordAccount {
+  /** The server half of a password sign-in, for `useCredentialManager`'s `authenticate` option. */
+  authenticate: (username: string, password: string, scope: LogScope) => Promise<AuthenticationResult>;
+  /** Each resolves with an error to show, or null on success. */
+  signUp: (values: SignUpValues) => Promise<string | null>;
+  changePassword: (values: ChangePasswordValues, account: Pick<KnownAccount, 'id' | 'name' | 'iconURL'>) => Promise<string | null>;
+}
+
+/**
+ * The auth service's password endpoints: sign-in, sign-up and password
+ * change. The password policy is checked here for new passwords only, so an
+ * existing password that predates it still signs in.
+ */
+export function usePasswordAccount(options: PasswordAccountOptions): PasswordAccount {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { logger, redactor, store, verifySecondFactor, onSignedIn, onStatus } = options;
+
+  const reportError = (context: string, error: unknown) => {
+    console.error(context, redactor.redactError(error));
+  };
+
+  // The credential manager adds input validation and logging around this and
+  // stores the credential afterwards, so with a second factor nothing is
+  // stored until the code is accepted.
+  const authenticate = async (user: string, pass: string, login: LogScope): Promise<AuthenticationResult> => {
+    const request = login.span(t('log.authenticationRequest'), {
+      method: 'POST',
+      url: '/api/auth/login',
+      transport: window.location.protocol === 'https:' ? 'https' : 'http',
+    });
+    let response: Response;
+    let body: {
+      user?: { displayName: string };
+      message?: string;
+      remainingAttempts?: number;
+      retryAfter?: number;
+      secondFactor?: 'totp';
+      challenge?: string;
+      digits?: number;
+    } & Partial<SessionTimes>;
+    try {
+      response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ username: user, password: pass }),
+      });
+      body = await response.json();
+    } catch (error) {
+      reportError('Authentication request error:', error);
+      onStatus?.(t('status.serviceUnreachable'));
+      request.error(t('log.authenticationRequestFailed'), errorFields(error));
+      request.end('error');
+      return { ok: false, outcome: 'network_error' };
+    }
+    request.end(response.ok ? 'ok' : 'error', {
+      status: response.status,
+      sessionCookie: response.ok && !body.secondFactor ? 'set (HttpOnly)' : 'not issued',
+    });
+
+    if (response.status === 423) {
+      onStatus?.(t('status.locked', { count: body.retryAfter ?? 0 }));
+      login.error(t('log.accountLocked'), { retryAfterSeconds: body.retryAfter ?? null, credentialStored: false });
+      return { ok: false, outcome: 'locked' };
+    }
+
+    if (!response.ok) {
+      onStatus?.(body.remainingAttempts !== undefined
+        ? t('status.invalidCredentials', { count: body.remainingAttempts })
+        : body.message ?? t('status.loginFailed'));
+      login.error(t('log.authenticationRejected'), {
+        reason: body.message ?? 'Unknown',
+        remainingAttempts: body.remainingAttempts ?? null,
+        credentialStored: false,
+      });
+      return { ok: false, outcome: 'rejected' };
+    }
+
+    if (body.secondFactor === 'totp' && body.challenge) {
+      login.info(t('log.secondFactorRequired'), {
+        method: 'totp',
+        credentialStored: false,
+        reason: 'store() waits until the second factor succeeds',
+      });
+      const secondFactor = await verifySecondFactor(body.challenge, body.digits ?? 6, login);
+      if (!secondFactor.ok) {
+        return { ok: false, outcome: secondFactor.outcome };
+      }
+      body = secondFactor.body;
+    }
+
+    const displayName = body.user?.displayName ?? user;
+    const iconURL = accountAvatarURL(user);
+    onSignedIn({ id: user, name: displayName, iconURL, method: 'password' }, body as SessionTimes);
+    onStatus?.(t('status.loggedIn'));
+    login.success(t('log.sessionEstablished'), { displayName });
+    return { ok: true, name: displayName, iconURL };
+  };
+
+  const signUp = async ({ username, displayName, password }: SignUpValues) => {
+    const signUpScope = logger.span(t('log.signUp'), { autocomplete: 'new-password' });
+    redactor.register(username, 'pii');
+    redactor.register(displayName, 'pii');
+    redactor.register(password, 'secret');
+
+    const violations = checkPasswordPolicy(password, username);
+    if (violations.length > 0) {
+      signUpScope.error(t('log.registrationPolicyViolated'), {
+        rules: violations.map(violation => violation.rule).join(','),
+      });
+      signUpScope.end('error', { outcome: 'policy' });
+      return violations.map(violation => describeViolation(i18n, violation)).join('. ');
+    }
+    signUpScope.debug(t('log.policySatisfied'));
+
+    const request = signUpScope.span(t('log.createAccount'), { method: 'POST', url: '/api/auth/register' });
+    let response: Response;
+    let body: { user?: { username: string; displayName: string }; message?: string } & Partial<SessionTimes>;
+    try {
+      response = await fetch('/api/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ username, password, displayName }),
+      });
+      body = await response.json();
+      request.end(response.ok ? 'ok' : 'error', { status: response.status });
+    } catch (error) {
+      reportError('Registration request error:', error);
+      request.error(t('log.registrationUnreachable'), errorFields(error));
+      request.end('error');
+      signUpScope.end('error', { outcome: 'network' });
+      return t('status.serviceUnreachable');
+    }
+
+    if (!response.ok || !body.user) {
+      signUpScope.error(t('log.registrationRejected'), { status: response.status, reason: body.message ?? 'Unknown' });
+      signUpScope.end('error', { outcome: 'rejected' });
+      return body.message ?? t('status.registrationFailed');
+    }
+
+    const iconURL = accountAvatarURL(body.user.username);
+    onSignedIn({ id: body.user.username, name: body.user.displayName, iconURL, method: 'password' }, body as SessionTimes);
+    onStatus?.(t('status.accountCreated'));
+    signUpScope.success(t('log.accountCreated'), { username: body.user.username });
+
+    // A new account has no entry in the credential manager yet, so store()
+    // creates one. Browsers with their own generator will already have
+    // offered to save it from the new-password field.
+    const outcome = await store({
+      type: 'password',
+      id: body.user.username,
+      password,
+      name: body.user.displayName,
+      iconURL,
+    }, signUpScope);
+    if (outcome === 'stored') {
+      onStatus?.(t('status.accountCreatedSaved'));
+    }
+    signUpScope.end('ok', { outcome: 'success', credential: outcome });
+    return null;
+  };
+
+  const changePassword = async ({ currentPassword, newPassword }: ChangePasswordValues, account: Pick<KnownAccount, 'id' | 'name' | 'iconURL'>) => {
+    const change = logger.span(t('log.changePassword'), { autocomplete: 'current-password + new-password' });
+    redactor.register(currentPassword, 'secret');
+    redactor.register(newPassword, 'secret');
+
+    const violations = checkPasswordPolicy(newPassword, account.id);
+    if (newPassword === currentPassword) {
+      violations.push({ rule: 'reused', message: t('policy.reused') });
+    }
+    if (violations.length > 0) {
+      change.error(t('log.changePolicyViolated'), {
+        rules: violations.map(violation => violation.rule).join(','),
+      });
+      change.end('error', { outcome: 'policy' });
+      return violations.map(violation => describeViolation(i18n, violation)).join('. ');
+    }
+
+    const request = change.span(t('log.updatePassword'), { method: 'POST', url: '/api/auth/password' });
+    let response: Response;
+    let body: { revokedSessions?: number; message?: string; retryAfter?: number };
+    try {
+      response = await fetch('/api/auth/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      body = await response.json();
+      request.end(response.ok ? 'ok' : 'error', { status: response.status });
+    } catch (error) {
+      reportError('Password change request error:', error);
+      request.error(t('log.serviceUnreachable'), errorFields(error));
+      request.end('error');
+      change.end('error', { outcome: 'network' });
+      return t('status.serviceUnreachable');
+    }
+
+    if (response.status === 429) {
+      change.error(t('log.accountLocked'), { retryAfterSeconds: body.retryAfter ?? null });
+      change.end('error', { outcome: 'locked' });
+      return t('status.locked', { count: body.retryAfter ?? 0 });
+    }
+    if (!response.ok) {
+      change.error(t('log.passwordChangeRejected'), { status: response.status, reason: body.message ?? 'Unknown' });
+      change.end('error', { outcome: 'rejected' });
+      return body.message ?? t('status.passwordChangeFailed');
+    }
+    change.success(t('log.passwordUpdated'), { revokedSessions: body.revokedSessions ?? 0 });
+
+    // Same id as the existing entry: the credential manager replaces the saved
+    // password instead of adding a second credential for this account.
+    change.info(t('log.replacingCredential'), { username: account.id, sameId: true });
+    const outcome = await store({
+      type: 'password',
+      id: account.id,
+      password: newPassword,
+      name: account.name,
+      iconURL: account.iconURL ?? accountAvatarURL(account.id),
+    }, change);
+    onStatus?.(outcome === 'stored'
+      ? t('status.passwordChangedSaved')
+      : t('status.passwordChanged'));
+    change.end('ok', { outcome: 'success', credential: outcome });
+    return null;
+  };
+
+  return { authenticate, signUp, changePassword };
+}
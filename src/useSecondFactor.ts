@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from './i18n';
+import { errorFields, type LogScope, type Logger } from './logger';
+import type { Redactor } from './redaction';
+import type { KnownAccount } from './knownAccounts';
+import type { SessionTimes } from './sessionManager';
+
+export interface TotpStatus {
+  enrolled: boolean;
+  recoveryCodesLeft: number;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  uri: string;
+  digits: number;
+  periodSeconds: number;
+}
+
+/** The code prompt to render while a sign-in waits for its second factor. */
+export interface SecondFactorPromptState {
+  digits: number;
+  /** Resolves with an error to show, or null once the prompt is done. */
+  submit: (code: string) => Promise<string | null>;
+  cancel: () => void;
+}
+
+export type SecondFactorResult =
+  | { ok: true; body: { user: { displayName: string }; method: 'totp' | 'recovery' } & SessionTimes }
+  | { ok: false; outcome: string };
+
+export interface SecondFactorOptions {
+  logger: Logger;
+  redactor: Redactor;
+  /** The signed-in account; enrollment is offered to password sign-ins only. */
+  account: KnownAccount | null;
+  onStatus?: (message: string) => void;
+}
+
+export interface SecondFactor {
+  prompt: SecondFactorPromptState | null;
+  /** The account's enrollment, or null when it cannot enroll or it is not known yet. */
+  status: TotpStatus | null;
+  /** Opens the prompt for a challenge the server issued, and settles once it closes. */
+  verify: (challenge: string, digits: number, scope: LogScope) => Promise<SecondFactorResult>;
+  beginEnrollment: () => Promise<TotpEnrollment | string>;
+  confirmEnrollment: (code: string) => Promise<{ recoveryCodes: string[] } | string>;
+  disable: (code: string) => Promise<string | null>;
+}
+
+type TotpResponse<T> =
+  | { ok: true; body: T }
+  | { ok: false; body: { error?: string; message?: string } };
+
+/**
+ * TOTP against the auth service: the code prompt shown during sign-in, and
+ * enrolling and disabling it for the signed-in account.
+ */
+export function useSecondFactor(options: SecondFactorOptions): SecondFactor {
+  const { t } = useI18n();
+  const { logger, redactor, account, onStatus } = options;
+  const [prompt, setPrompt] = useState<SecondFactorPromptState | null>(null);
+  const [status, setStatus] = useState<TotpStatus | null>(null);
+
+  const reportError = (context: string, error: unknown) => {
+    console.error(context, redactor.redactError(error));
+  };
+
+  const post = async <T,>(scope: LogScope, url: string, payload: object = {}): Promise<TotpResponse<T>> => {
+    const request = scope.span(t('log.totpRequest'), { method: 'POST', url });
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify(payload),
+      });
+      const body = await response.json();
+      request.end(response.ok ? 'ok' : 'error', { status: response.status, ...(!response.ok && { error: body.error ?? null }) });
+      return { ok: response.ok, body } as TotpResponse<T>;
+    } catch (error) {
+      reportError('Two-factor request error:', error);
+      request.error(t('log.serviceUnreachable'), errorFields(error));
+      request.end('error');
+      return { ok: false, body: { message: t('status.serviceUnreachable') } };
+    }
+  };
+
+  // The prompt stays open across wrong codes; the promise settles once a code
+  // is accepted, the challenge is spent or the user cancels.
+  const verify = (challenge: string, digits: number, login: LogScope) =>
+    new Promise<SecondFactorResult>(resolve => {
+      const finish = (result: SecondFactorResult) => {
+        setPrompt(null);
+        resolve(result);
+      };
+      setPrompt({
+        digits,
+        cancel: () => {
+          login.info(t('log.secondFactorCancelled'), { credentialStored: false });
+          onStatus?.(t('status.secondFactorCancelled'));
+          finish({ ok: false, outcome: 'second_factor_cancelled' });
+        },
+        submit: async code => {
+          const result = await post<{
+            user: { displayName: string };
+            method: 'totp' | 'recovery';
+            driftSteps: number | null;
+            recoveryCodesLeft: number;
+          } & SessionTimes>(login, '/api/auth/totp/verify', { challenge, code });
+          if (result.ok) {
+            login.success(t('log.secondFactorVerified'), {
+              method: result.body.method,
+              driftSteps: result.body.driftSteps,
+              recoveryCodesLeft: result.body.recoveryCodesLeft,
+            });
+            finish({ ok: true, body: result.body });
+            return null;
+          }
+          const { error, message } = result.body;
+          if (!error || error === 'invalid_code' || error === 'replayed_code') {
+            login.error(t('log.secondFactorRejected'), { reason: error ?? 'network_error' });
+            return error === 'replayed_code'
+              ? t('secondFactor.error.replayed')
+              : error ? t('secondFactor.error.invalid') : message ?? t('status.serviceUnreachable');
+          }
+          login.error(t('log.secondFactorFailed'), { reason: error, credentialStored: false });
+          onStatus?.(t('status.secondFactorFailed'));
+          finish({ ok: false, outcome: error });
+          return null;
+        },
+      });
+    });
+
+  const beginEnrollment = async (): Promise<TotpEnrollment | string> => {
+    const enrollment = logger.span(t('log.totpEnrollment'));
+    const result = await post<TotpEnrollment>(enrollment, '/api/auth/totp/enroll');
+    if (!result.ok) {
+      enrollment.end('error');
+      return result.body.message ?? t('secondFactor.setup.failed');
+    }
+    redactor.register(result.body.secret, 'secret');
+    enrollment.info(t('log.totpSecretIssued'), {
+      digits: result.body.digits,
+      periodSeconds: result.body.periodSeconds,
+      qrCode: 'rendered in the page',
+    });
+    enrollment.end('ok');
+    return result.body;
+  };
+
+  const confirmEnrollment = async (code: string) => {
+    const confirmation = logger.span(t('log.totpConfirmation'));
+    const result = await post<{ recoveryCodes: string[] } & TotpStatus>(confirmation, '/api/auth/totp/enroll/confirm', { code });
+    if (!result.ok) {
+      confirmation.end('error', { reason: result.body.error ?? 'network_error' });
+      return result.body.error === 'invalid_code' ? t('secondFactor.error.invalid') : result.body.message ?? t('secondFactor.setup.failed');
+    }
+    result.body.recoveryCodes.forEach(recoveryCode => redactor.register(recoveryCode, 'secret'));
+    setStatus({ enrolled: result.body.enrolled, recoveryCodesLeft: result.body.recoveryCodesLeft });
+    confirmation.success(t('log.totpEnabled'), { recoveryCodes: result.body.recoveryCodes.length });
+    confirmation.end('ok');
+    return { recoveryCodes: result.body.recoveryCodes };
+  };
+
+  const disable = async (code: string) => {
+    const disabling = logger.span(t('log.totpDisabling'));
+    const result = await post<TotpStatus>(disabling, '/api/auth/totp/disable', { code });
+    if (!result.ok) {
+      disabling.end('error', { reason: result.body.error ?? 'network_error' });
+      return result.body.error === 'invalid_code' ? t('secondFactor.error.invalid') : result.body.message ?? t('status.loginFailed');
+    }
+    setStatus(result.body);
+    onStatus?.(t('status.secondFactorDisabled'));
+    disabling.end('ok');
+    return null;
+  };
+
+  // Enrollment is offered from password sign-ins; once enrolled, every sign-in
+  // method asks for a code.
+  const canEnroll = account?.method === 'password';
+  useEffect(() => {
+    if (!canEnroll) {
+      setStatus(null);
+      return;
+    }
+    let cancelled = false;
+    fetch('/api/auth/totp', { credentials: 'same-origin' })
+      .then(response => response.ok ? response.json() as Promise<TotpStatus> : null)
+      .catch(() => null)
+      .then(next => {
+        if (!cancelled) {
+          setStatus(next);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [canEnroll, account?.id]);
+
+  return { prompt, status, verify, beginEnrollment, confirmEnrollment, disable };
+}
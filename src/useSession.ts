@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { useI18n } from './i18n';
+import { errorFields, type LogScope, type Logger } from './logger';
+import type { Redactor } from './redaction';
+import { forgetAccount, loadKnownAccounts, rememberAccount, type KnownAccount } from './knownAccounts';
+import {
+  createSessionManager,
+  type PersistedSession,
+  type SessionEndReason,
+  type SessionEvent,
+  type SessionTimes,
+} from './sessionManager';
+
+// Activity pushes the server's idle deadline back, but at most this often.
+const ACTIVITY_REPORT_INTERVAL_MS = 30 * 1000;
+
+/** The profile a sign-in starts a session for; `lastUsedAt` is set on start. */
+export type SignedInAccount = Omit<KnownAccount, 'lastUsedAt'>;
+
+export interface SessionOptions {
+  logger: Logger;
+  redactor: Redactor;
+  /** Runs once the session has ended here, usually the credential manager's `signOut`. */
+  signOut: (scope: LogScope) => Promise<void>;
+  onStatus?: (message: string) => void;
+  /** A session was started in this tab, started in another tab, or restored at load. */
+  onSignedIn?: (account: KnownAccount, source: 'here' | 'other-tab' | 'restored') => void;
+  onSignedOut?: (reason: SessionEndReason, initiatedHere: boolean) => void;
+}
+
+export interface Session {
+  /** The signed-in profile and the service's deadlines; null when signed out. */
+  current: PersistedSession | null;
+  /** Whether other tabs follow sign-ins and sign-outs here. */
+  crossTab: boolean;
+  /** Accounts used on this device, most recent first. */
+  knownAccounts: KnownAccount[];
+  /** Every sign-in path ends here, so the session and the account list stay in step. */
+  start: (account: SignedInAccount, times: SessionTimes) => void;
+  /** Signs out here and, when `initiatedHere`, on the server and in the other tabs. */
+  end: (reason: SessionEndReason, initiatedHere?: boolean) => Promise<void>;
+  /** Pushes the server's deadlines back and applies them. */
+  refresh: (trigger: 'activity' | 'extend') => Promise<void>;
+  /** Checks a session persisted by an earlier visit against the server. */
+  resume: (restored: PersistedSession) => Promise<void>;
+  forgetAccount: (id: string) => void;
+}
+
+/**
+ * The app's own session around the credential manager: the server session
+ * behind an HttpOnly cookie, its deadlines, the sign-in state shared across
+ * tabs, and the device's list of accounts.
+ */
+export function useSession(options: SessionOptions): Session {
+  const { t } = useI18n();
+  const latestOptions = useRef(options);
+  latestOptions.current = options;
+  const { logger, redactor } = options;
+  const [sessionManager] = useState(createSessionManager);
+  const current = useSyncExternalStore(sessionManager.subscribe, sessionManager.getSession);
+  const [knownAccounts, setKnownAccounts] = useState<KnownAccount[]>(loadKnownAccounts);
+  const eventHandler = useRef<(event: SessionEvent) => void>();
+
+  const reportError = (context: string, error: unknown) => {
+    console.error(context, redactor.redactError(error));
+  };
+
+  const setStatus = (message: string) => latestOptions.current.onStatus?.(message);
+
+  const start = (account: SignedInAccount, times: SessionTimes) => {
+    const known = { ...account, lastUsedAt: Date.now() };
+    redactor.register(account.id, 'pii');
+    redactor.register(account.name, 'pii');
+    setKnownAccounts(rememberAccount(known));
+    sessionManager.start({ account: known, expiresAt: times.expiresAt, idleExpiresAt: times.idleExpiresAt });
+    logger.debug(t('log.sessionStarted'), {
+      expiresAt: new Date(times.expiresAt).toISOString(),
+      idleExpiresAt: new Date(times.idleExpiresAt).toISOString(),
+      broadcast: sessionManager.crossTab,
+    });
+    latestOptions.current.onSignedIn?.(known, 'here');
+  };
+
+  // Runs in every tab. The tab that ends the session also signs out on the
+  // server and tells the others, which then only clean up locally.
+  const end = async (reason: SessionEndReason, initiatedHere = true) => {
+    const logout = logger.span(initiatedHere ? t('log.logout') : t('log.remoteLogout'), { reason });
+    setStatus(reason === 'idle'
+      ? t('status.signedOutIdle')
+      : reason === 'expired' || reason === 'revoked'
+        ? t('status.sessionEnded')
+        : '');
+    sessionManager.end(reason, { broadcast: initiatedHere });
+    latestOptions.current.onSignedOut?.(reason, initiatedHere);
+    logout.debug(t('log.localSessionCleared'), { broadcast: initiatedHere && sessionManager.crossTab });
+
+    if (initiatedHere) {
+      const request = logout.span(t('log.endServerSession'), { method: 'POST', url: '/api/auth/logout' });
+      try {
+        const response = await fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' });
+        request.end(response.ok ? 'ok' : 'error', { status: response.status });
+      } catch (error) {
+        reportError('Logout request error:', error);
+        request.error(t('log.serverLogoutFailed'), errorFields(error));
+        request.end('error');
+      }
+    } else {
+      logout.debug(t('log.serverSessionAlreadyEnded'));
+    }
+
+    await latestOptions.current.signOut(logout);
+    logout.end('ok');
+  };
+
+  const refresh = async (trigger: 'activity' | 'extend') => {
+    try {
+      const response = await fetch('/api/auth/session', { method: 'POST', credentials: 'same-origin' });
+      if (!response.ok) {
+        logger.info(t('log.sessionInvalid'), { trigger, status: response.status });
+        await end('expired', true);
+        return;
+      }
+      const times: SessionTimes = await response.json();
+      sessionManager.update({ expiresAt: times.expiresAt, idleExpiresAt: times.idleExpiresAt });
+      logger.debug(trigger === 'extend' ? t('log.sessionExtended') : t('log.sessionActivity'), {
+        idleExpiresAt: new Date(times.idleExpiresAt).toISOString(),
+      });
+    } catch (error) {
+      reportError('Session refresh error:', error);
+      logger.error(t('log.sessionRefreshFailed'), errorFields(error));
+    }
+  };
+  const latestRefresh = useRef(refresh);
+  latestRefresh.current = refresh;
+
+  const resume = async (restored: PersistedSession) => {
+    const span = logger.span(t('log.restoreSession'), {
+      username: restored.account.id,
+      method: restored.account.method,
+      expiresAt: new Date(restored.expiresAt).toISOString(),
+    });
+    redactor.register(restored.account.id, 'pii');
+    redactor.register(restored.account.name, 'pii');
+    latestOptions.current.onSignedIn?.(restored.account, 'restored');
+    try {
+      const response = await fetch('/api/auth/session', { credentials: 'same-origin' });
+      span.debug(t('log.serverSessionChecked'), { url: '/api/auth/session', status: response.status });
+      if (!response.ok) {
+        span.info(t('log.serverSessionEnded'));
+        span.end('ok', { outcome: 'ended' });
+        await end('expired', true);
+        return;
+      }
+      const times: SessionTimes = await response.json();
+      sessionManager.update({ expiresAt: times.expiresAt, idleExpiresAt: times.idleExpiresAt });
+      setStatus(t('status.sessionRestored'));
+      span.end('ok', { outcome: 'restored' });
+    } catch (error) {
+      reportError('Session restore error:', error);
+      span.error(t('log.restoreUnreachable'), errorFields(error));
+      span.end('error');
+    }
+  };
+
+  // Assigned on every render, so the subscription below always runs the
+  // latest one.
+  eventHandler.current = (event: SessionEvent) => {
+    switch (event.type) {
+      case 'remote-login':
+        redactor.register(event.session.account.id, 'pii');
+        redactor.register(event.session.account.name, 'pii');
+        setStatus(t('status.remoteLogin', { name: event.session.account.name }));
+        logger.info(t('log.remoteLogin'), { username: event.session.account.id, method: event.session.account.method });
+        latestOptions.current.onSignedIn?.(event.session.account, 'other-tab');
+        break;
+      case 'remote-logout':
+        if (sessionManager.getSession()) {
+          end(event.reason, false);
+        } else {
+          logger.debug(t('log.remoteLogoutIgnored'), { reason: event.reason });
+        }
+        break;
+      case 'timeout':
+        logger.info(event.reason === 'idle' ? t('log.idleTimeout') : t('log.sessionExpired'), { reason: event.reason });
+        end(event.reason, true);
+        break;
+    }
+  };
+
+  useEffect(() => sessionManager.onEvent(event => eventHandler.current?.(event)), [sessionManager]);
+
+  const isSignedIn = current !== null;
+  useEffect(() => {
+    if (!isSignedIn) {
+      return;
+    }
+    let lastReportedAt = Date.now();
+    const reportActivity = () => {
+      if (Date.now() - lastReportedAt >= ACTIVITY_REPORT_INTERVAL_MS) {
+        lastReportedAt = Date.now();
+        latestRefresh.current('activity');
+      }
+    };
+    const events = ['pointerdown', 'keydown'] as const;
+    events.forEach(type => window.addEventListener(type, reportActivity, { passive: true }));
+    return () => events.forEach(type => window.removeEventListener(type, reportActivity));
+  }, [isSignedIn]);
+
+  return {
+    current,
+    crossTab: sessionManager.crossTab,
+    knownAccounts,
+    start,
+    end,
+    refresh,
+    resume,
+    forgetAccount: id => setKnownAccounts(forgetAccount(id)),
+  };
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Comma-separated origins allowed to embed the widget; see src/embed.ts. */
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string;
+}
@@ -1,10 +1,26 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { authService } from './server/authPlugin';
+import { breachedPasswordService } from './server/breachedPasswords';
+import { framingPolicy } from './server/framing';
+import { MockIdentityProvider, mockIdentityProvider } from './server/identityProvider';
+import { RelyingParty } from './server/relyingParty';
+import { TotpVerifier } from './server/totp';
+
+const identityProvider = new MockIdentityProvider();
+const relyingParty = new RelyingParty();
+const totp = new TotpVerifier();
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  plugins: [
+    react(),
+    framingPolicy(loadEnv(mode, process.cwd(), 'VITE_').VITE_EMBED_ALLOWED_ORIGINS),
+    authService({ identityProvider, relyingParty, totp }),
+    mockIdentityProvider(identityProvider),
+    breachedPasswordService(),
+  ],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
+}));
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Builds src/index.ts as an ES module library; `npm run build:lib` then emits
+// the type declarations with tsconfig.lib.json. React and lucide-react stay
+// peer dependencies so the host app's copies are used.
+export default defineConfig({
+  plugins: [react()],
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    lib: {
+      entry: 'src/index.ts',
+      formats: ['es'],
+      fileName: 'credential-manager',
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react/jsx-runtime', 'lucide-react'],
+    },
+  },
+});